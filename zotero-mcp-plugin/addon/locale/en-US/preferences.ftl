@@ -24,6 +24,23 @@ pref-auth-regen-token-button =
     .label = Regenerate
 pref-auth-token-hint = Paste this into your AI client's MCP config as Authorization: Bearer <token>. Regenerating invalidates existing client configs.
 
+pref-client-tokens-title = Client Tokens
+pref-client-tokens-hint = Give each MCP client its own token, limited to the tools, write scopes and collections listed here. A client never gets a write scope that is disabled below. Leave tools empty for all tools and scopes empty for read-only access.
+pref-client-token-name-label = Name:
+pref-client-token-tools-label = Tools:
+pref-client-token-scopes-label = Scopes:
+pref-client-token-collections-label = Collections:
+pref-client-token-expires-label = Expires:
+pref-client-token-add-button =
+    .label = Add Client Token
+pref-client-tokens-empty = No client tokens. Clients use the token above.
+pref-client-token-copy-button = Copy Token
+pref-client-token-revoke-button = Revoke
+pref-client-token-confirm-revoke = Revoke this client token? The client will be refused until given a new one.
+pref-client-token-created = Client token created. Copy it into that client's MCP config.
+pref-client-token-expired = expired
+pref-client-token-read-only = read-only
+
 pref-write-scopes-title = Write Scopes
 pref-write-scopes-hint = Each scope must be enabled before its tools are exposed. Destructive scopes are highlighted.
 pref-write-scope-notes =
@@ -40,6 +57,14 @@ pref-write-scope-bulk =
     .label = Bulk operations (batch tag, batch trash, library-wide tag rename) — destructive
 pref-write-scope-import =
     .label = Import attachments from URL (SSRF risk) — destructive
+pref-write-scope-index =
+    .label = Semantic index (build, pause, abort, delete item vectors; uses embedding API quota)
+pref-write-scope-annotations =
+    .label = PDF annotations (create, edit, delete highlights and notes; deletes are permanent)
+pref-write-scope-merge =
+    .label = Merge duplicate items (rewrites the kept item, trashes the others) — destructive
+pref-write-library-scopes-label = Group libraries
+pref-write-library-scopes-hint = Writes to group libraries need the scope above AND a grant here: a JSON object mapping libraryID (see list_libraries) to a list of scopes, or ["*"] for all. The personal library only needs the scopes above.
 
 pref-mcp-settings-title = MCP Content Settings
 pref-mcp-settings-description = Configure how the MCP server processes and returns content to AI clients
@@ -64,6 +89,8 @@ pref-enable-compression-label =
     .label = Enable content compression
 pref-include-metadata-label = 
     .label = Include item metadata in responses
+pref-custom-prompts-label = Custom prompt templates (JSON)
+pref-custom-prompts-hint = A JSON array of prompts, each with name, description, arguments and template. Templates fill double-brace placeholders with argument values and with item, annotations, collection or bibliography context. See the README for an example.
 
 pref-client-config-title = Client Configuration Generator
 pref-client-config-description = Generate MCP server configuration files for popular AI clients to easily connect to the Zotero MCP server.
@@ -189,6 +216,36 @@ first-install-prompt = Thank you for installing Zotero MCP for Claude Code! To g
 first-install-open-prefs = Open Settings
 first-install-later = Configure Later
 
+pref-agent-edits-title = Agent Edit History
+pref-agent-edits-hint = Recent changes made through MCP write tools, newest first. Undo restores every item and collection an operation changed, all at once; objects it created go to the trash.
+pref-agent-edits-refresh-button =
+    .label = Refresh
+pref-agent-edits-empty = No agent edits recorded yet.
+pref-agent-edits-undo-button = Undo
+pref-agent-edits-undone = undone
+pref-agent-edits-failed = failed partway
+pref-agent-edits-confirm-undo = Undo this operation? Items and collections it changed return to their earlier state.
+pref-agent-edits-confirm-force = Some of these objects were changed after the operation. Undo anyway and overwrite those changes?
+pref-agent-edits-undo-done = Operation undone
+pref-agent-edits-error = Undo failed
+
+pref-audit-log-title = Audit Log
+pref-audit-log-hint = Every MCP tool call, newest first: when, which session and client, the tool and its arguments (note and annotation text redacted), the outcome and the items it touched. Clients can read it with get_audit_log.
+pref-audit-log-enabled =
+    .label = Record tool calls
+pref-audit-log-retention-days = Keep for (days):
+pref-audit-log-max-entries = Keep at most (calls):
+pref-audit-log-refresh-button =
+    .label = Refresh
+pref-audit-log-export-button =
+    .label = Export JSON Lines…
+pref-audit-log-clear-button =
+    .label = Clear
+pref-audit-log-empty = No tool calls recorded yet.
+pref-audit-log-exported = Audit log exported
+pref-audit-log-confirm-clear = Delete the whole audit log? This cannot be undone.
+pref-audit-log-error = Audit log error
+
 pref-contact-title = Contact Information
 pref-contact-github = GitHub: https://github.com/lricher7329/zotero-mcp-claude-code
 pref-contact-original = Original project: https://github.com/cookjohn/zotero-mcp
\ No newline at end of file
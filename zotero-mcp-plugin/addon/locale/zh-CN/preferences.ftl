@@ -24,6 +24,23 @@ pref-auth-regen-token-button =
     .label = 重新生成
 pref-auth-token-hint = 将此 Token 粘贴到 AI 客户端 MCP 配置的 Authorization: Bearer <token>。重新生成会使旧的客户端配置失效。
 
+pref-client-tokens-title = 客户端 Token
+pref-client-tokens-hint = 为每个 MCP 客户端单独发放 Token，并限定其可用的工具、写入范围和分类。下方未启用的写入范围不会授予任何客户端。工具留空表示全部工具，范围留空表示只读。
+pref-client-token-name-label = 名称：
+pref-client-token-tools-label = 工具：
+pref-client-token-scopes-label = 范围：
+pref-client-token-collections-label = 分类：
+pref-client-token-expires-label = 过期：
+pref-client-token-add-button =
+    .label = 添加客户端 Token
+pref-client-tokens-empty = 暂无客户端 Token，客户端使用上方的 Token。
+pref-client-token-copy-button = 复制 Token
+pref-client-token-revoke-button = 吊销
+pref-client-token-confirm-revoke = 吊销此客户端 Token？该客户端在获得新 Token 前将被拒绝访问。
+pref-client-token-created = 已创建客户端 Token，请将其复制到该客户端的 MCP 配置中。
+pref-client-token-expired = 已过期
+pref-client-token-read-only = 只读
+
 pref-write-scopes-title = 写入范围
 pref-write-scopes-hint = 各范围需单独启用，对应工具才会暴露。带颜色项为破坏性操作。
 pref-write-scope-notes =
@@ -40,6 +57,14 @@ pref-write-scope-bulk =
     .label = 批量操作（批量打标、批量回收、库级标签重命名）— 破坏性
 pref-write-scope-import =
     .label = 从 URL 导入附件（SSRF 风险）— 破坏性
+pref-write-scope-index =
+    .label = 语义索引（构建、暂停、中止、删除条目向量；消耗嵌入 API 配额）
+pref-write-scope-annotations =
+    .label = PDF 注释（创建、编辑、删除高亮和笔记；删除不可恢复）
+pref-write-scope-merge =
+    .label = 合并重复条目（改写保留的条目，其余移入回收站）— 破坏性
+pref-write-library-scopes-label = 群组文库
+pref-write-library-scopes-hint = 写入群组文库需同时启用上方范围并在此授权：以 libraryID（见 list_libraries）为键、范围列表为值的 JSON 对象，["*"] 表示全部范围。个人文库只需上方范围。
 
 pref-mcp-settings-title = MCP 内容设置
 pref-mcp-settings-description = 配置 MCP 服务器如何处理和返回内容给 AI 客户端
@@ -64,6 +89,8 @@ pref-enable-compression-label =
     .label = 启用内容压缩
 pref-include-metadata-label = 
     .label = 在响应中包含项目元数据
+pref-custom-prompts-label = 自定义提示模板（JSON）
+pref-custom-prompts-hint = JSON 数组，每个提示包含 name、description、arguments 和 template。模板中的双花括号占位符会被参数值以及 item、annotations、collection、bibliography 上下文填充。示例见 README。
 
 pref-client-config-title = 客户端配置生成器
 pref-client-config-description = 为主流 AI 客户端生成 MCP 服务器配置文件，方便快速连接到 Zotero MCP 服务器。
@@ -189,6 +216,36 @@ first-install-prompt = 感谢安装 Zotero MCP for Claude Code！为了开始使
 first-install-open-prefs = 打开设置
 first-install-later = 稍后配置
 
+pref-agent-edits-title = 智能体编辑记录
+pref-agent-edits-hint = 通过 MCP 写入工具所做的近期更改，最新的在前。撤销会一次性恢复该操作更改的全部条目和分类；操作新建的对象移入回收站。
+pref-agent-edits-refresh-button =
+    .label = 刷新
+pref-agent-edits-empty = 尚无智能体编辑记录。
+pref-agent-edits-undo-button = 撤销
+pref-agent-edits-undone = 已撤销
+pref-agent-edits-failed = 部分失败
+pref-agent-edits-confirm-undo = 撤销此操作？其更改的条目和分类将恢复到之前的状态。
+pref-agent-edits-confirm-force = 部分对象在此操作之后又被修改。仍要撤销并覆盖这些修改吗？
+pref-agent-edits-undo-done = 操作已撤销
+pref-agent-edits-error = 撤销失败
+
+pref-audit-log-title = 审计日志
+pref-audit-log-hint = 记录每次 MCP 工具调用（最新在前）：时间、会话与客户端、工具及其参数（笔记与注释文本已隐去）、结果以及涉及的条目。客户端可通过 get_audit_log 读取。
+pref-audit-log-enabled =
+    .label = 记录工具调用
+pref-audit-log-retention-days = 保留天数：
+pref-audit-log-max-entries = 最多保留条数：
+pref-audit-log-refresh-button =
+    .label = 刷新
+pref-audit-log-export-button =
+    .label = 导出 JSON Lines…
+pref-audit-log-clear-button =
+    .label = 清空
+pref-audit-log-empty = 暂无工具调用记录。
+pref-audit-log-exported = 审计日志已导出
+pref-audit-log-confirm-clear = 删除全部审计日志？此操作无法撤销。
+pref-audit-log-error = 审计日志错误
+
 pref-contact-title = 联系方式
 pref-contact-github = GitHub：https://github.com/lricher7329/zotero-mcp-claude-code
 pref-contact-original = 原始项目：https://github.com/cookjohn/zotero-mcp
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { BasicExampleFactory } from "./modules/examples";
 import { httpServer } from "./modules/httpServer"; // Use singleton export
 import { serverPreferences } from "./modules/serverPreferences";
+import { notificationHub } from "./modules/notificationHub";
+import { resourceChangesForNotifierEvent } from "./modules/resourceProvider";
 import { getString, initLocale } from "./utils/locale";
 import { registerPrefsScripts } from "./modules/preferenceScript";
 import { createZToolkit } from "./utils/ztoolkit";
@@ -17,6 +19,7 @@ const PREF_SEMANTIC_AUTO_UPDATE =
 
 // Store notifier ID for cleanup
 let itemNotifierID: string | null = null;
+let resourceNotifierID: string | null = null;
 
 // Debounce timer for auto-update
 let autoUpdateDebounceTimer: ReturnType<typeof setTimeout> | null = null;
@@ -393,6 +396,55 @@ async function triggerAutoIndexBuild() {
   }
 }
 
+/**
+ * Register Zotero notifier that turns library changes into MCP
+ * resources/updated and resources/list_changed notifications. Separate from
+ * the auto-index notifier, which only runs when auto-update is on.
+ */
+function registerResourceNotifier() {
+  resourceNotifierID = Zotero.Notifier.registerObserver(
+    {
+      notify: async (
+        event: string,
+        type: string,
+        ids: (string | number)[],
+        extraData: any,
+      ) => {
+        if (isShuttingDown) return;
+        // Nobody listening: skip the item lookups entirely.
+        if (!notificationHub.hasListeners()) return;
+        try {
+          const { uris, listChanged } = resourceChangesForNotifierEvent(
+            event,
+            type,
+            ids,
+            extraData,
+          );
+          if (uris.length > 0) notificationHub.resourcesUpdated(uris);
+          if (listChanged) notificationHub.resourcesListChanged();
+        } catch (error) {
+          ztoolkit.log(
+            `[MCP Plugin] Resource notifier error: ${error}`,
+            "error",
+          );
+        }
+      },
+    },
+    ["item", "collection", "collection-item"],
+    "zotero-mcp-plugin-resources",
+  );
+  ztoolkit.log(
+    `[MCP Plugin] Resource notifier registered: ${resourceNotifierID}`,
+  );
+}
+
+function unregisterResourceNotifier() {
+  if (resourceNotifierID) {
+    Zotero.Notifier.unregisterObserver(resourceNotifierID);
+    resourceNotifierID = null;
+  }
+}
+
 /**
  * Unregister item notifier
  */
@@ -596,6 +648,13 @@ async function onStartup() {
   serverPreferences.addObserver(async (name) => {
     ztoolkit.log(`[MCP Plugin] Preference changed: ${name}`);
 
+    // Scope toggles add/remove write tools; tell connected clients.
+    if (serverPreferences.isWriteScopePref(name)) {
+      notificationHub.toolsListChanged();
+    } else if (serverPreferences.isCustomPromptsPref(name)) {
+      notificationHub.promptsListChanged();
+    }
+
     if (
       name === "extensions.zotero.zotero-mcp-plugin.mcp.server.port" ||
       name === "extensions.zotero.zotero-mcp-plugin.mcp.server.enabled"
@@ -639,6 +698,7 @@ async function onStartup() {
 
   // Register item notifier for auto-update semantic index
   registerItemNotifier();
+  registerResourceNotifier();
 
   // Mark initialized as true to confirm plugin loading status
   // outside of the plugin (e.g. scaffold testing process)
@@ -684,6 +744,7 @@ function onShutdown(): void {
   // Unregister item change observer
   try {
     unregisterItemNotifier();
+    unregisterResourceNotifier();
     ztoolkit.log("[MCP Plugin] Item notifier unregistered during shutdown");
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
@@ -0,0 +1,227 @@
+/**
+ * Text anchoring for annotations written through MCP.
+ *
+ * Pure functions — no Zotero dependencies. pdfTextLayer reads a page's text
+ * items (pdf.js getTextContent, converted to PDF-space rectangles); this
+ * module finds a quoted passage among them and turns the match into the
+ * `position` and `sortIndex` Zotero stores on annotation items.
+ */
+
+/** [x1, y1, x2, y2] in PDF user space (origin bottom-left). */
+export type Rect = [number, number, number, number];
+
+export interface TextLayerItem {
+  str: string;
+  rect: Rect;
+  /** pdf.js marks the last item of a line. */
+  hasEOL?: boolean;
+}
+
+export interface TextLayerPage {
+  pageIndex: number;
+  pageLabel: string;
+  width: number;
+  height: number;
+  items: TextLayerItem[];
+}
+
+export interface TextAnchor {
+  pageIndex: number;
+  pageLabel: string;
+  /** One rectangle per line the passage spans. */
+  rects: Rect[];
+  /** The passage as it appears on the page. */
+  text: string;
+  sortIndex: string;
+}
+
+/** Zotero's reader palette; names are accepted in place of hex values. */
+export const ANNOTATION_COLORS: Record<string, string> = {
+  yellow: "#ffd400",
+  red: "#ff6666",
+  green: "#5fb236",
+  blue: "#2ea8e5",
+  purple: "#a28ae5",
+  magenta: "#e56eee",
+  orange: "#f19837",
+  gray: "#aaaaaa",
+};
+
+/** Side of the square icon the reader draws for note annotations. */
+const NOTE_SIZE = 22;
+
+// Typographic variants PDFs use where a quote typed by hand has ASCII.
+const CHAR_EQUIVALENTS: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "–": "-",
+  "—": "-",
+  " ": " ",
+};
+
+function normalizeChar(ch: string): string {
+  return (CHAR_EQUIVALENTS[ch] ?? ch).toLowerCase();
+}
+
+/**
+ * Whitespace-collapsed, case-folded form of a quote, as matched against
+ * page text.
+ */
+export function normalizeQuote(quote: string): string {
+  let out = "";
+  for (const ch of quote) {
+    const c = normalizeChar(ch);
+    if (/\s/.test(c)) {
+      if (out && !out.endsWith(" ")) out += " ";
+    } else {
+      out += c;
+    }
+  }
+  return out.trimEnd();
+}
+
+/**
+ * Resolve a color argument to a hex value: a palette name or "#rrggbb".
+ * Returns null for anything else.
+ */
+export function resolveAnnotationColor(color: string): string | null {
+  const lower = color.trim().toLowerCase();
+  if (ANNOTATION_COLORS[lower]) return ANNOTATION_COLORS[lower];
+  return /^#[0-9a-f]{6}$/.test(lower) ? lower : null;
+}
+
+/** The reader's sort key: page, character offset, then distance from top. */
+export function buildSortIndex(
+  pageIndex: number,
+  offset: number,
+  top: number,
+): string {
+  return [
+    String(pageIndex).padStart(5, "0"),
+    String(Math.max(0, offset)).padStart(6, "0"),
+    String(Math.max(0, Math.floor(top))).padStart(5, "0"),
+  ].join("|");
+}
+
+/**
+ * Find `quote` on a page. Matching ignores case, runs of whitespace, line
+ * breaks and hyphenation at line ends, so a passage copied from extracted
+ * text still anchors. Returns the first occurrence, or null.
+ */
+export function findTextAnchor(
+  page: TextLayerPage,
+  quote: string,
+): TextAnchor | null {
+  const needle = normalizeQuote(quote);
+  if (!needle) return null;
+
+  // Normalized page text, with each character's source (item, char index).
+  let text = "";
+  const sources: Array<[number, number]> = [];
+  // Items whose line-end hyphen was dropped to rejoin a split word.
+  const hyphenated = new Set<number>();
+  page.items.forEach((item, itemIndex) => {
+    if (text && !text.endsWith(" ")) {
+      if (text.endsWith("-") && page.items[itemIndex - 1]?.hasEOL) {
+        // "meth-" + "od" reads as "method"
+        text = text.slice(0, -1);
+        sources.pop();
+        hyphenated.add(itemIndex - 1);
+      } else {
+        text += " ";
+        sources.push([itemIndex, -1]);
+      }
+    }
+    Array.from(item.str).forEach((ch, charIndex) => {
+      const c = normalizeChar(ch);
+      if (/\s/.test(c)) {
+        if (text && !text.endsWith(" ")) {
+          text += " ";
+          sources.push([itemIndex, -1]);
+        }
+      } else {
+        text += c;
+        sources.push([itemIndex, charIndex]);
+      }
+    });
+  });
+
+  const start = text.indexOf(needle);
+  if (start < 0) return null;
+  const end = start + needle.length;
+
+  // Character span touched in each item, in reading order.
+  const spans = new Map<number, [number, number]>();
+  for (let i = start; i < end; i++) {
+    const [itemIndex, charIndex] = sources[i];
+    if (charIndex < 0) continue;
+    const span = spans.get(itemIndex);
+    if (span) span[1] = charIndex;
+    else spans.set(itemIndex, [charIndex, charIndex]);
+  }
+
+  const pieces: Rect[] = [];
+  let matched = "";
+  let previous = -1;
+  for (const [itemIndex, [from, to]] of spans) {
+    const item = page.items[itemIndex];
+    const chars = Array.from(item.str);
+    const [x1, y1, x2, y2] = item.rect;
+    const charWidth = (x2 - x1) / Math.max(chars.length, 1);
+    pieces.push([x1 + from * charWidth, y1, x1 + (to + 1) * charWidth, y2]);
+    if (previous >= 0 && !hyphenated.has(previous)) matched += " ";
+    matched += chars.slice(from, to + 1).join("");
+    previous = itemIndex;
+  }
+
+  const rects = mergeLineRects(pieces);
+  return {
+    pageIndex: page.pageIndex,
+    pageLabel: page.pageLabel,
+    rects,
+    text: matched.replace(/\s+/g, " ").trim(),
+    sortIndex: buildSortIndex(page.pageIndex, start, page.height - rects[0][3]),
+  };
+}
+
+/**
+ * Union rectangles that sit on the same line (more than half of the shorter
+ * one's height overlapping), keeping reading order.
+ */
+export function mergeLineRects(rects: Rect[]): Rect[] {
+  const lines: Rect[] = [];
+  for (const rect of rects) {
+    const last = lines[lines.length - 1];
+    if (last) {
+      const overlap = Math.min(last[3], rect[3]) - Math.max(last[1], rect[1]);
+      const height = Math.min(last[3] - last[1], rect[3] - rect[1]);
+      if (height > 0 && overlap > height / 2) {
+        lines[lines.length - 1] = [
+          Math.min(last[0], rect[0]),
+          Math.min(last[1], rect[1]),
+          Math.max(last[2], rect[2]),
+          Math.max(last[3], rect[3]),
+        ];
+        continue;
+      }
+    }
+    lines.push(rect);
+  }
+  return lines;
+}
+
+/**
+ * Where a note annotation's icon goes: just above the start of the anchored
+ * passage, or in the page's top-left corner when there is none.
+ */
+export function noteRect(page: TextLayerPage, anchor?: Rect): Rect {
+  if (anchor) {
+    const x = Math.max(0, Math.min(anchor[0], page.width - NOTE_SIZE));
+    const y = Math.min(anchor[3], page.height - NOTE_SIZE);
+    return [x, y, x + NOTE_SIZE, y + NOTE_SIZE];
+  }
+  const y = page.height - 2 * NOTE_SIZE;
+  return [NOTE_SIZE, y, 2 * NOTE_SIZE, y + NOTE_SIZE];
+}
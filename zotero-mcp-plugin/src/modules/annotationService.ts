@@ -43,6 +43,14 @@ export interface AnnotationSearchParams {
 }
 
 export class AnnotationService {
+  /**
+   * @param libraryID Library every lookup runs against (defaults to the
+   * personal library)
+   */
+  constructor(
+    private readonly libraryID: number = Zotero.Libraries.userLibraryID,
+  ) {}
+
   /**
    * Smart text truncation, preserving complete sentences
    */
@@ -175,7 +183,7 @@ export class AnnotationService {
       if (itemKey) {
         // Get notes for specific item
         const parentItem = Zotero.Items.getByLibraryAndKey(
-          Zotero.Libraries.userLibraryID,
+          this.libraryID,
           itemKey,
         );
         if (!parentItem) {
@@ -187,7 +195,7 @@ export class AnnotationService {
       } else {
         // Get all notes
         const search = new Zotero.Search();
-        (search as any).libraryID = Zotero.Libraries.userLibraryID;
+        (search as any).libraryID = this.libraryID;
         search.addCondition("itemType", "is", "note");
 
         const itemIds = await search.search();
@@ -232,10 +240,7 @@ export class AnnotationService {
         `[AnnotationService] Getting PDF annotations for ${itemKey}`,
       );
 
-      const item = Zotero.Items.getByLibraryAndKey(
-        Zotero.Libraries.userLibraryID,
-        itemKey,
-      );
+      const item = Zotero.Items.getByLibraryAndKey(this.libraryID, itemKey);
 
       if (!item) {
         throw new Error(`Item with key ${itemKey} not found`);
@@ -345,7 +350,7 @@ export class AnnotationService {
           );
           try {
             const search = new Zotero.Search();
-            (search as any).libraryID = Zotero.Libraries.userLibraryID;
+            (search as any).libraryID = this.libraryID;
             search.addCondition("itemType", "is", "annotation");
             const annotationIds = await search.search();
             ztoolkit.log(
@@ -379,9 +384,7 @@ export class AnnotationService {
               "warn",
             );
             // Fallback to old method
-            const allItems = await Zotero.Items.getAll(
-              Zotero.Libraries.userLibraryID,
-            );
+            const allItems = await Zotero.Items.getAll(this.libraryID);
             const itemLimit = 100;
             let processedCount = 0;
             for (const item of allItems) {
@@ -717,9 +720,7 @@ export class AnnotationService {
       }
 
       // Search all PDF annotations
-      const allItems = await Zotero.Items.getAll(
-        Zotero.Libraries.userLibraryID,
-      );
+      const allItems = await Zotero.Items.getAll(this.libraryID);
       for (const item of allItems.slice(0, 100)) {
         // Limit search scope to avoid performance issues
         if (item.isRegularItem() && !item.isNote() && !item.isAttachment()) {
@@ -748,6 +749,30 @@ export class AnnotationService {
   /**
    * Get full annotation content in batch
    */
+  /**
+   * Notes and PDF annotations by item key, in the order given. Keys of
+   * items that no longer exist, are trashed, or have no text are skipped.
+   */
+  getAnnotationsByKeys(
+    keys: string[],
+    detailed: boolean = false,
+  ): AnnotationContent[] {
+    const results: AnnotationContent[] = [];
+    for (const key of keys) {
+      const item = Zotero.Items.getByLibraryAndKey(this.libraryID, key);
+      if (!item || item.deleted) continue;
+      const annotation = item.isNote()
+        ? this.formatNoteItem(item)
+        : item.isAnnotation()
+          ? this.formatAnnotationItem(item, item.parentItem?.key ?? "")
+          : null;
+      if (annotation) {
+        results.push(this.processAnnotationContent(annotation, detailed));
+      }
+    }
+    return results;
+  }
+
   async getAnnotationsByIds(
     annotationIds: string[],
   ): Promise<AnnotationContent[]> {
@@ -9,6 +9,12 @@ import {
 } from "./collectionFormatter";
 import { handleSearchRequest } from "./searchEngine";
 import { FulltextService } from "./fulltextService";
+import {
+  continuePagination,
+  CursorError,
+  startPagination,
+  type Page,
+} from "./pagination";
 
 declare let ztoolkit: ZToolkit;
 
@@ -57,10 +63,10 @@ export async function handleGetItem(
   }
 
   try {
-    const item = Zotero.Items.getByLibraryAndKey(
-      Zotero.Libraries.userLibraryID,
-      itemKey,
-    );
+    const libraryID =
+      parseInt(query.get("libraryID") || "", 10) ||
+      Zotero.Libraries.userLibraryID;
+    const item = Zotero.Items.getByLibraryAndKey(libraryID, itemKey);
 
     if (!item) {
       return {
@@ -96,10 +102,12 @@ export async function handleGetItem(
 /**
  * Handles the /search endpoint to search for items.
  * @param query - URL query parameters for the search.
+ * @param sessionId - MCP session whose snapshots a `cursor` refers to.
  * @returns A promise that resolves to an HttpResponse.
  */
 export async function handleSearch(
   query: URLSearchParams,
+  sessionId?: string,
 ): Promise<HttpResponse> {
   ztoolkit.log("[MCP ApiHandlers] handleSearch called");
 
@@ -135,7 +143,7 @@ export async function handleSearch(
       `[MCP ApiHandlers] Search params: ${Object.keys(searchParams).length} keys`,
     );
 
-    const searchResult = await handleSearchRequest(searchParams);
+    const searchResult = await handleSearchRequest(searchParams, sessionId);
 
     ztoolkit.log(
       `[MCP ApiHandlers] Search engine returned ${searchResult.results?.length || 0} results`,
@@ -368,7 +376,7 @@ export async function handleGetCollectionDetails(
       status: 200,
       statusText: "OK",
       headers: { "Content-Type": "application/json; charset=utf-8" },
-      body: JSON.stringify(formatCollectionDetails(collection, options)),
+      body: JSON.stringify(await formatCollectionDetails(collection, options)),
     };
   } catch (e) {
     const error = e instanceof Error ? e : new Error(String(e));
@@ -385,12 +393,15 @@ export async function handleGetCollectionDetails(
 /**
  * Handles GET /collections/:collectionKey/items endpoint.
  * @param params - URL parameters.
- * @param query - URL query parameters.
- * @returns A promise that resolves to an HttpResponse.
+ * @param query - URL query parameters; `cursor` continues an earlier page.
+ * @param sessionId - MCP session whose snapshots a `cursor` refers to.
+ * @returns A promise that resolves to an HttpResponse. The next page's
+ * cursor, if any, is in the X-Next-Cursor header.
  */
 export async function handleGetCollectionItems(
   params: Record<string, string>,
   query: URLSearchParams,
+  sessionId?: string,
 ): Promise<HttpResponse> {
   try {
     const collectionKey = params[1];
@@ -436,23 +447,51 @@ export async function handleGetCollectionItems(
 
     const limit = parseInt(query.get("limit") || "100", 10);
     const offset = parseInt(query.get("offset") || "0", 10);
+    const cursor = query.get("cursor");
     const fields = query.get("fields")?.split(",");
+    // Snapshots are per collection, so one collection's cursor can't page
+    // through another.
+    const tool = `get_collection_items:${libraryID}/${collectionKey}`;
 
-    ztoolkit.log(`[ApiHandlers] Pagination: limit=${limit}, offset=${offset}`);
     ztoolkit.log(
-      `[ApiHandlers] Fields requested: ${fields?.join(", ") || "default"}`,
+      `[ApiHandlers] Pagination: limit=${limit}, ${cursor ? "cursor" : `offset=${offset}`}`,
     );
-
-    const itemIDs = collection.getChildItems(true);
-    const total = itemIDs.length;
     ztoolkit.log(
-      `[ApiHandlers] Collection contains ${total} items, IDs: [${itemIDs.slice(0, 5).join(", ")}${itemIDs.length > 5 ? "..." : ""}]`,
+      `[ApiHandlers] Fields requested: ${fields?.join(", ") || "default"}`,
     );
 
-    const paginatedIDs = itemIDs.slice(offset, offset + limit);
-    ztoolkit.log(`[ApiHandlers] Paginated IDs: [${paginatedIDs.join(", ")}]`);
+    let page: Page<number>;
+    if (cursor) {
+      try {
+        page = continuePagination<number>(
+          sessionId,
+          tool,
+          cursor,
+          query.get("limit") ? limit : undefined,
+        );
+      } catch (error) {
+        if (!(error instanceof CursorError)) throw error;
+        return {
+          status: 400,
+          statusText: "Bad Request",
+          headers: { "Content-Type": "application/json; charset=utf-8" },
+          body: JSON.stringify({ error: error.message }),
+        };
+      }
+    } else {
+      const itemIDs = collection.getChildItems(true);
+      ztoolkit.log(
+        `[ApiHandlers] Collection contains ${itemIDs.length} items, IDs: [${itemIDs.slice(0, 5).join(", ")}${itemIDs.length > 5 ? "..." : ""}]`,
+      );
+      page = startPagination(sessionId, tool, itemIDs, { limit, offset });
+    }
+    const total = page.total;
+    ztoolkit.log(`[ApiHandlers] Paginated IDs: [${page.ids.join(", ")}]`);
 
-    const items = Zotero.Items.get(paginatedIDs);
+    // Items deleted or trashed since the snapshot are left out.
+    const items = Zotero.Items.get(page.ids).filter(
+      (item: Zotero.Item) => item && !item.deleted,
+    );
     ztoolkit.log(
       `[ApiHandlers] Retrieved ${items.length} item objects from Zotero`,
     );
@@ -467,6 +506,7 @@ export async function handleGetCollectionItems(
       headers: {
         "Content-Type": "application/json; charset=utf-8",
         "X-Total-Count": total.toString(),
+        ...(page.nextCursor ? { "X-Next-Cursor": page.nextCursor } : {}),
       },
       body: JSON.stringify(formattedItems),
     };
@@ -855,6 +895,9 @@ export async function handleSearchFulltext(
       contextLength,
       maxResults,
       caseSensitive: query.get("caseSensitive") === "true",
+      libraryID:
+        parseInt(query.get("libraryID") || "", 10) ||
+        Zotero.Libraries.userLibraryID,
     };
 
     const searchResult = await fulltextService.searchFulltext(q, options);
@@ -905,10 +948,10 @@ export async function handleGetItemAbstract(
   ztoolkit.log(`[MCP ApiHandlers] Getting abstract for item ${itemKey}`);
 
   try {
-    const item = Zotero.Items.getByLibraryAndKey(
-      Zotero.Libraries.userLibraryID,
-      itemKey,
-    );
+    const libraryID =
+      parseInt(query.get("libraryID") || "", 10) ||
+      Zotero.Libraries.userLibraryID;
+    const item = Zotero.Items.getByLibraryAndKey(libraryID, itemKey);
 
     if (!item) {
       return {
@@ -0,0 +1,277 @@
+/**
+ * Audit log of MCP tool calls.
+ *
+ * Every tools/call is recorded as one JSON line in zotero-mcp-audit.jsonl
+ * in the Zotero data directory: when it ran, the session and client that
+ * made it, the tool, its arguments with free text redacted, the outcome,
+ * how long it took and the items it touched. Lines are appended as calls
+ * finish. Entries outside the retention prefs are pruned when the log is
+ * first read and every PRUNE_INTERVAL calls after that.
+ */
+
+import { serverPreferences } from "./serverPreferences";
+import { journalTargets, type JournalEntry } from "./mutationJournal";
+
+declare let Zotero: any;
+declare let ztoolkit: ZToolkit;
+declare let IOUtils: any;
+declare let PathUtils: any;
+
+export type AuditOutcome = "success" | "error" | "cancelled";
+
+export interface AuditEntry {
+  timestamp: string;
+  sessionId?: string;
+  /** clientInfo.name the session sent with initialize. */
+  client?: string;
+  /** The named client token the call authenticated with. */
+  tokenClient?: string;
+  tokenClientID?: string;
+  tool: string;
+  arguments: Record<string, any>;
+  outcome: AuditOutcome;
+  error?: string;
+  durationMs: number;
+  itemKeys: string[];
+  /** Undo journal entry the call produced, for write tools. */
+  operationId?: string;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  sessionId?: string;
+  /** Matches either the initialize client name or the client token name. */
+  client?: string;
+  /** Only calls made with this client token, by ID. */
+  tokenClientID?: string;
+  outcome?: AuditOutcome;
+  itemKey?: string;
+  /** ISO timestamps, inclusive. */
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export const DEFAULT_AUDIT_LIMIT = 50;
+export const MAX_AUDIT_LIMIT = 500;
+
+// Argument names that carry library or user content: note bodies,
+// annotation text and comments, abstracts. Only their length is kept.
+const CONTENT_KEYS = new Set([
+  "content",
+  "note",
+  "text",
+  "comment",
+  "abstractNote",
+  "html",
+  "markdown",
+  "apiKey",
+]);
+// Longer strings (queries pasted whole, say) are truncated.
+const MAX_ARG_STRING = 200;
+const MAX_ARG_DEPTH = 4;
+const MAX_ITEM_KEYS = 100;
+const PRUNE_INTERVAL = 200;
+const ITEM_KEY_RE = /^[A-Z0-9]{8}$/;
+
+/** A copy of tool arguments safe to persist: content redacted, long strings cut. */
+export function redactArguments(value: any, key = "", depth = 0): any {
+  if (CONTENT_KEYS.has(key) && value !== undefined && value !== null) {
+    const length =
+      typeof value === "string" ? value.length : JSON.stringify(value).length;
+    return `[redacted: ${length} chars]`;
+  }
+  if (typeof value === "string") {
+    return value.length > MAX_ARG_STRING
+      ? `${value.slice(0, MAX_ARG_STRING)}… [${value.length} chars]`
+      : value;
+  }
+  if (!value || typeof value !== "object") return value;
+  if (depth >= MAX_ARG_DEPTH) return "[…]";
+  if (Array.isArray(value)) {
+    return value.map((entry) => redactArguments(entry, key, depth + 1));
+  }
+  const out: Record<string, any> = {};
+  for (const [name, entry] of Object.entries(value)) {
+    if (entry === undefined) continue;
+    out[name] = redactArguments(entry, name, depth + 1);
+  }
+  return out;
+}
+
+/**
+ * Items a call touched: for a journaled write, the items it changed;
+ * otherwise the items its arguments name, plus the item a write result
+ * reports.
+ */
+export function auditItemKeys(
+  tool: string,
+  args: Record<string, any>,
+  result?: any,
+  journal?: JournalEntry | null,
+): string[] {
+  let keys: string[];
+  if (journal) {
+    keys = journal.snapshots.filter((s) => s.kind === "item").map((s) => s.key);
+  } else {
+    keys = journalTargets(tool, args).itemKeys;
+    const reported = result?.itemKey;
+    if (typeof reported === "string" && ITEM_KEY_RE.test(reported)) {
+      keys.push(reported);
+    }
+  }
+  return [...new Set(keys)].slice(0, MAX_ITEM_KEYS);
+}
+
+export function matchesAuditQuery(
+  entry: AuditEntry,
+  query: AuditQuery,
+): boolean {
+  if (query.tool && entry.tool !== query.tool) return false;
+  if (query.sessionId && entry.sessionId !== query.sessionId) return false;
+  if (query.outcome && entry.outcome !== query.outcome) return false;
+  if (query.tokenClientID && entry.tokenClientID !== query.tokenClientID) {
+    return false;
+  }
+  if (query.itemKey && !entry.itemKeys.includes(query.itemKey)) return false;
+  if (query.client) {
+    const wanted = query.client.toLowerCase();
+    const names = [entry.client, entry.tokenClient].map((name) =>
+      (name || "").toLowerCase(),
+    );
+    if (!names.includes(wanted)) return false;
+  }
+  const time = Date.parse(entry.timestamp);
+  if (query.since && time < Date.parse(query.since)) return false;
+  if (query.until && time > Date.parse(query.until)) return false;
+  return true;
+}
+
+/** Matching entries, newest first, with how many matched in all. */
+export function queryAudit(
+  entries: AuditEntry[],
+  query: AuditQuery = {},
+): { entries: AuditEntry[]; total: number } {
+  const limit = Math.min(
+    Math.max(1, Math.floor(query.limit ?? DEFAULT_AUDIT_LIMIT)),
+    MAX_AUDIT_LIMIT,
+  );
+  const matched: AuditEntry[] = [];
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (matchesAuditQuery(entries[i], query)) matched.push(entries[i]);
+  }
+  return { entries: matched.slice(0, limit), total: matched.length };
+}
+
+/** Entries within the retention limits, oldest first as stored. */
+export function retainAudit(
+  entries: AuditEntry[],
+  retention: { retentionDays: number; maxEntries: number },
+  now: Date = new Date(),
+): AuditEntry[] {
+  const cutoff = now.getTime() - retention.retentionDays * 24 * 3600 * 1000;
+  const kept = entries.filter((entry) => Date.parse(entry.timestamp) >= cutoff);
+  return kept.slice(-retention.maxEntries);
+}
+
+// --- Storage ---
+
+let entries: AuditEntry[] | null = null;
+let appendsSincePrune = 0;
+let chain: Promise<unknown> = Promise.resolve();
+
+function auditPath(): string {
+  return PathUtils.join(Zotero.DataDirectory.dir, "zotero-mcp-audit.jsonl");
+}
+
+/** Run file operations one at a time, in call order. */
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = chain.then(task);
+  chain = run.catch((error: unknown) => {
+    ztoolkit.log(`[AuditLog] ${error}`, "error");
+  });
+  return run;
+}
+
+function toJSONLines(list: AuditEntry[]): string {
+  return list.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
+
+async function rewrite(): Promise<void> {
+  const path = auditPath();
+  await IOUtils.writeUTF8(path, toJSONLines(entries!), {
+    tmpPath: `${path}.tmp`,
+  });
+}
+
+async function prune(): Promise<void> {
+  const kept = retainAudit(entries!, serverPreferences.getAuditRetention());
+  appendsSincePrune = 0;
+  if (kept.length === entries!.length) return;
+  entries = kept;
+  await rewrite();
+}
+
+async function loadAudit(): Promise<AuditEntry[]> {
+  if (entries) return entries;
+  const loaded: AuditEntry[] = [];
+  try {
+    const path = auditPath();
+    if (await IOUtils.exists(path)) {
+      for (const line of (await IOUtils.readUTF8(path)).split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          loaded.push(JSON.parse(line));
+        } catch {
+          // A line cut short by a crash; the rest of the log still reads.
+        }
+      }
+    }
+  } catch (error) {
+    ztoolkit.log(`[AuditLog] Could not read audit log: ${error}`, "warn");
+  }
+  entries = loaded;
+  await prune();
+  return entries;
+}
+
+/**
+ * Append one call to the log. Never throws and never delays the call
+ * being recorded: failures to write are only logged.
+ */
+export function recordToolCall(entry: AuditEntry): void {
+  if (!serverPreferences.isAuditEnabled()) return;
+  enqueue(async () => {
+    await loadAudit();
+    entries!.push(entry);
+    await IOUtils.writeUTF8(auditPath(), `${JSON.stringify(entry)}\n`, {
+      mode: "appendOrCreate",
+    });
+    if (++appendsSincePrune >= PRUNE_INTERVAL) await prune();
+  }).catch(() => {
+    // Already logged by enqueue.
+  });
+}
+
+export function queryAuditLog(
+  query: AuditQuery = {},
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  return enqueue(async () => queryAudit(await loadAudit(), query));
+}
+
+/** Write the retained log to `path` as JSON Lines. Returns the entry count. */
+export function exportAuditLog(path: string): Promise<number> {
+  return enqueue(async () => {
+    const list = await loadAudit();
+    await IOUtils.writeUTF8(path, toJSONLines(list));
+    return list.length;
+  });
+}
+
+export function clearAuditLog(): Promise<void> {
+  return enqueue(async () => {
+    entries = [];
+    appendsSincePrune = 0;
+    await rewrite();
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * In-text citations for format_citation.
+ *
+ * A document's citations are given as clusters — the items cited together
+ * at one place, each with an optional locator, prefix, suffix and
+ * suppress-author flag — and rendered with citeproc in one pass, so
+ * disambiguation ("Smith, 2020a", added initials, "et al." expansion) and
+ * position-dependent forms ("ibid." in note styles) agree across the
+ * whole document and with the bibliography.
+ */
+
+import { resolveCitationStyle } from "./itemFormatter";
+
+declare let Zotero: any;
+
+/** CSL locator labels ("p. 14", "chap. 3", "fig. 2", …). */
+export const LOCATOR_LABELS = [
+  "act",
+  "appendix",
+  "article-locator",
+  "book",
+  "canon",
+  "chapter",
+  "column",
+  "elocation",
+  "equation",
+  "figure",
+  "folio",
+  "issue",
+  "line",
+  "note",
+  "opus",
+  "page",
+  "paragraph",
+  "part",
+  "rule",
+  "scene",
+  "section",
+  "sub-verbo",
+  "supplement",
+  "table",
+  "timestamp",
+  "title-locator",
+  "verse",
+  "volume",
+] as const;
+
+export type LocatorLabel = (typeof LOCATOR_LABELS)[number];
+
+export interface CitedItem {
+  itemKey: string;
+  locator?: string;
+  /** Kind of locator; "page" when a locator is given without one. */
+  label?: LocatorLabel;
+  prefix?: string;
+  suffix?: string;
+  /** Omit the author, as in "Smith (2020) argues …". */
+  suppressAuthor?: boolean;
+}
+
+export interface CitationCluster {
+  items: CitedItem[];
+}
+
+/** Caps the clusters in one call; a long manuscript can be sent in parts. */
+export const MAX_CITATION_CLUSTERS = 500;
+
+function optionalString(value: unknown, name: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") throw new Error(`${name} must be a string`);
+  return value;
+}
+
+/**
+ * Validate a `citations` argument: a non-empty array of clusters, each
+ * `{ items: [...] }` with at least one cited item. Throws on anything else.
+ */
+export function parseCitationClusters(value: unknown): CitationCluster[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error("citations must be a non-empty array of citation clusters");
+  }
+  if (value.length > MAX_CITATION_CLUSTERS) {
+    throw new Error(
+      `At most ${MAX_CITATION_CLUSTERS} citation clusters can be formatted at once`,
+    );
+  }
+  return value.map((cluster, c) => {
+    const where = `citations[${c}]`;
+    if (
+      !cluster ||
+      !Array.isArray(cluster.items) ||
+      cluster.items.length === 0
+    ) {
+      throw new Error(`${where}.items must be a non-empty array`);
+    }
+    return {
+      items: cluster.items.map((cited: any, i: number) => {
+        const at = `${where}.items[${i}]`;
+        if (!cited || typeof cited.itemKey !== "string" || !cited.itemKey) {
+          throw new Error(`${at}.itemKey is required`);
+        }
+        if (
+          cited.label !== undefined &&
+          !(LOCATOR_LABELS as readonly string[]).includes(cited.label)
+        ) {
+          throw new Error(
+            `${at}.label must be one of: ${LOCATOR_LABELS.join(", ")}`,
+          );
+        }
+        if (
+          cited.suppressAuthor !== undefined &&
+          typeof cited.suppressAuthor !== "boolean"
+        ) {
+          throw new Error(`${at}.suppressAuthor must be a boolean`);
+        }
+        const locator =
+          typeof cited.locator === "number"
+            ? String(cited.locator)
+            : optionalString(cited.locator, `${at}.locator`);
+        return {
+          itemKey: cited.itemKey,
+          ...(locator ? { locator, label: cited.label ?? "page" } : {}),
+          ...(cited.prefix !== undefined
+            ? { prefix: optionalString(cited.prefix, `${at}.prefix`) }
+            : {}),
+          ...(cited.suffix !== undefined
+            ? { suffix: optionalString(cited.suffix, `${at}.suffix`) }
+            : {}),
+          ...(cited.suppressAuthor ? { suppressAuthor: true } : {}),
+        };
+      }),
+    };
+  });
+}
+
+/**
+ * Citeproc citation objects for the clusters, in document order. Note
+ * styles number clusters as consecutive footnotes; in-text styles use
+ * note index 0.
+ */
+export function toCiteprocCitations(
+  clusters: CitationCluster[],
+  itemIDs: Map<string, number>,
+  noteStyle: boolean,
+): any[] {
+  return clusters.map((cluster, index) => ({
+    citationID: `citation-${index + 1}`,
+    citationItems: cluster.items.map((cited) => ({
+      id: itemIDs.get(cited.itemKey),
+      ...(cited.locator ? { locator: cited.locator, label: cited.label } : {}),
+      ...(cited.prefix ? { prefix: cited.prefix } : {}),
+      ...(cited.suffix ? { suffix: cited.suffix } : {}),
+      ...(cited.suppressAuthor ? { "suppress-author": true } : {}),
+    })),
+    properties: { noteIndex: noteStyle ? index + 1 : 0 },
+  }));
+}
+
+/**
+ * Render citation clusters, and the bibliography of the items they cite,
+ * with a CSL style. `items` maps every cited key to its Zotero item.
+ * @returns One string per cluster, the bibliography (null for styles
+ *   without one) and the resolved style URL.
+ */
+export function renderCitations(
+  clusters: CitationCluster[],
+  items: Map<string, any>,
+  options: { style?: string; format?: "text" | "html"; locale?: string } = {},
+): { citations: string[]; bibliography: string | null; style: string } {
+  const styleURL = resolveCitationStyle(options.style);
+  const style = Zotero.Styles.get(styleURL);
+  if (!style) {
+    throw new Error(`Citation style "${styleURL}" is not installed`);
+  }
+  const format = options.format || "text";
+  const locale =
+    options.locale || Zotero.Prefs.get("export.quickCopy.locale") || "en-US";
+  const engine = style.getCiteProc(locale, format);
+
+  const itemIDs = new Map<string, number>(
+    [...items].map(([key, item]) => [key, item.id]),
+  );
+  const rendered: Array<[string, number, string]> =
+    engine.rebuildProcessorState(
+      toCiteprocCitations(clusters, itemIDs, style.class === "note"),
+      format,
+    );
+  const citations = rendered.map(([, , text]) => text);
+  const bibliography = style.hasBibliography
+    ? Zotero.Cite.makeFormattedBibliography(engine, format)
+    : null;
+  return { citations, bibliography, style: styleURL };
+}
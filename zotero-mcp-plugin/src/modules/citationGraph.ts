@@ -0,0 +1,210 @@
+/**
+ * Citation graph assembly and export for citation_graph.
+ *
+ * Pure functions — no Zotero dependencies. The server collects library
+ * items as nodes and two kinds of edge: "cites" (from an item's parsed
+ * reference list to a library item it cites) and "related" (Zotero's
+ * manual relations, undirected). This module deduplicates edges, computes
+ * degree metrics and serializes the graph as GraphML or DOT.
+ */
+
+export type CitationEdgeType = "cites" | "related";
+
+export interface CitationNode {
+  key: string;
+  libraryKey?: string;
+  title: string;
+  year?: number;
+  firstAuthor?: string;
+  doi?: string;
+  /** Part of the requested item or collection, not just reached by an edge. */
+  inScope: boolean;
+  /** Items in the graph citing this one. */
+  inDegree: number;
+  /** Items in the graph this one cites. */
+  outDegree: number;
+}
+
+export interface CitationEdge {
+  source: string;
+  target: string;
+  type: CitationEdgeType;
+  /** How a "cites" edge's reference was matched (doi, pmid, isbn, arxiv, title). */
+  matchedBy?: string;
+}
+
+export interface CitationGraph {
+  nodes: CitationNode[];
+  edges: CitationEdge[];
+}
+
+/**
+ * How many items of a collection get their references parsed. Each may need
+ * a PDF extracted, so the default stays modest.
+ */
+export const DEFAULT_GRAPH_ITEMS = 50;
+export const MAX_GRAPH_ITEMS = 200;
+
+// Longer titles are cut in DOT labels, which render on one line.
+const MAX_LABEL_TITLE = 60;
+
+/**
+ * Add a node unless one with its key is there already. An in-scope node
+ * added again keeps its scope. Returns whether it was added.
+ */
+export function addNode(graph: CitationGraph, node: CitationNode): boolean {
+  if (graph.nodes.some((n) => n.key === node.key)) return false;
+  graph.nodes.push(node);
+  return true;
+}
+
+/**
+ * Add an edge unless the graph has it already; "related" edges count as
+ * the same in either direction, and self-loops are dropped. Returns
+ * whether it was added.
+ */
+export function addEdge(graph: CitationGraph, edge: CitationEdge): boolean {
+  if (edge.source === edge.target) return false;
+  const exists = graph.edges.some(
+    (e) =>
+      e.type === edge.type &&
+      ((e.source === edge.source && e.target === edge.target) ||
+        (edge.type === "related" &&
+          e.source === edge.target &&
+          e.target === edge.source)),
+  );
+  if (!exists) graph.edges.push(edge);
+  return !exists;
+}
+
+/** Set each node's in- and out-degree from the graph's "cites" edges. */
+export function computeDegrees(graph: CitationGraph): void {
+  const nodes = new Map(graph.nodes.map((node) => [node.key, node]));
+  for (const node of graph.nodes) {
+    node.inDegree = 0;
+    node.outDegree = 0;
+  }
+  for (const edge of graph.edges) {
+    if (edge.type !== "cites") continue;
+    const source = nodes.get(edge.source);
+    const target = nodes.get(edge.target);
+    if (source) source.outDegree++;
+    if (target) target.inDegree++;
+  }
+}
+
+/**
+ * The items cited most often by in-scope items — for a collection, the
+ * most-cited-within-collection works. Uncited items are left out; ties
+ * are broken by title.
+ */
+export function mostCited(
+  graph: CitationGraph,
+  limit = 10,
+): Array<{ key: string; title: string; citations: number }> {
+  const inScope = new Set(
+    graph.nodes.filter((node) => node.inScope).map((node) => node.key),
+  );
+  const counts = new Map<string, number>();
+  for (const edge of graph.edges) {
+    if (edge.type === "cites" && inScope.has(edge.source)) {
+      counts.set(edge.target, (counts.get(edge.target) || 0) + 1);
+    }
+  }
+  return graph.nodes
+    .filter((node) => counts.has(node.key))
+    .map((node) => ({
+      key: node.key,
+      title: node.title,
+      citations: counts.get(node.key)!,
+    }))
+    .sort((a, b) => b.citations - a.citations || a.title.localeCompare(b.title))
+    .slice(0, limit);
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** GraphML, readable by Gephi, yEd, Cytoscape and networkx. */
+export function toGraphML(graph: CitationGraph): string {
+  const data = (key: string, value: unknown) =>
+    value === undefined
+      ? ""
+      : `<data key="${key}">${escapeXML(String(value))}</data>`;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="title" for="node" attr.name="title" attr.type="string"/>',
+    '  <key id="year" for="node" attr.name="year" attr.type="int"/>',
+    '  <key id="firstAuthor" for="node" attr.name="firstAuthor" attr.type="string"/>',
+    '  <key id="doi" for="node" attr.name="doi" attr.type="string"/>',
+    '  <key id="inScope" for="node" attr.name="inScope" attr.type="boolean"/>',
+    '  <key id="inDegree" for="node" attr.name="inDegree" attr.type="int"/>',
+    '  <key id="outDegree" for="node" attr.name="outDegree" attr.type="int"/>',
+    '  <key id="type" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="matchedBy" for="edge" attr.name="matchedBy" attr.type="string"/>',
+    '  <graph id="citations" edgedefault="directed">',
+  ];
+  for (const node of graph.nodes) {
+    lines.push(
+      `    <node id="${escapeXML(node.key)}">` +
+        data("title", node.title) +
+        data("year", node.year) +
+        data("firstAuthor", node.firstAuthor) +
+        data("doi", node.doi) +
+        data("inScope", node.inScope) +
+        data("inDegree", node.inDegree) +
+        data("outDegree", node.outDegree) +
+        "</node>",
+    );
+  }
+  for (const edge of graph.edges) {
+    const directed = edge.type === "related" ? ' directed="false"' : "";
+    lines.push(
+      `    <edge source="${escapeXML(edge.source)}" target="${escapeXML(edge.target)}"${directed}>` +
+        data("type", edge.type) +
+        data("matchedBy", edge.matchedBy) +
+        "</edge>",
+    );
+  }
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n");
+}
+
+function quoteDOT(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, " ")}"`;
+}
+
+/**
+ * Graphviz DOT. Nodes are labelled "Author (year): title"; in-scope nodes
+ * are filled, and related links are dashed and undirected.
+ */
+export function toDOT(graph: CitationGraph): string {
+  const lines = ["digraph citations {", "  node [shape=box];"];
+  for (const node of graph.nodes) {
+    const title =
+      node.title.length > MAX_LABEL_TITLE
+        ? node.title.slice(0, MAX_LABEL_TITLE) + "…"
+        : node.title;
+    const prefix = [node.firstAuthor, node.year && `(${node.year})`]
+      .filter(Boolean)
+      .join(" ");
+    const label = prefix ? `${prefix}: ${title}` : title;
+    const style = node.inScope ? ", style=filled, fillcolor=lightblue" : "";
+    lines.push(`  ${quoteDOT(node.key)} [label=${quoteDOT(label)}${style}];`);
+  }
+  for (const edge of graph.edges) {
+    const attrs =
+      edge.type === "related" ? " [dir=none, style=dashed, label=related]" : "";
+    lines.push(
+      `  ${quoteDOT(edge.source)} -> ${quoteDOT(edge.target)}${attrs};`,
+    );
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
@@ -0,0 +1,210 @@
+/**
+ * Per-client permissions for named client tokens.
+ *
+ * httpServer resolves the presented bearer token to a ClientIdentity and
+ * hands it to the MCP server with each request; the server narrows
+ * tools/list to what the identity allows and refuses tools/call beyond
+ * it. Resources and prompts serve the same data as read tools, so a
+ * client may use them only where it may call those tools. A client can
+ * only ever be narrower than the global prefs: its write
+ * scopes apply on top of the enabled ones, never instead of them. Requests
+ * made with the primary token (or with auth off) carry no identity and are
+ * limited by the global prefs alone.
+ */
+
+import {
+  serverPreferences,
+  type ClientTokenConfig,
+  type WriteScope,
+} from "./serverPreferences";
+import { JOURNALED_TOOLS, journalTargets } from "./mutationJournal";
+import type { ResourceKind } from "./resourceProvider";
+
+declare let Zotero: any;
+
+export interface ClientIdentity {
+  id: string;
+  name: string;
+  /** ["*"] for every tool. */
+  tools: string[];
+  scopes: WriteScope[];
+  /** Collection keys writes are confined to; [] for no confinement. */
+  collections: string[];
+}
+
+export function isTokenExpired(
+  config: Pick<ClientTokenConfig, "expiresAt">,
+  now: Date = new Date(),
+): boolean {
+  if (!config.expiresAt) return false;
+  return Date.parse(config.expiresAt) <= now.getTime();
+}
+
+/** The identity a token stands for, without the secret. */
+export function clientIdentity(config: ClientTokenConfig): ClientIdentity {
+  return {
+    id: config.id,
+    name: config.name,
+    tools: config.tools,
+    scopes: config.scopes,
+    collections: config.collections,
+  };
+}
+
+/**
+ * Resolve a presented bearer token. `primary` is the main token; `client`
+ * a named client token; `error` an expired one. Unknown tokens resolve to
+ * neither, leaving the caller to decide whether that is fatal.
+ */
+export function resolveToken(token: string): {
+  primary?: boolean;
+  client?: ClientIdentity;
+  error?: string;
+} {
+  if (!token) return {};
+  if (serverPreferences.verifyAuthToken(token)) return { primary: true };
+  const config = serverPreferences.findClientToken(token);
+  if (!config) return {};
+  if (isTokenExpired(config)) {
+    return { error: `expired bearer token (client "${config.name}")` };
+  }
+  return { client: clientIdentity(config) };
+}
+
+export function clientAllowsTool(
+  client: ClientIdentity | undefined,
+  tool: string,
+): boolean {
+  if (!client) return true;
+  return client.tools.includes("*") || client.tools.includes(tool);
+}
+
+/** The read tool whose data each kind of resource serves. */
+export const RESOURCE_TOOLS: Record<ResourceKind, string> = {
+  item: "get_item_details",
+  collection: "get_collection_details",
+  attachment: "get_content",
+  note: "get_content",
+};
+
+/**
+ * Read tools whose data prompts/get pre-fills messages with: metadata, full
+ * text and notes, annotations and collection members. A client needs all
+ * of them to use prompts.
+ */
+export const PROMPT_TOOLS = [
+  "get_item_details",
+  "get_content",
+  "get_annotations",
+  "get_collection_items",
+];
+
+export function clientAllowsResource(
+  client: ClientIdentity | undefined,
+  kind: ResourceKind,
+): boolean {
+  return clientAllowsTool(client, RESOURCE_TOOLS[kind]);
+}
+
+export function clientAllowsPrompts(
+  client: ClientIdentity | undefined,
+): boolean {
+  return PROMPT_TOOLS.every((tool) => clientAllowsTool(client, tool));
+}
+
+export function clientAllowsScope(
+  client: ClientIdentity | undefined,
+  scope: WriteScope,
+): boolean {
+  return !client || client.scopes.includes(scope);
+}
+
+/**
+ * Every scope a write call can end up needing: the tool's own plus those
+ * its handler only asserts for some arguments (hard-deleting a
+ * collection's items, replacing an existing import, filing an import).
+ */
+export function requiredScopes(
+  tool: string,
+  args: Record<string, any>,
+  base: WriteScope[],
+): WriteScope[] {
+  const scopes = new Set(base);
+  if (tool === "delete_collection" && args?.deleteItems === true) {
+    scopes.add("bulk");
+  }
+  if (
+    (tool === "import_by_identifier" || tool === "import_attachment_url") &&
+    args?.ifExists === "replace"
+  ) {
+    scopes.add("delete");
+  }
+  if (tool === "import_by_identifier" && args?.collectionKey) {
+    scopes.add("collections");
+  }
+  return [...scopes];
+}
+
+/**
+ * Refuse a write that reaches outside the client's collection allowlist.
+ * Every collection the call names must be an allowlisted one or one of
+ * their subcollections, and every item must be filed (via its top-level
+ * item) in one of those. Calls naming nothing, such as a top-level
+ * create_collection, a library-wide tag rename or a new saved search, are
+ * refused outright.
+ */
+export function assertWithinCollections(
+  client: ClientIdentity | undefined,
+  tool: string,
+  args: Record<string, any>,
+  libraryID: number,
+): void {
+  if (!client || client.collections.length === 0) return;
+  const deny = (reason: string) => {
+    throw new Error(
+      `Client "${client.name}" is limited to collections ${client.collections.join(", ")}: ${reason}`,
+    );
+  };
+  if (tool === "create_saved_search") {
+    deny("saved searches span the whole library");
+  }
+  if (!JOURNALED_TOOLS.has(tool)) return;
+
+  const targets = journalTargets(tool, args);
+  if (targets.tags.length > 0) {
+    deny(`${tool} changes items across the whole library`);
+  }
+  const collectionKeys = [...targets.collectionKeys];
+  if (Array.isArray(args?.collections)) {
+    collectionKeys.push(
+      ...args.collections.filter((k: any) => typeof k === "string"),
+    );
+  }
+  if (collectionKeys.length === 0 && targets.itemKeys.length === 0) {
+    deny(`${tool} must name an item or collection inside them`);
+  }
+
+  const allowed = new Set<number>();
+  for (const key of client.collections) {
+    const collection = Zotero.Collections.getByLibraryAndKey(libraryID, key);
+    if (!collection) continue;
+    allowed.add(collection.id);
+    for (const child of collection.getDescendents(false, "collection", true)) {
+      allowed.add(child.id);
+    }
+  }
+
+  for (const key of collectionKeys) {
+    const collection = Zotero.Collections.getByLibraryAndKey(libraryID, key);
+    if (!collection || !allowed.has(collection.id)) {
+      deny(`collection ${key} is outside them`);
+    }
+  }
+  for (const key of targets.itemKeys) {
+    let item = Zotero.Items.getByLibraryAndKey(libraryID, key);
+    while (item?.parentItem) item = item.parentItem;
+    if (!item || !item.getCollections().some((id: number) => allowed.has(id))) {
+      deny(`item ${key} is not filed in them`);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { formatItem, formatItems } from "./itemFormatter";
+import { formatLibraryKey } from "./libraryResolver";
 
 declare let Zotero: any;
 
@@ -57,6 +58,7 @@ export function formatCollection(collection: Zotero.Collection) {
   }
   return {
     key: collection.key,
+    libraryKey: formatLibraryKey(collection.libraryID, collection.key),
     version: collection.version,
     libraryID: collection.libraryID,
     name: collection.name,
@@ -78,6 +80,7 @@ export function formatCollectionBrief(collection: Zotero.Collection) {
   }
   return {
     key: collection.key,
+    libraryKey: formatLibraryKey(collection.libraryID, collection.key),
     name: collection.name,
     path: getCollectionPath(collection),
     depth: getCollectionDepth(collection),
@@ -100,7 +103,7 @@ export function formatCollectionList(collections: Zotero.Collection[]) {
  * @param options - Formatting options.
  * @returns Detailed collection information.
  */
-export function formatCollectionDetails(
+export async function formatCollectionDetails(
   collection: Zotero.Collection,
   options: {
     includeItems?: boolean;
@@ -127,7 +130,7 @@ export function formatCollectionDetails(
   if (options.includeItems) {
     const limit = options.itemsLimit || childItemIDs.length;
     const items = Zotero.Items.get(childItemIDs.slice(0, limit));
-    response.items = formatItems(items);
+    response.items = await formatItems(items);
   }
 
   if (options.includeSubcollections) {
@@ -0,0 +1,240 @@
+/**
+ * Duplicate detection and field merging for find_duplicates and
+ * merge_items.
+ *
+ * Pure functions — no Zotero dependencies. Candidate pairs come from
+ * blocking (shared identifier or distinctive title word), so a library is
+ * never compared all-against-all. A shared DOI, ISBN or PMID makes a pair
+ * a certain duplicate and a conflicting one rules it out; otherwise the
+ * score blends title similarity, creator overlap, year agreement and,
+ * when available, embedding similarity.
+ */
+
+import { normalizeTitle, titleSimilarity } from "./referenceParser";
+
+export interface DuplicateCandidate {
+  key: string;
+  itemType: string;
+  title: string;
+  year?: number;
+  /** Creator last names. */
+  creators: string[];
+  doi?: string;
+  isbn?: string;
+  pmid?: string;
+}
+
+export interface DuplicatePair {
+  a: string;
+  b: string;
+  score: number;
+  /** What agreed: doi, isbn, pmid, title, creators, year, embedding. */
+  reasons: string[];
+}
+
+export interface DuplicateGroup {
+  keys: string[];
+  /** Best pair score within the group. */
+  score: number;
+  pairs: DuplicatePair[];
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.85;
+
+// Titles less alike than this are never duplicates, whatever else agrees.
+const MIN_TITLE_SIMILARITY = 0.75;
+// Title words at least this long serve as blocking keys.
+const MIN_BLOCK_WORD = 4;
+// Title-word blocks larger than this are too common to be informative.
+const MAX_BLOCK_SIZE = 100;
+
+const IDENTIFIERS = ["doi", "isbn", "pmid"] as const;
+
+function normalizeIdentifier(
+  field: (typeof IDENTIFIERS)[number],
+  value: string,
+): string {
+  const text = value.trim().toLowerCase();
+  if (field === "doi")
+    return text.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/, "");
+  if (field === "isbn") return text.replace(/[^\dx]/g, "");
+  return text;
+}
+
+/**
+ * Pairs of candidates worth scoring: those sharing an identifier or one of
+ * their two longest title words. Each pair is returned once.
+ */
+export function candidatePairs(
+  candidates: DuplicateCandidate[],
+): Array<[DuplicateCandidate, DuplicateCandidate]> {
+  const blocks = new Map<string, number[]>();
+  const add = (key: string, index: number) => {
+    const block = blocks.get(key);
+    if (block) block.push(index);
+    else blocks.set(key, [index]);
+  };
+  candidates.forEach((candidate, index) => {
+    for (const field of IDENTIFIERS) {
+      const value = candidate[field];
+      if (value) add(`${field}:${normalizeIdentifier(field, value)}`, index);
+    }
+    const words = [
+      ...new Set(
+        normalizeTitle(candidate.title)
+          .split(" ")
+          .filter((word) => word.length >= MIN_BLOCK_WORD),
+      ),
+    ].sort((x, y) => y.length - x.length || x.localeCompare(y));
+    for (const word of words.slice(0, 2)) add(`title:${word}`, index);
+  });
+
+  const seen = new Set<string>();
+  const pairs: Array<[DuplicateCandidate, DuplicateCandidate]> = [];
+  for (const [key, block] of blocks) {
+    if (key.startsWith("title:") && block.length > MAX_BLOCK_SIZE) continue;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const id = `${block[i]}|${block[j]}`;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        pairs.push([candidates[block[i]], candidates[block[j]]]);
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * How likely two candidates are the same work, in [0, 1], with the
+ * signals that agreed; null when they are clearly different works.
+ * `embedding` is the similarity of their content embeddings, if known.
+ */
+export function scoreDuplicatePair(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  embedding?: number,
+): DuplicatePair | null {
+  let conflict = false;
+  for (const field of IDENTIFIERS) {
+    const left = a[field];
+    const right = b[field];
+    if (!left || !right) continue;
+    if (
+      normalizeIdentifier(field, left) === normalizeIdentifier(field, right)
+    ) {
+      return { a: a.key, b: b.key, score: 1, reasons: [field] };
+    }
+    conflict = true;
+  }
+  // Different DOIs (say) with near-identical titles are separate works:
+  // a preprint and its erratum, or two volumes of a series.
+  if (conflict || !a.title || !b.title) return null;
+
+  const title = titleSimilarity(a.title, b.title);
+  if (title < MIN_TITLE_SIMILARITY) return null;
+  const reasons = ["title"];
+
+  // Unknown creators or years are neutral rather than disagreeing.
+  let creators = 0.5;
+  if (a.creators.length > 0 && b.creators.length > 0) {
+    const left = new Set(a.creators.map(normalizeTitle));
+    const right = new Set(b.creators.map(normalizeTitle));
+    const shared = [...left].filter((name) => right.has(name)).length;
+    creators = shared / Math.min(left.size, right.size);
+    if (creators >= 0.5) reasons.push("creators");
+  }
+  let year = 0.5;
+  if (a.year && b.year) {
+    // Online-first and print dates often differ by one year.
+    const diff = Math.abs(a.year - b.year);
+    year = diff === 0 ? 1 : diff === 1 ? 0.5 : 0;
+    if (diff === 0) reasons.push("year");
+  }
+
+  let score = 0.6 * title + 0.25 * creators + 0.15 * year;
+  if (embedding !== undefined) {
+    score = 0.8 * score + 0.2 * embedding;
+    if (embedding >= 0.9) reasons.push("embedding");
+  }
+  return { a: a.key, b: b.key, score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * Group pairs scoring at least `threshold` into connected sets of
+ * duplicates, best group first.
+ */
+export function groupDuplicates(
+  pairs: DuplicatePair[],
+  threshold = DEFAULT_DUPLICATE_THRESHOLD,
+): DuplicateGroup[] {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(key, root);
+    return root;
+  };
+  const kept = pairs.filter((pair) => pair.score >= threshold);
+  for (const { a, b } of kept) {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    parent.set(find(a), find(b));
+  }
+
+  const groups = new Map<string, DuplicateGroup>();
+  for (const pair of kept) {
+    const root = find(pair.a);
+    let group = groups.get(root);
+    if (!group) {
+      group = { keys: [], score: 0, pairs: [] };
+      groups.set(root, group);
+    }
+    for (const key of [pair.a, pair.b]) {
+      if (!group.keys.includes(key)) group.keys.push(key);
+    }
+    group.score = Math.max(group.score, pair.score);
+    group.pairs.push(pair);
+  }
+  return [...groups.values()].sort(
+    (x, y) => y.score - x.score || y.keys.length - x.keys.length,
+  );
+}
+
+/**
+ * Fields to set on a merge master: each field the master leaves empty,
+ * taken from the first other item that has it. `extra` gains the lines
+ * the master lacks; a "Label: value" line (PMID, citation key, …) only
+ * when the master has no line with that label.
+ */
+export function mergeFields(
+  master: Record<string, string>,
+  others: Array<Record<string, string>>,
+): Record<string, string> {
+  const updates: Record<string, string> = {};
+  for (const other of others) {
+    for (const [field, value] of Object.entries(other)) {
+      if (!value || field === "extra") continue;
+      if (!master[field] && !(field in updates)) updates[field] = value;
+    }
+  }
+
+  const label = (line: string) =>
+    line
+      .match(/^\s*([^:\n]{1,40}):/)?.[1]
+      .trim()
+      .toLowerCase();
+  const lines = (master.extra || "").split("\n").filter(Boolean);
+  const known = new Set(lines.map((line) => label(line) ?? line.trim()));
+  for (const other of others) {
+    for (const line of (other.extra || "").split("\n")) {
+      const id = label(line) ?? line.trim();
+      if (!line.trim() || known.has(id)) continue;
+      known.add(id);
+      lines.push(line.trim());
+    }
+  }
+  const extra = lines.join("\n");
+  if (extra !== (master.extra || "")) updates.extra = extra;
+  return updates;
+}
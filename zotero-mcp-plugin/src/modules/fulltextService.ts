@@ -10,14 +10,15 @@ export class FulltextService {
   /**
    * Get comprehensive fulltext content for an item
    * @param itemKey - The item key
+   * @param libraryID - Library to look in (defaults to the personal library)
    * @returns Object containing all available text content
    */
-  async getItemFulltext(itemKey: string): Promise<any> {
+  async getItemFulltext(
+    itemKey: string,
+    libraryID: number = Zotero.Libraries.userLibraryID,
+  ): Promise<any> {
     try {
-      const item = Zotero.Items.getByLibraryAndKey(
-        Zotero.Libraries.userLibraryID,
-        itemKey,
-      );
+      const item = Zotero.Items.getByLibraryAndKey(libraryID, itemKey);
       if (!item) {
         throw new Error(`Item with key ${itemKey} not found`);
       }
@@ -334,6 +335,7 @@ export class FulltextService {
         contextLength = 200,
         maxResults = 50,
         caseSensitive = false,
+        libraryID = Zotero.Libraries.userLibraryID,
       } = options;
 
       ztoolkit.log(`[FulltextService] Searching fulltext for: "${query}"`);
@@ -348,18 +350,11 @@ export class FulltextService {
       let itemsToSearch;
       if (itemKeys && Array.isArray(itemKeys)) {
         itemsToSearch = itemKeys
-          .map((key) =>
-            Zotero.Items.getByLibraryAndKey(
-              Zotero.Libraries.userLibraryID,
-              key,
-            ),
-          )
+          .map((key) => Zotero.Items.getByLibraryAndKey(libraryID, key))
           .filter((item) => item);
       } else {
         // Search all items (limit for performance)
-        const allItems = await Zotero.Items.getAll(
-          Zotero.Libraries.userLibraryID,
-        );
+        const allItems = await Zotero.Items.getAll(libraryID);
         itemsToSearch = allItems.slice(0, 1000); // Limit for performance
       }
 
@@ -367,7 +362,7 @@ export class FulltextService {
         if (results.length >= maxResults) break;
 
         try {
-          const fulltext = await this.getItemFulltext(item.key);
+          const fulltext = await this.getItemFulltext(item.key, libraryID);
           const matches = [];
 
           // Search in different content types
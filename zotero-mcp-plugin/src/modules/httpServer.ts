@@ -1,5 +1,12 @@
-import { StreamableMCPServer } from "./streamableMCPServer";
+import {
+  StreamableMCPServer,
+  type RequestContext,
+} from "./streamableMCPServer";
 import { serverPreferences } from "./serverPreferences";
+import { resolveToken, type ClientIdentity } from "./clientAccess";
+import { notificationHub, SSEStream } from "./notificationHub";
+import { dropSessionSnapshots } from "./pagination";
+import { dropSessionContinuations } from "./tokenBudget";
 import { testMCPIntegration } from "./mcpTest";
 
 declare let ztoolkit: ZToolkit;
@@ -108,6 +115,7 @@ const WRITE_TOOL_NAMES = new Set([
   "add_to_collection",
   "remove_from_collection",
   "create_collection",
+  "create_saved_search",
   "rename_collection",
   "move_collection",
   "move_item_to_collection",
@@ -125,6 +133,17 @@ const WRITE_TOOL_NAMES = new Set([
   "batch_remove_from_collection",
   "batch_trash",
   "import_attachment_url",
+  "import_by_identifier",
+  "semantic_index_build",
+  "semantic_index_control",
+  "semantic_index_retry_failed",
+  "semantic_index_delete",
+  "create_annotation",
+  "update_annotation",
+  "delete_annotation",
+  "merge_items",
+  "undo_last",
+  "undo_operation",
 ]);
 
 export class HttpServer {
@@ -223,6 +242,10 @@ export class HttpServer {
       return;
     }
 
+    // Release parked event streams first so their handlers unwind and close
+    // their own sockets.
+    notificationHub.closeAll();
+
     ztoolkit.log(
       `[HttpServer] Closing ${this.activeTransports.size} active connections...`,
     );
@@ -273,11 +296,20 @@ export class HttpServer {
     this.sessionCleanupInterval = setInterval(() => {
       const now = new Date();
       for (const [sessionId, session] of this.activeSessions.entries()) {
+        // An open event stream is activity even when the client has nothing
+        // to POST; expiring it would silently cut off its notifications.
+        if (notificationHub.hasStream(sessionId)) {
+          session.lastActivity = now;
+          continue;
+        }
         if (
           now.getTime() - session.lastActivity.getTime() >
           this.sessionTimeout
         ) {
           this.activeSessions.delete(sessionId);
+          notificationHub.dropSession(sessionId);
+          dropSessionSnapshots(sessionId);
+          dropSessionContinuations(sessionId);
           ztoolkit.log(`[HttpServer] Cleaned up expired session: ${sessionId}`);
         }
       }
@@ -464,29 +496,31 @@ export class HttpServer {
    * capabilities/help endpoints stay public so health checks and config
    * generators can reach them.
    *
-   * Returns null when authorized.
+   * Returns the rejection reason in `error`, or else the named client the
+   * token belongs to in `client` (absent for the primary token, and for
+   * anonymous requests when auth is off).
    */
   private validateAuth(
     requestText: string,
     path: string,
     method: string,
-  ): string | null {
-    if (path.startsWith("/ping")) return null;
-    // Allow the GET-only discovery endpoints to stay open for tooling.
+  ): { error?: string; client?: ClientIdentity } {
+    if (path.startsWith("/ping")) return {};
+    // Allow the GET-only discovery endpoints to stay open for tooling. The
+    // GET /mcp event stream is not a descriptor: it carries library change
+    // notifications, so it needs the token like any other MCP traffic.
     if (
       method === "GET" &&
       (path === "/capabilities" ||
         path === "/help" ||
         path === "/mcp/capabilities" ||
         path === "/mcp/status" ||
-        path === "/mcp")
+        (path === "/mcp" && !this.acceptsEventStream(requestText)))
     ) {
       // Auth not required for these read-only descriptors.
-      return null;
+      return {};
     }
 
-    if (!serverPreferences.requiresAuth()) return null;
-
     const authz = this.getRequestHeader(requestText, "Authorization");
     let token = "";
     if (authz) {
@@ -501,10 +535,104 @@ export class HttpServer {
       const custom = this.getRequestHeader(requestText, "X-Zotero-MCP-Token");
       if (custom) token = custom.trim();
     }
-    if (!token) return "missing bearer token";
-    if (!serverPreferences.verifyAuthToken(token))
-      return "invalid bearer token";
-    return null;
+
+    // A client token narrows what its holder may do, so it is honoured
+    // even when auth is off; only an unknown token is ignored then.
+    const resolved = resolveToken(token);
+    if (resolved.error) return { error: resolved.error };
+    if (resolved.client) return { client: resolved.client };
+    if (resolved.primary || !serverPreferences.requiresAuth()) return {};
+    return { error: token ? "invalid bearer token" : "missing bearer token" };
+  }
+
+  private acceptsEventStream(requestText: string): boolean {
+    const accept = this.getRequestHeader(requestText, "Accept");
+    return !!accept && accept.toLowerCase().includes("text/event-stream");
+  }
+
+  /**
+   * Write the head of a text/event-stream response. There is no
+   * Content-Length: the body runs until we close the connection.
+   */
+  private writeEventStreamHeaders(output: any, sessionId?: string): void {
+    let headers =
+      "HTTP/1.1 200 OK\r\n" +
+      "Content-Type: text/event-stream\r\n" +
+      "Cache-Control: no-cache\r\n" +
+      "Connection: keep-alive\r\n";
+    if (sessionId) headers += `Mcp-Session-Id: ${sessionId}\r\n`;
+    headers += "\r\n";
+    output.write(headers, headers.length);
+  }
+
+  private createEventStream(output: any): SSEStream {
+    return new SSEStream((chunk) => {
+      writeStringToStream(output, chunk);
+      try {
+        output.flush();
+      } catch {
+        // some streams don't flush
+      }
+    });
+  }
+
+  /**
+   * GET /mcp with Accept: text/event-stream. Parks the connection in the
+   * notification hub and holds this handler open until the stream ends
+   * (client gone, session deleted, or server stopping); the caller's
+   * finally block then closes the socket as usual.
+   */
+  private async serveEventStream(output: any, sessionId: string) {
+    const stream = this.createEventStream(output);
+    if (!notificationHub.openStream(sessionId, stream)) {
+      this.writeJsonResponse(
+        output,
+        503,
+        "Service Unavailable",
+        JSON.stringify({ error: "Too many open event streams" }),
+        false,
+        `Retry-After: 30\r\n`,
+      );
+      return;
+    }
+    this.writeEventStreamHeaders(output, sessionId);
+    stream.heartbeat();
+    await stream.closed;
+    ztoolkit.log(`[HttpServer] Event stream closed for ${sessionId}`);
+  }
+
+  /**
+   * POST answered as an SSE stream, so notifications tied to the request
+   * (progress) reach the client before the final response does.
+   */
+  private async serveStreamedPost(
+    output: any,
+    requestBody: string,
+    context: Omit<RequestContext, "notify">,
+  ) {
+    const stream = this.createEventStream(output);
+    this.writeEventStreamHeaders(output, context.sessionId);
+    try {
+      const result = await this.mcpServer!.handleMCPRequest(requestBody, {
+        ...context,
+        notify: (message) => stream.send(message),
+      });
+      if (result.body) stream.send(JSON.parse(result.body));
+    } finally {
+      stream.close();
+    }
+  }
+
+  /** Only requests that asked for progress are worth a streamed reply. */
+  private requestBodyWantsProgress(requestBody: string): boolean {
+    try {
+      const parsed = JSON.parse(requestBody);
+      const wants = (req: any): boolean =>
+        req?.params?._meta?.progressToken !== undefined && "id" in req;
+      return Array.isArray(parsed) ? parsed.some(wants) : wants(parsed);
+    } catch {
+      return false;
+    }
   }
 
   private shouldKeepAlive(requestText: string, path: string): boolean {
@@ -879,17 +1007,14 @@ export class HttpServer {
           }
 
           // 3. Auth.
-          const authRejection = this.validateAuth(requestText, path, method);
-          if (authRejection !== null) {
-            ztoolkit.log(
-              `[HttpServer] Auth rejection: ${authRejection}`,
-              "warn",
-            );
+          const auth = this.validateAuth(requestText, path, method);
+          if (auth.error) {
+            ztoolkit.log(`[HttpServer] Auth rejection: ${auth.error}`, "warn");
             this.writeJsonResponse(
               output,
               401,
               "Unauthorized",
-              JSON.stringify({ error: authRejection }),
+              JSON.stringify({ error: auth.error }),
               false,
               `WWW-Authenticate: Bearer realm="zotero-mcp"\r\n`,
             );
@@ -942,6 +1067,7 @@ export class HttpServer {
 
           // 5. Session-ID handling.
           let sessionId: string | undefined;
+          let sessionMinted = false;
           const presentedSessionId = this.getRequestHeader(
             requestText,
             "Mcp-Session-Id",
@@ -970,6 +1096,7 @@ export class HttpServer {
                 // claim. We mint a fresh one and return it; the client must
                 // pick up the new value from the response header.
                 sessionId = this.generateSessionId();
+                sessionMinted = true;
                 this.recordSession(sessionId);
                 ztoolkit.log(
                   `[HttpServer] Unknown session presented; minted new ${sessionId}`,
@@ -977,6 +1104,7 @@ export class HttpServer {
               }
             } else {
               sessionId = this.generateSessionId();
+              sessionMinted = true;
               this.recordSession(sessionId);
               ztoolkit.log(
                 `[HttpServer] Created new MCP session: ${sessionId}`,
@@ -1024,8 +1152,23 @@ export class HttpServer {
 
           if (path === "/mcp") {
             if (method === "POST") {
-              if (this.mcpServer) {
-                result = await this.mcpServer.handleMCPRequest(requestBody);
+              if (
+                this.mcpServer &&
+                this.acceptsEventStream(requestText) &&
+                this.requestBodyWantsProgress(requestBody)
+              ) {
+                await this.serveStreamedPost(output, requestBody, {
+                  sessionId,
+                  sessionMinted,
+                  client: auth.client,
+                });
+                return;
+              } else if (this.mcpServer) {
+                result = await this.mcpServer.handleMCPRequest(requestBody, {
+                  sessionId,
+                  sessionMinted,
+                  client: auth.client,
+                });
               } else {
                 result = {
                   status: 503,
@@ -1036,6 +1179,14 @@ export class HttpServer {
                   body: JSON.stringify({ error: "MCP server not enabled" }),
                 };
               }
+            } else if (
+              method === "GET" &&
+              this.mcpServer &&
+              sessionId &&
+              this.acceptsEventStream(requestText)
+            ) {
+              await this.serveEventStream(output, sessionId);
+              return;
             } else if (method === "GET") {
               result = {
                 status: 200,
@@ -1047,7 +1198,7 @@ export class HttpServer {
                   transport: "Streamable HTTP",
                   versions: ["2024-11-05", "2025-03-26"],
                   description:
-                    "POST JSON-RPC 2.0 messages here; DELETE to end a session.",
+                    "POST JSON-RPC 2.0 messages here; GET with Accept: text/event-stream for server notifications; DELETE to end a session.",
                   status: this.mcpServer ? "available" : "disabled",
                 }),
               };
@@ -1058,6 +1209,9 @@ export class HttpServer {
                 this.activeSessions.has(presentedSessionId)
               ) {
                 this.activeSessions.delete(presentedSessionId);
+                notificationHub.dropSession(presentedSessionId);
+                dropSessionSnapshots(presentedSessionId);
+                dropSessionContinuations(presentedSessionId);
                 ztoolkit.log(
                   `[HttpServer] Terminated session ${presentedSessionId}`,
                 );
@@ -1247,7 +1401,12 @@ export class HttpServer {
   private recordSession(sessionId: string): void {
     if (this.activeSessions.size >= MAX_ACTIVE_SESSIONS) {
       const firstKey = this.activeSessions.keys().next().value;
-      if (firstKey) this.activeSessions.delete(firstKey);
+      if (firstKey) {
+        this.activeSessions.delete(firstKey);
+        notificationHub.dropSession(firstKey);
+        dropSessionSnapshots(firstKey);
+        dropSessionContinuations(firstKey);
+      }
     }
     this.activeSessions.set(sessionId, {
       createdAt: new Date(),
@@ -1287,7 +1446,7 @@ export class HttpServer {
           "/mcp": {
             methods: ["POST", "GET", "DELETE"],
             description:
-              "MCP protocol endpoint (POST), info (GET), session termination (DELETE)",
+              "MCP protocol endpoint (POST), notification stream or info (GET), session termination (DELETE)",
             contentType: "application/json",
           },
         },
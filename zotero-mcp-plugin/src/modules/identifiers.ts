@@ -0,0 +1,256 @@
+/**
+ * Work identifiers: DOI, ISBN, PMID and arXiv ID.
+ *
+ * Recognizes identifiers in the forms people paste (bare, prefixed with
+ * "doi:"/"PMID:"/"arXiv:", or as doi.org/arxiv.org URLs), finds library
+ * items that carry one, and fetches metadata for one through Zotero's
+ * search translators (the "Add Item by Identifier" machinery). Shared by
+ * search_by_identifier, get_references and import_by_identifier.
+ */
+
+import { parseExtraIdentifiers } from "./itemFormatter";
+
+declare let Zotero: any;
+declare let ztoolkit: any;
+
+export const IDENTIFIER_TYPES = ["doi", "isbn", "pmid", "arxiv"] as const;
+
+export type IdentifierType = (typeof IDENTIFIER_TYPES)[number];
+
+export interface ParsedIdentifier {
+  type: IdentifierType;
+  /** Canonical form: DOI as given, ISBN digits only, arXiv ID unversioned. */
+  value: string;
+}
+
+const DOI = /^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,9}\/\S+)$/i;
+// New-style (2101.00001) and old-style (hep-th/9901001) arXiv IDs.
+const ARXIV =
+  /^(?:arxiv:\s*|https?:\/\/(?:www\.)?arxiv\.org\/(?:abs|pdf)\/)?(\d{4}\.\d{4,5}|[a-z-]+(?:\.[a-z]{2})?\/\d{7})(?:v\d+)?(?:\.pdf)?$/i;
+const ISBN = /^(?:isbn(?:-1[03])?:?\s*)?([\dX][\d\s-]{8,}[\dX])$/i;
+const PMID = /^(?:(?:pmid|pubmed\s*id):?\s*)?(\d{1,8})$/i;
+
+// Zotero.Translate.Search identifier keys, which double as display names.
+const TRANSLATOR_FIELDS: Record<IdentifierType, string> = {
+  doi: "DOI",
+  isbn: "ISBN",
+  pmid: "PMID",
+  arxiv: "arXiv",
+};
+
+/** "DOI", "arXiv", … — for messages. */
+export function identifierLabel(type: IdentifierType): string {
+  return TRANSLATOR_FIELDS[type];
+}
+
+/** "DOI 10.1038/…", "arXiv 1706.03762" — for messages. */
+export function formatIdentifier(identifier: ParsedIdentifier): string {
+  return `${identifierLabel(identifier.type)} ${identifier.value}`;
+}
+
+/** A valid ISBN-10 or ISBN-13 checksum. */
+export function isValidISBN(digits: string): boolean {
+  if (/^\d{9}[\dX]$/i.test(digits)) {
+    let sum = 0;
+    for (let i = 0; i < 10; i++) {
+      const d = digits[i].toUpperCase() === "X" ? 10 : Number(digits[i]);
+      sum += d * (10 - i);
+    }
+    return sum % 11 === 0;
+  }
+  if (/^\d{13}$/.test(digits)) {
+    let sum = 0;
+    for (let i = 0; i < 13; i++) {
+      sum += Number(digits[i]) * (i % 2 === 0 ? 1 : 3);
+    }
+    return sum % 10 === 0;
+  }
+  return false;
+}
+
+/**
+ * Recognize an identifier. `type` restricts recognition to that kind;
+ * without it DOI, arXiv, ISBN and PMID are tried in that order (a bare
+ * number is an ISBN only when its checksum holds). Returns null when the
+ * value is not one.
+ */
+export function parseIdentifier(
+  value: string,
+  type?: IdentifierType,
+): ParsedIdentifier | null {
+  const text = value.trim();
+  const accepts = (kind: IdentifierType) => !type || type === kind;
+
+  const doi = accepts("doi") && text.match(DOI);
+  if (doi) return { type: "doi", value: doi[1] };
+  const arxiv = accepts("arxiv") && text.match(ARXIV);
+  if (arxiv) return { type: "arxiv", value: arxiv[1] };
+  const isbn = accepts("isbn") && text.match(ISBN);
+  if (isbn) {
+    const digits = isbn[1].replace(/[\s-]/g, "").toUpperCase();
+    if (isValidISBN(digits)) return { type: "isbn", value: digits };
+  }
+  const pmid = accepts("pmid") && text.match(PMID);
+  if (pmid) return { type: "pmid", value: pmid[1] };
+  return null;
+}
+
+async function searchIDs(
+  libraryID: number,
+  field: string,
+  operator: string,
+  value: string,
+): Promise<number[]> {
+  const search = new Zotero.Search();
+  search.libraryID = libraryID;
+  search.addCondition(field, operator, value);
+  return (await search.search()) || [];
+}
+
+/**
+ * Item IDs in a library with the given DOI, ISBN, PMID or arXiv ID (the
+ * first one present, in that order).
+ */
+export async function findItemIDsByIdentifier(
+  libraryID: number,
+  args: { doi?: string; isbn?: string; pmid?: string; arxiv?: string },
+): Promise<{
+  identifierType: string;
+  identifierValue: string;
+  ids: number[];
+}> {
+  let identifierType = "";
+  let identifierValue = "";
+  let ids: number[] = [];
+
+  if (args.doi) {
+    identifierType = "DOI";
+    identifierValue = args.doi;
+    ids = await searchIDs(libraryID, "DOI", "is", args.doi);
+  } else if (args.isbn) {
+    identifierType = "ISBN";
+    identifierValue = args.isbn;
+    ids = await searchIDs(libraryID, "ISBN", "is", args.isbn);
+  } else if (args.pmid) {
+    // PMID can appear in `extra` in many forms ("PMID: 1234", "PMID:1234",
+    // "pmid: 1234", "PubMed ID: 1234", "PMID 1234"). Run several `contains`
+    // searches and union the results, then post-filter with a tolerant
+    // regex to weed out near-misses (e.g. PMID 12345 matching 123456).
+    identifierType = "PMID";
+    identifierValue = String(args.pmid);
+    const variants = [
+      `PMID: ${args.pmid}`,
+      `PMID:${args.pmid}`,
+      `PMID ${args.pmid}`,
+      `PubMed ID: ${args.pmid}`,
+      `PubMed ID:${args.pmid}`,
+    ];
+    const seen = new Set<number>();
+    for (const v of variants) {
+      try {
+        for (const id of await searchIDs(libraryID, "extra", "contains", v)) {
+          seen.add(id);
+        }
+      } catch (e) {
+        ztoolkit.log(
+          `[Identifiers] PMID variant search failed for "${v}": ${e}`,
+          "warn",
+        );
+      }
+    }
+    const pmidPattern = new RegExp(`\\bpmid[:\\s]*${args.pmid}\\b`, "i");
+    const candidates = await Zotero.Items.getAsync(Array.from(seen));
+    ids = candidates
+      .filter((it: any) => {
+        try {
+          const extra = it.getField("extra") || "";
+          return pmidPattern.test(extra);
+        } catch {
+          return false;
+        }
+      })
+      .map((it: any) => it.id);
+  } else if (args.arxiv) {
+    // The arXiv translator stores the abstract page as the URL and, for
+    // newer papers, the arXiv DOI; either marks the preprint.
+    identifierType = "arXiv";
+    identifierValue = args.arxiv;
+    const seen = new Set<number>([
+      ...(await searchIDs(
+        libraryID,
+        "DOI",
+        "is",
+        `10.48550/arXiv.${args.arxiv}`,
+      )),
+      ...(await searchIDs(
+        libraryID,
+        "url",
+        "contains",
+        `arxiv.org/abs/${args.arxiv}`,
+      )),
+    ]);
+    ids = Array.from(seen);
+  }
+
+  return { identifierType, identifierValue, ids };
+}
+
+/**
+ * Fetch metadata for an identifier with Zotero's search translators and
+ * save the resulting items into `libraryID` (and `collections`, by ID).
+ * Attachments the translator offers are not saved. Returns the saved
+ * items, [] when the lookup found nothing.
+ */
+export async function translateIdentifier(
+  identifier: ParsedIdentifier,
+  options: { libraryID: number; collections?: number[] },
+): Promise<any[]> {
+  const translate = new Zotero.Translate.Search();
+  translate.setIdentifier({
+    [TRANSLATOR_FIELDS[identifier.type]]: identifier.value,
+  });
+  const translators = await translate.getTranslators();
+  if (!translators || translators.length === 0) {
+    throw new Error(
+      `No Zotero translator can look up ${formatIdentifier(identifier)}`,
+    );
+  }
+  translate.setTranslator(translators);
+  const items = await translate.translate({
+    libraryID: options.libraryID,
+    collections: options.collections || [],
+    saveAttachments: false,
+  });
+  return items || [];
+}
+
+/**
+ * Where an open-access PDF of an item can be fetched: PubMed Central when
+ * the item has a PMCID (import_attachment_url reroutes that through
+ * EuropePMC), arXiv for preprints, else Zotero's open-access lookup by
+ * DOI. Null when none is known.
+ */
+export async function openAccessPDFURL(item: any): Promise<string | null> {
+  const { PMCID } = parseExtraIdentifiers(item.getField("extra"));
+  if (PMCID) return `https://pmc.ncbi.nlm.nih.gov/articles/${PMCID}/pdf/`;
+
+  const arxiv = (item.getField("url") || "").match(
+    /arxiv\.org\/abs\/([^?#]+?)(?:v\d+)?$/i,
+  );
+  if (arxiv) return `https://arxiv.org/pdf/${arxiv[1]}`;
+
+  const doi = item.getField("DOI");
+  const lookup = Zotero.Utilities?.Internal?.getOpenAccessPDFURLs;
+  if (doi && typeof lookup === "function") {
+    try {
+      const found = ((await lookup(doi)) || []).find((entry: any) => entry.url);
+      if (found) return found.url;
+    } catch (e) {
+      ztoolkit.log(
+        `[Identifiers] Open-access lookup failed for ${doi}: ${e}`,
+        "warn",
+      );
+    }
+  }
+  return null;
+}
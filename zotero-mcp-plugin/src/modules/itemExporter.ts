@@ -0,0 +1,196 @@
+/**
+ * Item export for export_items.
+ *
+ * BibTeX, BibLaTeX, RIS and CSL-JSON come from Zotero's own export
+ * translators, so the output matches what File → Export produces. Citation
+ * keys are then made to follow the `Citation Key:` line in `extra` (see
+ * parseExtraIdentifiers) whatever the installed translator version does
+ * with it. Markdown has no Zotero translator; it is rendered from the
+ * CSL-JSON export.
+ */
+
+import { parseExtraIdentifiers } from "./itemFormatter";
+
+declare let Zotero: any;
+
+export const EXPORT_FORMATS = [
+  "bibtex",
+  "biblatex",
+  "ris",
+  "csljson",
+  "markdown",
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// IDs of the export translators bundled with Zotero.
+const TRANSLATOR_IDS: Record<Exclude<ExportFormat, "markdown">, string> = {
+  bibtex: "9cb70025-a888-4a29-a210-93ec52da40d4",
+  biblatex: "b6e39b57-8942-4d11-8259-342c46ce395f",
+  ris: "32d59d2d-b65a-4da4-b0a3-bdd3cfb979e7",
+  csljson: "bc03b4fe-436d-4a1f-ba59-de4d2d7a63f7",
+};
+
+/** Caps one export; larger sets should be exported in pages. */
+export const MAX_EXPORT_ITEMS = 1000;
+
+// Entry heads ("@article{key,"); @comment, @string and @preamble blocks are
+// not entries.
+const BIBTEX_ENTRY = /^@(\w+)\s*\{\s*([^,\s]*)\s*,/gm;
+const NON_ENTRIES = /^(comment|string|preamble)$/i;
+
+// Authors listed before "et al." in Markdown.
+const MAX_MARKDOWN_AUTHORS = 3;
+
+/**
+ * Export regular items in `format`. Items are expected in the order the
+ * output should follow.
+ */
+export async function exportItems(
+  items: any[],
+  format: ExportFormat,
+): Promise<string> {
+  const keys = items.map(
+    (item) => parseExtraIdentifiers(item.getField("extra")).citationKey,
+  );
+  if (format === "markdown") {
+    const entries = JSON.parse(await translate(items, TRANSLATOR_IDS.csljson));
+    return cslToMarkdown(
+      entries,
+      items.map((item, i) => keys[i] ?? item.key),
+    );
+  }
+
+  const output = await translate(items, TRANSLATOR_IDS[format]);
+  if (format === "bibtex" || format === "biblatex") {
+    return applyCitationKeys(output, keys);
+  }
+  if (format === "csljson") {
+    return applyCSLIds(output, keys);
+  }
+  return output;
+}
+
+function translate(items: any[], translatorID: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const translation = new Zotero.Translate.Export();
+    translation.setItems(items);
+    translation.setTranslator(translatorID);
+    translation.setDisplayOptions({ exportNotes: false });
+    translation.setHandler("done", (obj: any, worked: boolean) => {
+      if (worked) resolve(obj.string || "");
+      else reject(new Error("Zotero export translator failed"));
+    });
+    translation.translate();
+  });
+}
+
+/** `key` with the first free suffix: key, keya, keyb, …, key1, key2, … */
+function uniqueKey(key: string, taken: Set<string>): string {
+  if (!taken.has(key)) return key;
+  for (const letter of "abcdefghijklmnopqrstuvwxyz") {
+    if (!taken.has(key + letter)) return key + letter;
+  }
+  let n = 1;
+  while (taken.has(`${key}${n}`)) n++;
+  return `${key}${n}`;
+}
+
+/**
+ * Give BibTeX entries the citation keys in `keys` (one per entry, in
+ * order; undefined keeps the translator's key), suffixing any key already
+ * used. Left unchanged when the entry count does not match.
+ */
+export function applyCitationKeys(
+  bibtex: string,
+  keys: Array<string | undefined>,
+): string {
+  const entries = [...bibtex.matchAll(BIBTEX_ENTRY)].filter(
+    (match) => !NON_ENTRIES.test(match[1]),
+  );
+  if (entries.length !== keys.length) return bibtex;
+
+  // Explicit keys are claimed first, so a generated key yields to them;
+  // a suffixed key also avoids the generated keys other entries keep.
+  const explicit = new Set(keys.filter((key): key is string => !!key));
+  const reserved = new Set([
+    ...explicit,
+    ...entries.filter((_, i) => !keys[i]).map((match) => match[2]),
+  ]);
+  const taken = new Set<string>();
+  const finalKeys = entries.map((match, i) => {
+    let key = keys[i] ?? match[2];
+    if (taken.has(key) || (!keys[i] && explicit.has(key))) {
+      key = uniqueKey(key, new Set([...taken, ...reserved]));
+    }
+    taken.add(key);
+    return key;
+  });
+
+  let out = "";
+  let last = 0;
+  entries.forEach((match, i) => {
+    const keyStart = match.index! + match[0].indexOf("{") + 1;
+    const keyEnd = match.index! + match[0].lastIndexOf(",");
+    out += bibtex.slice(last, keyStart) + finalKeys[i];
+    last = keyEnd;
+  });
+  return out + bibtex.slice(last);
+}
+
+/**
+ * Set CSL-JSON ids to the citation keys in `keys` (undefined keeps
+ * Zotero's id). Left unchanged when the entry count does not match.
+ */
+export function applyCSLIds(
+  json: string,
+  keys: Array<string | undefined>,
+): string {
+  const entries = JSON.parse(json);
+  if (!Array.isArray(entries) || entries.length !== keys.length) return json;
+  entries.forEach((entry, i) => {
+    if (keys[i]) entry.id = keys[i];
+  });
+  return JSON.stringify(entries, null, 2);
+}
+
+function cslName(name: any): string {
+  if (name.literal) return name.literal;
+  return [name.family, name.given].filter(Boolean).join(", ");
+}
+
+/**
+ * A Markdown reference list from CSL-JSON entries, one bullet per entry
+ * labelled with its citation key: `- [@key] Authors (year). *Title*.
+ * Container, volume(issue), pages. DOI link`.
+ */
+export function cslToMarkdown(entries: any[], labels: string[]): string {
+  return entries
+    .map((entry, i) => {
+      const names: any[] = entry.author || entry.editor || [];
+      let authors = names
+        .slice(0, MAX_MARKDOWN_AUTHORS)
+        .map(cslName)
+        .join("; ");
+      if (names.length > MAX_MARKDOWN_AUTHORS) authors += " et al.";
+      const issued = entry.issued;
+      const year = issued?.["date-parts"]?.[0]?.[0] ?? issued?.literal;
+
+      const head = [authors, year && `(${year})`].filter(Boolean).join(" ");
+      const volume = entry.volume
+        ? entry.volume + (entry.issue ? `(${entry.issue})` : "")
+        : "";
+      const source = [entry["container-title"], volume, entry.page]
+        .filter(Boolean)
+        .join(", ");
+      const link = entry.DOI ? `https://doi.org/${entry.DOI}` : entry.URL;
+      const parts = [
+        head,
+        entry.title && `*${entry.title}*`,
+        source,
+        link && `<${link}>`,
+      ].filter(Boolean);
+      return `- [@${labels[i]}] ${parts.join(". ").replace(/\.\./g, ".")}`;
+    })
+    .join("\n");
+}
@@ -1,3 +1,5 @@
+import { formatLibraryKey, zoteroSelectURL } from "./libraryResolver";
+
 declare let ztoolkit: ZToolkit;
 
 /**
@@ -75,6 +77,7 @@ function htmlToPlainText(html: string): string {
 export function formatItemBrief(item: Zotero.Item): Record<string, any> {
   return {
     key: item.key,
+    libraryKey: formatLibraryKey(item.libraryID, item.key),
     title: item.getField("title") || "No Title",
     creators: item
       .getCreators()
@@ -163,8 +166,10 @@ export async function formatItem(
   }
   const formattedItem: Record<string, any> = {
     key: item.key,
+    libraryID: item.libraryID,
+    libraryKey: formatLibraryKey(item.libraryID, item.key),
     itemType: item.itemType,
-    zoteroUrl: `zotero://select/library/items/${item.key}`,
+    zoteroUrl: zoteroSelectURL(item.libraryID, item.key),
   };
 
   // Safe string getter function - consistent with other modules
@@ -570,3 +575,37 @@ export async function formatItems(
     throw error;
   }
 }
+
+/**
+ * Expand a short CSL style ID ("apa", "nature") to the zotero.org style URL
+ * QuickCopy expects. Full URLs pass through unchanged.
+ * @param style A style ID or URL; defaults to APA.
+ * @returns The style URL.
+ */
+export function resolveCitationStyle(style?: string): string {
+  const id = style || "http://www.zotero.org/styles/apa";
+  return id.startsWith("http") ? id : `http://www.zotero.org/styles/${id}`;
+}
+
+/**
+ * Renders a formatted bibliography for the given items via QuickCopy.
+ * @param items The Zotero.Item objects to cite.
+ * @param style A style ID or URL (see resolveCitationStyle).
+ * @param format "text" (default) or "html".
+ * @returns The bibliography string and the resolved style URL.
+ */
+export function renderBibliography(
+  items: Zotero.Item[],
+  style?: string,
+  format: "text" | "html" = "text",
+): { bibliography: string; style: string } {
+  const styleURL = resolveCitationStyle(style);
+  const result = Zotero.QuickCopy.getContentFromItems(
+    items,
+    `bibliography=${styleURL}`,
+  );
+  return {
+    bibliography: format === "html" ? result.html : result.text,
+    style: styleURL,
+  };
+}
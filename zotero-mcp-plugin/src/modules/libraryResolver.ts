@@ -0,0 +1,237 @@
+/**
+ * Library resolution for personal + group library support.
+ *
+ * Every tool accepts an optional `libraryID` (number) or `library` (name,
+ * "user", or "group:<groupID>") argument, and any key argument may be given
+ * in Zotero's library-qualified form "<libraryID>/<KEY>" — the same shape
+ * Zotero's own `item.libraryKey` produces and the shape we emit in results.
+ * All of that collapses into a single numeric libraryID before the call
+ * reaches a handler, so downstream code only ever deals with plain 8-char
+ * keys plus one libraryID.
+ */
+
+declare let Zotero: any;
+
+const LIBRARY_KEY_RE = /^(\d+)\/([A-Z0-9]{8})$/;
+const GROUP_REF_RE = /^group:(\d+)$/i;
+
+// Argument names that carry item/collection keys besides the *Key / *Keys
+// convention (create_item takes its target collections as `collections`;
+// search_library and the semantic filters scope by `collection`).
+const EXTRA_KEY_ARGS = new Set(["collections", "collection"]);
+
+export class LibraryNotFoundError extends Error {
+  constructor(ref: string) {
+    super(
+      `Library "${ref}" not found. Use list_libraries to see available libraries.`,
+    );
+    this.name = "LibraryNotFoundError";
+  }
+}
+
+/** Thrown when one call mixes keys (or arguments) from different libraries. */
+export class LibraryMismatchError extends Error {
+  constructor(a: number, b: number) {
+    super(
+      `Arguments reference two different libraries (${a} and ${b}); a single call can only operate on one library`,
+    );
+    this.name = "LibraryMismatchError";
+  }
+}
+
+export interface LibraryInfo {
+  libraryID: number;
+  type: string;
+  name: string;
+  groupID?: number;
+  editable: boolean;
+  filesEditable: boolean;
+}
+
+/**
+ * Build the library-qualified key for an object. Returns undefined when the
+ * libraryID is unknown so callers can spread it without emitting
+ * "undefined/KEY" for partially-populated objects.
+ */
+export function formatLibraryKey(
+  libraryID: number | undefined | null,
+  key: string,
+): string | undefined {
+  if (typeof libraryID !== "number" || !key) return undefined;
+  return `${libraryID}/${key}`;
+}
+
+/** Split "<libraryID>/<KEY>" into its parts; null for anything else. */
+export function parseLibraryKey(
+  value: unknown,
+): { libraryID: number; key: string } | null {
+  if (typeof value !== "string") return null;
+  const m = LIBRARY_KEY_RE.exec(value.trim());
+  if (!m) return null;
+  return { libraryID: parseInt(m[1], 10), key: m[2] };
+}
+
+function isKeyArg(name: string): boolean {
+  return (
+    name.endsWith("Key") || name.endsWith("Keys") || EXTRA_KEY_ARGS.has(name)
+  );
+}
+
+/**
+ * Strip library qualifiers off every key argument. Returns the rewritten
+ * arguments plus the libraryID the qualifiers pointed at (if any). Mixing
+ * libraries within one call is rejected rather than guessed at.
+ */
+export function extractQualifiedKeys(args: Record<string, any>): {
+  args: Record<string, any>;
+  libraryID?: number;
+} {
+  let libraryID: number | undefined;
+  const note = (id: number) => {
+    if (libraryID !== undefined && libraryID !== id) {
+      throw new LibraryMismatchError(libraryID, id);
+    }
+    libraryID = id;
+  };
+  const unqualify = (value: unknown) => {
+    const parsed = parseLibraryKey(value);
+    if (!parsed) return value;
+    note(parsed.libraryID);
+    return parsed.key;
+  };
+
+  const out: Record<string, any> = {};
+  for (const [name, value] of Object.entries(args)) {
+    if (!isKeyArg(name)) {
+      out[name] = value;
+    } else if (Array.isArray(value)) {
+      out[name] = value.map(unqualify);
+    } else {
+      out[name] = unqualify(value);
+    }
+  }
+  return { args: out, libraryID };
+}
+
+function describeLibrary(library: any): LibraryInfo {
+  const info: LibraryInfo = {
+    libraryID: library.libraryID,
+    type: library.libraryType,
+    name: library.name,
+    editable: Boolean(library.editable),
+    filesEditable: Boolean(library.filesEditable),
+  };
+  if (library.libraryType === "group") {
+    try {
+      const group = Zotero.Groups.getByLibraryID(library.libraryID);
+      if (group) info.groupID = group.id;
+    } catch {
+      // groupID is informational only
+    }
+  }
+  return info;
+}
+
+/** Personal library plus every group library; feeds are not research libraries. */
+export function listLibraries(): LibraryInfo[] {
+  return (Zotero.Libraries.getAll() as any[])
+    .filter((lib) => lib.libraryType === "user" || lib.libraryType === "group")
+    .map(describeLibrary);
+}
+
+export function getLibraryInfo(libraryID: number): LibraryInfo {
+  const library = Zotero.Libraries.get(libraryID);
+  if (
+    !library ||
+    (library.libraryType !== "user" && library.libraryType !== "group")
+  ) {
+    throw new LibraryNotFoundError(String(libraryID));
+  }
+  return describeLibrary(library);
+}
+
+/**
+ * Resolve a `libraryID` / `library` argument pair to a numeric libraryID.
+ * `library` may be "user", a library name (case-insensitive), "group:<id>"
+ * with a Zotero group ID, or a numeric string. Neither given → personal
+ * library, which keeps every pre-existing client working unchanged.
+ */
+export function resolveLibraryID(
+  libraryID?: unknown,
+  library?: unknown,
+): number {
+  if (libraryID !== undefined && libraryID !== null && libraryID !== "") {
+    const id = typeof libraryID === "number" ? libraryID : Number(libraryID);
+    if (!Number.isInteger(id)) {
+      throw new LibraryNotFoundError(String(libraryID));
+    }
+    return getLibraryInfo(id).libraryID;
+  }
+
+  if (library === undefined || library === null || library === "") {
+    return Zotero.Libraries.userLibraryID;
+  }
+
+  const ref = String(library).trim();
+  if (ref.toLowerCase() === "user") return Zotero.Libraries.userLibraryID;
+
+  const groupMatch = GROUP_REF_RE.exec(ref);
+  if (groupMatch) {
+    const id = Zotero.Groups.getLibraryIDFromGroupID(
+      parseInt(groupMatch[1], 10),
+    );
+    if (!id) throw new LibraryNotFoundError(ref);
+    return id;
+  }
+
+  if (/^\d+$/.test(ref)) return getLibraryInfo(parseInt(ref, 10)).libraryID;
+
+  const lower = ref.toLowerCase();
+  const match = listLibraries().find((l) => l.name.toLowerCase() === lower);
+  if (!match) throw new LibraryNotFoundError(ref);
+  return match.libraryID;
+}
+
+/**
+ * Normalize raw tool arguments: resolve `libraryID`/`library`, strip key
+ * qualifiers, and always return a numeric `libraryID` (the `library` alias
+ * is dropped so it never leaks into URLSearchParams-based handlers).
+ */
+export function normalizeLibraryArgs(
+  raw: Record<string, any> | undefined,
+): Record<string, any> {
+  const { args, libraryID: fromKeys } = extractQualifiedKeys(raw || {});
+  const { library, libraryID: explicit, ...rest } = args;
+  const hasExplicit =
+    (explicit !== undefined && explicit !== null && explicit !== "") ||
+    (library !== undefined && library !== null && library !== "");
+
+  let libraryID: number;
+  if (hasExplicit) {
+    libraryID = resolveLibraryID(explicit, library);
+    if (fromKeys !== undefined && fromKeys !== libraryID) {
+      throw new LibraryMismatchError(libraryID, fromKeys);
+    }
+  } else if (fromKeys !== undefined) {
+    libraryID = getLibraryInfo(fromKeys).libraryID;
+  } else {
+    libraryID = Zotero.Libraries.userLibraryID;
+  }
+  return { ...rest, libraryID };
+}
+
+/** zotero:// select link that works for both personal and group items. */
+export function zoteroSelectURL(libraryID: number | undefined, key: string) {
+  if (
+    typeof libraryID === "number" &&
+    libraryID !== Zotero.Libraries.userLibraryID
+  ) {
+    try {
+      const group = Zotero.Groups.getByLibraryID(libraryID);
+      if (group) return `zotero://select/groups/${group.id}/items/${key}`;
+    } catch {
+      // fall through to the personal-library form
+    }
+  }
+  return `zotero://select/library/items/${key}`;
+}
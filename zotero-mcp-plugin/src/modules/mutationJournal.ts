@@ -0,0 +1,787 @@
+/**
+ * Undo journal for MCP write tools.
+ *
+ * Each journaled write records the Zotero API JSON (`toJSON()`) of every
+ * item and collection it can touch, before and after the call, in
+ * zotero-mcp-journal.json in the Zotero data directory. Undoing an
+ * operation writes the "before" states back in one DB transaction, so a
+ * batch is rolled back whole or not at all. Objects changed since the
+ * operation are refused unless forced. Undo runs are journaled in turn,
+ * so an undo can itself be undone.
+ *
+ * Journaled calls run one at a time. Objects that appear in the library
+ * while a call runs are only recorded as created by it when its result
+ * names them or they are children of what it named: Zotero sync, the UI
+ * and the connector can add objects during a slow import, and undo must
+ * never remove those.
+ */
+
+import type { WriteScope } from "./serverPreferences";
+import { findItemIDsByIdentifier, parseIdentifier } from "./identifiers";
+
+declare let Zotero: any;
+declare let ztoolkit: ZToolkit;
+declare let IOUtils: any;
+declare let PathUtils: any;
+
+export type SnapshotKind = "item" | "collection";
+
+export interface Snapshot {
+  kind: SnapshotKind;
+  key: string;
+  /** API JSON before the operation; null when the operation created it. */
+  before: Record<string, any> | null;
+  /** API JSON after the operation; null when the operation erased it. */
+  after: Record<string, any> | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  tool: string;
+  libraryID: number;
+  /** Scopes the tool required; undoing it requires the same. */
+  scopes: WriteScope[];
+  /** The named client token that made the call; absent for the primary token. */
+  clientID?: string;
+  timestamp: string;
+  snapshots: Snapshot[];
+  /** The tool failed partway; what it did change is still recorded. */
+  error?: string;
+  /** For undo entries: the operation this one undid. */
+  undoOf?: string;
+  undoneAt?: string;
+  /** The undo entry that reverted this operation. */
+  undoneBy?: string;
+}
+
+export interface JournalSummary {
+  operationId: string;
+  tool: string;
+  libraryID: number;
+  clientID?: string;
+  timestamp: string;
+  items: number;
+  collections: number;
+  undoOf?: string;
+  undoneAt?: string;
+  error?: string;
+}
+
+export const MAX_JOURNAL_ENTRIES = 200;
+
+/** Write tools whose effects are journaled; the semantic index tools change no library data. */
+export const JOURNALED_TOOLS = new Set([
+  "add_note",
+  "update_note",
+  "add_tags",
+  "remove_tags",
+  "add_to_collection",
+  "remove_from_collection",
+  "create_collection",
+  "rename_collection",
+  "move_collection",
+  "move_item_to_collection",
+  "create_item",
+  "update_item",
+  "add_related_item",
+  "remove_related_item",
+  "trash_item",
+  "restore_from_trash",
+  "delete_collection",
+  "delete_tag",
+  "rename_tag",
+  "batch_tag",
+  "batch_add_to_collection",
+  "batch_remove_from_collection",
+  "batch_trash",
+  "import_attachment_url",
+  "import_by_identifier",
+  "create_annotation",
+  "update_annotation",
+  "delete_annotation",
+  "merge_items",
+]);
+
+const ITEM_KEY_ARGS = [
+  "itemKey",
+  "noteKey",
+  "parentItemKey",
+  "relatedItemKey",
+  "annotationKey",
+  "masterKey",
+];
+const COLLECTION_KEY_ARGS = [
+  "collectionKey",
+  "parentCollectionKey",
+  "newParentKey",
+  "fromCollectionKey",
+  "toCollectionKey",
+];
+// Tag tools name a tag rather than items; every item carrying it is touched.
+const TAG_ARGS: Record<string, string> = {
+  rename_tag: "oldName",
+  delete_tag: "tagName",
+};
+
+// Zotero bumps these on every save; they are not part of an object's state.
+const VOLATILE_FIELDS = ["version", "dateModified", "synced"];
+// Set-valued fields, whose order Zotero does not preserve.
+const UNORDERED_FIELDS = new Set(["tags", "collections", "relations"]);
+
+function canonical(value: any, unordered = false): any {
+  if (Array.isArray(value)) {
+    const items = value.map((entry) => canonical(entry));
+    return unordered
+      ? items.sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)))
+      : items;
+  }
+  if (value && typeof value === "object") {
+    const out: Record<string, any> = {};
+    for (const name of Object.keys(value).sort()) {
+      out[name] = canonical(
+        value[name],
+        unordered || UNORDERED_FIELDS.has(name),
+      );
+    }
+    return out;
+  }
+  return value;
+}
+
+/** Whether two snapshots describe the same object state; null is "absent". */
+export function sameState(
+  a: Record<string, any> | null,
+  b: Record<string, any> | null,
+): boolean {
+  if (!a || !b) return a === b;
+  const comparable = (json: Record<string, any>) => {
+    const copy = { ...json };
+    for (const field of VOLATILE_FIELDS) delete copy[field];
+    return JSON.stringify(canonical(copy));
+  };
+  return comparable(a) === comparable(b);
+}
+
+/** Items, collections and tags a write tool's arguments name. */
+export function journalTargets(
+  tool: string,
+  args: Record<string, any>,
+): {
+  itemKeys: string[];
+  collectionKeys: string[];
+  tags: string[];
+  /** Whether the collections' subcollections and items are touched too. */
+  withContents: boolean;
+} {
+  const strings = (names: string[]) =>
+    names
+      .map((name) => args?.[name])
+      .filter((value): value is string => typeof value === "string" && !!value);
+
+  const itemKeys = strings(ITEM_KEY_ARGS);
+  if (Array.isArray(args?.itemKeys)) {
+    itemKeys.push(...args.itemKeys.filter((k: any) => typeof k === "string"));
+  }
+  return {
+    itemKeys: [...new Set(itemKeys)],
+    collectionKeys: [...new Set(strings(COLLECTION_KEY_ARGS))],
+    tags: TAG_ARGS[tool] ? strings([TAG_ARGS[tool]]).map((t) => t.trim()) : [],
+    withContents: tool === "delete_collection",
+  };
+}
+
+const KEY_RE = /^[A-Z0-9]{8}$/;
+
+/** Every object key a write tool's result names, at any depth. */
+export function resultKeys(result: any): string[] {
+  const keys = new Set<string>();
+  const visit = (value: any, depth: number) => {
+    if (typeof value === "string") {
+      if (KEY_RE.test(value)) keys.add(value);
+    } else if (value && typeof value === "object" && depth < 8) {
+      for (const entry of Object.values(value)) visit(entry, depth + 1);
+    }
+  };
+  visit(result, 0);
+  return [...keys];
+}
+
+/**
+ * Of the objects that appeared while a call ran (snapshots with no
+ * "before"), those the call created: ones `referenced` names (its result
+ * and targets), and children of those, such as the notes and attachments
+ * a translator saves under an imported item.
+ */
+export function attributeCreated(
+  candidates: Snapshot[],
+  referenced: Iterable<string>,
+): Snapshot[] {
+  const known = new Set(referenced);
+  const created: Snapshot[] = [];
+  let pending = candidates;
+  let grew = true;
+  while (grew) {
+    grew = false;
+    const rest: Snapshot[] = [];
+    for (const snapshot of pending) {
+      const parent =
+        snapshot.after?.parentItem || snapshot.after?.parentCollection;
+      if (known.has(snapshot.key) || (parent && known.has(parent))) {
+        created.push(snapshot);
+        known.add(snapshot.key);
+        grew = true;
+      } else {
+        rest.push(snapshot);
+      }
+    }
+    pending = rest;
+  }
+  return created;
+}
+
+/** Order snapshots so that a parent (per `parentOf`) precedes its children. */
+function parentsFirst(
+  snapshots: Snapshot[],
+  parentOf: (snapshot: Snapshot) => string | undefined,
+): Snapshot[] {
+  const byKey = new Map(snapshots.map((s) => [s.key, s]));
+  const depth = (snapshot: Snapshot): number => {
+    let d = 0;
+    let parent = byKey.get(parentOf(snapshot) || "");
+    while (parent && d < snapshots.length) {
+      d++;
+      parent = byKey.get(parentOf(parent) || "");
+    }
+    return d;
+  };
+  return [...snapshots].sort((a, b) => depth(a) - depth(b));
+}
+
+/**
+ * How to undo an entry: objects to write back to their "before" state
+ * (collections, then items, parents first so children can reattach) and
+ * objects the operation created, to remove (items, then collections,
+ * children first).
+ */
+export function undoPlan(entry: JournalEntry): {
+  restore: Snapshot[];
+  remove: Snapshot[];
+} {
+  const changed = entry.snapshots.filter((s) => !sameState(s.before, s.after));
+  const of = (kind: SnapshotKind, existed: boolean) =>
+    changed.filter((s) => s.kind === kind && !!s.before === existed);
+  const parentItem = (s: Snapshot) => (s.before || s.after)?.parentItem;
+  const parentCollection = (s: Snapshot) =>
+    (s.before || s.after)?.parentCollection || undefined;
+  return {
+    restore: [
+      ...parentsFirst(of("collection", true), parentCollection),
+      ...parentsFirst(of("item", true), parentItem),
+    ],
+    remove: [
+      ...of("item", false),
+      ...parentsFirst(of("collection", false), parentCollection).reverse(),
+    ],
+  };
+}
+
+/**
+ * Snapshots whose object no longer matches the state the operation left
+ * it in. `current` maps "kind:key" to the object's JSON now, or null.
+ */
+export function findConflicts(
+  entry: JournalEntry,
+  current: Map<string, Record<string, any> | null>,
+): Snapshot[] {
+  return entry.snapshots.filter(
+    (s) =>
+      !sameState(s.before, s.after) &&
+      !sameState(current.get(`${s.kind}:${s.key}`) ?? null, s.after),
+  );
+}
+
+export function summarizeEntry(entry: JournalEntry): JournalSummary {
+  const changed = entry.snapshots.filter((s) => !sameState(s.before, s.after));
+  return {
+    operationId: entry.id,
+    tool: entry.tool,
+    libraryID: entry.libraryID,
+    clientID: entry.clientID,
+    timestamp: entry.timestamp,
+    items: changed.filter((s) => s.kind === "item").length,
+    collections: changed.filter((s) => s.kind === "collection").length,
+    undoOf: entry.undoOf,
+    undoneAt: entry.undoneAt,
+    error: entry.error,
+  };
+}
+
+/**
+ * The entry undo_last reverts: the newest operation not yet undone, in
+ * `libraryID` and made by `clientID` when given. Undo entries are skipped,
+ * so repeated undo_last calls walk back through history rather than
+ * redoing.
+ */
+export function lastUndoable(
+  entries: JournalEntry[],
+  libraryID?: number,
+  clientID?: string,
+): JournalEntry | undefined {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry.undoOf || entry.undoneAt) continue;
+    if (libraryID !== undefined && entry.libraryID !== libraryID) continue;
+    if (clientID !== undefined && entry.clientID !== clientID) continue;
+    return entry;
+  }
+  return undefined;
+}
+
+// --- Storage ---
+
+let entries: JournalEntry[] | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+let lockChain: Promise<void> = Promise.resolve();
+
+function journalPath(): string {
+  return PathUtils.join(Zotero.DataDirectory.dir, "zotero-mcp-journal.json");
+}
+
+async function loadJournal(): Promise<JournalEntry[]> {
+  if (entries) return entries;
+  try {
+    const path = journalPath();
+    entries = (await IOUtils.exists(path))
+      ? (await IOUtils.readJSON(path)).entries || []
+      : [];
+  } catch (error) {
+    ztoolkit.log(`[MutationJournal] Could not read journal: ${error}`, "warn");
+    entries = [];
+  }
+  return entries!;
+}
+
+function saveJournal(): Promise<void> {
+  writeChain = writeChain
+    .then(() => {
+      const path = journalPath();
+      return IOUtils.writeJSON(
+        path,
+        { version: 1, entries },
+        { tmpPath: `${path}.tmp` },
+      );
+    })
+    .catch((error: unknown) => {
+      ztoolkit.log(
+        `[MutationJournal] Could not save journal: ${error}`,
+        "error",
+      );
+    });
+  return writeChain;
+}
+
+async function appendEntry(entry: JournalEntry): Promise<void> {
+  const journal = await loadJournal();
+  journal.push(entry);
+  if (journal.length > MAX_JOURNAL_ENTRIES) {
+    journal.splice(0, journal.length - MAX_JOURNAL_ENTRIES);
+  }
+  await saveJournal();
+}
+
+/** Newest first. */
+export async function listJournal(limit = 50): Promise<JournalSummary[]> {
+  const journal = await loadJournal();
+  return journal.slice(-limit).reverse().map(summarizeEntry);
+}
+
+export async function getJournalEntry(
+  operationId: string,
+): Promise<JournalEntry | undefined> {
+  return (await loadJournal()).find((entry) => entry.id === operationId);
+}
+
+export async function getLastUndoable(
+  libraryID?: number,
+  clientID?: string,
+): Promise<JournalEntry | undefined> {
+  return lastUndoable(await loadJournal(), libraryID, clientID);
+}
+
+/** Serialize journaled writes; resolves to the release function. */
+function acquireLock(): Promise<() => void> {
+  let release!: () => void;
+  const held = new Promise<void>((resolve) => (release = resolve));
+  const ready = lockChain.then(() => release);
+  lockChain = lockChain.then(() => held);
+  return ready;
+}
+
+function newOperationID(): string {
+  return `op-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// --- Capture ---
+
+function objectsOf(kind: SnapshotKind): any {
+  return kind === "item" ? Zotero.Items : Zotero.Collections;
+}
+
+function currentState(
+  kind: SnapshotKind,
+  libraryID: number,
+  key: string,
+): Record<string, any> | null {
+  const object = objectsOf(kind).getByLibraryAndKey(libraryID, key);
+  return object ? object.toJSON() : null;
+}
+
+async function maxID(kind: SnapshotKind): Promise<number> {
+  return kind === "item"
+    ? (await Zotero.DB.valueQueryAsync("SELECT MAX(itemID) FROM items")) || 0
+    : (await Zotero.DB.valueQueryAsync(
+        "SELECT MAX(collectionID) FROM collections",
+      )) || 0;
+}
+
+async function createdSince(
+  kind: SnapshotKind,
+  libraryID: number,
+  since: number,
+): Promise<any[]> {
+  const ids: number[] =
+    kind === "item"
+      ? await Zotero.DB.columnQueryAsync(
+          "SELECT itemID FROM items WHERE itemID > ? AND libraryID = ?",
+          [since, libraryID],
+        )
+      : await Zotero.DB.columnQueryAsync(
+          "SELECT collectionID FROM collections WHERE collectionID > ? AND libraryID = ?",
+          [since, libraryID],
+        );
+  if (!ids || ids.length === 0) return [];
+  return kind === "item"
+    ? await Zotero.Items.getAsync(ids)
+    : Zotero.Collections.get(ids);
+}
+
+/** "before" states of everything a call with these arguments can touch. */
+async function captureBefore(
+  tool: string,
+  args: Record<string, any>,
+  libraryID: number,
+): Promise<Map<string, Snapshot>> {
+  const targets = journalTargets(tool, args);
+  const snapshots = new Map<string, Snapshot>();
+  const addItem = (item: any) => {
+    if (!item || snapshots.has(`item:${item.key}`)) return;
+    snapshots.set(`item:${item.key}`, {
+      kind: "item",
+      key: item.key,
+      before: item.toJSON(),
+      after: null,
+    });
+    // Merging, trashing and attachment replacement move or trash children.
+    if (item.isRegularItem?.()) {
+      for (const child of Zotero.Items.get([
+        ...item.getNotes(true),
+        ...item.getAttachments(true),
+      ])) {
+        addItem(child);
+      }
+    }
+  };
+  const addCollection = (collection: any) => {
+    if (!collection || snapshots.has(`collection:${collection.key}`)) return;
+    snapshots.set(`collection:${collection.key}`, {
+      kind: "collection",
+      key: collection.key,
+      before: collection.toJSON(),
+      after: null,
+    });
+    // Deleting a collection erases its subcollections and unfiles its items.
+    if (targets.withContents) {
+      for (const child of collection.getChildCollections(false, true)) {
+        addCollection(child);
+      }
+      for (const item of collection.getChildItems(false, true)) addItem(item);
+    }
+  };
+
+  for (const key of targets.itemKeys) {
+    addItem(Zotero.Items.getByLibraryAndKey(libraryID, key));
+  }
+  for (const key of targets.collectionKeys) {
+    addCollection(Zotero.Collections.getByLibraryAndKey(libraryID, key));
+  }
+  for (const name of targets.tags) {
+    const tagID = Zotero.Tags.getID(name);
+    if (!tagID) continue;
+    const ids = await Zotero.Tags.getTagItems(libraryID, tagID);
+    for (const item of await Zotero.Items.getAsync(ids || [])) addItem(item);
+  }
+  // import_by_identifier may file or trash items that carry the identifier.
+  if (typeof args?.identifier === "string") {
+    const parsed = parseIdentifier(args.identifier, args.type);
+    if (parsed) {
+      const { ids } = await findItemIDsByIdentifier(libraryID, {
+        [parsed.type]: parsed.value,
+      });
+      for (const item of await Zotero.Items.getAsync(ids)) addItem(item);
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * A journaled call in progress; `finish` records it and releases the lock.
+ * Pass the tool's `result` so the objects it created can be attributed to
+ * it, or the `error` it failed with.
+ */
+export interface PendingMutation {
+  finish(outcome?: {
+    result?: any;
+    error?: unknown;
+  }): Promise<JournalEntry | null>;
+}
+
+/**
+ * Snapshot what a write tool call can touch before it runs. Until
+ * `finish` is called, other journaled calls wait. Dry runs are not
+ * journaled and resolve to null. `clientID` names the client token that
+ * made the call, if not the primary one.
+ */
+export async function beginMutation(
+  tool: string,
+  args: Record<string, any>,
+  scopes: WriteScope[],
+  clientID?: string,
+): Promise<PendingMutation | null> {
+  if (!JOURNALED_TOOLS.has(tool) || args?.dryRun === true) return null;
+  const libraryID =
+    typeof args?.libraryID === "number"
+      ? args.libraryID
+      : Zotero.Libraries.userLibraryID;
+
+  const release = await acquireLock();
+  let snapshots: Map<string, Snapshot>;
+  let maxItemID: number;
+  let maxCollectionID: number;
+  try {
+    snapshots = await captureBefore(tool, args, libraryID);
+    maxItemID = await maxID("item");
+    maxCollectionID = await maxID("collection");
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  let finished: Promise<JournalEntry | null> | null = null;
+  const record = async (
+    result: any,
+    error?: unknown,
+  ): Promise<JournalEntry | null> => {
+    try {
+      for (const snapshot of snapshots.values()) {
+        snapshot.after = currentState(snapshot.kind, libraryID, snapshot.key);
+      }
+      const appeared: Snapshot[] = [];
+      for (const kind of ["item", "collection"] as const) {
+        const since = kind === "item" ? maxItemID : maxCollectionID;
+        for (const object of await createdSince(kind, libraryID, since)) {
+          appeared.push({
+            kind,
+            key: object.key,
+            before: null,
+            after: object.toJSON(),
+          });
+        }
+      }
+      const referenced = [
+        ...resultKeys(result),
+        ...[...snapshots.values()].map((s) => s.key),
+      ];
+      for (const snapshot of attributeCreated(appeared, referenced)) {
+        snapshots.set(`${snapshot.kind}:${snapshot.key}`, snapshot);
+      }
+      const changed = [...snapshots.values()].filter(
+        (s) => !sameState(s.before, s.after),
+      );
+      if (changed.length === 0) return null;
+      const entry: JournalEntry = {
+        id: newOperationID(),
+        tool,
+        libraryID,
+        scopes,
+        timestamp: new Date().toISOString(),
+        snapshots: changed,
+      };
+      if (clientID) entry.clientID = clientID;
+      if (error) {
+        entry.error = error instanceof Error ? error.message : String(error);
+      }
+      await appendEntry(entry);
+      return entry;
+    } catch (journalError) {
+      // The write itself already happened; losing its undo record must
+      // not turn it into a failure.
+      ztoolkit.log(
+        `[MutationJournal] Could not record ${tool}: ${journalError}`,
+        "error",
+      );
+      return null;
+    } finally {
+      release();
+    }
+  };
+  return {
+    finish(outcome = {}) {
+      if (!finished) finished = record(outcome.result, outcome.error);
+      return finished;
+    },
+  };
+}
+
+// --- Undo ---
+
+export interface UndoOutcome {
+  undone: JournalSummary;
+  /** The undo's own journal entry (null on dryRun). */
+  undoEntry: JournalSummary | null;
+  restored: string[];
+  removed: string[];
+  /** Objects changed after the operation, overwritten because of force. */
+  conflicts: string[];
+}
+
+function label(snapshot: Snapshot): string {
+  return `${snapshot.kind} ${snapshot.key}`;
+}
+
+async function applySnapshot(snapshot: Snapshot, libraryID: number) {
+  const before = snapshot.before!;
+  let object = objectsOf(snapshot.kind).getByLibraryAndKey(
+    libraryID,
+    snapshot.key,
+  );
+  if (!object) {
+    // Erased by the operation: recreate it under its old key.
+    object =
+      snapshot.kind === "item"
+        ? new Zotero.Item(before.itemType)
+        : new Zotero.Collection();
+    object.libraryID = libraryID;
+    object.key = snapshot.key;
+  }
+  object.fromJSON(before);
+  await object.save();
+}
+
+async function removeCreated(snapshot: Snapshot, libraryID: number) {
+  const object = objectsOf(snapshot.kind).getByLibraryAndKey(
+    libraryID,
+    snapshot.key,
+  );
+  if (!object) return;
+  if (snapshot.kind === "item") {
+    // Trash rather than erase, so undoing the undo brings it back intact.
+    object.deleted = true;
+    await object.save();
+  } else {
+    await object.erase();
+  }
+}
+
+function assertNotUndone(entry: JournalEntry): void {
+  if (entry.undoneAt) {
+    throw new Error(
+      `Operation ${entry.id} was already undone by ${entry.undoneBy}`,
+    );
+  }
+}
+
+/**
+ * Revert an operation in one transaction: either every object returns to
+ * its recorded "before" state or, on any failure, none does. Throws when
+ * objects changed after the operation, unless `force`. The undo is
+ * recorded as made by `clientID`.
+ */
+export async function undoEntry(
+  requested: JournalEntry,
+  options: { force?: boolean; dryRun?: boolean; clientID?: string } = {},
+): Promise<UndoOutcome> {
+  assertNotUndone(requested);
+  const release = await acquireLock();
+  try {
+    // Check again under the lock: a concurrent undo of the same operation
+    // may have finished while this one waited.
+    const entry =
+      (await loadJournal()).find((e) => e.id === requested.id) ?? requested;
+    assertNotUndone(entry);
+    const { libraryID } = entry;
+    const current = new Map<string, Record<string, any> | null>();
+    for (const s of entry.snapshots) {
+      current.set(`${s.kind}:${s.key}`, currentState(s.kind, libraryID, s.key));
+    }
+    const conflicts = findConflicts(entry, current).map(label);
+    if (conflicts.length > 0 && !options.force) {
+      throw new Error(
+        `Cannot undo ${entry.id}: changed since the operation: ${conflicts.join(", ")}. Pass force: true to overwrite those changes.`,
+      );
+    }
+
+    const plan = undoPlan(entry);
+    const outcome: UndoOutcome = {
+      undone: summarizeEntry(entry),
+      undoEntry: null,
+      restored: plan.restore.map(label),
+      removed: plan.remove.map(label),
+      conflicts,
+    };
+    if (options.dryRun) return outcome;
+
+    await Zotero.DB.executeTransaction(async () => {
+      for (const snapshot of plan.restore) {
+        await applySnapshot(snapshot, libraryID);
+      }
+      for (const snapshot of plan.remove) {
+        await removeCreated(snapshot, libraryID);
+      }
+    });
+
+    const undo: JournalEntry = {
+      id: newOperationID(),
+      tool: "undo_operation",
+      libraryID,
+      scopes: entry.scopes,
+      timestamp: new Date().toISOString(),
+      undoOf: entry.id,
+      ...(options.clientID ? { clientID: options.clientID } : {}),
+      snapshots: [...plan.restore, ...plan.remove].map((s) => ({
+        kind: s.kind,
+        key: s.key,
+        before: current.get(`${s.kind}:${s.key}`) ?? null,
+        after: currentState(s.kind, libraryID, s.key),
+      })),
+    };
+    entry.undoneAt = undo.timestamp;
+    entry.undoneBy = undo.id;
+    // Undoing an undo re-applies the original, which becomes undoable again.
+    if (entry.undoOf) {
+      const original = (await loadJournal()).find((e) => e.id === entry.undoOf);
+      if (original) {
+        delete original.undoneAt;
+        delete original.undoneBy;
+      }
+    }
+    await appendEntry(undo);
+    outcome.undoEntry = summarizeEntry(undo);
+
+    ztoolkit.log(
+      `[MutationJournal] Undid ${entry.id} (${entry.tool}): ${outcome.restored.length} restored, ${outcome.removed.length} removed`,
+    );
+    return outcome;
+  } finally {
+    release();
+  }
+}
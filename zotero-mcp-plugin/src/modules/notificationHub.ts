@@ -0,0 +1,274 @@
+/**
+ * Server-to-client push for the Streamable HTTP transport.
+ *
+ * A client opens a long-lived `GET /mcp` with `Accept: text/event-stream`;
+ * httpServer hands the socket to an SSEStream and parks it here, keyed by
+ * Mcp-Session-Id. Anything in the plugin can then push JSON-RPC
+ * notifications (tools/list_changed, resources/updated, ...) without knowing
+ * about sockets. Request-scoped messages such as progress don't come through
+ * the hub: they go out on the SSE response of the POST that asked for them.
+ */
+
+import type { MCPNotification } from "./streamableMCPServer";
+
+declare let ztoolkit: ZToolkit;
+
+/** Idle streams get a comment line this often so dead peers are noticed. */
+const HEARTBEAT_INTERVAL_MS = 25000;
+/** Bursts (a 500-item import, toggling five scopes) collapse into one push. */
+const COALESCE_DELAY_MS = 500;
+/** One stream per session, and a global cap so sockets can't be hoarded. */
+const MAX_STREAMS = 32;
+
+/**
+ * Serialize one SSE event. JSON.stringify never emits raw newlines, so the
+ * payload always fits on a single `data:` line.
+ */
+export function formatSSEEvent(message: unknown, id?: number): string {
+  const idLine = id === undefined ? "" : `id: ${id}\n`;
+  return `${idLine}event: message\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+/**
+ * One open text/event-stream response. Writes go through the supplied
+ * function so this class stays independent of XPCOM streams; a write that
+ * throws means the peer is gone and closes the stream.
+ */
+export class SSEStream {
+  private nextEventID = 1;
+  private isOpen = true;
+  private resolveClosed!: () => void;
+  /** Resolves once the stream is closed, from either side. */
+  public readonly closed: Promise<void>;
+
+  constructor(private readonly write: (chunk: string) => void) {
+    this.closed = new Promise((resolve) => {
+      this.resolveClosed = resolve;
+    });
+  }
+
+  public get open(): boolean {
+    return this.isOpen;
+  }
+
+  /** Send a JSON-RPC message as an event. Returns false if the peer is gone. */
+  public send(message: unknown): boolean {
+    return this.writeChunk(formatSSEEvent(message, this.nextEventID++));
+  }
+
+  /** SSE comment line; clients ignore it, but a dead socket fails the write. */
+  public heartbeat(): boolean {
+    return this.writeChunk(": keepalive\n\n");
+  }
+
+  public close(): void {
+    if (!this.isOpen) return;
+    this.isOpen = false;
+    this.resolveClosed();
+  }
+
+  private writeChunk(chunk: string): boolean {
+    if (!this.isOpen) return false;
+    try {
+      this.write(chunk);
+      return true;
+    } catch {
+      this.close();
+      return false;
+    }
+  }
+}
+
+class NotificationHub {
+  private streams: Map<string, SSEStream> = new Map();
+  private subscriptions: Map<string, Set<string>> = new Map();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingListChanges: Set<string> = new Set();
+  private pendingResourceUpdates: Set<string> = new Set();
+
+  /**
+   * Park a GET stream for a session. A second GET from the same session
+   * replaces the first, so one notification is never delivered twice.
+   * Returns false when the server is at its stream cap.
+   */
+  public openStream(sessionId: string, stream: SSEStream): boolean {
+    const previous = this.streams.get(sessionId);
+    if (!previous && this.streams.size >= MAX_STREAMS) return false;
+    previous?.close();
+    this.streams.set(sessionId, stream);
+    stream.closed.then(() => {
+      if (this.streams.get(sessionId) === stream) {
+        this.streams.delete(sessionId);
+      }
+      if (this.streams.size === 0) this.stopHeartbeat();
+    });
+    this.startHeartbeat();
+    ztoolkit.log(
+      `[NotificationHub] Stream opened for ${sessionId} (${this.streams.size} open)`,
+    );
+    return true;
+  }
+
+  public hasStream(sessionId: string): boolean {
+    return this.streams.get(sessionId)?.open === true;
+  }
+
+  public hasListeners(): boolean {
+    return this.streams.size > 0;
+  }
+
+  /** Push a notification to every open stream. */
+  public broadcast(method: string, params?: Record<string, any>): void {
+    const message: MCPNotification = { jsonrpc: "2.0", method };
+    if (params) message.params = params;
+    for (const stream of this.streams.values()) stream.send(message);
+  }
+
+  public subscribe(sessionId: string, uri: string): void {
+    let uris = this.subscriptions.get(sessionId);
+    if (!uris) {
+      uris = new Set();
+      this.subscriptions.set(sessionId, uris);
+    }
+    uris.add(uri);
+  }
+
+  public unsubscribe(sessionId: string, uri: string): void {
+    const uris = this.subscriptions.get(sessionId);
+    if (!uris) return;
+    uris.delete(uri);
+    if (uris.size === 0) this.subscriptions.delete(sessionId);
+  }
+
+  /** notifications/tools/list_changed, coalesced. */
+  public toolsListChanged(): void {
+    this.queueListChange("notifications/tools/list_changed");
+  }
+
+  /** notifications/prompts/list_changed, coalesced. */
+  public promptsListChanged(): void {
+    this.queueListChange("notifications/prompts/list_changed");
+  }
+
+  /** notifications/resources/list_changed, coalesced. */
+  public resourcesListChanged(): void {
+    this.queueListChange("notifications/resources/list_changed");
+  }
+
+  /**
+   * notifications/resources/updated for each URI, delivered only to the
+   * sessions that subscribed to it (per spec), coalesced per URI.
+   */
+  public resourcesUpdated(uris: Iterable<string>): void {
+    if (this.subscriptions.size === 0) return;
+    for (const uri of uris) this.pendingResourceUpdates.add(uri);
+    this.scheduleFlush();
+  }
+
+  /** Forget a session: close its stream and drop its subscriptions. */
+  public dropSession(sessionId: string): void {
+    this.streams.get(sessionId)?.close();
+    this.streams.delete(sessionId);
+    this.subscriptions.delete(sessionId);
+  }
+
+  /** Server shutdown: close every stream and cancel pending pushes. */
+  public closeAll(): void {
+    for (const stream of this.streams.values()) stream.close();
+    this.streams.clear();
+    this.subscriptions.clear();
+    this.pendingListChanges.clear();
+    this.pendingResourceUpdates.clear();
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.stopHeartbeat();
+  }
+
+  private queueListChange(method: string): void {
+    if (this.streams.size === 0) return;
+    this.pendingListChanges.add(method);
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, COALESCE_DELAY_MS);
+  }
+
+  private flush(): void {
+    for (const method of this.pendingListChanges) this.broadcast(method);
+    this.pendingListChanges.clear();
+
+    if (this.pendingResourceUpdates.size > 0) {
+      for (const [sessionId, uris] of this.subscriptions) {
+        const stream = this.streams.get(sessionId);
+        if (!stream) continue;
+        for (const uri of this.pendingResourceUpdates) {
+          if (uris.has(uri)) {
+            stream.send({
+              jsonrpc: "2.0",
+              method: "notifications/resources/updated",
+              params: { uri },
+            });
+          }
+        }
+      }
+      this.pendingResourceUpdates.clear();
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+    this.heartbeatTimer = setInterval(() => {
+      for (const stream of this.streams.values()) stream.heartbeat();
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
+
+export const notificationHub = new NotificationHub();
+
+export type ProgressReporter = (
+  progress: number,
+  total?: number,
+  message?: string,
+) => void;
+
+/**
+ * Build the reporter for a request that carried `_meta.progressToken`.
+ * Without a token (or without a stream to send on) it is a no-op, so
+ * handlers can report unconditionally. The spec requires progress to
+ * increase, so stale or repeated values are dropped.
+ */
+export function createProgressReporter(
+  progressToken: unknown,
+  send: ((message: MCPNotification) => void) | undefined,
+): ProgressReporter {
+  if (
+    !send ||
+    (typeof progressToken !== "string" && typeof progressToken !== "number")
+  ) {
+    return () => {};
+  }
+  let last = -Infinity;
+  return (progress, total, message) => {
+    if (!(progress > last)) return;
+    last = progress;
+    const params: Record<string, any> = { progressToken, progress };
+    if (total !== undefined) params.total = total;
+    if (message) params.message = message;
+    send({ jsonrpc: "2.0", method: "notifications/progress", params });
+  };
+}
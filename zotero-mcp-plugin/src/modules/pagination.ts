@@ -0,0 +1,190 @@
+/**
+ * Cursor pagination for search and listing tools.
+ *
+ * The first call of a paged tool takes a snapshot of the IDs of every
+ * result, in order, and returns the first page with a `nextCursor`.
+ * Passing that back as `cursor` returns the next page of the same
+ * snapshot. Offsets into a live result drift when the library changes
+ * between pages; a snapshot does not: items added since are not in it,
+ * and items deleted since are skipped by the tool.
+ *
+ * Snapshots belong to the Mcp-Session-Id that took them and are dropped
+ * with the session, after SNAPSHOT_TTL_MS unused, or when the session
+ * holds MAX_SNAPSHOTS_PER_SESSION newer ones. Clients that keep no
+ * session (httpServer then mints a new one per request) pass no session
+ * ID: their snapshots share one store of MAX_SHARED_SNAPSHOTS, found by
+ * the cursor's random snapshot ID alone. Cursors are opaque to clients.
+ */
+
+const SNAPSHOT_TTL_MS = 30 * 60 * 1000;
+const MAX_SNAPSHOTS_PER_SESSION = 20;
+const MAX_SHARED_SNAPSHOTS = 200;
+const MAX_SESSIONS = 1000;
+// Bucket for calls made outside an MCP session.
+const NO_SESSION = "-";
+
+export class CursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CursorError";
+  }
+}
+
+export interface Page<T> {
+  ids: T[];
+  /** Position of the page's first entry in the whole result. */
+  offset: number;
+  limit: number;
+  total: number;
+  /** Set while there are more pages. */
+  nextCursor?: string;
+  /** What the tool stored with the snapshot. */
+  state?: any;
+}
+
+interface Snapshot {
+  tool: string;
+  ids: unknown[];
+  limit: number;
+  state?: any;
+  expiresAt: number;
+}
+
+// Both levels insertion-ordered, so the first entry is the oldest.
+const sessions = new Map<string, Map<string, Snapshot>>();
+
+/** Unguessable, since a shared-store cursor is all that guards its snapshot. */
+function newSnapshotID(): string {
+  const bytes = new Uint8Array(12);
+  (globalThis as any).crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function encodeCursor(snapshotID: string, offset: number): string {
+  return btoa(`${snapshotID}:${offset}`);
+}
+
+export function decodeCursor(
+  cursor: string,
+): { snapshotID: string; offset: number } | null {
+  try {
+    const [snapshotID, offset] = atob(cursor).split(":");
+    if (!snapshotID || !/^\d+$/.test(offset ?? "")) return null;
+    return { snapshotID, offset: Number(offset) };
+  } catch {
+    return null;
+  }
+}
+
+function storeSnapshot(
+  sessionId: string | undefined,
+  snapshot: Omit<Snapshot, "expiresAt">,
+): string {
+  const key = sessionId || NO_SESSION;
+  let snapshots = sessions.get(key);
+  if (!snapshots) {
+    if (sessions.size >= MAX_SESSIONS) {
+      sessions.delete(sessions.keys().next().value!);
+    }
+    snapshots = new Map();
+    sessions.set(key, snapshots);
+  }
+  const now = Date.now();
+  for (const [id, entry] of snapshots) {
+    if (entry.expiresAt <= now) snapshots.delete(id);
+  }
+  const cap = sessionId ? MAX_SNAPSHOTS_PER_SESSION : MAX_SHARED_SNAPSHOTS;
+  while (snapshots.size >= cap) {
+    snapshots.delete(snapshots.keys().next().value!);
+  }
+  const snapshotID = newSnapshotID();
+  snapshots.set(snapshotID, { ...snapshot, expiresAt: now + SNAPSHOT_TTL_MS });
+  return snapshotID;
+}
+
+function clampLimit(limit: number): number {
+  return Math.max(1, Math.floor(limit) || 1);
+}
+
+/**
+ * The first page of `ids`, from `offset` (for callers still passing
+ * one). A snapshot is kept only when there is a next page.
+ */
+export function startPagination<T>(
+  sessionId: string | undefined,
+  tool: string,
+  ids: T[],
+  options: { limit: number; offset?: number; state?: any },
+): Page<T> {
+  const limit = clampLimit(options.limit);
+  const offset = Math.max(0, Math.floor(options.offset ?? 0) || 0);
+  const page: Page<T> = {
+    ids: ids.slice(offset, offset + limit),
+    offset,
+    limit,
+    total: ids.length,
+    state: options.state,
+  };
+  if (offset + limit < ids.length) {
+    const snapshotID = storeSnapshot(sessionId, {
+      tool,
+      ids: [...ids],
+      limit,
+      state: options.state,
+    });
+    page.nextCursor = encodeCursor(snapshotID, offset + limit);
+  }
+  return page;
+}
+
+/**
+ * The page a cursor points at, `limit` long or as long as the first
+ * page. Throws CursorError for a cursor this session and tool did not
+ * get, or one that has expired.
+ */
+export function continuePagination<T>(
+  sessionId: string | undefined,
+  tool: string,
+  cursor: string,
+  limit?: number,
+): Page<T> {
+  const decoded = decodeCursor(cursor);
+  const snapshots = sessions.get(sessionId || NO_SESSION);
+  const snapshot = decoded && snapshots?.get(decoded.snapshotID);
+  const now = Date.now();
+  if (
+    !snapshot ||
+    snapshot.tool !== tool ||
+    snapshot.expiresAt <= now ||
+    decoded.offset > snapshot.ids.length
+  ) {
+    throw new CursorError(
+      `Unknown or expired cursor for ${tool}; repeat the call without cursor to start over`,
+    );
+  }
+  // Reading a page keeps the snapshot alive and makes it the newest.
+  snapshots!.delete(decoded.snapshotID);
+  snapshots!.set(decoded.snapshotID, {
+    ...snapshot,
+    expiresAt: now + SNAPSHOT_TTL_MS,
+  });
+
+  const size = limit === undefined ? snapshot.limit : clampLimit(limit);
+  const end = decoded.offset + size;
+  return {
+    ids: snapshot.ids.slice(decoded.offset, end) as T[],
+    offset: decoded.offset,
+    limit: size,
+    total: snapshot.ids.length,
+    nextCursor:
+      end < snapshot.ids.length
+        ? encodeCursor(decoded.snapshotID, end)
+        : undefined,
+    state: snapshot.state,
+  };
+}
+
+/** Forget a session's snapshots when it ends. */
+export function dropSessionSnapshots(sessionId: string): void {
+  sessions.delete(sessionId);
+}
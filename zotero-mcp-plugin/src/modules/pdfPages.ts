@@ -0,0 +1,115 @@
+/**
+ * Page segmentation for PDF text.
+ *
+ * Pure functions — no Zotero dependencies. Zotero's PDF worker, and the
+ * fulltext cache written from it, end every page with a form feed, so
+ * splitting on it recovers the pages. PageSpans map offsets in text
+ * assembled from pages back to page numbers.
+ */
+
+/** Where a page's text sits in an assembled text: [start, end). */
+export interface PageSpan {
+  /** 1-based page number. */
+  page: number;
+  start: number;
+  end: number;
+}
+
+/** Inclusive, 1-based page range. `to` may be Infinity ("to the end"). */
+export interface PageRange {
+  from: number;
+  to: number;
+}
+
+// Caps what one `pages` argument may list, so a typo cannot expand into
+// thousands of ranges.
+const MAX_PAGE_RANGES = 50;
+
+/** Split worker text into pages; the trailing form feed ends the last page. */
+export function splitPages(rawText: string): string[] {
+  const pages = rawText.split("\f");
+  if (pages.length > 1 && !pages[pages.length - 1].trim()) pages.pop();
+  return pages;
+}
+
+/**
+ * Join pages into one text, recording each page's span. Spans are
+ * shifted by `base`, for text appended after other content.
+ */
+export function joinPages(
+  pages: Array<{ page: number; text: string }>,
+  separator = "\n\n",
+  base = 0,
+): { text: string; spans: PageSpan[] } {
+  const spans: PageSpan[] = [];
+  let text = "";
+  for (const { page, text: pageText } of pages) {
+    if (text) text += separator;
+    const start = base + text.length;
+    text += pageText;
+    spans.push({ page, start, end: base + text.length });
+  }
+  return { text, spans };
+}
+
+/**
+ * The span an offset falls in. An offset between pages (in a separator)
+ * belongs to the page before it. Spans must be sorted by start.
+ */
+export function pageAt<T extends PageSpan>(
+  spans: T[],
+  offset: number,
+): T | undefined {
+  let lo = 0;
+  let hi = spans.length - 1;
+  let found: T | undefined;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (spans[mid].start <= offset) {
+      found = spans[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Parse a page selection: "7", "3-5", "10-" (to the end), "1,4,9-12" or
+ * "all". Throws on anything else.
+ */
+export function parsePageRanges(spec: string | number): PageRange[] {
+  const text = String(spec).trim().toLowerCase();
+  if (text === "all") return [{ from: 1, to: Infinity }];
+
+  const parts = text.split(",").map((p) => p.trim());
+  if (parts.length > MAX_PAGE_RANGES) {
+    throw new Error(`pages lists more than ${MAX_PAGE_RANGES} ranges`);
+  }
+  return parts.map((part) => {
+    const match = part.match(/^(\d+)(?:\s*(-)\s*(\d*))?$/);
+    if (!match) {
+      throw new Error(
+        `Invalid page range "${part}" (use e.g. "7", "3-5", "10-", "1,4,9-12" or "all")`,
+      );
+    }
+    const from = parseInt(match[1], 10);
+    const to = !match[2] ? from : match[3] ? parseInt(match[3], 10) : Infinity;
+    if (from < 1 || to < from) {
+      throw new Error(`Invalid page range "${part}" (pages start at 1)`);
+    }
+    return { from, to };
+  });
+}
+
+/** Page numbers selected by the ranges, ascending and within the document. */
+export function selectPages(ranges: PageRange[], pageCount: number): number[] {
+  const selected = new Set<number>();
+  for (const { from, to } of ranges) {
+    for (let page = from; page <= Math.min(to, pageCount); page++) {
+      selected.add(page);
+    }
+  }
+  return [...selected].sort((a, b) => a - b);
+}
@@ -1,4 +1,6 @@
 // This implementation is based strictly on the user-provided sample code.
+import { splitPages } from "./pdfPages";
+
 declare const Zotero: any;
 declare const IOUtils: any; // Trusting this is available in the execution context.
 declare const ztoolkit: ZToolkit;
@@ -170,10 +172,26 @@ export class PDFProcessor {
     }
   }
 
+  /**
+   * Extract PDF text page by page
+   * @param path PDF file path
+   * @returns Promise<string[]> One entry per page, in order
+   */
+  async extractPages(path: string): Promise<string[]> {
+    return splitPages(await this.extractText(path));
+  }
+
   public terminate(): void {
     if (this._worker) {
       this._worker.terminate();
       this._worker = null;
     }
+    // A terminated worker never answers, so settle its callers now instead
+    // of leaving them to hit the timeout.
+    for (const id of Object.keys(this._waitingPromises)) {
+      const { reject } = this._waitingPromises[Number(id)];
+      delete this._waitingPromises[Number(id)];
+      reject(new Error("PDF processing terminated"));
+    }
   }
 }
@@ -0,0 +1,119 @@
+/**
+ * pdfTextLayer.ts
+ *
+ * Reads the positioned text of a PDF attachment — what pdf.js renders as
+ * the reader's text layer — so annotations can be anchored to a passage.
+ * PDFProcessor only yields plain text, so this goes through Zotero's reader:
+ * an already-open tab is reused, otherwise one is opened in the background
+ * for the duration of the call and closed again.
+ */
+
+declare let Zotero: any;
+declare let ztoolkit: ZToolkit;
+
+import type { TextLayerItem, TextLayerPage } from "./annotationAnchor";
+
+// Loading a large PDF in a fresh tab can take a while on slow disks.
+const DOCUMENT_TIMEOUT_MS = 30000;
+const POLL_INTERVAL_MS = 100;
+
+// Share of the font size below the baseline; pdf.js positions text items by
+// baseline, while highlight rectangles should cover descenders too.
+const DESCENT = 0.2;
+
+export interface PDFTextLayer {
+  pageCount: number;
+  readPage(pageIndex: number): Promise<TextLayerPage>;
+}
+
+/**
+ * Run `fn` against the text layer of a PDF attachment. A reader tab opened
+ * for the call is closed afterwards, even when `fn` throws.
+ */
+export async function withPDFTextLayer<T>(
+  attachment: any,
+  fn: (layer: PDFTextLayer) => Promise<T>,
+): Promise<T> {
+  let reader = Zotero.Reader._readers.find(
+    (r: any) => r.itemID === attachment.id,
+  );
+  const openedHere = !reader;
+  if (!reader) {
+    reader = await Zotero.Reader.open(attachment.id, undefined, {
+      openInBackground: true,
+    });
+    if (!reader) {
+      throw new Error(
+        `Could not open attachment ${attachment.key} in the Zotero reader`,
+      );
+    }
+    ztoolkit.log(
+      `[PDFTextLayer] Opened ${attachment.key} in a background reader tab`,
+    );
+  }
+
+  try {
+    const pdfDocument = await waitForPDFDocument(reader, attachment.key);
+    const labels: string[] | null = await pdfDocument
+      .getPageLabels()
+      .catch(() => null);
+    return await fn({
+      pageCount: pdfDocument.numPages,
+      readPage: (pageIndex) => readPage(pdfDocument, pageIndex, labels),
+    });
+  } finally {
+    if (openedHere) {
+      Zotero.getMainWindow()?.Zotero_Tabs?.close(reader.tabID);
+    }
+  }
+}
+
+async function waitForPDFDocument(reader: any, key: string): Promise<any> {
+  await reader._initPromise;
+  const deadline = Date.now() + DOCUMENT_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const win = reader._internalReader?._primaryView?._iframeWindow;
+    // The viewer runs in a content frame; its objects are only reachable
+    // past the Xray wrapper.
+    const app = (win?.wrappedJSObject ?? win)?.PDFViewerApplication;
+    if (app?.pdfDocument) return app.pdfDocument;
+    await Zotero.Promise.delay(POLL_INTERVAL_MS);
+  }
+  throw new Error(`Timed out waiting for the reader to load ${key}`);
+}
+
+async function readPage(
+  pdfDocument: any,
+  pageIndex: number,
+  labels: string[] | null,
+): Promise<TextLayerPage> {
+  const page = await pdfDocument.getPage(pageIndex + 1);
+  const [x0, y0, x1, y1] = page.view;
+  const content = await page.getTextContent();
+
+  const items: TextLayerItem[] = [];
+  for (const item of content.items as any[]) {
+    // Empty items only mark line ends; carry that onto the text before.
+    if (typeof item.str !== "string" || !item.str) {
+      if (item.hasEOL && items.length > 0) {
+        items[items.length - 1].hasEOL = true;
+      }
+      continue;
+    }
+    const [, , c, d, x, y] = item.transform;
+    const size = item.height || Math.hypot(c, d);
+    items.push({
+      str: item.str,
+      hasEOL: Boolean(item.hasEOL),
+      rect: [x, y - size * DESCENT, x + item.width, y + size * (1 - DESCENT)],
+    });
+  }
+
+  return {
+    pageIndex,
+    pageLabel: labels?.[pageIndex] || String(pageIndex + 1),
+    width: x1 - x0,
+    height: y1 - y0,
+    items,
+  };
+}
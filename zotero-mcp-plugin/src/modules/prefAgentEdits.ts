@@ -0,0 +1,145 @@
+import { getString } from "../utils/locale";
+import {
+  getJournalEntry,
+  listJournal,
+  undoEntry,
+  type JournalSummary,
+} from "./mutationJournal";
+
+declare let ztoolkit: ZToolkit;
+declare let addon: any;
+declare let Zotero: any;
+
+const HTML_NS = "http://www.w3.org/1999/xhtml";
+const LIST_LIMIT = 50;
+
+/**
+ * Bind the Agent Edit History list: recent journaled MCP writes, each
+ * with an Undo button.
+ */
+export function bindAgentEditHistory(doc: Document) {
+  const listEl = doc?.querySelector("#agent-edits-list") as HTMLElement;
+  const messageEl = doc?.querySelector("#agent-edits-message") as HTMLElement;
+  const refreshButton = doc?.querySelector(
+    "#refresh-agent-edits-button",
+  ) as HTMLButtonElement;
+  if (!listEl) return;
+
+  const html = (tag: string, text?: string) => {
+    const el = doc.createElementNS(HTML_NS, tag) as HTMLElement;
+    if (text !== undefined) el.textContent = text;
+    return el;
+  };
+
+  function showMessage(text: string, isError = false) {
+    if (!messageEl) return;
+    messageEl.textContent = text;
+    messageEl.style.color = isError ? "#d32f2f" : "GrayText";
+    messageEl.style.display = "block";
+  }
+
+  function describe(summary: JournalSummary): string {
+    const when = new Date(summary.timestamp).toLocaleString();
+    const counts = [
+      summary.items ? `${summary.items} item(s)` : "",
+      summary.collections ? `${summary.collections} collection(s)` : "",
+    ].filter(Boolean);
+    const notes = [
+      summary.error
+        ? getString("pref-agent-edits-failed" as any) || "failed partway"
+        : "",
+      summary.undoneAt
+        ? getString("pref-agent-edits-undone" as any) || "undone"
+        : "",
+    ].filter(Boolean);
+    const library =
+      summary.libraryID === Zotero.Libraries.userLibraryID
+        ? ""
+        : ` [library ${summary.libraryID}]`;
+    return `${when} — ${summary.tool}${library}: ${counts.join(", ")}${notes.length ? ` (${notes.join(", ")})` : ""}`;
+  }
+
+  async function undo(operationId: string) {
+    const window = addon.data.prefs!.window;
+    const confirmMsg =
+      getString("pref-agent-edits-confirm-undo" as any) ||
+      "Undo this operation?";
+    if (!window.confirm(confirmMsg)) return;
+
+    try {
+      const entry = await getJournalEntry(operationId);
+      if (!entry) throw new Error(`Operation ${operationId} not found`);
+      // Preview first: a human may knowingly overwrite later edits.
+      const preview = await undoEntry(entry, { dryRun: true, force: true });
+      const force = preview.conflicts.length > 0;
+      if (
+        force &&
+        !window.confirm(
+          `${getString("pref-agent-edits-confirm-force" as any)}\n\n${preview.conflicts.join("\n")}`,
+        )
+      ) {
+        return;
+      }
+      await undoEntry(entry, { force });
+      showMessage(
+        getString("pref-agent-edits-undo-done" as any) || "Operation undone",
+      );
+    } catch (error) {
+      showMessage(
+        `${getString("pref-agent-edits-error" as any) || "Undo failed"}: ${error}`,
+        true,
+      );
+      ztoolkit.log(`[PreferenceScript] Undo failed: ${error}`, "error");
+    }
+    await loadHistory();
+  }
+
+  async function loadHistory() {
+    try {
+      const summaries = await listJournal(LIST_LIMIT);
+      listEl.replaceChildren();
+      if (summaries.length === 0) {
+        const empty = html(
+          "div",
+          getString("pref-agent-edits-empty" as any) ||
+            "No agent edits recorded yet.",
+        );
+        empty.style.color = "GrayText";
+        listEl.appendChild(empty);
+        return;
+      }
+      for (const summary of summaries) {
+        const row = html("div");
+        row.style.display = "flex";
+        row.style.alignItems = "center";
+        row.style.marginBottom = "4px";
+        const text = html("span", describe(summary));
+        text.style.flex = "1";
+        if (summary.undoneAt) text.style.color = "GrayText";
+        row.appendChild(text);
+        if (!summary.undoneAt) {
+          const button = html(
+            "button",
+            getString("pref-agent-edits-undo-button" as any) || "Undo",
+          );
+          button.addEventListener("click", () => undo(summary.operationId));
+          row.appendChild(button);
+        }
+        listEl.appendChild(row);
+      }
+    } catch (error) {
+      showMessage(`${error}`, true);
+      ztoolkit.log(
+        `[PreferenceScript] Failed to load agent edit history: ${error}`,
+        "warn",
+      );
+    }
+  }
+
+  refreshButton?.addEventListener("click", () => {
+    if (messageEl) messageEl.style.display = "none";
+    loadHistory();
+  });
+
+  loadHistory();
+}
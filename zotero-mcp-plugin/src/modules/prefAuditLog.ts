@@ -0,0 +1,121 @@
+import { getString } from "../utils/locale";
+import {
+  clearAuditLog,
+  exportAuditLog,
+  queryAuditLog,
+  type AuditEntry,
+} from "./auditLog";
+
+declare let ztoolkit: ZToolkit;
+declare let addon: any;
+
+const HTML_NS = "http://www.w3.org/1999/xhtml";
+const LIST_LIMIT = 100;
+
+/**
+ * Bind the Audit Log section: the most recent tool calls, with export to
+ * JSON Lines and clearing. Retention is set through the bound prefs.
+ */
+export function bindAuditLog(doc: Document) {
+  const listEl = doc?.querySelector("#audit-log-list") as HTMLElement;
+  const messageEl = doc?.querySelector("#audit-log-message") as HTMLElement;
+  const refreshButton = doc?.querySelector(
+    "#refresh-audit-log-button",
+  ) as HTMLButtonElement;
+  const exportButton = doc?.querySelector(
+    "#export-audit-log-button",
+  ) as HTMLButtonElement;
+  const clearButton = doc?.querySelector(
+    "#clear-audit-log-button",
+  ) as HTMLButtonElement;
+  if (!listEl) return;
+
+  function showMessage(text: string, isError = false) {
+    if (!messageEl) return;
+    messageEl.textContent = text;
+    messageEl.style.color = isError ? "#d32f2f" : "GrayText";
+    messageEl.style.display = "block";
+  }
+
+  function showError(error: unknown) {
+    showMessage(
+      `${getString("pref-audit-log-error" as any) || "Audit log error"}: ${error}`,
+      true,
+    );
+    ztoolkit.log(`[PreferenceScript] Audit log: ${error}`, "warn");
+  }
+
+  function describe(entry: AuditEntry): string {
+    const when = new Date(entry.timestamp).toLocaleString();
+    const who =
+      [entry.tokenClient, entry.client].filter(Boolean).join(" / ") || "-";
+    const keys = entry.itemKeys.length
+      ? ` [${entry.itemKeys.slice(0, 5).join(", ")}${entry.itemKeys.length > 5 ? ", …" : ""}]`
+      : "";
+    const error = entry.error ? `: ${entry.error}` : "";
+    return `${when}  ${who}  ${entry.tool}  ${entry.outcome}${error}  ${entry.durationMs}ms${keys}`;
+  }
+
+  async function loadLog() {
+    try {
+      const { entries } = await queryAuditLog({ limit: LIST_LIMIT });
+      listEl.replaceChildren();
+      if (entries.length === 0) {
+        const empty = doc.createElementNS(HTML_NS, "div") as HTMLElement;
+        empty.textContent =
+          getString("pref-audit-log-empty" as any) ||
+          "No tool calls recorded yet.";
+        empty.style.color = "GrayText";
+        listEl.appendChild(empty);
+        return;
+      }
+      for (const entry of entries) {
+        const row = doc.createElementNS(HTML_NS, "div") as HTMLElement;
+        row.textContent = describe(entry);
+        if (entry.outcome !== "success") row.style.color = "#d32f2f";
+        listEl.appendChild(row);
+      }
+    } catch (error) {
+      showError(error);
+    }
+  }
+
+  refreshButton?.addEventListener("click", () => {
+    if (messageEl) messageEl.style.display = "none";
+    loadLog();
+  });
+
+  exportButton?.addEventListener("click", async () => {
+    try {
+      const path = await new ztoolkit.FilePicker(
+        "Export Audit Log",
+        "save",
+        [["JSON Lines (*.jsonl)", "*.jsonl"]],
+        "zotero-mcp-audit.jsonl",
+        addon.data.prefs!.window,
+      ).open();
+      if (!path) return;
+      const count = await exportAuditLog(path);
+      showMessage(
+        `${getString("pref-audit-log-exported" as any) || "Audit log exported"}: ${count} → ${path}`,
+      );
+    } catch (error) {
+      showError(error);
+    }
+  });
+
+  clearButton?.addEventListener("click", async () => {
+    const confirmMsg =
+      getString("pref-audit-log-confirm-clear" as any) ||
+      "Delete the whole audit log?";
+    if (!addon.data.prefs!.window.confirm(confirmMsg)) return;
+    try {
+      await clearAuditLog();
+      await loadLog();
+    } catch (error) {
+      showError(error);
+    }
+  });
+
+  loadLog();
+}
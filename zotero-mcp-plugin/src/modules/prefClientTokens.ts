@@ -0,0 +1,173 @@
+import { getString } from "../utils/locale";
+import { ClientConfigGenerator } from "./clientConfigGenerator";
+import { isTokenExpired } from "./clientAccess";
+import {
+  serverPreferences,
+  type ClientTokenConfig,
+  type WriteScope,
+} from "./serverPreferences";
+
+declare let ztoolkit: ZToolkit;
+declare let addon: any;
+
+const HTML_NS = "http://www.w3.org/1999/xhtml";
+
+/** Split a comma- or space-separated field into its non-empty parts. */
+function listField(value: string | undefined): string[] {
+  return (value || "")
+    .split(/[\s,]+/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Bind the Client Tokens list and form in the Authentication section:
+ * issue a named token with its own tools, write scopes, collections and
+ * expiry, copy it, or revoke it.
+ */
+export function bindClientTokens(doc: Document) {
+  const listEl = doc?.querySelector("#client-tokens-list") as HTMLElement;
+  const messageEl = doc?.querySelector("#client-tokens-message") as HTMLElement;
+  const addButton = doc?.querySelector(
+    "#add-client-token-button",
+  ) as HTMLButtonElement;
+  const input = (field: string) =>
+    doc?.querySelector(`#client-token-${field}-input`) as HTMLInputElement;
+  if (!listEl) return;
+
+  const html = (tag: string, text?: string) => {
+    const el = doc.createElementNS(HTML_NS, tag) as HTMLElement;
+    if (text !== undefined) el.textContent = text;
+    return el;
+  };
+
+  function showMessage(text: string, isError = false) {
+    if (!messageEl) return;
+    messageEl.textContent = text;
+    messageEl.style.color = isError ? "#d32f2f" : "GrayText";
+    messageEl.style.display = "block";
+  }
+
+  function describe(client: ClientTokenConfig): string {
+    const tools = client.tools.includes("*")
+      ? "all tools"
+      : client.tools.join(", ");
+    const scopes = client.scopes.length
+      ? client.scopes.join(", ")
+      : getString("pref-client-token-read-only" as any) || "read-only";
+    const parts = [tools, scopes];
+    if (client.collections.length) parts.push(client.collections.join(", "));
+    if (client.expiresAt) {
+      parts.push(
+        isTokenExpired(client)
+          ? getString("pref-client-token-expired" as any) || "expired"
+          : `until ${new Date(client.expiresAt).toLocaleDateString()}`,
+      );
+    }
+    return `${client.name} — ${parts.join("; ")}`;
+  }
+
+  async function copy(client: ClientTokenConfig, button: HTMLElement) {
+    try {
+      await ClientConfigGenerator.copyToClipboard(client.token);
+      const original = button.textContent;
+      button.textContent = "Copied!";
+      setTimeout(() => {
+        button.textContent = original;
+      }, 1500);
+    } catch (error) {
+      showMessage(`${error}`, true);
+    }
+  }
+
+  function revoke(client: ClientTokenConfig) {
+    const confirmMsg =
+      getString("pref-client-token-confirm-revoke" as any) ||
+      "Revoke this client token?";
+    if (!addon.data.prefs!.window.confirm(`${confirmMsg}\n\n${client.name}`)) {
+      return;
+    }
+    serverPreferences.revokeClientToken(client.id);
+    render();
+  }
+
+  function render() {
+    listEl.replaceChildren();
+    const clients = serverPreferences.getClientTokens();
+    if (clients.length === 0) {
+      const empty = html(
+        "div",
+        getString("pref-client-tokens-empty" as any) || "No client tokens.",
+      );
+      empty.style.color = "GrayText";
+      listEl.appendChild(empty);
+      return;
+    }
+    for (const client of clients) {
+      const row = html("div");
+      row.style.display = "flex";
+      row.style.alignItems = "center";
+      row.style.marginBottom = "4px";
+      const text = html("span", describe(client));
+      text.style.flex = "1";
+      if (isTokenExpired(client)) text.style.color = "GrayText";
+      row.appendChild(text);
+
+      const copyButton = html(
+        "button",
+        getString("pref-client-token-copy-button" as any) || "Copy Token",
+      );
+      copyButton.addEventListener("click", () => copy(client, copyButton));
+      row.appendChild(copyButton);
+      const revokeButton = html(
+        "button",
+        getString("pref-client-token-revoke-button" as any) || "Revoke",
+      );
+      revokeButton.addEventListener("click", () => revoke(client));
+      row.appendChild(revokeButton);
+      listEl.appendChild(row);
+    }
+  }
+
+  addButton?.addEventListener("click", async () => {
+    if (messageEl) messageEl.style.display = "none";
+    try {
+      const expires = input("expires")?.value;
+      const client = serverPreferences.createClientToken({
+        name: input("name")?.value || "",
+        tools: listField(input("tools")?.value),
+        scopes: listField(input("scopes")?.value) as WriteScope[],
+        collections: listField(input("collections")?.value).map((key) =>
+          key.toUpperCase(),
+        ),
+        // A date field means "through the end of that day", local time.
+        expiresAt: expires
+          ? new Date(`${expires}T23:59:59`).toISOString()
+          : null,
+      });
+      for (const field of [
+        "name",
+        "tools",
+        "scopes",
+        "collections",
+        "expires",
+      ]) {
+        if (input(field)) input(field).value = "";
+      }
+      render();
+      await ClientConfigGenerator.copyToClipboard(client.token);
+      showMessage(
+        getString("pref-client-token-created" as any) ||
+          "Client token created.",
+      );
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : `${error}`, true);
+      ztoolkit.log(
+        `[PreferenceScript] Could not create client token: ${error}`,
+        "warn",
+      );
+    }
+  });
+
+  render();
+}
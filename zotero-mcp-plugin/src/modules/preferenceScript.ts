@@ -3,6 +3,9 @@ import { getString } from "../utils/locale";
 import { ClientConfigGenerator } from "./clientConfigGenerator";
 import { bindEmbeddingSettings, bindApiUsageStats } from "./prefEmbedding";
 import { bindSemanticStatsSettings } from "./prefSemanticIndex";
+import { bindAgentEditHistory } from "./prefAgentEdits";
+import { bindAuditLog } from "./prefAuditLog";
+import { bindClientTokens } from "./prefClientTokens";
 import { serverPreferences } from "./serverPreferences";
 
 export async function registerPrefsScripts(_window: Window) {
@@ -236,6 +239,9 @@ function bindPrefEvents() {
     }
   });
 
+  // Named client tokens, each with its own tools, scopes and collections.
+  bindClientTokens(doc);
+
   // Client config generation
   const clientSelect = doc?.querySelector(
     "#client-type-select",
@@ -369,6 +375,12 @@ function bindPrefEvents() {
 
   // ============ Semantic Index Stats ============
   bindSemanticStatsSettings(doc);
+
+  // ============ Agent Edit History ============
+  bindAgentEditHistory(doc);
+
+  // ============ Audit Log ============
+  bindAuditLog(doc);
 }
 
 /**
@@ -382,6 +394,8 @@ function initCollapsibleSections(doc: Document) {
     { id: "content", defaultCollapsed: true },
     { id: "embedding", defaultCollapsed: true },
     { id: "semantic-index", defaultCollapsed: true },
+    { id: "agent-edits", defaultCollapsed: true },
+    { id: "audit-log", defaultCollapsed: true },
     { id: "contact", defaultCollapsed: true },
   ];
 
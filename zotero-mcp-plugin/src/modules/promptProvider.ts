@@ -0,0 +1,583 @@
+/**
+ * MCP prompts: canned research workflows ("summarize this item with its
+ * annotations", "literature review of a collection", ...) whose messages
+ * arrive pre-filled with library data, so the model starts from the paper
+ * instead of spending its first turns on tool calls.
+ *
+ * Built-in prompts gather context with the same extractors the tools use
+ * (UnifiedContentExtractor, SmartAnnotationExtractor, renderBibliography).
+ * Users can add their own templates in the `mcp.prompts.custom` pref; a
+ * template is plain text with `{{argument}}` placeholders plus the context
+ * placeholders in CONTEXT_PLACEHOLDERS.
+ */
+
+import { UnifiedContentExtractor } from "./unifiedContentExtractor";
+import { SmartAnnotationExtractor } from "./smartAnnotationExtractor";
+import { renderBibliography } from "./itemFormatter";
+import { formatLibraryKey, normalizeLibraryArgs } from "./libraryResolver";
+import { serverPreferences } from "./serverPreferences";
+
+declare let Zotero: any;
+declare let ztoolkit: ZToolkit;
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface CustomPromptTemplate extends PromptDefinition {
+  template: string;
+}
+
+export interface PromptMessage {
+  role: "user" | "assistant";
+  content: { type: "text"; text: string };
+}
+
+export interface PromptResult {
+  description: string;
+  messages: PromptMessage[];
+}
+
+export class PromptNotFoundError extends Error {
+  constructor(name: string) {
+    super(
+      `Unknown prompt "${name}". Use prompts/list to see what's available.`,
+    );
+    this.name = "PromptNotFoundError";
+  }
+}
+
+/** Missing/invalid prompt argument, including keys that don't resolve. */
+export class PromptArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptArgumentError";
+  }
+}
+
+// Collections and key lists are capped so one prompt can't pull a whole
+// library into the context window; the model can page the rest via tools.
+const PROMPT_MAX_ITEMS = 25;
+const PROMPT_MAX_ANNOTATIONS = 50;
+
+const PROMPT_NAME_RE = /^[A-Za-z0-9_-]{1,64}$/;
+const PLACEHOLDER_RE = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/** Placeholders a custom template can use besides its own arguments. */
+export const CONTEXT_PLACEHOLDERS = [
+  "item",
+  "annotations",
+  "collection",
+  "bibliography",
+] as const;
+
+const ITEM_KEY_ARG: PromptArgument = {
+  name: "itemKey",
+  description: "Item key (or '<libraryID>/<KEY>' for group libraries)",
+  required: true,
+};
+const STYLE_ARG: PromptArgument = {
+  name: "style",
+  description:
+    "Citation style ID for the bibliography (e.g. 'apa', 'chicago-author-date', 'nature'). Default: apa",
+};
+
+export const BUILTIN_PROMPTS: PromptDefinition[] = [
+  {
+    name: "summarize_item",
+    description:
+      "Summarize a paper using its full text, notes and your annotations",
+    arguments: [ITEM_KEY_ARG, STYLE_ARG],
+  },
+  {
+    name: "literature_review",
+    description:
+      "Write a literature review of a collection from abstracts and annotations",
+    arguments: [
+      {
+        name: "collectionKey",
+        description:
+          "Collection key (or '<libraryID>/<KEY>' for group libraries)",
+        required: true,
+      },
+      STYLE_ARG,
+    ],
+  },
+  {
+    name: "compare_papers",
+    description:
+      "Compare several papers side by side: questions, methods, findings, limitations",
+    arguments: [
+      {
+        name: "itemKeys",
+        description: `Comma-separated item keys (2-${PROMPT_MAX_ITEMS})`,
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "draft_related_work",
+    description:
+      "Draft a related-work paragraph with in-text citations and a reference list",
+    arguments: [
+      {
+        name: "itemKeys",
+        description:
+          "Comma-separated item keys to cite (or give collectionKey instead)",
+      },
+      {
+        name: "collectionKey",
+        description: "Collection whose items should be cited",
+      },
+      {
+        name: "topic",
+        description: "What the paragraph should position your work against",
+      },
+      STYLE_ARG,
+    ],
+  },
+];
+
+/** Split a comma/whitespace separated key list into individual keys. */
+export function parseKeyList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  if (typeof value !== "string") return [];
+  return value
+    .split(/[\s,]+/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse the custom prompt pref. Entries without a valid name or a template
+ * are dropped rather than failing the whole list, so one typo in the prefs
+ * pane doesn't hide every other template.
+ */
+export function parseCustomPrompts(raw: unknown): CustomPromptTemplate[] {
+  if (typeof raw !== "string" || !raw.trim()) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const out: CustomPromptTemplate[] = [];
+  const seen = new Set<string>();
+  for (const entry of parsed) {
+    if (!entry || typeof entry !== "object") continue;
+    const { name, description, template } = entry as Record<string, unknown>;
+    if (typeof name !== "string" || !PROMPT_NAME_RE.test(name)) continue;
+    if (typeof template !== "string" || !template.trim()) continue;
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    const args = Array.isArray((entry as any).arguments)
+      ? (entry as any).arguments
+      : [];
+    out.push({
+      name,
+      description:
+        typeof description === "string" && description
+          ? description
+          : "User-defined prompt",
+      arguments: args
+        .filter((a: any) => a && typeof a.name === "string" && a.name)
+        .map((a: any) => ({
+          name: a.name,
+          ...(typeof a.description === "string"
+            ? { description: a.description }
+            : {}),
+          required: a.required === true,
+        })),
+      template,
+    });
+  }
+  return out;
+}
+
+/**
+ * Substitute `{{name}}` placeholders. Unknown placeholders are left in place
+ * so a misspelt one is visible in the rendered prompt rather than silently
+ * becoming an empty string.
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string | undefined>,
+): string {
+  return template.replace(PLACEHOLDER_RE, (match, name: string) => {
+    const value = values[name];
+    return value === undefined ? match : value;
+  });
+}
+
+/** Names of the placeholders a template references. */
+export function templatePlaceholders(template: string): Set<string> {
+  const names = new Set<string>();
+  for (const m of template.matchAll(PLACEHOLDER_RE)) names.add(m[1]);
+  return names;
+}
+
+/** Throws PromptArgumentError if a required argument is missing or blank. */
+export function validatePromptArguments(
+  definition: PromptDefinition,
+  args: Record<string, unknown>,
+): void {
+  for (const arg of definition.arguments) {
+    const value = args[arg.name];
+    if (arg.required && (typeof value !== "string" || !value.trim())) {
+      throw new PromptArgumentError(
+        `Prompt "${definition.name}" requires argument "${arg.name}"`,
+      );
+    }
+  }
+}
+
+function getCustomPrompts(): CustomPromptTemplate[] {
+  const builtin = new Set(BUILTIN_PROMPTS.map((p) => p.name));
+  return parseCustomPrompts(serverPreferences.getCustomPromptsJSON()).filter(
+    (p) => {
+      // Built-ins win: a custom template can't silently replace one.
+      if (!builtin.has(p.name)) return true;
+      ztoolkit.log(
+        `[PromptProvider] Custom prompt "${p.name}" shadows a built-in and was ignored`,
+        "warn",
+      );
+      return false;
+    },
+  );
+}
+
+/** Built-in prompts followed by the user's templates. */
+export function listPrompts(): PromptDefinition[] {
+  return [
+    ...BUILTIN_PROMPTS,
+    ...getCustomPrompts().map(({ name, description, arguments: args }) => ({
+      name,
+      description,
+      arguments: args,
+    })),
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Context gathering
+// ---------------------------------------------------------------------------
+
+function getItem(libraryID: number, key: string): any {
+  const item = Zotero.Items.getByLibraryAndKey(libraryID, key);
+  if (!item || !item.isRegularItem()) {
+    throw new PromptArgumentError(`Item "${key}" not found`);
+  }
+  return item;
+}
+
+function getCollectionItems(
+  libraryID: number,
+  key: string,
+): { collection: any; items: any[] } {
+  const collection = Zotero.Collections.getByLibraryAndKey(libraryID, key);
+  if (!collection) {
+    throw new PromptArgumentError(`Collection "${key}" not found`);
+  }
+  const items = (collection.getChildItems(false) as any[])
+    .filter((item) => item.isRegularItem() && !item.deleted)
+    .slice(0, PROMPT_MAX_ITEMS);
+  return { collection, items };
+}
+
+/** "Title — Smith, Jones (2021) [KEY]" */
+function itemHeading(item: any): string {
+  const creators = (item.getCreators() as any[])
+    .map((c) => c.lastName || c.name)
+    .filter(Boolean)
+    .slice(0, 3)
+    .join(", ");
+  const year = item.getField("date")?.match(/\d{4}/)?.[0];
+  const byline = [creators, year && `(${year})`].filter(Boolean).join(" ");
+  const key = formatLibraryKey(item.libraryID, item.key) || item.key;
+  return `${item.getDisplayTitle()}${byline ? ` — ${byline}` : ""} [${key}]`;
+}
+
+async function itemContentBlock(
+  item: any,
+  mode: "standard" | "preview",
+): Promise<string> {
+  const extractor = new UnifiedContentExtractor();
+  const result = await extractor.getItemContent(
+    item.key,
+    { webpage: false },
+    mode,
+    undefined,
+    item.libraryID,
+  );
+  const parts: string[] = [];
+  if (result.content.abstract?.content) {
+    parts.push(`Abstract:\n${result.content.abstract.content}`);
+  }
+  for (const att of result.content.attachments || []) {
+    if (att.content) {
+      parts.push(
+        `Full text (${att.filename || att.attachmentKey}):\n${att.content}`,
+      );
+    }
+  }
+  for (const note of result.content.notes || []) {
+    if (note.content) parts.push(`Note:\n${note.content}`);
+  }
+  return parts.length > 0 ? parts.join("\n\n") : "(no text content available)";
+}
+
+async function annotationsBlock(item: any): Promise<string> {
+  const extractor = new SmartAnnotationExtractor(item.libraryID);
+  try {
+    const response = await extractor.getAnnotations({
+      itemKey: item.key,
+      types: ["highlight", "annotation", "note"],
+      limit: PROMPT_MAX_ANNOTATIONS,
+    });
+    if (response.data.length === 0) return "(no annotations)";
+    return response.data
+      .map((a) => {
+        const tag = [a.page ? `p. ${a.page}` : "", a.colorName || ""]
+          .filter(Boolean)
+          .join(", ");
+        return `- ${tag ? `[${tag}] ` : ""}${a.content}`;
+      })
+      .join("\n");
+  } catch (error) {
+    ztoolkit.log(
+      `[PromptProvider] Annotations unavailable for ${item.key}: ${error}`,
+      "warn",
+    );
+    return "(no annotations)";
+  }
+}
+
+function abstractOf(item: any): string {
+  return item.getField("abstractNote") || "(no abstract)";
+}
+
+function bibliographyBlock(items: any[], style?: string): string {
+  if (items.length === 0) return "";
+  try {
+    return renderBibliography(items, style).bibliography.trim();
+  } catch (error) {
+    // An unknown style shouldn't sink the whole prompt; fall back to headings.
+    ztoolkit.log(`[PromptProvider] Bibliography failed: ${error}`, "warn");
+    return items.map((item) => `- ${itemHeading(item)}`).join("\n");
+  }
+}
+
+function resolveItems(libraryID: number, keys: string[]): any[] {
+  if (keys.length > PROMPT_MAX_ITEMS) {
+    throw new PromptArgumentError(
+      `At most ${PROMPT_MAX_ITEMS} items per prompt (got ${keys.length})`,
+    );
+  }
+  return keys.map((key) => getItem(libraryID, key));
+}
+
+function userMessage(text: string): PromptMessage {
+  return { role: "user", content: { type: "text", text } };
+}
+
+// ---------------------------------------------------------------------------
+// Built-in prompt builders
+// ---------------------------------------------------------------------------
+
+async function buildSummarizeItem(args: Record<string, any>) {
+  const item = getItem(args.libraryID, args.itemKey);
+  const text = [
+    `Summarize the following paper from my Zotero library: ${itemHeading(item)}.`,
+    "Cover the research question, methods, key findings and limitations. Where my annotations highlight a point, say so, and keep my own notes distinct from the authors' claims.",
+    `## Content\n\n${await itemContentBlock(item, "standard")}`,
+    `## My annotations\n\n${await annotationsBlock(item)}`,
+    `## Reference\n\n${bibliographyBlock([item], args.style)}`,
+  ].join("\n\n");
+  return {
+    description: `Summary of ${item.getDisplayTitle()}`,
+    messages: [userMessage(text)],
+  };
+}
+
+async function buildLiteratureReview(args: Record<string, any>) {
+  const { collection, items } = getCollectionItems(
+    args.libraryID,
+    args.collectionKey,
+  );
+  if (items.length === 0) {
+    throw new PromptArgumentError(
+      `Collection "${collection.name}" has no regular items`,
+    );
+  }
+  const sections: string[] = [];
+  for (const item of items) {
+    sections.push(
+      `### ${itemHeading(item)}\n\nAbstract: ${abstractOf(item)}\n\nMy annotations:\n${await annotationsBlock(item)}`,
+    );
+  }
+  const text = [
+    `Write a literature review of the ${items.length} papers in my Zotero collection "${collection.name}".`,
+    "Group the work into themes, trace how the ideas developed, note agreements and disagreements, and finish with open questions. Cite papers in-text and only use the sources below.",
+    `## Sources\n\n${sections.join("\n\n")}`,
+    `## Bibliography\n\n${bibliographyBlock(items, args.style)}`,
+  ].join("\n\n");
+  return {
+    description: `Literature review of "${collection.name}"`,
+    messages: [userMessage(text)],
+  };
+}
+
+async function buildComparePapers(args: Record<string, any>) {
+  const items = resolveItems(args.libraryID, args.itemKeys);
+  if (items.length < 2) {
+    throw new PromptArgumentError("compare_papers needs at least two itemKeys");
+  }
+  const sections: string[] = [];
+  for (const item of items) {
+    sections.push(
+      `### ${itemHeading(item)}\n\n${await itemContentBlock(item, "preview")}`,
+    );
+  }
+  const text = [
+    `Compare these ${items.length} papers from my Zotero library.`,
+    "Build a table covering research question, data, methods, main findings and limitations, then discuss where they agree, where they conflict, and which is strongest for which purpose.",
+    sections.join("\n\n"),
+  ].join("\n\n");
+  return {
+    description: `Comparison of ${items.length} papers`,
+    messages: [userMessage(text)],
+  };
+}
+
+async function buildDraftRelatedWork(args: Record<string, any>) {
+  let items: any[];
+  if (args.itemKeys.length > 0) {
+    items = resolveItems(args.libraryID, args.itemKeys);
+  } else if (args.collectionKey) {
+    items = getCollectionItems(args.libraryID, args.collectionKey).items;
+  } else {
+    throw new PromptArgumentError(
+      "draft_related_work requires itemKeys or collectionKey",
+    );
+  }
+  if (items.length === 0) {
+    throw new PromptArgumentError("No items to cite");
+  }
+  const sections: string[] = [];
+  for (const item of items) {
+    sections.push(
+      `### ${itemHeading(item)}\n\nAbstract: ${abstractOf(item)}\n\nMy annotations:\n${await annotationsBlock(item)}`,
+    );
+  }
+  const topic = args.topic ? ` positioning my work on ${args.topic}` : "";
+  const text = [
+    `Draft a related-work paragraph${topic}, citing the papers below.`,
+    "Use in-text citations matching the bibliography style, cite every claim to one of these sources, and don't invent references.",
+    `## Sources\n\n${sections.join("\n\n")}`,
+    `## Bibliography\n\n${bibliographyBlock(items, args.style)}`,
+  ].join("\n\n");
+  return {
+    description: "Related-work paragraph draft",
+    messages: [userMessage(text)],
+  };
+}
+
+const BUILDERS: Record<
+  string,
+  (args: Record<string, any>) => Promise<PromptResult>
+> = {
+  summarize_item: buildSummarizeItem,
+  literature_review: buildLiteratureReview,
+  compare_papers: buildComparePapers,
+  draft_related_work: buildDraftRelatedWork,
+};
+
+/** Fill only the context placeholders the template actually references. */
+async function buildCustomPrompt(
+  template: CustomPromptTemplate,
+  args: Record<string, any>,
+  rawArgs: Record<string, string>,
+): Promise<PromptResult> {
+  const used = templatePlaceholders(template.template);
+  const values: Record<string, string | undefined> = { ...rawArgs };
+
+  const item = args.itemKey ? getItem(args.libraryID, args.itemKey) : null;
+  let citeItems: any[] = item ? [item] : [];
+  if (args.itemKeys.length > 0) {
+    citeItems = resolveItems(args.libraryID, args.itemKeys);
+  }
+
+  if (used.has("item") && item) {
+    values.item = `${itemHeading(item)}\n\n${await itemContentBlock(item, "standard")}`;
+  }
+  if (used.has("annotations") && item) {
+    values.annotations = await annotationsBlock(item);
+  }
+  const wantsCollection =
+    used.has("collection") || (used.has("bibliography") && !citeItems.length);
+  if (args.collectionKey && wantsCollection) {
+    const { collection, items } = getCollectionItems(
+      args.libraryID,
+      args.collectionKey,
+    );
+    if (!citeItems.length) citeItems = items;
+    values.collection = [
+      `Collection "${collection.name}" (${items.length} items):`,
+      ...items.map(
+        (i) => `### ${itemHeading(i)}\n\nAbstract: ${abstractOf(i)}`,
+      ),
+    ].join("\n\n");
+  }
+  if (used.has("bibliography")) {
+    values.bibliography = bibliographyBlock(citeItems, args.style);
+  }
+
+  return {
+    description: template.description,
+    messages: [userMessage(renderTemplate(template.template, values))],
+  };
+}
+
+/**
+ * Resolve prompts/get. Throws PromptNotFoundError / PromptArgumentError (and
+ * the libraryResolver errors for bad library references).
+ */
+export async function getPrompt(
+  name: unknown,
+  rawArgs: Record<string, unknown> = {},
+): Promise<PromptResult> {
+  // MCP prompt arguments are always strings; coerce defensively anyway.
+  const stringArgs: Record<string, string> = {};
+  for (const [k, v] of Object.entries(rawArgs || {})) {
+    if (v !== undefined && v !== null) stringArgs[k] = String(v);
+  }
+
+  const builtin = BUILTIN_PROMPTS.find((p) => p.name === name);
+  const custom = builtin
+    ? undefined
+    : getCustomPrompts().find((p) => p.name === name);
+  const definition = builtin || custom;
+  if (!definition) throw new PromptNotFoundError(String(name));
+  validatePromptArguments(definition, stringArgs);
+
+  // Qualified keys ("5/ABCD1234") and library/libraryID pick the library, the
+  // same way they do for tools. itemKeys is split first so each key counts.
+  const args = normalizeLibraryArgs({
+    ...stringArgs,
+    itemKeys: parseKeyList(stringArgs.itemKeys),
+  });
+
+  if (custom) return buildCustomPrompt(custom, args, stringArgs);
+  return BUILDERS[definition.name](args);
+}
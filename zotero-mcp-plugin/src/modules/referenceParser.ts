@@ -0,0 +1,347 @@
+/**
+ * Reference list parsing for get_references.
+ *
+ * Pure functions — no Zotero dependencies. Takes the text of a paper's
+ * References section (raw with line breaks, or formatted into paragraphs)
+ * and turns it into one record per cited work. Parsing is heuristic: it
+ * handles numbered lists ("[12]", "12.") and author–year lists (APA,
+ * Harvard, Vancouver, IEEE), and leaves a field out rather than guess.
+ */
+
+import { classifyHeading, detectSections } from "./sectionDetector";
+
+export interface ParsedReference {
+  /** 1-based position in the list. */
+  index: number;
+  /** The entry as printed, whitespace-collapsed. */
+  raw: string;
+  authors: string[];
+  title?: string;
+  year?: number;
+  venue?: string;
+  doi?: string;
+  pmid?: string;
+  isbn?: string;
+  arxiv?: string;
+}
+
+/** titleSimilarity at or above which a library item is taken as the work. */
+export const TITLE_MATCH_THRESHOLD = 0.85;
+
+// Caps how much of a malformed "reference list" is parsed.
+const MAX_REFERENCES = 1000;
+// Longer "entries" are section text swept up by a missed boundary.
+const MAX_ENTRY_LENGTH = 2000;
+
+// List markers sit at line starts; in formatted text, which has lost its
+// lines, any marker counts.
+const LINE_MARKER = /(?:^|\n)\s*(?:\[(\d{1,4})\]|(\d{1,4})\.)(?=\s)/g;
+const INLINE_MARKER = /(?:^|\s)(?:\[(\d{1,4})\]|(\d{1,4})\.)(?=\s)/g;
+// "Smith, J." / "Smith, John" / "van der Berg, A." / "Smith J," at entry start
+const AUTHOR_START =
+  /^(?:[a-z]+ ){0,2}[A-Z][\p{L}'’-]+(?:,\s+(?:[A-Z]\.|[A-Z][\p{L}]+)|\s[A-Z]{1,3}[,.])/u;
+const YEAR = /\b(1[89]\d{2}|20\d{2})[a-z]?\b/;
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+)/i;
+
+/**
+ * Split a reference list into entries. Numbered lists are split at their
+ * markers, which must count up from 1 and preferably start a line (so
+ * "vol. 3." inside an entry is not taken for one); other lists start an entry at each author-led line once the entry
+ * before it has a year.
+ */
+export function splitReferences(text: string): string[] {
+  let body = text.trim();
+  const firstLine = body.split("\n", 1)[0];
+  if (classifyHeading(firstLine) === "references") {
+    body = body.slice(firstLine.length).trim();
+  }
+  if (!body) return [];
+
+  let markers = listMarkers(body, LINE_MARKER);
+  if (markers.length < 2) markers = listMarkers(body, INLINE_MARKER);
+  if (markers.length >= 2) {
+    return markers
+      .map((marker, i) =>
+        cleanEntry(body.slice(marker.end, markers[i + 1]?.at ?? body.length)),
+      )
+      .filter(Boolean)
+      .slice(0, MAX_REFERENCES);
+  }
+
+  // Formatted text has no line breaks left between entries; cut at sentence
+  // ends followed by an author name instead.
+  const lines = body.includes("\n")
+    ? body.split("\n")
+    : body.split(/(?<=\.)\s+(?=(?:[a-z]+ ){0,2}[A-Z][\p{L}'’-]+,\s)/u);
+  const entries: string[] = [];
+  let current = "";
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (
+      current &&
+      AUTHOR_START.test(trimmed) &&
+      YEAR.test(current) &&
+      /[.)\d]$/.test(current)
+    ) {
+      entries.push(current);
+      current = "";
+    }
+    current = joinLine(current, trimmed);
+  }
+  if (current) entries.push(current);
+  return entries.map(cleanEntry).filter(Boolean).slice(0, MAX_REFERENCES);
+}
+
+/** Positions of list markers numbered 1, 2, 3, … in order. */
+function listMarkers(
+  body: string,
+  pattern: RegExp,
+): Array<{ at: number; end: number }> {
+  const markers: Array<{ at: number; end: number }> = [];
+  for (const match of body.matchAll(pattern)) {
+    const number = parseInt(match[1] ?? match[2], 10);
+    if (number === markers.length + 1) {
+      markers.push({ at: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return markers;
+}
+
+/** Append a line, rejoining words hyphenated across the break. */
+function joinLine(current: string, line: string): string {
+  if (!current) return line;
+  if (/[a-z]-$/.test(current) && /^[a-z]/.test(line)) {
+    return current.slice(0, -1) + line;
+  }
+  return `${current} ${line}`;
+}
+
+function cleanEntry(entry: string): string {
+  const cleaned = entry.replace(/\s+/g, " ").trim();
+  return cleaned.length > MAX_ENTRY_LENGTH ? "" : cleaned;
+}
+
+/** Parse one entry into its fields. */
+export function parseReference(raw: string, index: number): ParsedReference {
+  const reference: ParsedReference = { index, raw, authors: [] };
+
+  const doi = raw.match(DOI)?.[1].replace(/[.,;)\]]+$/, "");
+  if (doi) reference.doi = doi;
+  const pmid = raw.match(/\bPMID:?\s*(\d{4,9})\b/i)?.[1];
+  if (pmid) reference.pmid = pmid;
+  const isbn = raw.match(
+    /\bISBN(?:-1[03])?:?\s*([\dXx][\dXx -]{8,16}[\dXx])/,
+  )?.[1];
+  if (isbn) reference.isbn = isbn.replace(/[ -]/g, "");
+  const arxiv = raw.match(/\barXiv:\s*(\d{4}\.\d{4,5})/i)?.[1];
+  if (arxiv) reference.arxiv = arxiv;
+
+  // Identifiers and links say nothing about title or venue.
+  const text = raw
+    .replace(
+      /\b(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)?10\.\d{4,9}\/\S+/gi,
+      "",
+    )
+    .replace(/\bhttps?:\/\/\S+/g, "")
+    .replace(/\b(?:PMID|PMCID|ISBN|arXiv)[:\s]\s*\S+/gi, "")
+    .trim();
+
+  const apaYear = text.match(/\((1[89]\d{2}|20\d{2})[a-z]?(?:,[^)]*)?\)\.?/);
+  const quoted = text.match(/[“"](.+?)[,.]?[”"]/);
+  let authorPart: string;
+  let rest: string;
+  if (apaYear && apaYear.index! > 0) {
+    // APA: Smith, J., & Doe, A. (2020). Title. Venue, 1(2), 3–4.
+    reference.year = parseInt(apaYear[1], 10);
+    authorPart = text.slice(0, apaYear.index);
+    rest = text.slice(apaYear.index! + apaYear[0].length).trim();
+    const [title, venue] = splitSentences(rest);
+    setTitle(reference, title);
+    setVenue(reference, venue);
+  } else if (quoted && quoted.index! > 0) {
+    // IEEE: A. Smith and B. Doe, “Title,” in Venue, 2020, pp. 1–9.
+    authorPart = text.slice(0, quoted.index);
+    setTitle(reference, quoted[1]);
+    setVenue(
+      reference,
+      text
+        .slice(quoted.index! + quoted[0].length)
+        .replace(/^[\s,.]*(?:in\s+)?/i, ""),
+    );
+  } else {
+    // Vancouver / Harvard: Smith J, Doe A. Title. Venue. 2020;1:3–4.
+    const end = authorsEnd(text);
+    authorPart = text.slice(0, end);
+    rest = text.slice(end).replace(/^[\s.]*(?:\(?\d{4}[a-z]?\)?\.\s*)?/, "");
+    const [title, venue] = splitSentences(rest);
+    setTitle(reference, title);
+    setVenue(reference, venue);
+  }
+
+  reference.authors = parseAuthors(authorPart);
+  if (reference.year === undefined) {
+    const year = text.match(YEAR)?.[1];
+    if (year) reference.year = parseInt(year, 10);
+  }
+  return reference;
+}
+
+/**
+ * The References section of a full text, found by its heading. The last
+ * one wins, since a table of contents may name it earlier.
+ */
+export function referencesSection(text: string): string | null {
+  const section = detectSections(text)
+    .filter((s) => s.type === "references")
+    .pop();
+  return section ? text.slice(section.start, section.end) : null;
+}
+
+/** Parse a whole References section. */
+export function parseReferences(text: string): ParsedReference[] {
+  return splitReferences(text).map((entry, i) => parseReference(entry, i + 1));
+}
+
+/**
+ * Where the author list ends: the first ". " not closing an initial that
+ * follows a comma, period or "and" ("Smith, J.", "J. A.", "and A."), so
+ * "He K. Title", "Smith J, Doe AB. Title" and "Smith, J., Doe, A. 2020."
+ * all end after the last author.
+ */
+function authorsEnd(text: string): number {
+  const pattern = /\.\s+/g;
+  for (const match of text.matchAll(pattern)) {
+    const before = text.slice(0, match.index);
+    if (/(?:^|[,.&(-]\s*|\band\s+)[A-Z]$/.test(before)) continue;
+    return match.index! + 1;
+  }
+  return 0;
+}
+
+/** The first two sentences of `text`, split at ". ", "? " or "! ". */
+function splitSentences(text: string): [string, string] {
+  const match = text.match(/[.?!]\s+/);
+  if (!match) return [text, ""];
+  const end = match.index! + 1;
+  return [text.slice(0, end), text.slice(end).trim()];
+}
+
+function setTitle(reference: ParsedReference, title: string): void {
+  const cleaned = title.replace(/^[\s,.]+|[\s,.]+$/g, "");
+  if (cleaned.length >= 3) reference.title = cleaned;
+}
+
+/** Venue: the text before volume, pages or year details. */
+function setVenue(reference: ParsedReference, text: string): void {
+  const venue = text
+    .split(/[,;(]|\s(?=\d)/)[0]
+    .replace(/^[\s.]+|[\s.,]+$/g, "")
+    .replace(/^in\s+/i, "");
+  if (venue.length >= 2 && !/^(pp?|vol|no)\b/i.test(venue)) {
+    reference.venue = venue;
+  }
+}
+
+/**
+ * Split an author list into names as printed. Handles "Smith, J., Doe, A."
+ * (family name and initials as separate comma parts), "J. Smith, A. Doe"
+ * and "Smith J, Doe A", joined by commas, semicolons, "and" or "&".
+ */
+function parseAuthors(text: string): string[] {
+  const cleaned = text
+    .replace(/\bet al\.?/gi, "")
+    .replace(/[\s,]+$/, "")
+    // Keep the period of a closing initial ("Smith, J."), not "Doe AB."
+    .replace(/(?<!(?:^|[\s.,-])[A-Z])\.$/, "")
+    .trim();
+  if (!cleaned) return [];
+
+  const parts = cleaned
+    .split(/\s*(?:;|,?\s+(?:and|&)\s+|,)\s*/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const isInitials = (part: string) => /^([A-Z]\.?\s*-?\s*){1,4}$/.test(part);
+
+  const authors: string[] = [];
+  for (const part of parts) {
+    const last = authors[authors.length - 1];
+    // A bare family name followed by its initials: "Smith", "J."
+    if (last && isInitials(part) && /^[\p{L}'’-]+$/u.test(last)) {
+      authors[authors.length - 1] = `${last}, ${part}`;
+    } else {
+      authors.push(part);
+    }
+  }
+  return authors;
+}
+
+/** Lowercased letters and digits of a title, words single-spaced. */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Similarity of two titles in [0, 1]: the Dice coefficient of their
+ * character bigrams, which tolerates extraction typos and punctuation.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const bigrams = (s: string) => {
+    const counts = new Map<string, number>();
+    const text = normalizeTitle(s);
+    for (let i = 0; i < text.length - 1; i++) {
+      const gram = text.slice(i, i + 2);
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+    }
+    return counts;
+  };
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let total = 0;
+  let shared = 0;
+  for (const count of left.values()) total += count;
+  for (const [gram, count] of right) {
+    total += count;
+    shared += Math.min(count, left.get(gram) || 0);
+  }
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * Whether a parsed reference cites a known work: the same DOI, or a title
+ * match whose year, when both are known, is at most a year off. Returns
+ * how it matched.
+ */
+export function citesWork(
+  reference: ParsedReference,
+  work: { title: string; year?: number; doi?: string },
+): "doi" | "title" | null {
+  if (reference.doi && work.doi) {
+    return reference.doi.toLowerCase() === work.doi.toLowerCase()
+      ? "doi"
+      : null;
+  }
+  if (!reference.title || !work.title) return null;
+  if (reference.year && work.year && Math.abs(reference.year - work.year) > 1) {
+    return null;
+  }
+  return titleSimilarity(reference.title, work.title) >= TITLE_MATCH_THRESHOLD
+    ? "title"
+    : null;
+}
+
+/**
+ * Words to narrow a library title search with: the longest few, so the
+ * database does the coarse filtering and titleSimilarity the rest.
+ */
+export function titleSearchTerms(title: string, count = 2): string[] {
+  return [...new Set(normalizeTitle(title).split(" "))]
+    .filter((word) => word.length >= 4)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, count);
+}
@@ -0,0 +1,447 @@
+/**
+ * MCP resources: items, collections, attachment text and notes exposed as
+ * `zotero://` URIs so clients can attach papers to a conversation by
+ * reference instead of round-tripping through tool calls.
+ *
+ * URI scheme (the optional libraryID segment addresses group libraries; the
+ * personal library uses the bare form):
+ *   zotero://item/[{libraryID}/]{key}
+ *   zotero://collection/[{libraryID}/]{key}
+ *   zotero://attachment/[{libraryID}/]{key}/text
+ *   zotero://note/[{libraryID}/]{key}
+ *
+ * Reads are built on the same formatters the tools use (formatItem,
+ * formatCollectionDetails, UnifiedContentExtractor) so a resource and the
+ * equivalent tool call never disagree.
+ */
+
+import { ALL_FIELDS_SENTINEL, formatItem } from "./itemFormatter";
+import { formatCollectionDetails } from "./collectionFormatter";
+import { UnifiedContentExtractor } from "./unifiedContentExtractor";
+import { TextFormatter } from "./textFormatter";
+import { listLibraries } from "./libraryResolver";
+
+declare let Zotero: any;
+
+export type ResourceKind = "item" | "collection" | "attachment" | "note";
+
+export interface ResourceRef {
+  kind: ResourceKind;
+  key: string;
+  libraryID?: number;
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const RESOURCE_URI_RE =
+  /^zotero:\/\/(item|collection|attachment|note)\/(?:(\d+)\/)?([A-Z0-9]{8})(\/text)?$/;
+
+/** Page size for resources/list. Small enough to keep one page cheap to build. */
+export const RESOURCE_PAGE_SIZE = 100;
+
+// Collection member listings are capped so a 5k-item collection doesn't
+// become a multi-megabyte resource; the full list is a tool call away.
+const COLLECTION_ITEMS_LIMIT = 200;
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "zotero://item/{key}",
+    name: "Zotero item",
+    description:
+      "Full metadata for a library item (all fields, creators, tags, notes, attachments, collections). Prefix the key with '{libraryID}/' for group libraries.",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "zotero://collection/{key}",
+    name: "Zotero collection",
+    description: `Collection details with its subcollections and up to ${COLLECTION_ITEMS_LIMIT} member items`,
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "zotero://attachment/{key}/text",
+    name: "Attachment text",
+    description: "Extracted full text of a PDF, HTML or plain-text attachment",
+    mimeType: "text/plain",
+  },
+  {
+    uriTemplate: "zotero://note/{key}",
+    name: "Zotero note",
+    description: "Plain-text content of a standalone or child note",
+    mimeType: "text/plain",
+  },
+];
+
+export class ResourceNotFoundError extends Error {
+  constructor(uri: string) {
+    super(`Resource not found: ${uri}`);
+    this.name = "ResourceNotFoundError";
+  }
+}
+
+export class InvalidResourceURIError extends Error {
+  constructor(uri: string) {
+    super(
+      `Unsupported resource URI "${uri}". See resources/templates/list for the supported forms.`,
+    );
+    this.name = "InvalidResourceURIError";
+  }
+}
+
+/** Parse a zotero:// resource URI; null when it isn't one we serve. */
+export function parseResourceURI(uri: unknown): ResourceRef | null {
+  if (typeof uri !== "string") return null;
+  const m = RESOURCE_URI_RE.exec(uri);
+  if (!m) return null;
+  const kind = m[1] as ResourceKind;
+  // Only attachments carry the /text suffix, and they always carry it.
+  if ((kind === "attachment") !== Boolean(m[4])) return null;
+  const ref: ResourceRef = { kind, key: m[3] };
+  if (m[2]) ref.libraryID = parseInt(m[2], 10);
+  return ref;
+}
+
+/**
+ * Build the URI for a resource. The personal library gets the bare form so
+ * the common case stays short; any other library is spelled out.
+ */
+export function buildResourceURI(
+  ref: ResourceRef,
+  userLibraryID?: number,
+): string {
+  const lib =
+    ref.libraryID !== undefined && ref.libraryID !== userLibraryID
+      ? `${ref.libraryID}/`
+      : "";
+  const suffix = ref.kind === "attachment" ? "/text" : "";
+  return `zotero://${ref.kind}/${lib}${ref.key}${suffix}`;
+}
+
+/**
+ * Where a resources/list page ends: the last library, kind and object ID
+ * listed. Pages resume after it instead of re-enumerating what came before.
+ */
+export interface ResourceCursor {
+  libraryID: number;
+  kind: "collection" | "item";
+  afterID: number;
+}
+
+const RESOURCE_CURSOR_RE = /^(\d+)\.(c|i)\.(\d+)$/;
+
+export function encodeResourceCursor(cursor: ResourceCursor): string {
+  return `${cursor.libraryID}.${cursor.kind === "collection" ? "c" : "i"}.${cursor.afterID}`;
+}
+
+/** Cursors are opaque to clients; anything unparsable restarts at the top. */
+export function decodeResourceCursor(cursor: unknown): ResourceCursor | null {
+  if (typeof cursor !== "string") return null;
+  const m = RESOURCE_CURSOR_RE.exec(cursor);
+  if (!m) return null;
+  return {
+    libraryID: parseInt(m[1], 10),
+    kind: m[2] === "c" ? "collection" : "item",
+    afterID: parseInt(m[3], 10),
+  };
+}
+
+/**
+ * Up to `limit` regular, untrashed item IDs in a library after `afterID`,
+ * in ID order. One bounded query per page, however large the library.
+ */
+async function getRegularItemIDs(
+  libraryID: number,
+  afterID: number,
+  limit: number,
+): Promise<number[]> {
+  const excludedTypes = ["attachment", "note", "annotation"]
+    .map((type) => Zotero.ItemTypes.getID(type))
+    .filter((id: unknown): id is number => typeof id === "number");
+  const ids: number[] = await Zotero.DB.columnQueryAsync(
+    `SELECT itemID FROM items WHERE libraryID = ? AND itemID > ?` +
+      ` AND itemTypeID NOT IN (${excludedTypes.map(() => "?").join(",")})` +
+      ` AND itemID NOT IN (SELECT itemID FROM deletedItems)` +
+      ` ORDER BY itemID LIMIT ?`,
+    [libraryID, afterID, ...excludedTypes, limit],
+  );
+  return ids || [];
+}
+
+/**
+ * One page of resources across every library, in libraryID order: each
+ * library's collections first, then its regular items, each by ID.
+ * Attachments and notes are reachable through the templates (and are
+ * listed inside each item resource) rather than flooding the listing.
+ */
+export async function listResources(cursor?: unknown): Promise<{
+  resources: MCPResource[];
+  nextCursor?: string;
+}> {
+  const userLibraryID = Zotero.Libraries.userLibraryID;
+  const libraries = listLibraries()
+    .map((lib) => lib.libraryID)
+    .sort((a, b) => a - b);
+  let resume = decodeResourceCursor(cursor);
+  if (resume && !libraries.includes(resume.libraryID)) resume = null;
+
+  // One ref past the page tells whether there is a next one.
+  const want = RESOURCE_PAGE_SIZE + 1;
+  const refs: Array<{
+    libraryID: number;
+    kind: "collection" | "item";
+    id: number;
+  }> = [];
+  for (const libraryID of libraries) {
+    if (resume && libraryID < resume.libraryID) continue;
+    const resuming = resume?.libraryID === libraryID ? resume : null;
+
+    if (resuming?.kind !== "item") {
+      const after = resuming?.afterID ?? 0;
+      const ids = (Zotero.Collections.getByLibrary(libraryID, true) as any[])
+        .map((c) => c.id as number)
+        .filter((id) => id > after)
+        .sort((a, b) => a - b);
+      for (const id of ids.slice(0, want - refs.length)) {
+        refs.push({ libraryID, kind: "collection", id });
+      }
+    }
+    if (refs.length >= want) break;
+
+    const afterItem = resuming?.kind === "item" ? resuming.afterID : 0;
+    for (const id of await getRegularItemIDs(
+      libraryID,
+      afterItem,
+      want - refs.length,
+    )) {
+      refs.push({ libraryID, kind: "item", id });
+    }
+    if (refs.length >= want) break;
+  }
+
+  const page = refs.slice(0, RESOURCE_PAGE_SIZE);
+  const resources: MCPResource[] = [];
+
+  for (const ref of page) {
+    if (ref.kind === "collection") {
+      const collection = Zotero.Collections.get(ref.id);
+      if (!collection) continue;
+      resources.push({
+        uri: buildResourceURI(
+          {
+            kind: "collection",
+            key: collection.key,
+            libraryID: collection.libraryID,
+          },
+          userLibraryID,
+        ),
+        name: collection.name,
+        description: "Zotero collection",
+        mimeType: "application/json",
+      });
+    } else {
+      const item = await Zotero.Items.getAsync(ref.id);
+      if (!item) continue;
+      const year = item.getField("date")?.match(/\d{4}/)?.[0];
+      const creator = item.getCreators()[0];
+      const byline = [creator?.lastName || creator?.name, year]
+        .filter(Boolean)
+        .join(", ");
+      resources.push({
+        uri: buildResourceURI(
+          { kind: "item", key: item.key, libraryID: item.libraryID },
+          userLibraryID,
+        ),
+        name: item.getDisplayTitle() || item.key,
+        description: byline ? `${item.itemType} (${byline})` : item.itemType,
+        mimeType: "application/json",
+      });
+    }
+  }
+
+  if (refs.length <= RESOURCE_PAGE_SIZE) return { resources };
+  const last = page[page.length - 1];
+  return {
+    resources,
+    nextCursor: encodeResourceCursor({
+      libraryID: last.libraryID,
+      kind: last.kind,
+      afterID: last.id,
+    }),
+  };
+}
+
+/** Read one resource. Throws InvalidResourceURIError / ResourceNotFoundError. */
+export async function readResource(
+  uri: string,
+): Promise<MCPResourceContents[]> {
+  const ref = parseResourceURI(uri);
+  if (!ref) throw new InvalidResourceURIError(String(uri));
+  const libraryID = ref.libraryID ?? Zotero.Libraries.userLibraryID;
+
+  switch (ref.kind) {
+    case "item": {
+      const item = Zotero.Items.getByLibraryAndKey(libraryID, ref.key);
+      if (!item || !item.isRegularItem()) throw new ResourceNotFoundError(uri);
+      const formatted = await formatItem(item, [ALL_FIELDS_SENTINEL]);
+      return [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify(formatted, null, 2),
+        },
+      ];
+    }
+
+    case "collection": {
+      const collection = Zotero.Collections.getByLibraryAndKey(
+        libraryID,
+        ref.key,
+      );
+      if (!collection) throw new ResourceNotFoundError(uri);
+      const details = await formatCollectionDetails(collection, {
+        includeItems: true,
+        includeSubcollections: true,
+        itemsLimit: COLLECTION_ITEMS_LIMIT,
+      });
+      return [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify(details, null, 2),
+        },
+      ];
+    }
+
+    case "attachment": {
+      const attachment = Zotero.Items.getByLibraryAndKey(libraryID, ref.key);
+      if (!attachment?.isAttachment()) throw new ResourceNotFoundError(uri);
+      const extractor = new UnifiedContentExtractor();
+      const result = await extractor.getAttachmentContent(
+        ref.key,
+        "complete",
+        undefined,
+        libraryID,
+      );
+      return [{ uri, mimeType: "text/plain", text: result?.content || "" }];
+    }
+
+    case "note": {
+      const note = Zotero.Items.getByLibraryAndKey(libraryID, ref.key);
+      if (!note?.isNote()) throw new ResourceNotFoundError(uri);
+      return [
+        {
+          uri,
+          mimeType: "text/plain",
+          text: TextFormatter.htmlToText(note.getNote() || ""),
+        },
+      ];
+    }
+  }
+}
+
+function uriForItem(item: any, userLibraryID: number): string | null {
+  let kind: ResourceKind;
+  if (item.isRegularItem()) kind = "item";
+  else if (item.isAttachment()) kind = "attachment";
+  else if (item.isNote()) kind = "note";
+  else return null;
+  return buildResourceURI(
+    { kind, key: item.key, libraryID: item.libraryID },
+    userLibraryID,
+  );
+}
+
+/**
+ * Translate a Zotero.Notifier event into the resource URIs whose contents
+ * changed, and whether resources/list output changed. A child note or
+ * attachment also changes its parent item's resource, which lists them.
+ */
+export function resourceChangesForNotifierEvent(
+  event: string,
+  type: string,
+  ids: Array<string | number>,
+  extraData: Record<string, any> = {},
+): { uris: string[]; listChanged: boolean } {
+  const userLibraryID = Zotero.Libraries.userLibraryID;
+  const uris = new Set<string>();
+  let listChanged = false;
+
+  if (type === "item") {
+    for (const id of ids) {
+      if (event === "delete") {
+        // The item is gone, so its type is unknown: report every URI shape
+        // the key could have had. Only subscribed URIs are ever delivered.
+        const data = extraData[id];
+        if (!data?.key) continue;
+        for (const kind of ["item", "attachment", "note"] as const) {
+          uris.add(
+            buildResourceURI(
+              { kind, key: data.key, libraryID: data.libraryID },
+              userLibraryID,
+            ),
+          );
+        }
+        listChanged = true;
+        continue;
+      }
+      const item = Zotero.Items.get(Number(id));
+      if (!item) continue;
+      const uri = uriForItem(item, userLibraryID);
+      if (uri) uris.add(uri);
+      if (item.parentItem && (item.isAttachment() || item.isNote())) {
+        const parentURI = uriForItem(item.parentItem, userLibraryID);
+        if (parentURI) uris.add(parentURI);
+      }
+      if (item.isRegularItem() && (event === "add" || event === "trash")) {
+        listChanged = true;
+      }
+    }
+  } else if (type === "collection") {
+    for (const id of ids) {
+      const collection =
+        event === "delete" ? extraData[id] : Zotero.Collections.get(Number(id));
+      if (!collection?.key) continue;
+      uris.add(
+        buildResourceURI(
+          {
+            kind: "collection",
+            key: collection.key,
+            libraryID: collection.libraryID,
+          },
+          userLibraryID,
+        ),
+      );
+      if (event === "add" || event === "delete") listChanged = true;
+    }
+  } else if (type === "collection-item") {
+    // ids are "<collectionID>-<itemID>"; membership changes the collection.
+    for (const id of ids) {
+      const collection = Zotero.Collections.get(
+        parseInt(String(id).split("-")[0], 10),
+      );
+      if (!collection) continue;
+      uris.add(
+        buildResourceURI(
+          {
+            kind: "collection",
+            key: collection.key,
+            libraryID: collection.libraryID,
+          },
+          userLibraryID,
+        ),
+      );
+    }
+  }
+
+  return { uris: [...uris], listChanged };
+}
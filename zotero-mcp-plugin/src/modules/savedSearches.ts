@@ -0,0 +1,297 @@
+/**
+ * Zotero saved searches for the MCP tools: listing them, finding one by
+ * key or name, and turning search_library parameters into the conditions
+ * of a new one.
+ *
+ * A saved search joins its conditions with AND and runs inside Zotero, so
+ * only parameters with a native condition can be saved. Anything else
+ * (regex operators, tagMode "any" over several tags, page-count ranges)
+ * is refused rather than silently dropped. Parameters that only shape a
+ * run, such as limit and sort, are not part of the search.
+ */
+
+import type { SearchParams } from "./searchEngine";
+
+declare let Zotero: any;
+
+export class SavedSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SavedSearchError";
+  }
+}
+
+export interface SavedSearchCondition {
+  condition: string;
+  operator: string;
+  value: string;
+}
+
+export interface SavedSearchSummary {
+  key: string;
+  name: string;
+  conditions: SavedSearchCondition[];
+}
+
+// Paging, ordering and ranking happen when the search is run.
+const RUN_PARAMS = new Set([
+  "limit",
+  "offset",
+  "cursor",
+  "sort",
+  "direction",
+  "mode",
+  "relevanceScoring",
+  "boostFields",
+  "libraryID",
+  "tagMode",
+  "tagMatch",
+  "titleOperator",
+  "creatorOperator",
+  "publicationTitleOperator",
+  "abstractOperator",
+  "fulltextMode",
+  "fulltextOperator",
+  "includeAttachments",
+  "includeNotes",
+]);
+
+// Parameters matched by substring, each against one item field.
+const CONTAINS_FIELDS: Record<string, string> = {
+  doi: "DOI",
+  isbn: "ISBN",
+  language: "language",
+  rights: "rights",
+  url: "url",
+  extra: "extra",
+};
+
+function fieldOperator(
+  param: string,
+  operator: string | undefined,
+  unsupported: string[],
+): string {
+  if (!operator || operator === "contains") return "contains";
+  if (operator === "exact") return "is";
+  unsupported.push(`${param} "${operator}"`);
+  return "contains";
+}
+
+/**
+ * The conditions a saved search needs to match what search_library
+ * matches for `params`. `collection` is a collection key. yearRange
+ * becomes date bounds, which unlike search_library leave out undated
+ * items. Throws SavedSearchError naming every parameter that has no
+ * equivalent.
+ */
+export function savedSearchConditions(
+  params: SearchParams & Record<string, any>,
+): SavedSearchCondition[] {
+  const conditions: SavedSearchCondition[] = [];
+  const unsupported: string[] = [];
+  const add = (condition: string, operator: string, value: string) =>
+    conditions.push({ condition, operator, value });
+
+  for (const [param, raw] of Object.entries(params)) {
+    if (raw === undefined || raw === null || raw === "") continue;
+    if (RUN_PARAMS.has(param)) continue;
+    const value = String(raw);
+
+    switch (param) {
+      case "q":
+        add("quicksearch-everything", "contains", value);
+        break;
+      case "title":
+        add(
+          "title",
+          fieldOperator("titleOperator", params.titleOperator, unsupported),
+          value,
+        );
+        break;
+      case "creator":
+        add(
+          "creator",
+          fieldOperator("creatorOperator", params.creatorOperator, unsupported),
+          value,
+        );
+        break;
+      case "publicationTitle":
+        add(
+          "publicationTitle",
+          fieldOperator(
+            "publicationTitleOperator",
+            params.publicationTitleOperator,
+            unsupported,
+          ),
+          value,
+        );
+        break;
+      case "abstractText":
+        add(
+          "abstractNote",
+          fieldOperator(
+            "abstractOperator",
+            params.abstractOperator,
+            unsupported,
+          ),
+          value,
+        );
+        break;
+      case "year":
+        add("date", "is", value);
+        break;
+      case "itemType":
+        add("itemType", "is", value);
+        break;
+      case "collection":
+        add("collection", "is", value);
+        break;
+      case "yearRange": {
+        const match = /^\s*(\d{4})?\s*-\s*(\d{4})?\s*$/.exec(value);
+        if (!match || (!match[1] && !match[2])) {
+          unsupported.push(`yearRange "${value}"`);
+          break;
+        }
+        // Zotero compares a bare year as YYYY-00-00, so "after 2020"
+        // includes all of 2020 and "before 2024" none of 2024.
+        if (match[1]) add("date", "isAfter", match[1]);
+        if (match[2]) add("date", "isBefore", String(Number(match[2]) + 1));
+        break;
+      }
+      case "tag":
+      case "tags":
+        // The legacy tag is only read when tags is absent.
+        if (param === "tag" && params.tags) break;
+        conditions.push(...tagConditions(params, unsupported));
+        break;
+      case "fulltext":
+        if (params.fulltextOperator && params.fulltextOperator !== "contains") {
+          unsupported.push(`fulltextOperator "${params.fulltextOperator}"`);
+        } else if (params.fulltextMode === "attachment") {
+          add("fulltextContent", "contains", value);
+        } else if (params.fulltextMode === "note") {
+          add("note", "contains", value);
+        } else {
+          unsupported.push(
+            'fulltext without fulltextMode "attachment" or "note"',
+          );
+        }
+        break;
+      default:
+        if (CONTAINS_FIELDS[param]) {
+          add(CONTAINS_FIELDS[param], "contains", value);
+        } else {
+          unsupported.push(param);
+        }
+    }
+  }
+
+  if (unsupported.length > 0) {
+    throw new SavedSearchError(
+      `Cannot save as a Zotero search: ${unsupported.join(", ")}`,
+    );
+  }
+  if (String(params.includeAttachments) !== "true") {
+    add("itemType", "isNot", "attachment");
+  }
+  if (String(params.includeNotes) !== "true") {
+    add("itemType", "isNot", "note");
+  }
+  return conditions;
+}
+
+function tagConditions(
+  params: SearchParams,
+  unsupported: string[],
+): SavedSearchCondition[] {
+  const tags = (
+    Array.isArray(params.tags)
+      ? params.tags
+      : String(params.tags ?? params.tag ?? "").split(",")
+  )
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  const mode = params.tagMode || "any";
+  const match = (params.tagMatch as string) || "exact";
+  if (!["exact", "contains", "partial"].includes(match)) {
+    unsupported.push(`tagMatch "${match}"`);
+    return [];
+  }
+  if (mode === "any" && tags.length > 1) {
+    unsupported.push('tagMode "any" with several tags');
+    return [];
+  }
+
+  const exact = match === "exact";
+  const operator =
+    mode === "none"
+      ? exact
+        ? "isNot"
+        : "doesNotContain"
+      : exact
+        ? "is"
+        : "contains";
+  return tags.map((value) => ({ condition: "tag", operator, value }));
+}
+
+export function describeSavedSearch(search: any): SavedSearchSummary {
+  return {
+    key: search.key,
+    name: search.name,
+    conditions: (search.toJSON().conditions || []).map((c: any) => ({
+      condition: c.condition,
+      operator: c.operator,
+      value: c.value,
+    })),
+  };
+}
+
+async function savedSearches(libraryID: number): Promise<any[]> {
+  const searches = await Zotero.Searches.getAll(libraryID);
+  return (searches || []).filter((search: any) => !search.deleted);
+}
+
+/** The library's saved searches, by name, with their conditions. */
+export async function listSavedSearches(
+  libraryID: number,
+): Promise<SavedSearchSummary[]> {
+  return (await savedSearches(libraryID))
+    .map(describeSavedSearch)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * A saved search by key, or else by name (exact, then ignoring case).
+ * Throws when there is none, or when a name matches several.
+ */
+export async function findSavedSearch(
+  libraryID: number,
+  ref: { searchKey?: string; name?: string },
+): Promise<any> {
+  if (ref.searchKey) {
+    const search = Zotero.Searches.getByLibraryAndKey(libraryID, ref.searchKey);
+    if (!search || search.deleted) {
+      throw new Error(`Saved search with key "${ref.searchKey}" not found`);
+    }
+    return search;
+  }
+
+  const name = (ref.name || "").trim();
+  if (!name) throw new SavedSearchError("searchKey or name is required");
+  const searches = await savedSearches(libraryID);
+  let matches = searches.filter((search) => search.name === name);
+  if (matches.length === 0) {
+    matches = searches.filter(
+      (search) => search.name.toLowerCase() === name.toLowerCase(),
+    );
+  }
+  if (matches.length === 0) {
+    throw new Error(`Saved search "${name}" not found`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `Several saved searches are named "${name}" (${matches.map((s) => s.key).join(", ")}); pass searchKey`,
+    );
+  }
+  return matches[0];
+}
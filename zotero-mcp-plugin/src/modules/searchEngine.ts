@@ -1,5 +1,12 @@
 import { formatItem, formatItemBrief } from "./itemFormatter";
 import { MCPSettingsService } from "./mcpSettingsService";
+import {
+  continuePagination,
+  CursorError,
+  startPagination,
+  type Page,
+} from "./pagination";
+import { describeSavedSearch, findSavedSearch } from "./savedSearches";
 
 declare let ztoolkit: ZToolkit;
 
@@ -13,7 +20,7 @@ class MCPError extends Error {
 }
 
 // Supported search parameters interface
-interface SearchParams {
+export interface SearchParams {
   q?: string;
   key?: string; // Added key for exact matching
   title?: string;
@@ -30,7 +37,8 @@ interface SearchParams {
   hasAttachment?: string;
   hasNote?: string;
   limit?: string;
-  offset?: string;
+  offset?: string; // Superseded by cursor; still honoured on a first page
+  cursor?: string; // nextCursor of an earlier page
   sort?: string;
   direction?: string;
   libraryID?: string; // Library ID parameter
@@ -64,10 +72,21 @@ interface SearchParams {
   // Result relevance and sorting
   relevanceScoring?: "true" | "false";
   boostFields?: string; // Comma-separated field list for boosting relevance weight
+}
+
+// Per-result details worked out by the search, kept with the snapshot so
+// later pages carry them too
+interface SearchResultExtras {
+  matchedTags?: string[];
+  relevanceScore?: number;
+  matchedFields?: string[];
+  fulltextMatch?: Record<string, any>;
+}
 
-  // Saved searches
-  savedSearchName?: string;
-  saveSearch?: "true" | "false";
+interface SearchSnapshotState {
+  query: Record<string, any>;
+  summary: Record<string, any>;
+  extras: Record<number, SearchResultExtras>;
 }
 
 // Relevance scoring result
@@ -469,6 +488,66 @@ async function performFulltextSearch(
   }
 }
 
+/**
+ * Keep items whose tags satisfy `tagMode` over `queryTags`. Matching is
+ * case-insensitive; each kept item gets the tags it matched attached as
+ * `matchedTags`.
+ */
+function filterItemsByTags(
+  items: Zotero.Item[],
+  queryTags: string[],
+  tagMatch: NonNullable<SearchParams["tagMatch"]>,
+  tagMode: NonNullable<SearchParams["tagMode"]>,
+): { items: Zotero.Item[]; matchedTagsStats: Record<string, number> } {
+  const matchedTagsStats: Record<string, number> = {};
+  const filteredItems: Zotero.Item[] = [];
+  items.forEach((item) => {
+    const itemTags = (item.getTags?.() || []).map((t) => t.tag);
+    const matchedTags: string[] = [];
+
+    for (const queryTag of queryTags) {
+      const isMatch = itemTags.some((itemTag) => {
+        switch (tagMatch) {
+          case "contains":
+            return itemTag.toLowerCase().includes(queryTag.toLowerCase());
+          case "startsWith":
+            return itemTag.toLowerCase().startsWith(queryTag.toLowerCase());
+          case "exact":
+          default:
+            return itemTag.toLowerCase() === queryTag.toLowerCase();
+        }
+      });
+      if (isMatch) {
+        matchedTags.push(queryTag);
+      }
+    }
+
+    const uniqueMatched = [...new Set(matchedTags)];
+    let shouldInclude = false;
+    switch (tagMode) {
+      case "all":
+        shouldInclude = uniqueMatched.length === queryTags.length;
+        break;
+      case "none":
+        shouldInclude = uniqueMatched.length === 0;
+        break;
+      case "any":
+      default:
+        shouldInclude = uniqueMatched.length > 0;
+        break;
+    }
+
+    if (shouldInclude) {
+      (item as any).matchedTags = uniqueMatched; // Attach matched tags
+      filteredItems.push(item);
+      uniqueMatched.forEach((tag) => {
+        matchedTagsStats[tag] = (matchedTagsStats[tag] || 0) + 1;
+      });
+    }
+  });
+  return { items: filteredItems, matchedTagsStats };
+}
+
 /**
  * Apply advanced filters to item list
  * @param items Item list
@@ -594,23 +673,87 @@ function applyAdvancedFilters(
 }
 
 /**
- * Handle search engine request
- * @param params Search parameters
+ * Metadata filters the semantic tools share with search_library.
  */
-export async function handleSearchRequest(
-  params: SearchParams,
-): Promise<Record<string, any>> {
-  Zotero.debug(
-    `[MCP Search] Received search params: ${JSON.stringify(params)}`,
+export interface ItemFilters {
+  collection?: string; // Collection key; subcollections are included
+  tags?: string | string[];
+  tagMode?: "any" | "all" | "none";
+  tagMatch?: "exact" | "contains" | "startsWith";
+  yearRange?: string; // Format: "2020-2023" or "2020-" or "-2023"
+  itemType?: string;
+  creator?: string; // Substring of any creator's name
+}
+
+export function hasItemFilters(filters?: ItemFilters): boolean {
+  if (!filters) return false;
+  const tags = Array.isArray(filters.tags) ? filters.tags : [filters.tags];
+  return Boolean(
+    filters.collection ||
+      tags.some((t) => t) ||
+      filters.yearRange ||
+      filters.itemType ||
+      filters.creator,
   );
-  const startTime = Date.now();
+}
 
-  // --- 1. Parameter processing and validation ---
-  const libraryID = params.libraryID
-    ? parseInt(params.libraryID, 10)
-    : Zotero.Libraries.userLibraryID;
-  // Cap from MCPSettingsService so the search limit, mode-config, and the
-  // value advertised in /capabilities all agree on a single number.
+/**
+ * Keys of the regular items in a library that pass `filters`, using the same
+ * conditions as search_library. Semantic search pushes these keys down into
+ * the vector scan instead of filtering its top hits afterwards. An unknown
+ * collection is an error rather than an empty scope, so a mistyped key
+ * doesn't pass for a search with no hits.
+ */
+export async function resolveItemFilterKeys(
+  filters: ItemFilters,
+  libraryID: number,
+): Promise<string[]> {
+  const s = new Zotero.Search();
+  (s as any).libraryID = libraryID;
+  s.addCondition("itemType", "isNot", "attachment");
+  s.addCondition("itemType", "isNot", "note");
+  s.addCondition("itemType", "isNot", "annotation");
+  if (filters.itemType) s.addCondition("itemType", "is", filters.itemType);
+  if (filters.creator) s.addCondition("creator", "contains", filters.creator);
+  if (filters.collection) {
+    const collection = await Zotero.Collections.getByLibraryAndKeyAsync(
+      libraryID,
+      filters.collection,
+    );
+    if (!collection) {
+      throw new Error(`Collection with key "${filters.collection}" not found`);
+    }
+    s.addCondition("collection", "is", collection.id);
+    s.addCondition("recursive", "true");
+  }
+
+  const ids = await s.search();
+  if (ids.length === 0) return [];
+  let items = await Zotero.Items.getAsync(ids);
+
+  const tags = (
+    Array.isArray(filters.tags) ? filters.tags : [filters.tags]
+  ).filter((t): t is string => Boolean(t));
+  if (tags.length > 0) {
+    items = filterItemsByTags(
+      items,
+      tags,
+      filters.tagMatch || "exact",
+      filters.tagMode || "any",
+    ).items;
+  }
+  if (filters.yearRange) {
+    items = applyAdvancedFilters(items, { yearRange: filters.yearRange });
+  }
+  return items.map((item) => item.key);
+}
+
+/**
+ * Page size for a search: `requested`, or 100, capped by the search item
+ * limit from MCPSettingsService so the search limit, mode-config, and the
+ * value advertised in /capabilities all agree on a single number.
+ */
+function resultLimit(requested?: string): number {
   let effectiveCap = 500;
   try {
     const cap = (MCPSettingsService.getEffectiveSettings() as any)
@@ -619,12 +762,11 @@ export async function handleSearchRequest(
   } catch {
     // settings service unavailable — fall back to compiled default
   }
-  const requestedLimit = parseInt(params.limit || "100", 10);
-  const limit = Math.max(1, Math.min(requestedLimit || 100, effectiveCap));
-  const offset = parseInt(params.offset || "0", 10);
-  const sort = params.sort || "dateAdded";
-  const direction = params.direction || "desc";
+  const requestedLimit = parseInt(requested || "100", 10);
+  return Math.max(1, Math.min(requestedLimit || 100, effectiveCap));
+}
 
+function assertSortArgs(sort: string, direction: string): void {
   if (!SUPPORTED_SORT_FIELDS.includes(sort)) {
     throw new MCPError(
       400,
@@ -637,6 +779,148 @@ export async function handleSearchRequest(
       `Unsupported sort direction: ${direction}. Use 'asc' or 'desc'.`,
     );
   }
+}
+
+/** Sort in place by a field, or by creator last names. */
+function sortItems(items: Zotero.Item[], sort: string, direction: string) {
+  items.sort((a, b) => {
+    let valA: any, valB: any;
+    if (sort === "creator") {
+      valA = (a.getCreators?.() || []).map((c) => c.lastName).join(", ");
+      valB = (b.getCreators?.() || []).map((c) => c.lastName).join(", ");
+    } else {
+      valA = a.getField(sort as any) || "";
+      valB = b.getField(sort as any) || "";
+    }
+    if (typeof valA === "string") valA = valA.toLowerCase();
+    if (typeof valB === "string") valB = valB.toLowerCase();
+
+    if (valA < valB) return direction === "asc" ? -1 : 1;
+    if (valA > valB) return direction === "asc" ? 1 : -1;
+    return 0;
+  });
+}
+
+/** Brief item format plus attachment paths and the search's extras. */
+function formatSearchResult(
+  item: Zotero.Item,
+  extras: SearchResultExtras = {},
+): Record<string, any> {
+  const formatted = formatItemBrief(item);
+
+  // Add attachment path info
+  try {
+    const attachmentIDs = item.getAttachments();
+    if (attachmentIDs && attachmentIDs.length > 0) {
+      formatted.attachments = attachmentIDs
+        .map((id: number) => {
+          const attachment = Zotero.Items.get(id);
+          if (attachment && attachment.isAttachment()) {
+            return {
+              key: attachment.key,
+              filename: attachment.attachmentFilename || "",
+              filePath: attachment.getFilePath() || "",
+              contentType: attachment.attachmentContentType || "",
+              linkMode: attachment.attachmentLinkMode,
+            };
+          }
+          return null;
+        })
+        .filter((att: any) => att !== null);
+    } else {
+      formatted.attachments = [];
+    }
+  } catch (error) {
+    ztoolkit.log(
+      `[SearchEngine] Error getting attachments for item ${item.key}: ${error}`,
+      "warn",
+    );
+    formatted.attachments = [];
+  }
+
+  return { ...formatted, ...extras };
+}
+
+function paginationInfo(page: Page<unknown>): Record<string, any> {
+  return {
+    limit: page.limit,
+    offset: page.offset,
+    total: page.total,
+    hasMore: page.nextCursor !== undefined,
+    nextCursor: page.nextCursor,
+  };
+}
+
+/** The next page of an earlier search, read from its snapshot. */
+async function continueSearch(
+  params: SearchParams,
+  sessionId: string | undefined,
+  startTime: number,
+): Promise<Record<string, any>> {
+  let page: Page<number>;
+  try {
+    page = continuePagination<number>(
+      sessionId,
+      "search_library",
+      params.cursor!,
+      params.limit ? parseInt(params.limit, 10) || undefined : undefined,
+    );
+  } catch (error) {
+    if (error instanceof CursorError) throw new MCPError(400, error.message);
+    throw error;
+  }
+  return formatSearchPage(page, startTime);
+}
+
+/**
+ * A page of a search snapshot in search_library's format. Items deleted
+ * or trashed since the snapshot are left out.
+ */
+async function formatSearchPage(
+  page: Page<number>,
+  startTime: number,
+): Promise<Record<string, any>> {
+  const state = page.state as SearchSnapshotState;
+  const items = (await Zotero.Items.getAsync(page.ids)).filter(
+    (item: Zotero.Item) => item && !item.deleted,
+  );
+  return {
+    query: state.query,
+    pagination: paginationInfo(page),
+    searchTime: `${Date.now() - startTime}ms`,
+    results: items.map((item: Zotero.Item) =>
+      formatSearchResult(item, state.extras[item.id]),
+    ),
+    ...state.summary,
+  };
+}
+
+/**
+ * Handle search engine request
+ * @param params Search parameters
+ */
+export async function handleSearchRequest(
+  params: SearchParams,
+  sessionId?: string,
+): Promise<Record<string, any>> {
+  Zotero.debug(
+    `[MCP Search] Received search params: ${JSON.stringify(params)}`,
+  );
+  const startTime = Date.now();
+
+  // --- 1. Parameter processing and validation ---
+  const libraryID = params.libraryID
+    ? parseInt(params.libraryID, 10)
+    : Zotero.Libraries.userLibraryID;
+  const limit = resultLimit(params.limit);
+  const offset = parseInt(params.offset || "0", 10);
+  const sort = params.sort || "dateAdded";
+  const direction = params.direction || "desc";
+  assertSortArgs(sort, direction);
+
+  if (params.cursor) {
+    return continueSearch(params, sessionId, startTime);
+  }
 
   // --- 2. Exact key lookup (priority) ---
   if (params.key) {
@@ -768,55 +1052,14 @@ export async function handleSearchRequest(
   const matchedTagsStats: Record<string, number> = {};
 
   if (queryTags.length > 0) {
-    const tagMatch = params.tagMatch || "exact";
-    const tagMode = params.tagMode || "any";
-
-    const filteredItems: Zotero.Item[] = [];
-    items.forEach((item) => {
-      const itemTags = (item.getTags?.() || []).map((t) => t.tag);
-      const matchedTags: string[] = [];
-
-      for (const queryTag of queryTags) {
-        const isMatch = itemTags.some((itemTag) => {
-          switch (tagMatch) {
-            case "contains":
-              return itemTag.toLowerCase().includes(queryTag.toLowerCase());
-            case "startsWith":
-              return itemTag.toLowerCase().startsWith(queryTag.toLowerCase());
-            case "exact":
-            default:
-              return itemTag.toLowerCase() === queryTag.toLowerCase();
-          }
-        });
-        if (isMatch) {
-          matchedTags.push(queryTag);
-        }
-      }
-
-      const uniqueMatched = [...new Set(matchedTags)];
-      let shouldInclude = false;
-      switch (tagMode) {
-        case "all":
-          shouldInclude = uniqueMatched.length === queryTags.length;
-          break;
-        case "none":
-          shouldInclude = uniqueMatched.length === 0;
-          break;
-        case "any":
-        default:
-          shouldInclude = uniqueMatched.length > 0;
-          break;
-      }
-
-      if (shouldInclude) {
-        (item as any).matchedTags = uniqueMatched; // Attach matched tags
-        filteredItems.push(item);
-        uniqueMatched.forEach((tag) => {
-          matchedTagsStats[tag] = (matchedTagsStats[tag] || 0) + 1;
-        });
-      }
-    });
-    items = filteredItems;
+    const filtered = filterItemsByTags(
+      items,
+      queryTags,
+      params.tagMatch || "exact",
+      params.tagMode || "any",
+    );
+    items = filtered.items;
+    Object.assign(matchedTagsStats, filtered.matchedTagsStats);
   }
 
   // --- 5.5. Apply advanced filters ---
@@ -866,97 +1109,35 @@ export async function handleSearchRequest(
       items = scoredItems.map((si) => si.item);
     } else {
       // Non-relevance sort, but preserve scoring info
-      items.sort((a, b) => {
-        let valA: any, valB: any;
-        if (sort === "creator") {
-          valA = (a.getCreators?.() || []).map((c) => c.lastName).join(", ");
-          valB = (b.getCreators?.() || []).map((c) => c.lastName).join(", ");
-        } else {
-          valA = a.getField(sort as any) || "";
-          valB = b.getField(sort as any) || "";
-        }
-        if (typeof valA === "string") valA = valA.toLowerCase();
-        if (typeof valB === "string") valB = valB.toLowerCase();
-
-        if (valA < valB) return direction === "asc" ? -1 : 1;
-        if (valA > valB) return direction === "asc" ? 1 : -1;
-        return 0;
-      });
+      sortItems(items, sort, direction);
     }
   } else {
     // Traditional sorting
-    items.sort((a, b) => {
-      let valA: any, valB: any;
-      if (sort === "creator") {
-        valA = (a.getCreators?.() || []).map((c) => c.lastName).join(", ");
-        valB = (b.getCreators?.() || []).map((c) => c.lastName).join(", ");
-      } else {
-        valA = a.getField(sort as any) || "";
-        valB = b.getField(sort as any) || "";
-      }
-      if (typeof valA === "string") valA = valA.toLowerCase();
-      if (typeof valB === "string") valB = valB.toLowerCase();
-
-      if (valA < valB) return direction === "asc" ? -1 : 1;
-      if (valA > valB) return direction === "asc" ? 1 : -1;
-      return 0;
-    });
+    sortItems(items, sort, direction);
   }
 
-  // --- 7. Pagination and formatting ---
-  const total = items.length;
-  const paginatedItems = items.slice(offset, offset + limit);
-  const results = paginatedItems.map((item) => {
-    const formatted = formatItemBrief(item);
-
-    // Add attachment path info
-    try {
-      const attachmentIDs = item.getAttachments();
-      if (attachmentIDs && attachmentIDs.length > 0) {
-        formatted.attachments = attachmentIDs
-          .map((id: number) => {
-            const attachment = Zotero.Items.get(id);
-            if (attachment && attachment.isAttachment()) {
-              return {
-                key: attachment.key,
-                filename: attachment.attachmentFilename || "",
-                filePath: attachment.getFilePath() || "",
-                contentType: attachment.attachmentContentType || "",
-                linkMode: attachment.attachmentLinkMode,
-              };
-            }
-            return null;
-          })
-          .filter((att: any) => att !== null);
-      } else {
-        formatted.attachments = [];
-      }
-    } catch (error) {
-      ztoolkit.log(
-        `[SearchEngine] Error getting attachments for item ${item.key}: ${error}`,
-        "warn",
-      );
-      formatted.attachments = [];
-    }
+  // --- 7. Per-result details ---
+  const scoresByID = new Map(scoredItems.map((si) => [si.item.id, si]));
+  const extras: Record<number, SearchResultExtras> = {};
+  for (const item of items) {
+    const entry: SearchResultExtras = {};
 
     // Add tag match info
     if ((item as any).matchedTags) {
-      formatted.matchedTags = (item as any).matchedTags;
+      entry.matchedTags = (item as any).matchedTags;
     }
 
     // Add relevance scoring info
-    if (useRelevanceScoring) {
-      const scoredItem = scoredItems.find((si) => si.item.id === item.id);
-      if (scoredItem) {
-        formatted.relevanceScore = scoredItem.relevanceScore;
-        formatted.matchedFields = scoredItem.matchedFields;
-      }
+    const scoredItem = useRelevanceScoring && scoresByID.get(item.id);
+    if (scoredItem) {
+      entry.relevanceScore = scoredItem.relevanceScore;
+      entry.matchedFields = scoredItem.matchedFields;
     }
 
     // Add fulltext search match details
     if (params.fulltext && fulltextMatchDetails.has(item.id)) {
       const matchDetails = fulltextMatchDetails.get(item.id);
-      formatted.fulltextMatch = {
+      entry.fulltextMatch = {
         query: params.fulltext,
         mode: params.fulltextMode || "both",
         attachments: matchDetails.attachments || [],
@@ -965,30 +1146,20 @@ export async function handleSearchRequest(
       };
     }
 
-    return formatted;
-  });
+    if (Object.keys(entry).length > 0) extras[item.id] = entry;
+  }
 
-  // --- 8. Return final results ---
-  const response: Record<string, any> = {
-    query: params,
-    pagination: {
-      limit,
-      offset,
-      total,
-      hasMore: offset + limit < total,
-    },
-    searchTime: `${Date.now() - startTime}ms`,
-    results,
-  };
+  // --- 8. Result-wide statistics, repeated on every page ---
+  const summary: Record<string, any> = {};
 
   // Add tag statistics
   if (Object.keys(matchedTagsStats).length > 0) {
-    response.matchedTags = matchedTagsStats;
+    summary.matchedTags = matchedTagsStats;
   }
 
   // Add advanced search statistics
   if (useRelevanceScoring) {
-    response.relevanceStats = {
+    summary.relevanceStats = {
       averageScore:
         scoredItems.length > 0
           ? scoredItems.reduce((sum, item) => sum + item.relevanceScore, 0) /
@@ -1019,8 +1190,88 @@ export async function handleSearchRequest(
   }
   if (useRelevanceScoring) searchFeatures.push("relevanceScoring");
 
-  response.searchFeatures = searchFeatures;
-  response.version = "2.0"; // Mark as enhanced search engine
+  summary.searchFeatures = searchFeatures;
+  summary.version = "2.0"; // Mark as enhanced search engine
+
+  // --- 9. Snapshot, first page and formatting ---
+  const page = startPagination(
+    sessionId,
+    "search_library",
+    items.map((item) => item.id),
+    {
+      limit,
+      offset,
+      state: { query: params, summary, extras } as SearchSnapshotState,
+    },
+  );
+  const itemsByID = new Map(items.map((item) => [item.id, item]));
+
+  return {
+    query: params,
+    pagination: paginationInfo(page),
+    searchTime: `${Date.now() - startTime}ms`,
+    results: page.ids.map((id) =>
+      formatSearchResult(itemsByID.get(id)!, extras[id]),
+    ),
+    ...summary,
+  };
+}
+
+/**
+ * Run a Zotero saved search, found by key or name, and page through its
+ * results the way search_library does. The search's own conditions decide
+ * what matches, including child notes and attachments if it selects them.
+ */
+export async function handleRunSavedSearch(
+  params: {
+    libraryID?: number;
+    searchKey?: string;
+    name?: string;
+    limit?: number;
+    cursor?: string;
+    sort?: string;
+    direction?: string;
+  },
+  sessionId?: string,
+): Promise<Record<string, any>> {
+  const startTime = Date.now();
+  if (params.cursor) {
+    const page = continuePagination<number>(
+      sessionId,
+      "run_saved_search",
+      params.cursor,
+      params.limit,
+    );
+    return formatSearchPage(page, startTime);
+  }
+
+  const libraryID = params.libraryID ?? Zotero.Libraries.userLibraryID;
+  const sort = params.sort || "dateAdded";
+  const direction = params.direction || "desc";
+  if (sort === "relevance") {
+    throw new MCPError(400, "A saved search has no relevance to sort by");
+  }
+  assertSortArgs(sort, direction);
 
-  return response;
+  const search = await findSavedSearch(libraryID, params);
+  const ids: number[] = await search.search();
+  const items = (await Zotero.Items.getAsync(ids)).filter(
+    (item: Zotero.Item) => item && !item.deleted,
+  );
+  sortItems(items, sort, direction);
+
+  const page = startPagination(
+    sessionId,
+    "run_saved_search",
+    items.map((item: Zotero.Item) => item.id),
+    {
+      limit: resultLimit(params.limit ? String(params.limit) : undefined),
+      state: {
+        query: params,
+        summary: { savedSearch: describeSavedSearch(search) },
+        extras: {},
+      } as SearchSnapshotState,
+    },
+  );
+  return formatSearchPage(page, startTime);
 }
@@ -0,0 +1,242 @@
+/**
+ * Structural section detection for scholarly PDFs.
+ *
+ * Pure functions — no Zotero dependencies. Works on raw extracted text,
+ * where headings still sit on lines of their own (TextFormatter joins lines
+ * into paragraphs, so detection has to run before formatting). A heading is
+ * a short line consisting of a known section name, optionally numbered
+ * ("2.", "II.", "3.1") and in any case or letter-spacing.
+ */
+
+export const SECTION_TYPES = [
+  "front",
+  "abstract",
+  "introduction",
+  "background",
+  "methods",
+  "results",
+  "discussion",
+  "conclusion",
+  "acknowledgments",
+  "declarations",
+  "references",
+  "appendix",
+] as const;
+
+export type SectionType = (typeof SECTION_TYPES)[number];
+
+/** What a `sections` argument may name: a section type, or the captions. */
+export type SectionSelector = SectionType | "captions";
+
+export const SECTION_SELECTORS: readonly SectionSelector[] = [
+  ...SECTION_TYPES,
+  "captions",
+];
+
+/**
+ * Validate a `sections` argument: a non-empty list of selectors, compared
+ * case-insensitively. Throws on anything else.
+ */
+export function parseSectionSelectors(value: unknown): SectionSelector[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error("sections must be a non-empty array of section names");
+  }
+  return value.map((entry) => {
+    const name = String(entry).trim().toLowerCase();
+    if (!(SECTION_SELECTORS as readonly string[]).includes(name)) {
+      throw new Error(
+        `Unknown section "${entry}" (use one of: ${SECTION_SELECTORS.join(", ")})`,
+      );
+    }
+    return name as SectionSelector;
+  });
+}
+
+export interface DocumentSection {
+  type: SectionType;
+  /** The heading line as printed; empty for front matter. */
+  heading: string;
+  start: number;
+  end: number;
+}
+
+export interface Caption {
+  kind: "figure" | "table";
+  /** Normalized label, e.g. "Figure 3" or "Table S1". */
+  label: string;
+  text: string;
+  start: number;
+}
+
+// Section names, matched against the whole (normalized) heading line.
+const HEADINGS: Array<[SectionType, RegExp]> = [
+  ["abstract", /^abstract$/],
+  ["introduction", /^introduction$/],
+  [
+    "background",
+    /^(background|related work|literature review|preliminaries|theoretical background)$/,
+  ],
+  [
+    "methods",
+    /^((materials|patients|data|subjects) and methods|methods( and materials)?|methodology|experimental (section|procedures?|setup|design)|study design)$/,
+  ],
+  [
+    "results",
+    /^(results( and discussion)?|findings|experiments|experimental results|evaluation)$/,
+  ],
+  ["discussion", /^(general )?discussion$/],
+  [
+    "conclusion",
+    /^(conclusions?( and future work)?|concluding remarks|summary and conclusions?)$/,
+  ],
+  ["acknowledgments", /^(acknowledge?ments?|funding)$/],
+  [
+    "declarations",
+    /^(conflicts? of interest|competing interests?|data availability( statement)?|author contributions)$/,
+  ],
+  [
+    "references",
+    /^(references?|bibliography|works cited|literature cited|reference list)$/,
+  ],
+  [
+    "appendix",
+    /^(appendix( [a-z])?|appendices|supplementary (material|information))$/,
+  ],
+];
+
+const MAX_HEADING_LENGTH = 80;
+const HEADING_NUMBER = /^(\d+(\.\d+)*\.?|[ivxlc]+\.)\s+/;
+// "A B S T R A C T", as some publishers typeset headings
+const LETTER_SPACED = /^([a-z] ){3,}[a-z]$/;
+// IEEE "Abstract—We propose …" and "Abstract: …" put text on the heading line
+const RUN_IN_ABSTRACT = /^abstract\s*[:.—–-]\s*\S/;
+// Caption lines need punctuation after the number, so prose such as
+// "Table 2 shows …" at the start of a line is not taken for a caption.
+const CAPTION = /^(fig\.|figure|table)\s+(s?\d+[a-z]?|[ivx]+)\s*[.:|—–]\s*\S/i;
+const MAX_CAPTION_LENGTH = 300;
+
+/** The section a heading line names, if it is one. */
+export function classifyHeading(line: string): SectionType | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > MAX_HEADING_LENGTH) return null;
+
+  let name = trimmed.toLowerCase().replace(/\s+/g, " ");
+  if (RUN_IN_ABSTRACT.test(name)) return "abstract";
+  name = name.replace(HEADING_NUMBER, "").replace(/[.:]$/, "").trim();
+  if (LETTER_SPACED.test(name)) name = name.replace(/ /g, "");
+
+  for (const [type, pattern] of HEADINGS) {
+    if (pattern.test(name)) return type;
+  }
+  return null;
+}
+
+function* lines(text: string): Generator<{ line: string; start: number }> {
+  let start = 0;
+  while (start <= text.length) {
+    const newline = text.indexOf("\n", start);
+    const end = newline < 0 ? text.length : newline;
+    yield { line: text.slice(start, end), start };
+    if (newline < 0) break;
+    start = newline + 1;
+  }
+}
+
+/**
+ * Split a document into sections at its headings. Text before the first
+ * heading is "front" matter (title, authors). A heading of the section
+ * already open — typically a running page header — does not start a new
+ * one. Returns [] when no heading is found.
+ */
+export function detectSections(text: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  for (const { line, start } of lines(text)) {
+    const type = classifyHeading(line);
+    if (!type || sections[sections.length - 1]?.type === type) continue;
+    sections.push({ type, heading: line.trim(), start, end: text.length });
+  }
+  if (sections.length === 0) return [];
+
+  for (let i = 0; i < sections.length - 1; i++) {
+    sections[i].end = sections[i + 1].start;
+  }
+  if (text.slice(0, sections[0].start).trim()) {
+    sections.unshift({
+      type: "front",
+      heading: "",
+      start: 0,
+      end: sections[0].start,
+    });
+  }
+  return sections;
+}
+
+/**
+ * Figure and table captions: a caption line plus the lines after it, up to
+ * a blank line or the next heading or caption. The first occurrence of each
+ * label wins, since lists of figures and in-text mentions repeat them.
+ */
+export function detectCaptions(text: string): Caption[] {
+  const all = [...lines(text)];
+  const isCaption = (line: string) => CAPTION.test(line.trim());
+  const captions: Caption[] = [];
+  const seen = new Set<string>();
+  all.forEach(({ line, start }, index) => {
+    const match = line.trim().match(CAPTION);
+    if (!match) return;
+    const kind = match[1].toLowerCase() === "table" ? "table" : "figure";
+    const label = `${kind === "table" ? "Table" : "Figure"} ${match[2].toUpperCase()}`;
+    if (seen.has(label)) return;
+    seen.add(label);
+
+    let caption = line.trim();
+    for (const next of all.slice(index + 1)) {
+      const nextLine = next.line.trim();
+      if (
+        !nextLine ||
+        caption.length > MAX_CAPTION_LENGTH ||
+        classifyHeading(nextLine) ||
+        isCaption(nextLine)
+      ) {
+        break;
+      }
+      caption += " " + nextLine;
+    }
+    caption = caption.replace(/\s+/g, " ");
+    captions.push({
+      kind,
+      label,
+      text:
+        caption.length > MAX_CAPTION_LENGTH
+          ? caption.slice(0, MAX_CAPTION_LENGTH) + "…"
+          : caption,
+      start,
+    });
+  });
+  return captions;
+}
+
+/**
+ * The parts of a text worth embedding: every section except the excluded
+ * types, plus whatever lies outside the sections (title, abstract field,
+ * notes). Sections must be sorted and non-overlapping.
+ */
+export function indexableSegments(
+  length: number,
+  sections: DocumentSection[],
+  excluded: SectionType[] = ["references"],
+): Array<{ start: number; end: number }> {
+  const segments: Array<{ start: number; end: number }> = [];
+  let cursor = 0;
+  for (const section of sections) {
+    if (section.start > cursor) {
+      segments.push({ start: cursor, end: section.start });
+    }
+    if (!excluded.includes(section.type)) {
+      segments.push({ start: section.start, end: section.end });
+    }
+    cursor = section.end;
+  }
+  if (cursor < length) segments.push({ start: cursor, end: length });
+  return segments;
+}
@@ -5,19 +5,24 @@
  * Supports any API that follows the OpenAI embeddings format.
  */
 
+import {
+  detectLanguage as detectTextLanguage,
+  type LanguageCode,
+} from "./languageDetector";
+
 declare let Zotero: any;
 declare let ztoolkit: ZToolkit;
 
 export interface EmbeddingResult {
   embedding: Float32Array;
-  language: "zh" | "en";
+  language: LanguageCode;
   dimensions: number;
 }
 
 export interface BatchEmbeddingItem {
   id: string;
   text: string;
-  language?: "zh" | "en";
+  language?: LanguageCode;
 }
 
 export interface EmbeddingServiceStatus {
@@ -892,13 +897,13 @@ export class EmbeddingService {
    * Generate embedding for a single text
    *
    * @param text - Text to embed
-   * @param language - Language hint ('zh', 'en', or 'auto') - used for tracking
+   * @param language - Language hint (a LanguageCode or 'auto') - used for tracking
    * @param isQuery - Not used for API-based embedding, kept for interface compatibility
    * @throws {EmbeddingAPIError} When API call fails
    */
   async embed(
     text: string,
-    language?: "zh" | "en" | "auto",
+    language?: LanguageCode | "auto",
     _isQuery: boolean = false,
   ): Promise<EmbeddingResult> {
     const startTime = Date.now();
@@ -1502,14 +1507,10 @@ export class EmbeddingService {
   }
 
   /**
-   * Simple language detection
+   * Script and stopword based language detection
    */
-  detectLanguage(text: string): "zh" | "en" {
-    const chineseRegex = /[\u4e00-\u9fff\u3400-\u4dbf]/g;
-    const chineseChars = (text.match(chineseRegex) || []).length;
-    const totalChars = text.replace(/\s/g, "").length;
-
-    return totalChars > 0 && chineseChars / totalChars > 0.3 ? "zh" : "en";
+  detectLanguage(text: string): LanguageCode {
+    return detectTextLanguage(text);
   }
 
   /**
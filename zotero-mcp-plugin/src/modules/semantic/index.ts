@@ -11,6 +11,8 @@ export {
   resetSemanticSearchService,
   type SemanticSearchOptions,
   type SemanticSearchResult,
+  type HybridSearchOptions,
+  type HybridSearchResult,
   type IndexProgress,
   type SemanticServiceStats,
 } from "./semanticSearchService";
@@ -37,8 +39,20 @@ export {
   type SearchResult,
   type IndexStatus,
   type VectorStoreStats,
+  type KeywordSearchResult,
 } from "./vectorStore";
 
+// Approximate nearest-neighbour index
+export { ANN_MIN_VECTORS, type ANNIndexState } from "./ivfIndex";
+
+// Language detection
+export {
+  SUPPORTED_LANGUAGES,
+  detectLanguage,
+  isLanguageCode,
+  type LanguageCode,
+} from "./languageDetector";
+
 // Text processing
 export {
   TextChunker,
@@ -0,0 +1,162 @@
+/**
+ * Inverted-file (IVF) approximate nearest-neighbour index.
+ * Pure functions — no Zotero dependencies. VectorStore persists the
+ * centroids next to the embeddings table, tags each embedding row with its
+ * nearest centroid (cluster_id), and at query time scans only the lists of
+ * the closest centroids before an exact Float32 re-rank.
+ *
+ * Centroids come from spherical k-means (unit-length means, dot-product
+ * assignment), which matches the cosine similarity used for search.
+ *
+ * This is plain IVF: list members are scored with the store's existing
+ * Int8 vectors, not product-quantized codes, so the index saves scan time
+ * but no memory. Neither HNSW nor IVF-PQ is implemented.
+ */
+
+/** Below this many vectors a brute-force scan is already fast enough. */
+export const ANN_MIN_VECTORS = 20000;
+
+/** k-means rounds; centroids move very little after the first few. */
+export const ANN_KMEANS_ITERATIONS = 6;
+
+/** Samples drawn per centroid for training, capped to bound memory. */
+const SAMPLES_PER_CLUSTER = 16;
+const MAX_TRAINING_SAMPLES = 10000;
+
+export interface ANNIndexState {
+  clusters: number;
+  dimensions: number;
+  /** Vector count when the centroids were trained. */
+  trainedCount: number;
+  /** Vector count now. */
+  totalVectors: number;
+  /** Rows inserted while no index was loaded (cluster_id IS NULL). */
+  unassigned: number;
+}
+
+/** The usual IVF rule of thumb: about sqrt(N) lists. */
+export function chooseClusterCount(totalVectors: number): number {
+  return Math.min(1024, Math.max(16, Math.round(Math.sqrt(totalVectors))));
+}
+
+/** Lists probed per query: a tenth of them, which keeps recall high. */
+export function chooseProbeCount(clusters: number): number {
+  return Math.min(clusters, Math.max(8, Math.ceil(clusters / 10)));
+}
+
+export function trainingSampleSize(
+  totalVectors: number,
+  clusters: number,
+): number {
+  return Math.min(
+    totalVectors,
+    MAX_TRAINING_SAMPLES,
+    clusters * SAMPLES_PER_CLUSTER,
+  );
+}
+
+/**
+ * The index stops paying for itself once the data has drifted from what the
+ * centroids were trained on: many rows never assigned to a list, or the
+ * collection having doubled or halved since training.
+ */
+export function isANNIndexStale(state: ANNIndexState): boolean {
+  if (state.clusters === 0) return true;
+  if (state.unassigned > state.totalVectors * 0.05) return true;
+  if (state.totalVectors > state.trainedCount * 2) return true;
+  return state.totalVectors < state.trainedCount / 2;
+}
+
+export function normalize(vector: Float32Array): Float32Array {
+  let normSq = 0;
+  for (let i = 0; i < vector.length; i++) normSq += vector[i] * vector[i];
+  const norm = Math.sqrt(normSq);
+  const out = new Float32Array(vector.length);
+  if (norm === 0) return out;
+  for (let i = 0; i < vector.length; i++) out[i] = vector[i] / norm;
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/** Index of the centroid closest (by cosine) to a normalized vector. */
+export function nearestCentroid(
+  vector: Float32Array,
+  centroids: Float32Array[],
+): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let c = 0; c < centroids.length; c++) {
+    const score = dot(vector, centroids[c]);
+    if (score > bestScore) {
+      bestScore = score;
+      best = c;
+    }
+  }
+  return best;
+}
+
+/** The `count` centroids closest to a normalized query, best first. */
+export function rankCentroids(
+  query: Float32Array,
+  centroids: Float32Array[],
+  count: number,
+): number[] {
+  return centroids
+    .map((centroid, index) => ({ index, score: dot(query, centroid) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map((c) => c.index);
+}
+
+/**
+ * Seed centroids with evenly spaced samples. Deterministic (the same data
+ * always trains the same index), and the samples are themselves drawn evenly
+ * across the table, so this spreads the seeds across the collection.
+ */
+export function initialCentroids(
+  samples: Float32Array[],
+  clusters: number,
+): Float32Array[] {
+  const k = Math.min(clusters, samples.length);
+  const step = samples.length / k;
+  const centroids: Float32Array[] = [];
+  for (let c = 0; c < k; c++) {
+    centroids.push(normalize(samples[Math.floor(c * step)]));
+  }
+  return centroids;
+}
+
+/**
+ * Running per-cluster sums for one k-means round. Fed incrementally so the
+ * caller can yield to the UI between slices of a large sample.
+ */
+export class CentroidAccumulator {
+  private sums: Float64Array[];
+  private counts: number[];
+
+  constructor(clusters: number, dimensions: number) {
+    this.sums = Array.from(
+      { length: clusters },
+      () => new Float64Array(dimensions),
+    );
+    this.counts = new Array(clusters).fill(0);
+  }
+
+  add(vector: Float32Array, cluster: number): void {
+    const sum = this.sums[cluster];
+    for (let i = 0; i < vector.length; i++) sum[i] += vector[i];
+    this.counts[cluster]++;
+  }
+
+  /** New unit-length centroids; a cluster that lost all members keeps its old one. */
+  finish(previous: Float32Array[]): Float32Array[] {
+    return this.sums.map((sum, c) =>
+      this.counts[c] === 0 ? previous[c] : normalize(Float32Array.from(sum)),
+    );
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Keyword scoring and rank fusion for hybrid search.
+ * Pure functions — no Zotero dependencies. VectorStore supplies candidate
+ * chunks (SQL LIKE prefilter) and corpus statistics; this module tokenizes,
+ * scores with Okapi BM25, and fuses keyword and vector rankings.
+ */
+
+// Kana plus the CJK ideograph blocks textChunker already treats as Chinese.
+const CJK_RUN_RE = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff]+/g;
+const CJK_CHAR_RE = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff]/;
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+// Only the most common English function words: domain terms must survive,
+// and BM25's IDF already discounts anything merely frequent.
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "to",
+  "was",
+  "were",
+  "with",
+]);
+
+/** BM25 parameters; the usual defaults. */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** RRF damping constant from Cormack et al. (2009). */
+export const RRF_K = 60;
+
+/**
+ * Split text into lowercase terms. Latin-script words are kept whole (so
+ * "BRCA1" and "p53" stay intact); CJK runs, which have no word breaks,
+ * become overlapping character bigrams.
+ */
+export function tokenize(text: string): string[] {
+  const spaced = text.toLowerCase().replace(CJK_RUN_RE, " $& ");
+  const tokens: string[] = [];
+  for (const word of spaced.match(WORD_RE) || []) {
+    if (CJK_CHAR_RE.test(word[0])) {
+      if (word.length === 1) tokens.push(word);
+      for (let i = 0; i + 1 < word.length; i++)
+        tokens.push(word.slice(i, i + 2));
+    } else if (word.length > 1 || /\d/.test(word)) {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+}
+
+/** Distinct non-stopword terms of a query, in query order. */
+export function queryTerms(query: string): string[] {
+  return [...new Set(tokenize(query).filter((t) => !STOPWORDS.has(t)))];
+}
+
+export interface KeywordCandidate {
+  id: string;
+  text: string;
+}
+
+export interface CorpusStats {
+  /** Chunks in the searched corpus (after language/item filters). */
+  totalDocs: number;
+  /** Mean chunk length in characters. */
+  avgLength: number;
+}
+
+export interface BM25Hit {
+  id: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+/**
+ * Okapi BM25 over a candidate set. Candidates must include every chunk that
+ * contains any query term (VectorStore guarantees this with its LIKE
+ * prefilter), so document frequencies counted here are exact. Length
+ * normalization uses characters rather than tokens: the ratio dl/avgdl is
+ * what matters, and the corpus average is then a single SQL aggregate.
+ */
+export function scoreBM25(
+  terms: string[],
+  candidates: KeywordCandidate[],
+  stats: CorpusStats,
+): BM25Hit[] {
+  if (terms.length === 0 || candidates.length === 0) return [];
+
+  const termSet = new Set(terms);
+  const docs = candidates.map((c) => {
+    const tf = new Map<string, number>();
+    for (const token of tokenize(c.text)) {
+      if (termSet.has(token)) tf.set(token, (tf.get(token) || 0) + 1);
+    }
+    return { id: c.id, length: c.text.length, tf };
+  });
+
+  const df = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of doc.tf.keys()) df.set(term, (df.get(term) || 0) + 1);
+  }
+
+  const n = Math.max(stats.totalDocs, docs.length);
+  const avgLength = stats.avgLength > 0 ? stats.avgLength : 1;
+  const hits: BM25Hit[] = [];
+  for (const doc of docs) {
+    if (doc.tf.size === 0) continue; // LIKE matched a substring, not a term
+    let score = 0;
+    for (const [term, freq] of doc.tf) {
+      const termDF = df.get(term) || 0;
+      const idf = Math.log(1 + (n - termDF + 0.5) / (termDF + 0.5));
+      const norm = BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / avgLength);
+      score += (idf * freq * (BM25_K1 + 1)) / (freq + norm);
+    }
+    hits.push({
+      id: doc.id,
+      score,
+      matchedTerms: terms.filter((t) => doc.tf.has(t)),
+    });
+  }
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Reciprocal rank fusion: each ranking contributes 1 / (k + rank) per id,
+ * with 1-based ranks. Scale-free, so BM25 and cosine scores never need to be
+ * made comparable.
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+  k: number = RRF_K,
+): Map<string, number> {
+  const fused = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      fused.set(id, (fused.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+  return fused;
+}
+
+/**
+ * Weighted score fusion. Each signal is min-max normalized to [0, 1] over
+ * its own results first (BM25 is unbounded); an id missing from a signal
+ * contributes 0 for it.
+ */
+export function weightedFusion(
+  signals: Array<{ scores: Map<string, number>; weight: number }>,
+): Map<string, number> {
+  const fused = new Map<string, number>();
+  for (const { scores, weight } of signals) {
+    if (scores.size === 0) continue;
+    let min = Infinity;
+    let max = -Infinity;
+    for (const score of scores.values()) {
+      if (score < min) min = score;
+      if (score > max) max = score;
+    }
+    const range = max - min;
+    for (const [id, score] of scores) {
+      const normalized = range > 0 ? (score - min) / range : 1;
+      fused.set(id, (fused.get(id) || 0) + weight * normalized);
+    }
+  }
+  return fused;
+}
@@ -0,0 +1,181 @@
+/**
+ * Language detection for the embedding pipeline.
+ * Pure functions — no Zotero dependencies. Non-Latin scripts are identified
+ * by their Unicode blocks; Latin-script text is told apart by counting each
+ * language's most common function words.
+ */
+
+export const SUPPORTED_LANGUAGES = [
+  "en",
+  "zh",
+  "ja",
+  "ko",
+  "de",
+  "fr",
+  "es",
+  "it",
+  "pt",
+  "nl",
+  "ru",
+  "ar",
+  "el",
+  "he",
+  "hi",
+  "th",
+] as const;
+
+export type LanguageCode = (typeof SUPPORTED_LANGUAGES)[number];
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return (SUPPORTED_LANGUAGES as readonly unknown[]).includes(value);
+}
+
+// Long documents are classified from their opening; that is plenty of signal
+// and keeps detection cheap for every chunk of a book.
+const SAMPLE_CHARS = 2000;
+
+// Same threshold the zh/en detector used: CJK scripts need not dominate,
+// since Chinese and Japanese papers are full of Latin terms and numbers.
+const CJK_SHARE = 0.3;
+
+// Kana share of CJK characters above which text is Japanese rather than
+// Chinese. Japanese prose is usually a third kana or more, while Chinese has
+// none, so even a small share is decisive.
+const KANA_SHARE = 0.05;
+
+// Scripts that map one-to-one onto a supported language, by code point range.
+const SCRIPT_LANGUAGES: Array<[number, number, LanguageCode]> = [
+  [0x0400, 0x04ff, "ru"], // Cyrillic
+  [0x0370, 0x03ff, "el"], // Greek
+  [0x0590, 0x05ff, "he"], // Hebrew
+  [0x0600, 0x06ff, "ar"], // Arabic
+  [0x0900, 0x097f, "hi"], // Devanagari
+  [0x0e00, 0x0e7f, "th"], // Thai
+];
+
+// The twenty or so most frequent function words per language. Shared words
+// ("la", "que", "en") dilute but never decide on their own.
+const STOPWORDS: Partial<Record<LanguageCode, Set<string>>> = {
+  en: new Set(
+    "the and of to in is that for with are this was by on be as from which we these".split(
+      " ",
+    ),
+  ),
+  de: new Set(
+    "der die das und ist nicht mit von den dem ein eine zu auf für sich auch wird werden des".split(
+      " ",
+    ),
+  ),
+  fr: new Set(
+    "le la les et des est une du dans pour que qui sur pas par au avec sont ce aux".split(
+      " ",
+    ),
+  ),
+  es: new Set(
+    "el la los las y es una del en que por para con se su al como más pero fue".split(
+      " ",
+    ),
+  ),
+  it: new Set(
+    "il lo gli della di e che è per una sono del con non nel alla delle anche come questo".split(
+      " ",
+    ),
+  ),
+  pt: new Set(
+    "o os as e do da dos das em que um uma para com não no na por é são".split(
+      " ",
+    ),
+  ),
+  nl: new Set(
+    "de het een en van is dat niet op te met voor zijn er aan ook bij worden wordt deze".split(
+      " ",
+    ),
+  ),
+};
+
+function isHan(code: number): boolean {
+  return (
+    (code >= 0x4e00 && code <= 0x9fff) || (code >= 0x3400 && code <= 0x4dbf)
+  );
+}
+
+function isKana(code: number): boolean {
+  return code >= 0x3040 && code <= 0x30ff;
+}
+
+function isHangul(code: number): boolean {
+  return (
+    (code >= 0xac00 && code <= 0xd7af) || (code >= 0x1100 && code <= 0x11ff)
+  );
+}
+
+/**
+ * Detect the primary language of a text. Falls back to "en" when there is
+ * nothing to go on (empty text, or Latin text without any known stopword,
+ * such as a short title).
+ */
+export function detectLanguage(text: string): LanguageCode {
+  const sample =
+    text.length > SAMPLE_CHARS ? text.slice(0, SAMPLE_CHARS) : text;
+
+  let nonSpace = 0;
+  let han = 0;
+  let kana = 0;
+  let hangul = 0;
+  let latin = 0;
+  const scripts = new Map<LanguageCode, number>();
+  for (const ch of sample) {
+    if (/\s/.test(ch)) continue;
+    nonSpace++;
+    const code = ch.codePointAt(0)!;
+    if (isHan(code)) han++;
+    else if (isKana(code)) kana++;
+    else if (isHangul(code)) hangul++;
+    else if (/\p{Script=Latin}/u.test(ch)) latin++;
+    else {
+      for (const [start, end, language] of SCRIPT_LANGUAGES) {
+        if (code >= start && code <= end) {
+          scripts.set(language, (scripts.get(language) || 0) + 1);
+          break;
+        }
+      }
+    }
+  }
+  if (nonSpace === 0) return "en";
+
+  if (hangul / nonSpace > CJK_SHARE) return "ko";
+  const cjk = han + kana;
+  if (cjk / nonSpace > CJK_SHARE) {
+    return kana / cjk > KANA_SHARE ? "ja" : "zh";
+  }
+
+  let dominant: LanguageCode | null = null;
+  let dominantCount = latin;
+  for (const [language, count] of scripts) {
+    if (count > dominantCount) {
+      dominant = language;
+      dominantCount = count;
+    }
+  }
+  if (dominant) return dominant;
+
+  return detectLatinLanguage(sample);
+}
+
+/** Pick the Latin-script language whose stopwords occur most often. */
+function detectLatinLanguage(text: string): LanguageCode {
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  let best: LanguageCode = "en";
+  let bestHits = 0;
+  for (const [language, stopwords] of Object.entries(STOPWORDS) as Array<
+    [LanguageCode, Set<string>]
+  >) {
+    let hits = 0;
+    for (const word of words) if (stopwords.has(word)) hits++;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
@@ -15,9 +15,28 @@ import {
   EmbeddingErrorType,
 } from "./embeddingService";
 import { getVectorStore, VectorStore } from "./vectorStore";
-import { getTextChunker, TextChunker } from "./textChunker";
+import type { LanguageCode } from "./languageDetector";
+import { getTextChunker, TextChunker, type TextChunk } from "./textChunker";
 import { TextFormatter } from "../textFormatter";
 import { PDFProcessor } from "../pdfProcessor";
+import { joinPages, type PageSpan } from "../pdfPages";
+import {
+  detectSections,
+  indexableSegments,
+  type DocumentSection,
+} from "../sectionDetector";
+import { throwIfCancelled, type TaskControl } from "../taskControl";
+import {
+  hasItemFilters,
+  resolveItemFilterKeys,
+  type ItemFilters,
+} from "../searchEngine";
+import {
+  queryTerms,
+  reciprocalRankFusion,
+  RRF_K,
+  weightedFusion,
+} from "./keywordSearch";
 
 declare let Zotero: any;
 declare let ztoolkit: ZToolkit;
@@ -31,12 +50,18 @@ const PREF_INDEX_PROGRESS =
 export interface SemanticSearchOptions {
   topK?: number; // Number of results
   minScore?: number; // Minimum similarity threshold
-  language?: "zh" | "en" | "all"; // Language filter
+  language?: LanguageCode | "all"; // Language filter
+  crossLingual?: boolean; // With language "all", don't narrow to the query's language
   itemKeys?: string[]; // Limit to specific items
+  filters?: ItemFilters; // Metadata filters, narrowed to item keys up front
+  libraryID?: number; // Only return items from this library
+  signal?: TaskControl["signal"]; // Abort between search steps
+  onProgress?: TaskControl["onProgress"]; // Step-level progress (of 4)
 }
 
 export interface SemanticSearchResult {
   itemKey: string;
+  libraryKey?: string;
   parentKey?: string;
   title: string;
   creators?: string;
@@ -47,6 +72,8 @@ export interface SemanticSearchResult {
     chunkId: number;
     text: string;
     score: number;
+    page?: number; // PDF page, for chunks indexed with page tracking
+    section?: string; // PDF section type (methods, results, ...), likewise
   }>;
 }
 
@@ -63,12 +90,31 @@ export interface IndexProgress {
   failedCount?: number; // Number of failed items
 }
 
+export interface HybridSearchOptions extends SemanticSearchOptions {
+  fusion?: "rrf" | "weighted";
+  /** Weight of the vector signal under weighted fusion, 0-1 (default 0.5). */
+  semanticWeight?: number;
+}
+
+/** Why a hybrid hit ranked where it did: each signal's item-level rank. */
+export interface HybridMatchExplanation {
+  matchedBy: Array<"semantic" | "keyword">;
+  semantic?: { rank: number; score: number };
+  keyword?: { rank: number; score: number; matchedTerms: string[] };
+  fusion: "rrf" | "weighted";
+}
+
+export interface HybridSearchResult extends SemanticSearchResult {
+  explanation: HybridMatchExplanation;
+}
+
 export interface SemanticServiceStats {
   indexStats: {
     totalVectors: number;
     totalItems: number;
     zhVectors: number;
     enVectors: number;
+    languages?: Record<string, number>;
     cachedContentItems?: number;
     cachedContentSizeBytes?: number;
     dbSizeBytes?: number;
@@ -226,21 +272,34 @@ export class SemanticSearchService {
     query: string,
     options: SemanticSearchOptions = {},
   ): Promise<SemanticSearchResult[]> {
-    await this.initialize();
-
     const {
       topK = 10,
       minScore = 0.1, // Lowered from 0.3 to allow more results through
       language = "all",
+      crossLingual = false,
       itemKeys,
+      filters,
+      libraryID,
+      signal,
+      onProgress,
     } = options;
 
+    // Initialization loads the vector store and probes the embedding API,
+    // which is the slow part on a cold start.
+    onProgress?.(0, 4, "Initializing semantic index");
+    await this.initialize();
+    throwIfCancelled(signal);
+
+    const scope = await this.resolveSearchScope(itemKeys, filters, libraryID);
+    if (scope === null) return [];
+
     const startTime = Date.now();
     ztoolkit.log(`[SemanticSearch] Searching: "${query.substring(0, 50)}..."`);
 
     try {
       // 1. Generate query embedding (isQuery=true for BGE instruction prefix)
       ztoolkit.log(`[SemanticSearch] Step 1: Generating query embedding...`);
+      onProgress?.(1, 4, "Embedding query");
       const queryEmbedding = await this.embeddingService.embed(
         query,
         "auto",
@@ -249,11 +308,18 @@ export class SemanticSearchService {
       ztoolkit.log(
         `[SemanticSearch] Query embedding: lang=${queryEmbedding.language}, dims=${queryEmbedding.dimensions}`,
       );
+      throwIfCancelled(signal);
+      onProgress?.(2, 4, "Searching vectors");
 
       // 2. Vector search - use detected language when language option is 'all' for better performance
-      // This significantly reduces search space (up to 50% reduction)
+      // This significantly reduces search space (up to 50% reduction).
+      // Cross-lingual search skips that for multilingual embedding models.
       const searchLanguage =
-        language === "all" ? queryEmbedding.language : language;
+        language !== "all"
+          ? language
+          : crossLingual
+            ? "all"
+            : queryEmbedding.language;
       ztoolkit.log(
         `[SemanticSearch] Step 2: Vector search (topK=${topK * 3}, minScore=${minScore}, lang=${searchLanguage})...`,
       );
@@ -262,7 +328,7 @@ export class SemanticSearchService {
         {
           topK: topK * 3, // Get more for deduplication
           language: searchLanguage,
-          itemKeys,
+          itemKeys: scope,
           minScore,
         },
       );
@@ -304,7 +370,7 @@ export class SemanticSearchService {
         }
       }
 
-      // 4. Pure semantic search (no hybrid)
+      // 4. Pure semantic ranking (hybridSearch adds the keyword signal)
       ztoolkit.log(
         `[SemanticSearch] Step 3: Aggregated into ${itemResultsMap.size} unique items`,
       );
@@ -321,15 +387,20 @@ export class SemanticSearchService {
           matchedChunks: r.chunks.sort((a, b) => b.score - a.score).slice(0, 3),
         }));
 
-      // 5. Fill in item metadata
-      await this.fillItemMetadata(finalResults);
+      // 5. Fill in item metadata (and drop hits from other libraries when
+      // the caller asked for a specific one)
+      throwIfCancelled(signal);
+      onProgress?.(3, 4, "Loading item metadata");
+      const scoped = await this.attachChunkLocations(
+        await this.fillItemMetadata(finalResults, libraryID),
+      );
 
       const searchTime = Date.now() - startTime;
       ztoolkit.log(
-        `[SemanticSearch] Found ${finalResults.length} results in ${searchTime}ms`,
+        `[SemanticSearch] Found ${scoped.length} results in ${searchTime}ms`,
       );
 
-      return finalResults.slice(0, topK);
+      return scoped.slice(0, topK);
     } catch (error) {
       ztoolkit.log(`[SemanticSearch] Search error: ${error}`, "error");
       throw error;
@@ -341,11 +412,16 @@ export class SemanticSearchService {
    */
   async findSimilar(
     itemKey: string,
-    options: { topK?: number; minScore?: number } = {},
+    options: {
+      topK?: number;
+      minScore?: number;
+      libraryID?: number;
+      filters?: ItemFilters;
+    } = {},
   ): Promise<SemanticSearchResult[]> {
     await this.initialize();
 
-    const { topK = 5, minScore = 0.3 } = options; // Lowered from 0.5
+    const { topK = 5, minScore = 0.3, libraryID, filters } = options; // Lowered from 0.5
 
     try {
       // Get item's vectors
@@ -359,10 +435,18 @@ export class SemanticSearchService {
       // Use first chunk vector as query (or could average all)
       const queryVector = itemVectors[0].vector;
 
+      const scope = await this.resolveSearchScope(
+        undefined,
+        filters,
+        libraryID,
+      );
+      if (scope === null) return [];
+
       // Search for similar
       const results = await this.vectorStore.search(queryVector, {
         topK: topK + 1,
         minScore,
+        itemKeys: scope,
       });
 
       // Filter out the source item and map results
@@ -383,15 +467,180 @@ export class SemanticSearchService {
         }));
 
       // Fill metadata
-      await this.fillItemMetadata(filteredResults);
-
-      return filteredResults;
+      return await this.attachChunkLocations(
+        await this.fillItemMetadata(filteredResults, libraryID),
+      );
     } catch (error) {
       ztoolkit.log(`[SemanticSearch] findSimilar error: ${error}`, "error");
       throw error;
     }
   }
 
+  /**
+   * Hybrid search: vector similarity and BM25 over chunk text, each ranked
+   * per item, then fused. Exact tokens (gene names, acronyms, author names)
+   * that embeddings blur are carried by the keyword side. Without an
+   * embedding API (fallback mode) this degrades to keyword-only.
+   */
+  async hybridSearch(
+    query: string,
+    options: HybridSearchOptions = {},
+  ): Promise<HybridSearchResult[]> {
+    const {
+      topK = 10,
+      minScore = 0.1,
+      language = "all",
+      crossLingual = false,
+      itemKeys,
+      filters,
+      libraryID,
+      fusion = "rrf",
+      semanticWeight = 0.5,
+      signal,
+      onProgress,
+    } = options;
+
+    onProgress?.(0, 4, "Initializing semantic index");
+    await this.initialize();
+    throwIfCancelled(signal);
+
+    const scope = await this.resolveSearchScope(itemKeys, filters, libraryID);
+    if (scope === null) return [];
+
+    type ItemHits = {
+      score: number;
+      chunks: Array<{ chunkId: number; text: string; score: number }>;
+      matchedTerms: Set<string>;
+    };
+    const aggregate = (
+      hits: Array<{
+        itemKey: string;
+        chunkId: number;
+        chunkText: string;
+        score: number;
+        matchedTerms?: string[];
+      }>,
+    ): Map<string, ItemHits> => {
+      const byItem = new Map<string, ItemHits>();
+      for (const hit of hits) {
+        let entry = byItem.get(hit.itemKey);
+        if (!entry) {
+          entry = { score: hit.score, chunks: [], matchedTerms: new Set() };
+          byItem.set(hit.itemKey, entry);
+        }
+        entry.score = Math.max(entry.score, hit.score);
+        entry.chunks.push({
+          chunkId: hit.chunkId,
+          text: hit.chunkText,
+          score: hit.score,
+        });
+        for (const term of hit.matchedTerms || []) entry.matchedTerms.add(term);
+      }
+      // Map insertion order doubles as rank order once sorted by score.
+      return new Map([...byItem].sort((a, b) => b[1].score - a[1].score));
+    };
+
+    let semanticItems = new Map<string, ItemHits>();
+    const useVectors = !this.embeddingService.isFallbackMode();
+    if (useVectors) {
+      onProgress?.(1, 4, "Embedding query");
+      const queryEmbedding = await this.embeddingService.embed(
+        query,
+        "auto",
+        true,
+      );
+      throwIfCancelled(signal);
+      onProgress?.(2, 4, "Searching vectors and keywords");
+      const vectorResults = await this.vectorStore.search(
+        queryEmbedding.embedding,
+        {
+          topK: topK * 3,
+          language:
+            language !== "all" || crossLingual
+              ? language
+              : queryEmbedding.language,
+          itemKeys: scope,
+          minScore,
+        },
+      );
+      semanticItems = aggregate(vectorResults);
+    }
+
+    // Keyword search spans every language unless one was asked for: an
+    // acronym in an English query is just as exact inside a Chinese chunk.
+    throwIfCancelled(signal);
+    const keywordResults = await this.vectorStore.keywordSearch(
+      queryTerms(query),
+      { topK: topK * 3, language, itemKeys: scope },
+    );
+    const keywordItems = aggregate(keywordResults);
+
+    const semanticRanking = [...semanticItems.keys()];
+    const keywordRanking = [...keywordItems.keys()];
+    const fused =
+      fusion === "weighted"
+        ? weightedFusion([
+            {
+              scores: new Map(
+                [...semanticItems].map(([key, v]) => [key, v.score]),
+              ),
+              weight: useVectors ? semanticWeight : 0,
+            },
+            {
+              scores: new Map(
+                [...keywordItems].map(([key, v]) => [key, v.score]),
+              ),
+              weight: useVectors ? 1 - semanticWeight : 1,
+            },
+          ])
+        : reciprocalRankFusion([semanticRanking, keywordRanking], RRF_K);
+
+    const results: HybridSearchResult[] = [...fused]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topK)
+      .map(([itemKey, score]) => {
+        const sem = semanticItems.get(itemKey);
+        const kw = keywordItems.get(itemKey);
+        const explanation: HybridMatchExplanation = { matchedBy: [], fusion };
+        if (sem) {
+          explanation.matchedBy.push("semantic");
+          explanation.semantic = {
+            rank: semanticRanking.indexOf(itemKey) + 1,
+            score: sem.score,
+          };
+        }
+        if (kw) {
+          explanation.matchedBy.push("keyword");
+          explanation.keyword = {
+            rank: keywordRanking.indexOf(itemKey) + 1,
+            score: kw.score,
+            matchedTerms: [...kw.matchedTerms],
+          };
+        }
+        // Best vector chunks first, then keyword chunks not already shown.
+        const chunks = (sem?.chunks || []).sort((a, b) => b.score - a.score);
+        const seen = new Set(chunks.map((c) => c.chunkId));
+        for (const chunk of (kw?.chunks || []).sort(
+          (a, b) => b.score - a.score,
+        )) {
+          if (!seen.has(chunk.chunkId)) chunks.push(chunk);
+        }
+        return {
+          itemKey,
+          title: "",
+          score,
+          matchedChunks: chunks.slice(0, 3),
+          explanation,
+        };
+      });
+
+    throwIfCancelled(signal);
+    onProgress?.(3, 4, "Loading item metadata");
+    return this.attachChunkLocations(
+      (await this.fillItemMetadata(results, libraryID)) as HybridSearchResult[],
+    );
+  }
+
   // ============ Indexing Methods ============
 
   /**
@@ -400,13 +649,23 @@ export class SemanticSearchService {
   async buildIndex(
     options: {
       itemKeys?: string[];
+      libraryID?: number;
       rebuild?: boolean;
       onProgress?: (progress: IndexProgress) => void;
+      /** Aborting behaves like abortIndex(): the run stops as "aborted". */
+      signal?: AbortSignal;
     } = {},
   ): Promise<IndexProgress> {
     await this.initialize();
 
-    const { itemKeys, rebuild = false, onProgress } = options;
+    const {
+      itemKeys,
+      libraryID,
+      rebuild = false,
+      onProgress,
+      signal,
+    } = options;
+    const onAbort = () => this.abortIndex();
 
     try {
       // Reset control flags
@@ -420,6 +679,8 @@ export class SemanticSearchService {
         status: "indexing",
         startTime: Date.now(),
       };
+      if (signal?.aborted) this.abortIndex();
+      signal?.addEventListener("abort", onAbort);
 
       // Check for dimension mismatch before indexing (unless rebuild)
       if (!rebuild) {
@@ -441,9 +702,9 @@ export class SemanticSearchService {
       // Get items to index
       let items: any[];
       if (itemKeys && itemKeys.length > 0) {
-        items = await this.getItemsByKeys(itemKeys);
+        items = await this.getItemsByKeys(itemKeys, libraryID);
       } else {
-        items = await this.getItemsWithContent();
+        items = await this.getItemsWithContent(libraryID);
       }
 
       // Filter already indexed items (unless rebuild)
@@ -666,6 +927,14 @@ export class SemanticSearchService {
       if (this.indexProgress.status !== "aborted") {
         this.indexProgress.status = "completed";
         this.clearSavedIndexProgress(); // Clear persisted state on completion
+        // Train or refresh the ANN index in the background; searches
+        // brute-force until it is ready
+        this.vectorStore.refreshANNIndex().catch((e) => {
+          ztoolkit.log(
+            `[SemanticSearch] ANN index refresh failed: ${e}`,
+            "warn",
+          );
+        });
       }
       onProgress?.(this.indexProgress);
 
@@ -678,6 +947,8 @@ export class SemanticSearchService {
       this.indexProgress.error = String(error);
       ztoolkit.log(`[SemanticSearch] Indexing failed: ${error}`, "error");
       throw error;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
     }
   }
 
@@ -777,8 +1048,9 @@ export class SemanticSearchService {
     }
 
     // Extract content (PDF extraction happens here)
+    const extracted = await this.extractItemContent(item, sharedProcessor);
     // eslint-disable-next-line prefer-const
-    content = await this.extractItemContent(item, sharedProcessor);
+    content = extracted.content;
     if (!content.trim()) {
       ztoolkit.log(
         `[SemanticSearch] indexItem() skip: no content for ${item.key}`,
@@ -839,8 +1111,14 @@ export class SemanticSearchService {
     // Delete existing vectors
     await this.vectorStore.deleteItemVectors(item.key);
 
-    // Chunk the content
-    const chunks = this.textChunker.chunk(content);
+    // Chunk each PDF section separately, leaving out reference lists, and
+    // keep track of the PDF page each chunk starts on
+    const chunks = this.textChunker.chunkSegments(
+      content,
+      indexableSegments(content.length, extracted.sections),
+      undefined,
+      extracted.pages,
+    );
     if (chunks.length === 0) {
       ztoolkit.log(`[SemanticSearch] indexItem() skip: no chunks generated`);
       return;
@@ -852,7 +1130,7 @@ export class SemanticSearchService {
     // Generate embeddings with pause check
     const batchItems = chunks.map((chunk, idx) => ({
       id: `${item.key}_${idx}`,
-      text: chunk,
+      text: chunk.text,
     }));
 
     const embeddings = await this.embeddingService.embedBatch(batchItems, {
@@ -873,7 +1151,8 @@ export class SemanticSearchService {
           chunkId: idx,
           vector: embedding.embedding,
           language: embedding.language,
-          chunkText: chunk, // Store full chunk (max ~450 chars from TextChunker)
+          chunkText: chunk.text, // Store full chunk (max ~450 chars from TextChunker)
+          metadata: this.chunkMetadata(chunk, extracted.sections),
         };
       })
       .filter((r) => r !== null) as any[];
@@ -1150,15 +1429,22 @@ export class SemanticSearchService {
   // ============ Private Methods ============
 
   /**
-   * Extract content from item for indexing
+   * Extract content from item for indexing, with the spans of PDF pages and
+   * detected PDF sections in it
    * @param item The Zotero item
    * @param sharedProcessor Optional shared PDFProcessor for better performance
    */
   private async extractItemContent(
     item: any,
     sharedProcessor?: PDFProcessor | null,
-  ): Promise<string> {
+  ): Promise<{
+    content: string;
+    pages: PageSpan[];
+    sections: DocumentSection[];
+  }> {
     const parts: string[] = [];
+    const pages: PageSpan[] = [];
+    const sections: DocumentSection[] = [];
     ztoolkit.log(
       `[SemanticSearch] extractItemContent() start: ${item.key}, type=${item.itemType}`,
     );
@@ -1216,18 +1502,45 @@ export class SemanticSearchService {
                     sharedProcessor || new PDFProcessor(ztoolkit);
                   const shouldTerminate = !sharedProcessor; // Only terminate if we created it
                   try {
-                    const textContent = await processor.extractText(filePath);
-                    if (textContent && textContent.length > 0) {
+                    const pdfPages = await processor.extractPages(filePath);
+                    const textLength = pdfPages.reduce(
+                      (sum, page) => sum + page.length,
+                      0,
+                    );
+                    if (textLength > 0) {
                       const maxFullTextLength = 50000;
-                      const finalContent =
-                        textContent.length > maxFullTextLength
-                          ? textContent.substring(0, maxFullTextLength)
-                          : textContent;
-                      if (textContent.length > maxFullTextLength) {
+                      const kept: Array<{ page: number; text: string }> = [];
+                      let keptLength = 0;
+                      for (const [index, text] of pdfPages.entries()) {
+                        if (keptLength >= maxFullTextLength) break;
+                        const room = maxFullTextLength - keptLength;
+                        kept.push({
+                          page: index + 1,
+                          text:
+                            text.length > room ? text.substring(0, room) : text,
+                        });
+                        keptLength += text.length;
+                      }
+                      if (textLength > maxFullTextLength) {
                         ztoolkit.log(
                           `[SemanticSearch] extractItemContent() truncated to ${maxFullTextLength} chars`,
                         );
                       }
+                      // Offset of this part once parts are joined below
+                      const base = parts.reduce(
+                        (sum, part) => sum + part.length + 2,
+                        0,
+                      );
+                      const joined = joinPages(kept, "\n\n", base);
+                      const finalContent = joined.text;
+                      pages.push(...joined.spans);
+                      sections.push(
+                        ...detectSections(joined.text).map((section) => ({
+                          ...section,
+                          start: section.start + base,
+                          end: section.end + base,
+                        })),
+                      );
                       parts.push(finalContent);
                       fullTextCount++;
                       ztoolkit.log(
@@ -1338,64 +1651,154 @@ export class SemanticSearchService {
 
     const result = parts.join("\n\n");
     ztoolkit.log(
-      `[SemanticSearch] extractItemContent() done: ${parts.length} parts, total ${result.length} chars`,
+      `[SemanticSearch] extractItemContent() done: ${parts.length} parts, ${pages.length} PDF pages, ${sections.length} sections, total ${result.length} chars`,
     );
-    return result;
+    return { content: result, pages, sections };
   }
 
   /**
-   * Fill in item metadata for search results
+   * Item keys a search is restricted to: the explicit `itemKeys`, narrowed
+   * by metadata filters and by `libraryID`. The vector store is keyed by
+   * item key alone, so a library has to be pushed into the scan as its keys;
+   * dropping other libraries after the top-K cut would let them crowd out
+   * every hit. Undefined means the whole index; null means nothing matched,
+   * so the search has no results.
+   */
+  private async resolveSearchScope(
+    itemKeys: string[] | undefined,
+    filters: ItemFilters | undefined,
+    libraryID: number | undefined,
+  ): Promise<string[] | undefined | null> {
+    if (!hasItemFilters(filters) && libraryID === undefined) return itemKeys;
+
+    let keys = await resolveItemFilterKeys(
+      filters || {},
+      libraryID ?? Zotero.Libraries.userLibraryID,
+    );
+    if (itemKeys && itemKeys.length > 0) {
+      const allowed = new Set(itemKeys);
+      keys = keys.filter((key) => allowed.has(key));
+    }
+    ztoolkit.log(
+      `[SemanticSearch] Search scope resolved to ${keys.length} items`,
+    );
+    return keys.length > 0 ? keys : null;
+  }
+
+  /**
+   * Fill in item metadata for search results. The vector store is keyed by
+   * item key alone, so when a libraryID is given, results that don't resolve
+   * in that library are dropped; otherwise unresolved results are kept with
+   * empty metadata as before.
    */
   private async fillItemMetadata(
     results: SemanticSearchResult[],
-  ): Promise<void> {
+    libraryID?: number,
+  ): Promise<SemanticSearchResult[]> {
+    const kept: SemanticSearchResult[] = [];
     for (const result of results) {
+      let item: any = null;
       try {
-        const item = await Zotero.Items.getByLibraryAndKeyAsync(
-          Zotero.Libraries.userLibraryID,
+        item = await Zotero.Items.getByLibraryAndKeyAsync(
+          libraryID ?? Zotero.Libraries.userLibraryID,
           result.itemKey,
         );
+      } catch (e) {
+        // Treat lookup failures as unresolved
+      }
 
-        if (item) {
-          result.title = item.getDisplayTitle() || "";
-          result.parentKey = item.parentItemKey || undefined;
-          result.itemType = item.itemType || undefined;
-
-          // Get creators
-          const creators = item.getCreators?.() || [];
-          if (creators.length > 0) {
-            result.creators = creators
-              .map((c: any) => c.lastName || c.name || "")
-              .filter((n: string) => n)
-              .join(", ");
-          }
+      if (!item) {
+        if (libraryID === undefined) kept.push(result);
+        continue;
+      }
+      kept.push(result);
 
-          // Get year
-          const date = item.getField?.("date");
-          if (date) {
-            const yearMatch = String(date).match(/\d{4}/);
-            if (yearMatch) {
-              result.year = parseInt(yearMatch[0], 10);
-            }
+      try {
+        result.libraryKey = `${item.libraryID}/${item.key}`;
+        result.title = item.getDisplayTitle() || "";
+        result.parentKey = item.parentItemKey || undefined;
+        result.itemType = item.itemType || undefined;
+
+        // Get creators
+        const creators = item.getCreators?.() || [];
+        if (creators.length > 0) {
+          result.creators = creators
+            .map((c: any) => c.lastName || c.name || "")
+            .filter((n: string) => n)
+            .join(", ");
+        }
+
+        // Get year
+        const date = item.getField?.("date");
+        if (date) {
+          const yearMatch = String(date).match(/\d{4}/);
+          if (yearMatch) {
+            result.year = parseInt(yearMatch[0], 10);
           }
         }
       } catch (e) {
-        // Skip failed items
+        // Keep the hit with whatever metadata was filled
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Per-chunk metadata stored with its vector: the PDF page and section the
+   * chunk starts in, when known.
+   */
+  private chunkMetadata(
+    chunk: TextChunk,
+    sections: DocumentSection[],
+  ): Record<string, any> | undefined {
+    const section = sections.find(
+      (s) => chunk.startPos >= s.start && chunk.startPos < s.end,
+    );
+    if (chunk.page === undefined && !section) return undefined;
+    return {
+      ...(chunk.page !== undefined && { page: chunk.page }),
+      ...(section && { section: section.type }),
+    };
+  }
+
+  /**
+   * Add the PDF page and section each matched chunk came from, where they
+   * were recorded at indexing time.
+   */
+  private async attachChunkLocations<T extends SemanticSearchResult>(
+    results: T[],
+  ): Promise<T[]> {
+    const metadata = await this.vectorStore.getChunkMetadata(
+      results.flatMap((r) =>
+        r.matchedChunks.map((c) => ({
+          itemKey: r.itemKey,
+          chunkId: c.chunkId,
+        })),
+      ),
+    );
+    for (const result of results) {
+      for (const chunk of result.matchedChunks) {
+        const recorded = metadata.get(`${result.itemKey}_${chunk.chunkId}`);
+        if (typeof recorded?.page === "number") chunk.page = recorded.page;
+        if (typeof recorded?.section === "string") {
+          chunk.section = recorded.section;
+        }
       }
     }
+    return results;
   }
 
   /**
    * Get items by keys
    */
-  private async getItemsByKeys(keys: string[]): Promise<any[]> {
+  private async getItemsByKeys(
+    keys: string[],
+    libraryID: number = Zotero.Libraries.userLibraryID,
+  ): Promise<any[]> {
     const items: any[] = [];
     for (const key of keys) {
       try {
-        const item = await Zotero.Items.getByLibraryAndKeyAsync(
-          Zotero.Libraries.userLibraryID,
-          key,
-        );
+        const item = await Zotero.Items.getByLibraryAndKeyAsync(libraryID, key);
         if (item) items.push(item);
       } catch (e) {
         // Skip failed items
@@ -1407,11 +1810,13 @@ export class SemanticSearchService {
   /**
    * Get all items with content (regular items with attachments)
    */
-  private async getItemsWithContent(): Promise<any[]> {
+  private async getItemsWithContent(
+    libraryID: number = Zotero.Libraries.userLibraryID,
+  ): Promise<any[]> {
     try {
       // Get all regular items
       const search = new Zotero.Search();
-      search.libraryID = Zotero.Libraries.userLibraryID;
+      search.libraryID = libraryID;
       search.addCondition("itemType", "isNot", "attachment");
       search.addCondition("itemType", "isNot", "note");
       search.addCondition("itemType", "isNot", "annotation");
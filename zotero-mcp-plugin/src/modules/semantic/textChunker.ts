@@ -2,11 +2,26 @@
  * Text Chunker for Semantic Search
  *
  * Splits text into optimal chunks for embedding generation.
- * Supports Chinese and English text with intelligent boundary detection.
+ * Sentence boundaries follow the text's language (see languageDetector).
  */
 
+import {
+  detectLanguage as detectTextLanguage,
+  type LanguageCode,
+} from "./languageDetector";
+import { pageAt, type PageSpan } from "../pdfPages";
+import { estimateTokens } from "../tokenBudget";
+
 declare let ztoolkit: ZToolkit;
 
+// Sentence ends for splitting long paragraphs. Japanese keeps a closing
+// bracket with its sentence (「…。」) and also ends on the full-width period
+// common in technical writing.
+const DEFAULT_SENTENCE_BOUNDARY = /(?<=[。！？.!?;；])\s*/;
+const SENTENCE_BOUNDARIES: Partial<Record<LanguageCode, RegExp>> = {
+  ja: /(?<=[。！？．!?][」』）]*)(?![」』）])\s*/,
+};
+
 export interface ChunkerOptions {
   maxChunkSize: number; // Maximum chunk size (characters, ~tokens for Chinese)
   overlapSize: number; // Overlap between chunks
@@ -18,6 +33,7 @@ export interface TextChunk {
   text: string;
   startPos: number;
   endPos: number;
+  page?: number; // PDF page the chunk starts on, when page spans were given
 }
 
 export class TextChunker {
@@ -32,9 +48,10 @@ export class TextChunker {
   }
 
   /**
-   * Split text into chunks
+   * Split text into chunks. The language picks sentence boundaries and is
+   * detected from the text when not given.
    */
-  chunk(text: string): string[] {
+  chunk(text: string, language?: LanguageCode): string[] {
     const startTime = Date.now();
     const inputLength = text?.length || 0;
     ztoolkit.log(
@@ -48,6 +65,9 @@ export class TextChunker {
 
     const chunks: string[] = [];
     const cleanText = this.preprocessText(text);
+    const sentenceBoundary =
+      SENTENCE_BOUNDARIES[language ?? this.detectLanguage(cleanText)] ??
+      DEFAULT_SENTENCE_BOUNDARY;
 
     // First split by paragraphs
     const paragraphs = cleanText.split(/\n\n+/);
@@ -66,7 +86,10 @@ export class TextChunker {
         }
 
         // Split long paragraph
-        const subChunks = this.splitLongParagraph(trimmedPara);
+        const subChunks = this.splitLongParagraph(
+          trimmedPara,
+          sentenceBoundary,
+        );
         chunks.push(...subChunks);
         continue;
       }
@@ -104,10 +127,15 @@ export class TextChunker {
   }
 
   /**
-   * Split text into chunks with position info
+   * Split text into chunks with position info. With `pages` (spans of PDF
+   * pages within `text`), each chunk also gets the page it starts on.
    */
-  chunkWithPositions(text: string): TextChunk[] {
-    const chunks = this.chunk(text);
+  chunkWithPositions(
+    text: string,
+    language?: LanguageCode,
+    pages?: PageSpan[],
+  ): TextChunk[] {
+    const chunks = this.chunk(text, language);
     const result: TextChunk[] = [];
     let searchStart = 0;
 
@@ -117,12 +145,14 @@ export class TextChunker {
       const startPos = text.indexOf(chunkText.substring(0, 50), searchStart);
       const endPos = startPos + chunkText.length;
 
-      result.push({
+      const chunk: TextChunk = {
         id: i,
         text: chunkText,
         startPos: startPos >= 0 ? startPos : searchStart,
         endPos: startPos >= 0 ? endPos : searchStart + chunkText.length,
-      });
+      };
+      this.assignPage(chunk, pages);
+      result.push(chunk);
 
       searchStart = startPos >= 0 ? startPos + 1 : searchStart + 1;
     }
@@ -130,6 +160,47 @@ export class TextChunker {
     return result;
   }
 
+  /**
+   * Chunk each segment of `text` on its own, so no chunk straddles a
+   * segment boundary (such as a section heading). Text outside the
+   * segments is left out. Positions and pages refer to `text` as a whole;
+   * the language is detected once for all segments.
+   */
+  chunkSegments(
+    text: string,
+    segments: Array<{ start: number; end: number }>,
+    language?: LanguageCode,
+    pages?: PageSpan[],
+  ): TextChunk[] {
+    const segmentLanguage = language ?? this.detectLanguage(text);
+    const result: TextChunk[] = [];
+    for (const { start, end } of segments) {
+      const chunks = this.chunkWithPositions(
+        text.slice(start, end),
+        segmentLanguage,
+      );
+      for (const chunk of chunks) {
+        // A segment holding only a heading is too short to embed
+        if (chunk.text.length < this.options.minChunkSize) continue;
+        const shifted: TextChunk = {
+          ...chunk,
+          id: result.length,
+          startPos: chunk.startPos + start,
+          endPos: chunk.endPos + start,
+        };
+        this.assignPage(shifted, pages);
+        result.push(shifted);
+      }
+    }
+    return result;
+  }
+
+  private assignPage(chunk: TextChunk, pages?: PageSpan[]): void {
+    const span = pages && pageAt(pages, chunk.startPos);
+    // Text before the first page (title, abstract) has no page
+    if (span && chunk.startPos < span.end) chunk.page = span.page;
+  }
+
   /**
    * Preprocess text - clean up whitespace and normalize
    */
@@ -150,12 +221,13 @@ export class TextChunker {
   /**
    * Split long paragraph by sentences
    */
-  private splitLongParagraph(paragraph: string): string[] {
+  private splitLongParagraph(
+    paragraph: string,
+    sentenceBoundary: RegExp,
+  ): string[] {
     const chunks: string[] = [];
 
-    // Split by sentences (supports Chinese and English punctuation)
-    const sentencePattern = /(?<=[。！？.!?;；])\s*/;
-    const sentences = paragraph.split(sentencePattern);
+    const sentences = paragraph.split(sentenceBoundary);
     let currentChunk = "";
 
     for (const sentence of sentences) {
@@ -207,7 +279,7 @@ export class TextChunker {
       // Try to find a good break point (space, punctuation)
       if (end < text.length) {
         const searchStart = Math.max(start + maxChunkSize - 50, start);
-        const breakPoints = [" ", "，", ",", "。", ".", "、", ";", "；"];
+        const breakPoints = [" ", "，", ",", "。", ".", "．", "、", ";", "；"];
         let bestBreak = -1;
 
         for (let i = end - 1; i >= searchStart; i--) {
@@ -233,28 +305,17 @@ export class TextChunker {
   }
 
   /**
-   * Estimate token count (rough approximation)
-   * Chinese: ~1.5 chars per token
-   * English: ~4 chars per token
+   * Estimate token count (rough approximation, see tokenBudget)
    */
   estimateTokens(text: string): number {
-    const chineseChars = (text.match(/[\u4e00-\u9fff\u3400-\u4dbf]/g) || [])
-      .length;
-    const otherChars = text.length - chineseChars;
-
-    return Math.ceil(chineseChars / 1.5 + otherChars / 4);
+    return estimateTokens(text);
   }
 
   /**
    * Detect primary language
    */
-  detectLanguage(text: string): "zh" | "en" {
-    const chineseRegex = /[\u4e00-\u9fff\u3400-\u4dbf]/g;
-    const chineseChars = (text.match(chineseRegex) || []).length;
-    const totalChars = text.replace(/\s/g, "").length;
-
-    // If Chinese chars > 30%, consider it Chinese
-    return totalChars > 0 && chineseChars / totalChars > 0.3 ? "zh" : "en";
+  detectLanguage(text: string): LanguageCode {
+    return detectTextLanguage(text);
   }
 }
 
@@ -5,6 +5,24 @@
  * Stores embeddings as BLOBs and performs similarity search in memory.
  */
 
+import { scoreBM25, type BM25Hit } from "./keywordSearch";
+import {
+  ANN_KMEANS_ITERATIONS,
+  ANN_MIN_VECTORS,
+  CentroidAccumulator,
+  chooseClusterCount,
+  chooseProbeCount,
+  initialCentroids,
+  isANNIndexStale,
+  nearestCentroid,
+  normalize,
+  rankCentroids,
+  trainingSampleSize,
+  type ANNIndexState,
+} from "./ivfIndex";
+import { throwIfCancelled } from "../taskControl";
+import type { LanguageCode } from "./languageDetector";
+
 declare let Zotero: any;
 declare let ztoolkit: ZToolkit;
 declare let PathUtils: any;
@@ -26,7 +44,7 @@ export interface VectorRecord {
   itemKey: string;
   chunkId: number;
   vector: Float32Array;
-  language: "zh" | "en";
+  language: LanguageCode;
   chunkText: string;
   metadata?: Record<string, any>;
 }
@@ -46,6 +64,10 @@ export interface SearchResult {
   language: string;
 }
 
+export interface KeywordSearchResult extends SearchResult {
+  matchedTerms: string[];
+}
+
 export interface IndexStatus {
   itemKey: string;
   indexedAt: number;
@@ -61,6 +83,7 @@ export interface VectorStoreStats {
   totalItems: number;
   zhVectors: number;
   enVectors: number;
+  languages: Record<string, number>; // Vector count per language code
   dbSizeBytes?: number;
   // Content cache stats
   cachedContentItems: number;
@@ -73,8 +96,26 @@ export interface VectorStoreStats {
     percent: number;
   };
   dbPath?: string; // Path to database file
+  annIndex?: ANNIndexState & { stale: boolean }; // Only when an IVF index is built
 }
 
+// Int8 scores pick this many times topK candidates, which are then re-scored
+// exactly from the Float32 vectors.
+const RERANK_FACTOR = 4;
+// Rows per slice when training or assigning the ANN index; small enough that
+// each slice's compute doesn't visibly stall the UI thread.
+const ANN_SLICE_SIZE = 1000;
+
+// Item-key scopes up to this size are bound as parameters; larger ones (from
+// metadata filters) are inlined, staying under SQLite's 999-parameter cap.
+const MAX_BOUND_ITEM_KEYS = 900;
+const ITEM_KEY_RE = /^[A-Z0-9]{8}$/;
+
+// Upper bound on chunks pulled into memory for one keyword query. Only a
+// term present in most of the corpus gets near it, and such a term carries
+// almost no BM25 weight anyway.
+const KEYWORD_CANDIDATE_LIMIT = 5000;
+
 // Global instance counter for debugging
 let vectorStoreInstanceCounter = 0;
 
@@ -84,6 +125,12 @@ export class VectorStore {
   private initialized: boolean = false;
   private initPromise: Promise<void> | null = null;
 
+  // IVF centroids, loaded from ann_centroids; null when no index is built
+  private annCentroids: Float32Array[] | null = null;
+  private annDimensions: number = 0;
+  private annTrainedCount: number = 0;
+  private annRebuildPromise: Promise<ANNIndexState | null> | null = null;
+
   // In-memory cache for frequently accessed vectors
   private vectorCache: Map<string, Float32Array> = new Map();
   private cacheMaxSize: number = 1000;
@@ -121,6 +168,7 @@ export class VectorStore {
 
       // Create tables
       await this.createTables();
+      await this.loadANNIndex();
 
       this.initialized = true;
       ztoolkit.log("[VectorStore] Initialized successfully");
@@ -130,6 +178,45 @@ export class VectorStore {
     }
   }
 
+  /**
+   * Migration: tables from before multi-language support have
+   * CHECK(language IN ('zh', 'en')). SQLite can't drop a constraint, so copy
+   * the rows into a table built from the stored schema minus the check. The
+   * old table's indexes go with it; createTables recreates them.
+   */
+  private async dropLanguageConstraint(): Promise<void> {
+    const schema: string | undefined = await this.db.valueQueryAsync(
+      `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'embeddings'`,
+    );
+    if (!schema || !/CHECK\s*\(\s*language\s+IN/i.test(schema)) return;
+
+    // IMPORTANT: Single-line DDL to avoid Zotero queryAsync bug with multi-line SQL
+    const migratedSchema = schema
+      .replace(/\s+CHECK\s*\(\s*language\s+IN\s*\([^)]*\)\s*\)/i, "")
+      .replace(
+        /^CREATE TABLE\s+"?embeddings"?/i,
+        "CREATE TABLE embeddings_migrated",
+      )
+      .replace(/\s+/g, " ");
+    const rows = await this.db.valueQueryAsync(
+      `SELECT COUNT(*) FROM embeddings`,
+    );
+    await this.db.executeTransaction(async () => {
+      await this.db.queryAsync(`DROP TABLE IF EXISTS embeddings_migrated`);
+      await this.db.queryAsync(migratedSchema);
+      await this.db.queryAsync(
+        `INSERT INTO embeddings_migrated SELECT * FROM embeddings`,
+      );
+      await this.db.queryAsync(`DROP TABLE embeddings`);
+      await this.db.queryAsync(
+        `ALTER TABLE embeddings_migrated RENAME TO embeddings`,
+      );
+    });
+    ztoolkit.log(
+      `[VectorStore] Dropped zh/en language constraint (${rows} vectors copied)`,
+    );
+  }
+
   private async createTables(): Promise<void> {
     // Embeddings table
     await this.db.queryAsync(`
@@ -138,7 +225,7 @@ export class VectorStore {
         item_key TEXT NOT NULL,
         chunk_id INTEGER NOT NULL,
         vector BLOB NOT NULL,
-        language TEXT NOT NULL CHECK(language IN ('zh', 'en')),
+        language TEXT NOT NULL,
         chunk_text TEXT,
         dimensions INTEGER NOT NULL,
         created_at INTEGER DEFAULT (strftime('%s', 'now')),
@@ -146,6 +233,8 @@ export class VectorStore {
       )
     `);
 
+    await this.dropLanguageConstraint();
+
     // Index for faster lookups
     await this.db.queryAsync(`
       CREATE INDEX IF NOT EXISTS idx_embeddings_item_key
@@ -215,6 +304,46 @@ export class VectorStore {
       // Column already exists, ignore
     }
 
+    // Migration: IVF list assignment for approximate nearest-neighbour search.
+    // NULL means "not in any list" and is always scanned.
+    try {
+      await this.db.queryAsync(
+        `ALTER TABLE embeddings ADD COLUMN cluster_id INTEGER`,
+      );
+      ztoolkit.log("[VectorStore] Added cluster_id column");
+    } catch (e) {
+      // Column already exists, ignore
+    }
+    await this.db.queryAsync(`
+      CREATE INDEX IF NOT EXISTS idx_embeddings_cluster
+      ON embeddings(cluster_id)
+    `);
+
+    // Migration: per-chunk metadata as JSON (e.g. the PDF page a chunk
+    // starts on). Chunks indexed before this have none until re-indexed.
+    try {
+      await this.db.queryAsync(
+        `ALTER TABLE embeddings ADD COLUMN metadata TEXT`,
+      );
+      ztoolkit.log("[VectorStore] Added metadata column");
+    } catch (e) {
+      // Column already exists, ignore
+    }
+
+    // IVF centroids (one row per list) and build metadata
+    await this.db.queryAsync(`
+      CREATE TABLE IF NOT EXISTS ann_centroids (
+        cluster_id INTEGER PRIMARY KEY,
+        centroid BLOB NOT NULL
+      )
+    `);
+    await this.db.queryAsync(`
+      CREATE TABLE IF NOT EXISTS ann_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `);
+
     // Content cache table - stores extracted PDF content to avoid re-extraction
     await this.db.queryAsync(`
       CREATE TABLE IF NOT EXISTS content_cache (
@@ -246,7 +375,7 @@ export class VectorStore {
     const int8Base64 = this.int8ArrayToBase64(quantized.int8Data);
 
     await this.db.queryAsync(
-      `INSERT OR REPLACE INTO embeddings (item_key, chunk_id, vector, language, chunk_text, dimensions, vector_int8, vector_scale, vector_norm) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT OR REPLACE INTO embeddings (item_key, chunk_id, vector, language, chunk_text, dimensions, vector_int8, vector_scale, vector_norm, cluster_id, metadata) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         record.itemKey,
         record.chunkId,
@@ -257,6 +386,8 @@ export class VectorStore {
         int8Base64,
         quantized.scale,
         quantized.norm,
+        this.assignCluster(record.vector),
+        record.metadata ? JSON.stringify(record.metadata) : null,
       ],
     );
 
@@ -283,7 +414,7 @@ export class VectorStore {
         const int8Base64 = this.int8ArrayToBase64(quantized.int8Data);
 
         await this.db.queryAsync(
-          `INSERT OR REPLACE INTO embeddings (item_key, chunk_id, vector, language, chunk_text, dimensions, vector_int8, vector_scale, vector_norm) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          `INSERT OR REPLACE INTO embeddings (item_key, chunk_id, vector, language, chunk_text, dimensions, vector_int8, vector_scale, vector_norm, cluster_id, metadata) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           [
             record.itemKey,
             record.chunkId,
@@ -294,6 +425,8 @@ export class VectorStore {
             int8Base64,
             quantized.scale,
             quantized.norm,
+            this.assignCluster(record.vector),
+            record.metadata ? JSON.stringify(record.metadata) : null,
           ],
         );
       }
@@ -320,7 +453,7 @@ export class VectorStore {
     queryVector: Float32Array,
     options: {
       topK?: number;
-      language?: "zh" | "en" | "all";
+      language?: LanguageCode | "all";
       itemKeys?: string[];
       minScore?: number;
     } = {},
@@ -344,9 +477,22 @@ export class VectorStore {
     }
 
     if (itemKeys && itemKeys.length > 0) {
-      const placeholders = itemKeys.map(() => "?").join(",");
-      conditions.push(`item_key IN (${placeholders})`);
-      params.push(...itemKeys);
+      const scope = this.itemKeyCondition(itemKeys);
+      conditions.push(scope.sql);
+      params.push(...scope.params);
+    }
+
+    // IVF: scan only the lists nearest the query, plus rows not yet assigned
+    // to any list. Searches scoped to itemKeys are small already.
+    let probedLists = 0;
+    if (!itemKeys || itemKeys.length === 0) {
+      const probes = await this.annProbeLists(queryVector);
+      if (probes) {
+        conditions.push(
+          `(cluster_id IN (${probes.join(",")}) OR cluster_id IS NULL)`,
+        );
+        probedLists = probes.length;
+      }
     }
 
     // Batch size: 10,000 vectors per chunk
@@ -393,6 +539,12 @@ export class VectorStore {
       params,
     );
     const useInt8 = hasInt8 > 0 && hasInt8 >= totalCount * 0.9; // Use Int8 if >90% have it
+    // Int8 scores are approximate: keep extra candidates for the exact re-rank
+    const candidateK = useInt8 ? topK * RERANK_FACTOR : topK;
+    const candidateVectors = new WeakMap<
+      SearchResult,
+      { vector: any; dimensions: number }
+    >();
 
     ztoolkit.log(
       `[VectorStore] search() using ${useInt8 ? "Int8 optimized" : "Float32 fallback"} search (${hasInt8}/${totalCount} have Int8)`,
@@ -588,13 +740,15 @@ export class VectorStore {
             };
 
             // Maintain top K using simple array (efficient for small K)
-            if (minHeap.length < topK) {
+            if (minHeap.length < candidateK) {
               minHeap.push(result);
-              if (minHeap.length === topK) {
+              candidateVectors.set(result, row);
+              if (minHeap.length === candidateK) {
                 minHeap.sort((a, b) => a.score - b.score);
               }
             } else if (score > minHeap[0].score) {
               minHeap[0] = result;
+              candidateVectors.set(result, row);
               // Re-sort to maintain min-heap property
               minHeap.sort((a, b) => a.score - b.score);
             }
@@ -612,8 +766,17 @@ export class VectorStore {
       );
     }
 
-    // Final sort (descending by score)
-    const topResults = minHeap.sort((a, b) => b.score - a.score);
+    // Final sort (descending by score), re-scoring Int8 candidates exactly
+    let topResults = minHeap.sort((a, b) => b.score - a.score);
+    if (useInt8) {
+      topResults = this.rerankExact(
+        topResults,
+        candidateVectors,
+        normalizedQuery,
+        topK,
+        minScore,
+      );
+    }
 
     const searchTime = Date.now() - startTime;
     const topScores = topResults
@@ -621,7 +784,7 @@ export class VectorStore {
       .map((r) => r.score.toFixed(3))
       .join(", ");
     ztoolkit.log(
-      `[VectorStore] search() completed in ${searchTime}ms: ${totalScanned} vectors in ${batchCount} batches, returning ${topResults.length}`,
+      `[VectorStore] search() completed in ${searchTime}ms: ${totalScanned} vectors in ${batchCount} batches${probedLists ? ` (IVF, ${probedLists} lists probed)` : ""}, returning ${topResults.length}`,
     );
 
     // Log score statistics for debugging
@@ -1043,6 +1206,7 @@ export class VectorStore {
     }
 
     this.vectorCache.clear();
+    await this.dropANNIndex();
     // Note: content_cache is preserved as full-text database
 
     // VACUUM to reclaim disk space (DELETE only marks pages as free)
@@ -1099,6 +1263,7 @@ export class VectorStore {
     );
 
     this.vectorCache.clear();
+    await this.dropANNIndex();
 
     // VACUUM to reclaim disk space (DELETE only marks pages as free)
     try {
@@ -1135,6 +1300,11 @@ export class VectorStore {
     const en = await this.db.valueQueryAsync(
       `SELECT COUNT(*) FROM embeddings WHERE language = 'en'`,
     );
+    const languageRows = await this.db.queryAsync(
+      `SELECT language, COUNT(*) AS n FROM embeddings GROUP BY language ORDER BY n DESC`,
+    );
+    const languages: Record<string, number> = {};
+    for (const row of languageRows || []) languages[row.language] = row.n;
 
     // Content cache stats
     const cachedItems = await this.db.valueQueryAsync(
@@ -1166,6 +1336,11 @@ export class VectorStore {
           }
         : undefined;
 
+    const annState = await this.getANNIndexState();
+    const annIndex = annState
+      ? { ...annState, stale: isANNIndexStale(annState) }
+      : undefined;
+
     // Get database file size
     let dbSizeBytes: number | undefined;
     try {
@@ -1183,12 +1358,14 @@ export class VectorStore {
       totalItems: items || 0,
       zhVectors: zh || 0,
       enVectors: en || 0,
+      languages,
       cachedContentItems: cachedItems || 0,
       cachedContentSizeBytes: cachedSize || 0,
       storedDimensions,
       int8MigrationStatus,
       dbSizeBytes,
       dbPath: this.dbPath,
+      annIndex,
     };
   }
 
@@ -1268,8 +1445,400 @@ export class VectorStore {
     return result;
   }
 
+  /**
+   * Get stored chunk metadata for search hits, keyed by `itemKey_chunkId`.
+   * Chunks without metadata are left out.
+   */
+  async getChunkMetadata(
+    chunks: Array<{ itemKey: string; chunkId: number }>,
+  ): Promise<Map<string, Record<string, any>>> {
+    await this.ensureInitialized();
+
+    const result = new Map<string, Record<string, any>>();
+    if (chunks.length === 0) return result;
+
+    const wanted = new Set(chunks.map((c) => `${c.itemKey}_${c.chunkId}`));
+    const itemKeys = [...new Set(chunks.map((c) => c.itemKey))];
+    const placeholders = itemKeys.map(() => "?").join(",");
+    // IMPORTANT: Single-line query to avoid Zotero queryAsync bug with multi-line SQL
+    const rows = await this.db.queryAsync(
+      `SELECT item_key, chunk_id, metadata FROM embeddings WHERE item_key IN (${placeholders}) AND metadata IS NOT NULL`,
+      itemKeys,
+    );
+
+    for (const row of rows || []) {
+      const key = `${row.item_key}_${row.chunk_id}`;
+      if (!wanted.has(key)) continue;
+      try {
+        result.set(key, JSON.parse(row.metadata));
+      } catch (e) {
+        // Skip unreadable metadata
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * BM25 keyword search over chunk_text. A LIKE prefilter fetches only the
+   * chunks containing some query term (substring match, ASCII
+   * case-insensitive), then keywordSearch.scoreBM25 scores them against
+   * corpus statistics taken from the same filtered set.
+   */
+  async keywordSearch(
+    terms: string[],
+    options: {
+      topK?: number;
+      language?: LanguageCode | "all";
+      itemKeys?: string[];
+    } = {},
+  ): Promise<KeywordSearchResult[]> {
+    await this.ensureInitialized();
+
+    const { topK = 10, language = "all", itemKeys } = options;
+    if (terms.length === 0) return [];
+
+    const conditions: string[] = ["1=1"];
+    const params: any[] = [];
+    if (language !== "all") {
+      conditions.push("language = ?");
+      params.push(language);
+    }
+    if (itemKeys && itemKeys.length > 0) {
+      const scope = this.itemKeyCondition(itemKeys);
+      conditions.push(scope.sql);
+      params.push(...scope.params);
+    }
+    const whereClause = conditions.join(" AND ");
+
+    const statsRows = await this.db.queryAsync(
+      `SELECT COUNT(*) AS total, AVG(LENGTH(chunk_text)) AS avgLength FROM embeddings WHERE ${whereClause}`,
+      params,
+    );
+    const totalDocs = Number(statsRows?.[0]?.total) || 0;
+    if (totalDocs === 0) return [];
+
+    const likeClause = terms
+      .map(() => "chunk_text LIKE ? ESCAPE '\\'")
+      .join(" OR ");
+    const likeParams = terms.map((t) => `%${t.replace(/[%_\\]/g, "\\$&")}%`);
+    // IMPORTANT: Single-line query to avoid Zotero queryAsync bug with multi-line SQL
+    const rows = await this.db.queryAsync(
+      `SELECT item_key, chunk_id, chunk_text, language FROM embeddings WHERE ${whereClause} AND (${likeClause}) LIMIT ?`,
+      [...params, ...likeParams, KEYWORD_CANDIDATE_LIMIT],
+    );
+    if (!rows || rows.length === 0) return [];
+    if (rows.length >= KEYWORD_CANDIDATE_LIMIT) {
+      ztoolkit.log(
+        `[VectorStore] keywordSearch() hit the ${KEYWORD_CANDIDATE_LIMIT}-chunk candidate cap; scores for very common terms are approximate`,
+        "warn",
+      );
+    }
+
+    const byId = new Map<string, any>();
+    const candidates = rows.map((row: any) => {
+      const id = `${row.item_key}:${row.chunk_id}`;
+      byId.set(id, row);
+      return { id, text: row.chunk_text || "" };
+    });
+    const hits: BM25Hit[] = scoreBM25(terms, candidates, {
+      totalDocs,
+      avgLength: Number(statsRows[0].avgLength) || 0,
+    });
+
+    return hits.slice(0, topK).map((hit) => {
+      const row = byId.get(hit.id);
+      return {
+        itemKey: row.item_key,
+        chunkId: row.chunk_id,
+        score: hit.score,
+        chunkText: row.chunk_text || "",
+        language: row.language,
+        matchedTerms: hit.matchedTerms,
+      };
+    });
+  }
+
+  // ============ ANN Index Methods ============
+
+  /**
+   * Current IVF index state, or null when none is built. Counts are live,
+   * so the staleness rules in ivfIndex see inserts made since training.
+   */
+  async getANNIndexState(): Promise<ANNIndexState | null> {
+    await this.ensureInitialized();
+    if (!this.annCentroids) return null;
+
+    const total = await this.db.valueQueryAsync(
+      `SELECT COUNT(*) FROM embeddings`,
+    );
+    const unassigned = await this.db.valueQueryAsync(
+      `SELECT COUNT(*) FROM embeddings WHERE cluster_id IS NULL`,
+    );
+    return {
+      clusters: this.annCentroids.length,
+      dimensions: this.annDimensions,
+      trainedCount: this.annTrainedCount,
+      totalVectors: total || 0,
+      unassigned: unassigned || 0,
+    };
+  }
+
+  /**
+   * Build the IVF index if it is missing or stale and the collection is big
+   * enough to benefit; drop it if the collection shrank below that. Called
+   * after index builds; concurrent calls share one rebuild.
+   */
+  async refreshANNIndex(
+    options: { signal?: AbortSignal } = {},
+  ): Promise<ANNIndexState | null> {
+    await this.ensureInitialized();
+    if (this.annRebuildPromise) return this.annRebuildPromise;
+
+    const total =
+      (await this.db.valueQueryAsync(`SELECT COUNT(*) FROM embeddings`)) || 0;
+    if (total < ANN_MIN_VECTORS) {
+      if (this.annCentroids) await this.dropANNIndex();
+      return null;
+    }
+    const state = await this.getANNIndexState();
+    if (state && !isANNIndexStale(state)) return state;
+
+    this.annRebuildPromise = this.rebuildANNIndex(options.signal).finally(
+      () => {
+        this.annRebuildPromise = null;
+      },
+    );
+    return this.annRebuildPromise;
+  }
+
+  /**
+   * Train centroids on an even sample of the table, assign every row to its
+   * nearest list, then persist. Searches fall back to brute force while this
+   * runs, and rows inserted meanwhile stay unassigned (and always scanned).
+   */
+  private async rebuildANNIndex(
+    signal?: AbortSignal,
+  ): Promise<ANNIndexState | null> {
+    const startTime = Date.now();
+    this.annCentroids = null;
+
+    const dimsRow = await this.db.queryAsync(
+      `SELECT dimensions, COUNT(*) AS n FROM embeddings GROUP BY dimensions ORDER BY n DESC LIMIT 1`,
+    );
+    if (!dimsRow || dimsRow.length === 0) return null;
+    const dimensions: number = dimsRow[0].dimensions;
+    const total: number = dimsRow[0].n;
+
+    const clusters = chooseClusterCount(total);
+    const sampleSize = trainingSampleSize(total, clusters);
+    const stride = Math.max(1, Math.floor(total / sampleSize));
+    const sampleRows = await this.db.queryAsync(
+      `SELECT vector FROM embeddings WHERE dimensions = ? AND (id % ?) = 0 LIMIT ?`,
+      [dimensions, stride, sampleSize],
+    );
+    const samples: Float32Array[] = (sampleRows || []).map((row: any) =>
+      normalize(this.bufferToFloat32Array(row.vector, dimensions)),
+    );
+    if (samples.length < clusters) {
+      ztoolkit.log(
+        `[VectorStore] ANN index skipped: ${samples.length} samples for ${clusters} lists`,
+        "warn",
+      );
+      return null;
+    }
+
+    ztoolkit.log(
+      `[VectorStore] Training ANN index: ${clusters} lists from ${samples.length} samples of ${total} vectors`,
+    );
+    let centroids = initialCentroids(samples, clusters);
+    for (let round = 0; round < ANN_KMEANS_ITERATIONS; round++) {
+      const accumulator = new CentroidAccumulator(centroids.length, dimensions);
+      for (let i = 0; i < samples.length; i++) {
+        accumulator.add(samples[i], nearestCentroid(samples[i], centroids));
+        if ((i + 1) % ANN_SLICE_SIZE === 0) {
+          throwIfCancelled(signal);
+          await this.yieldToEventLoop();
+        }
+      }
+      centroids = accumulator.finish(centroids);
+    }
+
+    // Assign every row, walking the table by id so concurrent inserts
+    // can't shift the pages under us. The old index is deleted along with
+    // the first batch: once any row is reassigned its lists no longer
+    // match, and a rebuild cut short must leave brute force, not an index
+    // that silently misses vectors.
+    let lastId = 0;
+    let assigned = 0;
+    for (;;) {
+      throwIfCancelled(signal);
+      const rows = await this.db.queryAsync(
+        `SELECT id, vector, dimensions FROM embeddings WHERE id > ? ORDER BY id LIMIT ?`,
+        [lastId, ANN_SLICE_SIZE],
+      );
+      if (!rows || rows.length === 0) break;
+      await this.db.executeTransaction(async () => {
+        if (lastId === 0) {
+          await this.db.queryAsync(`DELETE FROM ann_centroids`);
+          await this.db.queryAsync(`DELETE FROM ann_meta`);
+        }
+        for (const row of rows) {
+          const cluster =
+            row.dimensions === dimensions
+              ? nearestCentroid(
+                  normalize(this.bufferToFloat32Array(row.vector, dimensions)),
+                  centroids,
+                )
+              : null;
+          await this.db.queryAsync(
+            `UPDATE embeddings SET cluster_id = ? WHERE id = ?`,
+            [cluster, row.id],
+          );
+        }
+      });
+      assigned += rows.length;
+      lastId = rows[rows.length - 1].id;
+    }
+
+    await this.db.executeTransaction(async () => {
+      await this.db.queryAsync(`DELETE FROM ann_centroids`);
+      for (let c = 0; c < centroids.length; c++) {
+        await this.db.queryAsync(
+          `INSERT INTO ann_centroids (cluster_id, centroid) VALUES (?, ?)`,
+          [c, this.float32ArrayToBuffer(centroids[c])],
+        );
+      }
+      await this.db.queryAsync(
+        `INSERT OR REPLACE INTO ann_meta (key, value) VALUES ('dimensions', ?), ('trained_count', ?), ('built_at', ?)`,
+        [String(dimensions), String(total), String(Date.now())],
+      );
+    });
+
+    this.annCentroids = centroids;
+    this.annDimensions = dimensions;
+    this.annTrainedCount = total;
+    ztoolkit.log(
+      `[VectorStore] ANN index built in ${Date.now() - startTime}ms: ${centroids.length} lists, ${assigned} vectors assigned`,
+    );
+    return this.getANNIndexState();
+  }
+
+  /** Forget the IVF index; searches go back to brute force. */
+  private async dropANNIndex(): Promise<void> {
+    this.annCentroids = null;
+    this.annDimensions = 0;
+    this.annTrainedCount = 0;
+    await this.db.queryAsync(`DELETE FROM ann_centroids`);
+    await this.db.queryAsync(`DELETE FROM ann_meta`);
+    ztoolkit.log("[VectorStore] ANN index dropped");
+  }
+
+  private async loadANNIndex(): Promise<void> {
+    const metaRows = await this.db.queryAsync(
+      `SELECT key, value FROM ann_meta`,
+    );
+    const meta = new Map<string, string>(
+      (metaRows || []).map((row: any) => [row.key, row.value]),
+    );
+    const dimensions = Number(meta.get("dimensions"));
+    if (!dimensions) return;
+
+    const rows = await this.db.queryAsync(
+      `SELECT centroid FROM ann_centroids ORDER BY cluster_id`,
+    );
+    if (!rows || rows.length === 0) return;
+    this.annCentroids = rows.map((row: any) =>
+      this.bufferToFloat32Array(row.centroid, dimensions),
+    );
+    this.annDimensions = dimensions;
+    this.annTrainedCount = Number(meta.get("trained_count")) || 0;
+    ztoolkit.log(
+      `[VectorStore] Loaded ANN index: ${rows.length} lists, ${dimensions} dims`,
+    );
+  }
+
+  /** List for a new vector, or null (always scanned) when there's no index. */
+  private assignCluster(vector: Float32Array): number | null {
+    if (!this.annCentroids || vector.length !== this.annDimensions) {
+      return null;
+    }
+    return nearestCentroid(normalize(vector), this.annCentroids);
+  }
+
+  /**
+   * Lists to probe for a query, or null to brute-force: no index, a
+   * different embedding model, or an index that has gone stale.
+   */
+  private async annProbeLists(
+    queryVector: Float32Array,
+  ): Promise<number[] | null> {
+    if (!this.annCentroids || queryVector.length !== this.annDimensions) {
+      return null;
+    }
+    const state = await this.getANNIndexState();
+    if (!state || isANNIndexStale(state)) {
+      ztoolkit.log(
+        `[VectorStore] ANN index stale (${state?.unassigned} unassigned, ${state?.totalVectors}/${state?.trainedCount} vectors), using brute force`,
+      );
+      return null;
+    }
+    return rankCentroids(
+      normalize(queryVector),
+      this.annCentroids,
+      chooseProbeCount(this.annCentroids.length),
+    );
+  }
+
+  /** Re-score Int8 candidates with their Float32 vectors and keep the top K. */
+  private rerankExact(
+    candidates: SearchResult[],
+    rows: WeakMap<SearchResult, { vector: any; dimensions: number }>,
+    normalizedQuery: Float32Array,
+    topK: number,
+    minScore: number,
+  ): SearchResult[] {
+    for (const candidate of candidates) {
+      const row = rows.get(candidate);
+      if (!row || row.dimensions !== normalizedQuery.length) continue;
+      candidate.score = this.cosineSimilarityWithNormalizedQuery(
+        normalizedQuery,
+        this.bufferToFloat32Array(row.vector, row.dimensions),
+      );
+    }
+    return candidates
+      .filter((c) => c.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  private yieldToEventLoop(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
   // ============ Utility Methods ============
 
+  /**
+   * `item_key IN (...)` for a search scope. Large scopes are inlined as
+   * literals; only well-formed Zotero keys are kept, so nothing else can
+   * reach the SQL.
+   */
+  private itemKeyCondition(itemKeys: string[]): {
+    sql: string;
+    params: string[];
+  } {
+    if (itemKeys.length <= MAX_BOUND_ITEM_KEYS) {
+      return {
+        sql: `item_key IN (${itemKeys.map(() => "?").join(",")})`,
+        params: itemKeys,
+      };
+    }
+    const literals = itemKeys
+      .filter((key) => ITEM_KEY_RE.test(key))
+      .map((key) => `'${key}'`);
+    return { sql: `item_key IN (${literals.join(",")})`, params: [] };
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (!this.initialized) {
       await this.initialize();
@@ -10,6 +10,9 @@ const MCP_SERVER_ENABLED = `${PREFS_PREFIX}.mcp.server.enabled`;
 const MCP_SERVER_ALLOW_REMOTE = `${PREFS_PREFIX}.mcp.server.allowRemote`;
 const MCP_SERVER_AUTH_TOKEN = `${PREFS_PREFIX}.mcp.server.authToken`;
 const MCP_SERVER_REQUIRE_AUTH = `${PREFS_PREFIX}.mcp.server.requireAuth`;
+// Named per-client tokens, as a JSON array (see parseClientTokens). Each
+// narrows what one client may do; the primary token above keeps full access.
+const MCP_SERVER_CLIENT_TOKENS = `${PREFS_PREFIX}.mcp.server.clientTokens`;
 
 // Per-scope write opt-ins. Default false; the user enables granularly.
 // Splitting these reduces blast radius when an LLM is prompt-injected.
@@ -20,6 +23,35 @@ const MCP_WRITE_METADATA = `${PREFS_PREFIX}.mcp.write.metadata`;
 const MCP_WRITE_DELETE = `${PREFS_PREFIX}.mcp.write.delete`;
 const MCP_WRITE_BULK = `${PREFS_PREFIX}.mcp.write.bulk`;
 const MCP_WRITE_IMPORT = `${PREFS_PREFIX}.mcp.write.import`;
+// Semantic index management. Touches plugin state rather than library data,
+// but builds spend embedding-API quota and deletes drop computed vectors.
+const MCP_WRITE_INDEX = `${PREFS_PREFIX}.mcp.write.index`;
+// PDF annotations (create, update, delete). Separate from notes: deletes
+// are permanent, since annotations never go to the trash.
+const MCP_WRITE_ANNOTATIONS = `${PREFS_PREFIX}.mcp.write.annotations`;
+// Duplicate merging. Rewrites the master item and trashes the others, so
+// it is kept apart from metadata and delete.
+const MCP_WRITE_MERGE = `${PREFS_PREFIX}.mcp.write.merge`;
+
+// Group-library write grants, as JSON: {"<libraryID>": ["notes", "tags"]}
+// ("*" grants every scope). The personal library is governed by the scope
+// prefs above alone; group libraries are shared with other people, so a
+// write there needs the global scope AND an explicit per-library grant.
+const MCP_WRITE_LIBRARY_SCOPES = `${PREFS_PREFIX}.mcp.write.libraryScopes`;
+
+// User-defined prompt templates for prompts/list, as a JSON array (see
+// promptProvider.parseCustomPrompts for the shape). Read on every request;
+// it's watched only so clients get notifications/prompts/list_changed.
+const MCP_PROMPTS_CUSTOM = `${PREFS_PREFIX}.mcp.prompts.custom`;
+
+// Audit log of tool calls (see auditLog). Entries older than retentionDays,
+// or beyond the newest maxEntries, are pruned.
+const MCP_AUDIT_ENABLED = `${PREFS_PREFIX}.mcp.audit.enabled`;
+const MCP_AUDIT_RETENTION_DAYS = `${PREFS_PREFIX}.mcp.audit.retentionDays`;
+const MCP_AUDIT_MAX_ENTRIES = `${PREFS_PREFIX}.mcp.audit.maxEntries`;
+
+export const DEFAULT_AUDIT_RETENTION_DAYS = 30;
+export const DEFAULT_AUDIT_MAX_ENTRIES = 10000;
 
 // Legacy single boolean. We honor it on first read for upgrade compatibility:
 // if it was true and the per-scope prefs are unset, the user previously had
@@ -33,7 +65,10 @@ export type WriteScope =
   | "metadata"
   | "delete"
   | "bulk"
-  | "import";
+  | "import"
+  | "index"
+  | "annotations"
+  | "merge";
 
 const SCOPE_PREFS: Record<WriteScope, string> = {
   notes: MCP_WRITE_NOTES,
@@ -43,8 +78,159 @@ const SCOPE_PREFS: Record<WriteScope, string> = {
   delete: MCP_WRITE_DELETE,
   bulk: MCP_WRITE_BULK,
   import: MCP_WRITE_IMPORT,
+  index: MCP_WRITE_INDEX,
+  annotations: MCP_WRITE_ANNOTATIONS,
+  merge: MCP_WRITE_MERGE,
 };
 
+const ALL_SCOPES = Object.keys(SCOPE_PREFS) as WriteScope[];
+
+export type LibraryScopeGrants = Record<string, WriteScope[]>;
+
+/**
+ * Parse the per-library grant pref. Malformed JSON or unknown scope names
+ * are dropped rather than thrown: a typo in the prefs pane must fail closed
+ * (no grant), never open.
+ */
+export function parseLibraryScopes(raw: unknown): LibraryScopeGrants {
+  if (typeof raw !== "string" || !raw.trim()) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return {};
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return {};
+  }
+  const out: LibraryScopeGrants = {};
+  for (const [libraryID, scopes] of Object.entries(parsed)) {
+    if (!/^\d+$/.test(libraryID)) continue;
+    const list = Array.isArray(scopes) ? scopes : [scopes];
+    const valid = list.includes("*")
+      ? [...ALL_SCOPES]
+      : ALL_SCOPES.filter((s) => list.includes(s));
+    if (valid.length > 0) out[libraryID] = valid;
+  }
+  return out;
+}
+
+export interface ClientTokenConfig {
+  id: string;
+  name: string;
+  token: string;
+  /** Tools the client may call; ["*"] for every tool. */
+  tools: string[];
+  /** Write scopes, on top of (never beyond) the global scope prefs. */
+  scopes: WriteScope[];
+  /** Collection keys its writes are confined to, with their subcollections; [] for none. */
+  collections: string[];
+  /** ISO timestamp after which the token is refused; null for never. */
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+const TOKEN_RE = /^zmcp_[0-9a-f]{48}$/;
+const COLLECTION_KEY_RE = /^[A-Z0-9]{8}$/;
+
+/**
+ * Parse the client-token pref. Unknown scopes are dropped; an entry
+ * without a name or a well-formed token, or with a malformed tool list,
+ * collection key or expiry date, is dropped whole. A dropped token is
+ * refused, so a typo can only ever narrow a client, never widen it.
+ */
+export function parseClientTokens(raw: unknown): ClientTokenConfig[] {
+  if (typeof raw !== "string" || !raw.trim()) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+  const out: ClientTokenConfig[] = [];
+  for (const entry of parsed) {
+    if (!entry || typeof entry !== "object") continue;
+    const { id, name, token, tools, scopes, collections, expiresAt } = entry;
+    if (typeof id !== "string" || !id) continue;
+    if (typeof name !== "string" || !name.trim()) continue;
+    if (typeof token !== "string" || !TOKEN_RE.test(token)) continue;
+    if (tools !== undefined && !Array.isArray(tools)) continue;
+    if (
+      collections !== undefined &&
+      (!Array.isArray(collections) ||
+        !collections.every(
+          (k) => typeof k === "string" && COLLECTION_KEY_RE.test(k),
+        ))
+    ) {
+      continue;
+    }
+    if (
+      expiresAt !== undefined &&
+      expiresAt !== null &&
+      (typeof expiresAt !== "string" || isNaN(Date.parse(expiresAt)))
+    ) {
+      continue;
+    }
+    const strings = (value: unknown): string[] =>
+      Array.isArray(value)
+        ? value.filter((v): v is string => typeof v === "string")
+        : [];
+    out.push({
+      id,
+      name: name.trim(),
+      token,
+      tools: tools === undefined ? ["*"] : strings(tools),
+      scopes: ALL_SCOPES.filter((s) => strings(scopes).includes(s)),
+      collections: strings(collections),
+      expiresAt: expiresAt || null,
+      createdAt: typeof entry.createdAt === "string" ? entry.createdAt : "",
+    });
+  }
+  return out;
+}
+
+/** zmcp_<48 lowercase hex chars>. */
+function generateToken(): string {
+  const bytes = new Uint8Array(24);
+  try {
+    (globalThis as any).crypto.getRandomValues(bytes);
+  } catch {
+    // Fallback: Math.random is weak but better than zeros if crypto missing.
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(
+    "",
+  );
+  return `zmcp_${hex}`;
+}
+
+/**
+ * Constant-time string comparison to avoid timing oracle on token check.
+ */
+function tokensEqual(expected: string, presented: string): boolean {
+  if (!expected) return false;
+  if (typeof presented !== "string") return false;
+  // Reject obviously-too-long inputs cheaply.
+  if (presented.length > 256) return false;
+  if (presented.length !== expected.length) {
+    // Still walk the string to keep timing flat-ish.
+    let acc = 1;
+    for (let i = 0; i < expected.length; i++) {
+      acc |= expected.charCodeAt(i) ^ (presented.charCodeAt(i) || 0);
+    }
+    void acc;
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ presented.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
 type PreferenceObserver = (name: string) => void;
 
 class ServerPreferences {
@@ -86,11 +272,20 @@ class ServerPreferences {
       Zotero.Prefs.set(MCP_WRITE_DELETE, false, true);
       Zotero.Prefs.set(MCP_WRITE_BULK, false, true);
       Zotero.Prefs.set(MCP_WRITE_IMPORT, false, true);
+      Zotero.Prefs.set(MCP_WRITE_INDEX, false, true);
+      Zotero.Prefs.set(MCP_WRITE_ANNOTATIONS, false, true);
+      Zotero.Prefs.set(MCP_WRITE_MERGE, false, true);
     } else {
       for (const p of Object.values(SCOPE_PREFS)) {
         setIfUnset(p, false);
       }
     }
+    setIfUnset(MCP_WRITE_LIBRARY_SCOPES, "{}");
+    setIfUnset(MCP_SERVER_CLIENT_TOKENS, "[]");
+    setIfUnset(MCP_PROMPTS_CUSTOM, "[]");
+    setIfUnset(MCP_AUDIT_ENABLED, true);
+    setIfUnset(MCP_AUDIT_RETENTION_DAYS, DEFAULT_AUDIT_RETENTION_DAYS);
+    setIfUnset(MCP_AUDIT_MAX_ENTRIES, DEFAULT_AUDIT_MAX_ENTRIES);
   }
 
   public getPort(): number {
@@ -165,19 +360,7 @@ class ServerPreferences {
    * force; short enough to paste into client config.
    */
   public regenerateAuthToken(): string {
-    const bytes = new Uint8Array(24);
-    try {
-      (globalThis as any).crypto.getRandomValues(bytes);
-    } catch {
-      // Fallback: Math.random is weak but better than zeros if crypto missing.
-      for (let i = 0; i < bytes.length; i++) {
-        bytes[i] = Math.floor(Math.random() * 256);
-      }
-    }
-    const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(
-      "",
-    );
-    const token = `zmcp_${hex}`;
+    const token = generateToken();
     Zotero.Prefs.set(MCP_SERVER_AUTH_TOKEN, token, true);
     return token;
   }
@@ -192,30 +375,79 @@ class ServerPreferences {
     return this.regenerateAuthToken();
   }
 
-  /**
-   * Constant-time string comparison to avoid timing oracle on token check.
-   * Both sides are normalized to UTF-8 byte arrays first.
-   */
   public verifyAuthToken(presented: string): boolean {
-    const expected = this.getAuthToken();
-    if (!expected) return false;
-    if (typeof presented !== "string") return false;
-    // Reject obviously-too-long inputs cheaply.
-    if (presented.length > 256) return false;
-    if (presented.length !== expected.length) {
-      // Still walk the string to keep timing flat-ish.
-      let acc = 1;
-      for (let i = 0; i < expected.length; i++) {
-        acc |= expected.charCodeAt(i) ^ (presented.charCodeAt(i) || 0);
-      }
-      void acc;
-      return false;
+    return tokensEqual(this.getAuthToken(), presented);
+  }
+
+  public getClientTokens(): ClientTokenConfig[] {
+    try {
+      return parseClientTokens(
+        Zotero.Prefs.get(MCP_SERVER_CLIENT_TOKENS, true),
+      );
+    } catch {
+      return [];
     }
-    let diff = 0;
-    for (let i = 0; i < expected.length; i++) {
-      diff |= expected.charCodeAt(i) ^ presented.charCodeAt(i);
+  }
+
+  private saveClientTokens(tokens: ClientTokenConfig[]): void {
+    Zotero.Prefs.set(MCP_SERVER_CLIENT_TOKENS, JSON.stringify(tokens), true);
+  }
+
+  /** Issue a token for a named client. Returns the stored entry. */
+  public createClientToken(options: {
+    name: string;
+    tools?: string[];
+    scopes?: WriteScope[];
+    collections?: string[];
+    expiresAt?: string | null;
+  }): ClientTokenConfig {
+    const name = options.name.trim();
+    if (!name) throw new Error("Client name is required");
+    const tokens = this.getClientTokens();
+    if (tokens.some((t) => t.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`A client named "${name}" already exists`);
+    }
+    if (options.expiresAt && isNaN(Date.parse(options.expiresAt))) {
+      throw new Error(`Invalid expiry date "${options.expiresAt}"`);
+    }
+    const badScope = (options.scopes || []).find(
+      (s) => !ALL_SCOPES.includes(s),
+    );
+    if (badScope) throw new Error(`Unknown write scope "${badScope}"`);
+    const badKey = (options.collections || []).find(
+      (k) => !COLLECTION_KEY_RE.test(k),
+    );
+    if (badKey) throw new Error(`Invalid collection key "${badKey}"`);
+
+    const entry: ClientTokenConfig = {
+      id: `client_${generateToken().slice(5, 13)}`,
+      name,
+      token: generateToken(),
+      tools: options.tools && options.tools.length > 0 ? options.tools : ["*"],
+      scopes: ALL_SCOPES.filter((s) => (options.scopes || []).includes(s)),
+      collections: options.collections || [],
+      expiresAt: options.expiresAt || null,
+      createdAt: new Date().toISOString(),
+    };
+    this.saveClientTokens([...tokens, entry]);
+    return entry;
+  }
+
+  public revokeClientToken(id: string): boolean {
+    const tokens = this.getClientTokens();
+    const kept = tokens.filter((t) => t.id !== id);
+    if (kept.length === tokens.length) return false;
+    this.saveClientTokens(kept);
+    return true;
+  }
+
+  /** The client whose token this is, or null. Compares every entry in constant time. */
+  public findClientToken(presented: string): ClientTokenConfig | null {
+    let found: ClientTokenConfig | null = null;
+    for (const entry of this.getClientTokens()) {
+      if (tokensEqual(entry.token, presented) && !found) found = entry;
     }
-    return diff === 0;
+    return found;
   }
 
   public isScopeEnabled(scope: WriteScope): boolean {
@@ -230,6 +462,84 @@ class ServerPreferences {
     }
   }
 
+  public getLibraryScopeGrants(): LibraryScopeGrants {
+    try {
+      return parseLibraryScopes(
+        Zotero.Prefs.get(MCP_WRITE_LIBRARY_SCOPES, true),
+      );
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Scope check for a specific library. The personal library only needs the
+   * global scope; group libraries additionally need a per-library grant.
+   */
+  public isScopeEnabledForLibrary(
+    scope: WriteScope,
+    libraryID: number,
+  ): boolean {
+    if (!this.isScopeEnabled(scope)) return false;
+    if (libraryID === Zotero.Libraries.userLibraryID) return true;
+    const granted = this.getLibraryScopeGrants()[String(libraryID)] || [];
+    return granted.includes(scope);
+  }
+
+  public getEnabledScopesForLibrary(libraryID: number): WriteScope[] {
+    return ALL_SCOPES.filter((s) =>
+      this.isScopeEnabledForLibrary(s, libraryID),
+    );
+  }
+
+  /** Raw JSON of the user-defined prompt templates pref. */
+  public getCustomPromptsJSON(): string {
+    try {
+      const raw = Zotero.Prefs.get(MCP_PROMPTS_CUSTOM, true);
+      return typeof raw === "string" ? raw : "[]";
+    } catch {
+      return "[]";
+    }
+  }
+
+  /** True for the prefs that decide which write tools tools/list exposes. */
+  public isAuditEnabled(): boolean {
+    try {
+      const v = Zotero.Prefs.get(MCP_AUDIT_ENABLED, true);
+      if (v === undefined || v === null) return true;
+      return Boolean(v);
+    } catch {
+      return true;
+    }
+  }
+
+  /** Retention limits for the audit log; non-positive values fall back to the defaults. */
+  public getAuditRetention(): { retentionDays: number; maxEntries: number } {
+    const positive = (name: string, fallback: number) => {
+      try {
+        const v = Number(Zotero.Prefs.get(name, true));
+        return Number.isFinite(v) && v > 0 ? Math.floor(v) : fallback;
+      } catch {
+        return fallback;
+      }
+    };
+    return {
+      retentionDays: positive(
+        MCP_AUDIT_RETENTION_DAYS,
+        DEFAULT_AUDIT_RETENTION_DAYS,
+      ),
+      maxEntries: positive(MCP_AUDIT_MAX_ENTRIES, DEFAULT_AUDIT_MAX_ENTRIES),
+    };
+  }
+
+  public isWriteScopePref(name: string): boolean {
+    return (Object.values(SCOPE_PREFS) as string[]).includes(name);
+  }
+
+  public isCustomPromptsPref(name: string): boolean {
+    return name === MCP_PROMPTS_CUSTOM;
+  }
+
   /** Any write scope on → at least some write tools should be exposed. */
   public isAnyWriteScopeEnabled(): boolean {
     return (Object.keys(SCOPE_PREFS) as WriteScope[]).some((s) =>
@@ -257,6 +567,8 @@ class ServerPreferences {
       MCP_SERVER_REQUIRE_AUTH,
       MCP_SERVER_AUTH_TOKEN,
       ...Object.values(SCOPE_PREFS),
+      MCP_WRITE_LIBRARY_SCOPES,
+      MCP_PROMPTS_CUSTOM,
     ];
     for (const name of watched) {
       try {
@@ -11,6 +11,8 @@
 
 import { AnnotationService } from "./annotationService";
 import { MCPSettingsService } from "./mcpSettingsService";
+import { valueTokens } from "./tokenBudget";
+import { continuePagination, startPagination, type Page } from "./pagination";
 
 declare let Zotero: any;
 declare let ztoolkit: ZToolkit;
@@ -57,6 +59,7 @@ export interface SmartAnnotationResponse {
       limit: number; // Current limit
       hasMore: boolean; // Whether more results exist
       nextOffset?: number; // Next page offset (if more exist)
+      nextCursor?: string; // Next page cursor (search results)
     };
     stats: {
       foundCount: number; // Original count found
@@ -83,6 +86,7 @@ function normalizeOutputMode(mode: string | undefined): string {
 
 export class SmartAnnotationExtractor {
   private annotationService: AnnotationService;
+  private readonly libraryID: number;
 
   // Common Zotero annotation colors with their names
   private static readonly COLOR_MAP: Record<string, string[]> = {
@@ -96,8 +100,9 @@ export class SmartAnnotationExtractor {
     "#aaaaaa": ["gray", "grey"],
   };
 
-  constructor() {
-    this.annotationService = new AnnotationService();
+  constructor(libraryID?: number) {
+    this.annotationService = new AnnotationService(libraryID);
+    this.libraryID = libraryID ?? Zotero.Libraries.userLibraryID;
   }
 
   /**
@@ -322,6 +327,8 @@ export class SmartAnnotationExtractor {
       minRelevance?: number;
       limit?: number;
       offset?: number;
+      cursor?: string; // nextCursor of an earlier page
+      sessionId?: string; // MCP session the cursor belongs to
     } = {},
   ): Promise<SmartAnnotationResponse> {
     const startTime = Date.now();
@@ -351,6 +358,16 @@ export class SmartAnnotationExtractor {
         offset: options.offset || 0,
       };
 
+      if (options.cursor) {
+        return await this.continueSearch(
+          options.cursor,
+          options.sessionId,
+          searchOptions,
+          options.limit,
+          startTime,
+        );
+      }
+
       let annotations: any[] = [];
 
       // If itemKeys is provided, run the search per-item and concatenate.
@@ -511,15 +528,26 @@ export class SmartAnnotationExtractor {
       // Apply pagination (skip for full mode)
       const totalCount = scoredAnnotations.length;
       let paginatedAnnotations: any[];
+      let page: Page<string> | null = null;
 
       if (searchOptions.outputMode === "full") {
         // Full mode: return all relevant annotations
         paginatedAnnotations = scoredAnnotations;
       } else {
-        // Other modes: apply pagination
+        // Other modes: page through a snapshot of the ranked results
+        page = startPagination(
+          options.sessionId,
+          this.searchSnapshotTool(),
+          scoredAnnotations.map((ann) => ann.id),
+          {
+            limit: searchOptions.limit!,
+            offset: searchOptions.offset,
+            state: { query },
+          },
+        );
         paginatedAnnotations = scoredAnnotations.slice(
-          searchOptions.offset!,
-          searchOptions.offset! + searchOptions.limit!,
+          page.offset,
+          page.offset + page.ids.length,
         );
       }
 
@@ -534,14 +562,6 @@ export class SmartAnnotationExtractor {
         `[SmartAnnotationExtractor] Search completed in ${processingTime}, found ${processed.includedCount} relevant results of ${totalCount} total (paginated: ${paginatedAnnotations.length})`,
       );
 
-      // Calculate pagination info
-      const hasMore =
-        searchOptions.outputMode !== "full" &&
-        searchOptions.offset! + searchOptions.limit! < totalCount;
-      const nextOffset = hasMore
-        ? searchOptions.offset! + searchOptions.limit!
-        : undefined;
-
       return {
         ...processed,
         metadata: {
@@ -554,10 +574,10 @@ export class SmartAnnotationExtractor {
           processingTime,
           pagination: {
             total: totalCount,
-            offset: searchOptions.offset!,
-            limit: searchOptions.limit!,
-            hasMore,
-            nextOffset,
+            offset: page?.offset ?? 0,
+            limit: page?.limit ?? totalCount,
+            hasMore: page?.nextCursor !== undefined,
+            nextCursor: page?.nextCursor,
           },
           stats: {
             foundCount: annotations.length,
@@ -578,6 +598,67 @@ export class SmartAnnotationExtractor {
     }
   }
 
+  /** Snapshot key for search results; keys only resolve in one library. */
+  private searchSnapshotTool(): string {
+    return `search_annotations:${this.libraryID}`;
+  }
+
+  /**
+   * The next page of an earlier search, from its snapshot. Annotations
+   * deleted since are left out; the rest are scored again for display.
+   */
+  private async continueSearch(
+    cursor: string,
+    sessionId: string | undefined,
+    searchOptions: SmartAnnotationOptions,
+    limit: number | undefined,
+    startTime: number,
+  ): Promise<SmartAnnotationResponse> {
+    const page = continuePagination<string>(
+      sessionId,
+      this.searchSnapshotTool(),
+      cursor,
+      limit,
+    );
+    const query: string = page.state?.query || "";
+    const annotations = this.annotationService
+      .getAnnotationsByKeys(page.ids)
+      .map((ann) => ({
+        ...ann,
+        relevance: query.trim() ? this.calculateRelevance(ann, query) : 1.0,
+        importance: this.calculateImportance(ann),
+      }));
+    const processed = await this.processAnnotations(annotations, searchOptions);
+
+    return {
+      ...processed,
+      metadata: {
+        extractedAt: new Date().toISOString(),
+        userSettings: {
+          maxTokens: searchOptions.maxTokens,
+          outputMode: searchOptions.outputMode,
+          minRelevance: searchOptions.minRelevance,
+        },
+        processingTime: `${Date.now() - startTime}ms`,
+        pagination: {
+          total: page.total,
+          offset: page.offset,
+          limit: page.limit,
+          hasMore: page.nextCursor !== undefined,
+          nextCursor: page.nextCursor,
+        },
+        stats: {
+          foundCount: page.ids.length,
+          filteredCount: page.total,
+          returnedCount: processed.includedCount,
+          skippedCount: processed.originalCount
+            ? processed.originalCount - processed.includedCount
+            : undefined,
+        },
+      },
+    };
+  }
+
   /**
    * Get annotation by single ID
    */
@@ -1022,8 +1103,6 @@ export class SmartAnnotationExtractor {
    * Estimate token count for content
    */
   private estimateTokens(content: any): number {
-    const text = JSON.stringify(content);
-    // Rough estimation: 1 token ≈ 3.5 characters for mixed Chinese/English
-    return Math.ceil(text.length / 3.5);
+    return valueTokens(content);
   }
 }
@@ -9,11 +9,30 @@ import {
   handleSearchFulltext,
   handleGetItemAbstract,
 } from "./apiHandlers";
-import { UnifiedContentExtractor } from "./unifiedContentExtractor";
+import {
+  UnifiedContentExtractor,
+  type PDFSelection,
+} from "./unifiedContentExtractor";
+import { parsePageRanges } from "./pdfPages";
+import { parseSectionSelectors, SECTION_SELECTORS } from "./sectionDetector";
+import {
+  citesWork,
+  parseReferences,
+  referencesSection,
+  titleSearchTerms,
+  titleSimilarity,
+  TITLE_MATCH_THRESHOLD,
+  type ParsedReference,
+} from "./referenceParser";
 import { SmartAnnotationExtractor } from "./smartAnnotationExtractor";
 import { MCPSettingsService } from "./mcpSettingsService";
 import { AIInstructionsManager } from "./aiInstructionsManager";
-import { getSemanticSearchService, SemanticSearchService } from "./semantic";
+import {
+  getSemanticSearchService,
+  isLanguageCode,
+  SemanticSearchService,
+  SUPPORTED_LANGUAGES,
+} from "./semantic";
 import {
   handleAddNote,
   handleAddTags,
@@ -34,13 +53,127 @@ import {
   handleAddRelatedItem,
   handleRemoveRelatedItem,
   handleImportAttachmentURL,
+  handleImportByIdentifier,
   handleRestoreFromTrash,
   handleMoveCollection,
   handleBatchRemoveFromCollection,
   handleBatchTrash,
   handleMoveItemToCollection,
+  handleSemanticIndexBuild,
+  handleSemanticIndexControl,
+  handleSemanticIndexProgress,
+  handleSemanticIndexRetryFailed,
+  handleSemanticIndexDelete,
+  handleCreateAnnotation,
+  handleUpdateAnnotation,
+  handleDeleteAnnotation,
+  handleMergeItems,
+  handleCreateSavedSearch,
+  handleUndoLast,
+  handleUndoOperation,
 } from "./writeHandlers";
+import {
+  beginMutation,
+  getJournalEntry,
+  getLastUndoable,
+  type JournalEntry,
+  type PendingMutation,
+} from "./mutationJournal";
+import {
+  auditItemKeys,
+  queryAuditLog,
+  recordToolCall,
+  redactArguments,
+  MAX_AUDIT_LIMIT,
+  type AuditOutcome,
+} from "./auditLog";
+import {
+  assertWithinCollections,
+  clientAllowsPrompts,
+  clientAllowsResource,
+  clientAllowsScope,
+  clientAllowsTool,
+  requiredScopes,
+  type ClientIdentity,
+} from "./clientAccess";
 import { serverPreferences, type WriteScope } from "./serverPreferences";
+import { handleRunSavedSearch } from "./searchEngine";
+import { listSavedSearches, SavedSearchError } from "./savedSearches";
+import {
+  continuePagination,
+  CursorError,
+  startPagination,
+  type Page,
+} from "./pagination";
+import {
+  applyTokenBudget,
+  continueTokenBudget,
+  ContinuationError,
+  MIN_MAX_TOKENS,
+} from "./tokenBudget";
+import {
+  formatLibraryKey,
+  listLibraries,
+  normalizeLibraryArgs,
+  LibraryMismatchError,
+  LibraryNotFoundError,
+} from "./libraryResolver";
+import {
+  listResources,
+  parseResourceURI,
+  readResource,
+  RESOURCE_TEMPLATES,
+  InvalidResourceURIError,
+  ResourceNotFoundError,
+} from "./resourceProvider";
+import { createProgressReporter, notificationHub } from "./notificationHub";
+import {
+  RequestCancelledError,
+  throwIfCancelled,
+  type TaskControl,
+} from "./taskControl";
+import {
+  getPrompt,
+  listPrompts,
+  PromptArgumentError,
+  PromptNotFoundError,
+} from "./promptProvider";
+import { parseExtraIdentifiers, renderBibliography } from "./itemFormatter";
+import { findItemIDsByIdentifier, IDENTIFIER_TYPES } from "./identifiers";
+import {
+  candidatePairs,
+  DEFAULT_DUPLICATE_THRESHOLD,
+  groupDuplicates,
+  scoreDuplicatePair,
+  type DuplicateCandidate,
+  type DuplicatePair,
+} from "./duplicateDetector";
+import { cosineSimilarity } from "./semantic/mathUtils";
+import {
+  LOCATOR_LABELS,
+  MAX_CITATION_CLUSTERS,
+  parseCitationClusters,
+  renderCitations,
+} from "./citationFormatter";
+import {
+  EXPORT_FORMATS,
+  exportItems,
+  MAX_EXPORT_ITEMS,
+  type ExportFormat,
+} from "./itemExporter";
+import {
+  addEdge,
+  addNode,
+  computeDegrees,
+  DEFAULT_GRAPH_ITEMS,
+  MAX_GRAPH_ITEMS,
+  mostCited,
+  toDOT,
+  toGraphML,
+  type CitationGraph,
+  type CitationNode,
+} from "./citationGraph";
+import type { ItemFilters } from "./searchEngine";
 import { SERVER_INFO_VERSION } from "./httpServer";
 
 /**
@@ -54,6 +187,196 @@ class InvalidParamsError extends Error {
   }
 }
 
+function assertBudgetArgs(args: any): void {
+  const { maxTokens, continuation } = args;
+  if (
+    maxTokens !== undefined &&
+    !(Number.isInteger(maxTokens) && maxTokens >= MIN_MAX_TOKENS)
+  ) {
+    throw new InvalidParamsError(
+      `maxTokens must be an integer of at least ${MIN_MAX_TOKENS}`,
+    );
+  }
+  if (continuation !== undefined && typeof continuation !== "string") {
+    throw new InvalidParamsError("continuation must be a string");
+  }
+}
+
+// Tools that operate on global Zotero schema or plugin state rather than on a
+// library's contents. Everything else gets the libraryID/library arguments.
+const LIBRARY_AGNOSTIC_TOOLS = new Set([
+  "list_libraries",
+  "semantic_status",
+  "fulltext_database",
+  "get_item_types",
+  "get_creator_types",
+  "get_item_type_fields",
+  "semantic_index_control",
+  "semantic_index_progress",
+  "semantic_index_retry_failed",
+  "undo_operation",
+  "get_audit_log",
+]);
+
+// Map each write tool to the scope(s) it requires. Only tools whose
+// scopes are all enabled get advertised, and the undo journal records them
+// so undoing needs the same. The handlers themselves enforce these scopes.
+const WRITE_TOOL_SCOPES: Record<string, WriteScope[]> = {
+  add_note: ["notes"],
+  update_note: ["notes"],
+  add_tags: ["tags"],
+  remove_tags: ["tags"],
+  add_to_collection: ["collections"],
+  remove_from_collection: ["collections"],
+  create_collection: ["collections"],
+  create_saved_search: ["collections"],
+  rename_collection: ["collections"],
+  move_collection: ["collections"],
+  move_item_to_collection: ["collections"],
+  create_item: ["metadata"],
+  update_item: ["metadata"],
+  add_related_item: ["metadata"],
+  remove_related_item: ["metadata"],
+  trash_item: ["delete"],
+  restore_from_trash: ["delete"],
+  delete_collection: ["delete"],
+  delete_tag: ["delete", "bulk"],
+  rename_tag: ["tags", "bulk"],
+  batch_tag: ["bulk", "tags"],
+  batch_add_to_collection: ["bulk", "collections"],
+  batch_remove_from_collection: ["bulk", "collections"],
+  batch_trash: ["bulk", "delete"],
+  import_attachment_url: ["import"],
+  import_by_identifier: ["import"],
+  semantic_index_build: ["index"],
+  semantic_index_control: ["index"],
+  semantic_index_retry_failed: ["index"],
+  semantic_index_delete: ["index"],
+  create_annotation: ["annotations"],
+  update_annotation: ["annotations"],
+  delete_annotation: ["annotations"],
+  merge_items: ["merge"],
+  // Checked at call time against the scopes of the operation undone.
+  undo_last: [],
+  undo_operation: [],
+};
+
+const MAX_SESSION_CLIENTS = 1000;
+
+const LIBRARY_ARG_PROPERTIES = {
+  libraryID: {
+    type: "number",
+    description:
+      "Library to operate on (see list_libraries). Defaults to the personal library. Keys may also be passed library-qualified as '<libraryID>/<KEY>'.",
+  },
+  library: {
+    type: "string",
+    description:
+      "Alternative to libraryID: library name, 'user', or 'group:<groupID>'",
+  },
+};
+
+// The search and listing tools that page through a snapshot.
+const CURSOR_ARG_PROPERTY = {
+  type: "string",
+  description:
+    "nextCursor from the previous page. Continues the same snapshot of results, so pages don't shift when the library changes; other filters are ignored",
+};
+
+// Added to every read tool. A tool's own maxTokens description wins.
+const BUDGET_ARG_PROPERTIES = {
+  maxTokens: {
+    type: "number",
+    minimum: MIN_MAX_TOKENS,
+    description:
+      "Approximate token budget for the response. Tokens are estimated from character counts, not counted by your tokenizer, so results are cut to about 85% of this to stay under it. A larger result is cut to fit: identifying fields first, long text summarized, the rest left out. `_budget` lists what was cut and gives a continuation",
+  },
+  continuation: {
+    type: "string",
+    description:
+      "`_budget.continuation` from an earlier response of this tool: returns the next part of that result instead of running the tool again",
+  },
+};
+
+// Cached full texts read at a time when looking for items citing another.
+const CITED_BY_BATCH_SIZE = 50;
+
+// Metadata filters for semantic_search, hybrid_search and find_similar.
+// They are resolved to item keys before the vector scan, so topK counts only
+// matching items.
+const SEMANTIC_FILTER_PROPERTIES = {
+  collection: {
+    type: "string",
+    description:
+      "Only items in this collection (key), including subcollections",
+  },
+  tags: {
+    type: "array",
+    items: { type: "string" },
+    description: "Only items with these tags (see tagMode)",
+  },
+  tagMode: {
+    type: "string",
+    enum: ["any", "all", "none"],
+    description:
+      "any (default): at least one of the tags; all: every tag; none: excludes tagged items",
+  },
+  yearRange: {
+    type: "string",
+    description: 'Publication year range (e.g., "2020-2023", "2020-", "-2015")',
+  },
+  itemType: {
+    type: "string",
+    description: 'Only this item type (e.g., "journalArticle", "book")',
+  },
+  creator: {
+    type: "string",
+    description: "Only items with a creator whose name contains this",
+  },
+};
+
+function assertSearchLanguage(language: unknown): void {
+  if (language === undefined || language === "all") return;
+  if (!isLanguageCode(language)) {
+    throw new InvalidParamsError(
+      `language must be "all" or one of: ${SUPPORTED_LANGUAGES.join(", ")}`,
+    );
+  }
+}
+
+/** Pick and validate the SEMANTIC_FILTER_PROPERTIES arguments. */
+function parseSemanticFilters(args: any): ItemFilters {
+  const filters: ItemFilters = {};
+  for (const field of ["collection", "yearRange", "itemType", "creator"]) {
+    const value = args?.[field];
+    if (value === undefined || value === null || value === "") continue;
+    if (typeof value !== "string") {
+      throw new InvalidParamsError(`${field} must be a string`);
+    }
+    filters[field as "collection" | "yearRange" | "itemType" | "creator"] =
+      value;
+  }
+  if (filters.yearRange && !/^(\d{4})?-(\d{4})?$/.test(filters.yearRange)) {
+    throw new InvalidParamsError(
+      'yearRange must look like "2020-2023", "2020-" or "-2023"',
+    );
+  }
+  if (args?.tags !== undefined) {
+    const tags = typeof args.tags === "string" ? [args.tags] : args.tags;
+    if (!Array.isArray(tags) || tags.some((t) => typeof t !== "string")) {
+      throw new InvalidParamsError("tags must be an array of strings");
+    }
+    filters.tags = tags;
+  }
+  if (args?.tagMode !== undefined) {
+    if (!["any", "all", "none"].includes(args.tagMode)) {
+      throw new InvalidParamsError("tagMode must be any, all or none");
+    }
+    filters.tagMode = args.tagMode;
+  }
+  return filters;
+}
+
 export interface MCPRequest {
   jsonrpc: "2.0";
   id?: string | number | null;
@@ -203,13 +526,14 @@ function getToolSpecificGuidance(toolName: string): any {
 
   switch (toolName) {
     case "search_library":
+    case "run_saved_search":
       return {
         ...baseGuidance,
         dataStructure: {
           type: "search_results",
           format: "Array of Zotero items with metadata",
           pagination:
-            "Check X-Total-Count header and use offset/limit parameters",
+            "Pass pagination.nextCursor back as cursor for the next page",
         },
         interpretation: {
           purpose:
@@ -274,6 +598,8 @@ function getToolSpecificGuidance(toolName: string): any {
           "Combine with annotations for user's personal insights on this content",
           'IMPORTANT: When user specifically asks for "complete text" or "complete content", provide the entire extracted text without summarization',
           "If user requests the complete document content, reproduce it in its entirety",
+          "With pages, PDF text comes with per-page spans: cite a quote by the page whose span contains it",
+          "With outline, PDF results list detected sections and figure/table captions; request only the sections you need with sections",
         ],
       };
 
@@ -391,6 +717,30 @@ function getToolSpecificGuidance(toolName: string): any {
           "Find related papers even without exact keyword matches",
           "Discover thematic connections across research materials",
           "Combine with keyword search for comprehensive results",
+          "Narrow with collection, tags, yearRange, itemType or creator instead of filtering results afterwards",
+        ],
+      };
+
+    case "hybrid_search":
+      return {
+        ...baseGuidance,
+        dataStructure: {
+          type: "hybrid_search_results",
+          format:
+            "Items ranked by fusing keyword (BM25) and semantic similarity signals",
+          ranking:
+            "Fused score; explanation gives each signal's rank, score and matched terms",
+        },
+        interpretation: {
+          purpose: "Combine exact-term matching with concept matching",
+          content: "Documents matching query terms, meaning, or both",
+          reliability:
+            "Items matched by both signals are the strongest; keyword-only hits contain the exact terms",
+        },
+        usage: [
+          "Use when the query contains gene names, acronyms, author names or other exact terms",
+          "Check explanation.matchedBy to see why an item was returned",
+          "Fused scores compare within one result list only, not across queries",
         ],
       };
 
@@ -480,6 +830,22 @@ export interface MCPNotification {
   params?: any;
 }
 
+/**
+ * Per-request transport context from httpServer. `notify` is only set when
+ * the POST is answered as an SSE stream; request-scoped notifications
+ * (progress) have nowhere to go otherwise and are dropped. `client` is the
+ * named client token the request authenticated with, if any.
+ * `sessionMinted` is set when the client sent no known Mcp-Session-Id and
+ * `sessionId` was minted for this request alone, so nothing that must
+ * outlive the request (pagination snapshots) can be kept under it.
+ */
+export interface RequestContext {
+  sessionId?: string;
+  sessionMinted?: boolean;
+  notify?: (message: MCPNotification) => void;
+  client?: ClientIdentity;
+}
+
 /**
  * Streamable HTTP-based MCP Server integrated into Zotero Plugin
  *
@@ -491,6 +857,11 @@ export interface MCPNotification {
  */
 export class StreamableMCPServer {
   private isInitialized: boolean = false;
+  // Running tools/call requests by session and request id, so a
+  // notifications/cancelled arriving on another connection can abort them.
+  private inFlight: Map<string, AbortController> = new Map();
+  // clientInfo.name each session sent with initialize, for the audit log.
+  private sessionClients: Map<string, string> = new Map();
   // Version is sourced from the single SERVER_INFO_VERSION constant so the
   // /initialize response, /capabilities, and /mcp/status all agree.
   private serverInfo = {
@@ -506,7 +877,10 @@ export class StreamableMCPServer {
    * Handle incoming MCP requests and return HTTP response
    * Supports single requests, batch requests (arrays), and notifications (requests without id)
    */
-  async handleMCPRequest(requestBody: string): Promise<{
+  async handleMCPRequest(
+    requestBody: string,
+    context: RequestContext = {},
+  ): Promise<{
     status: number;
     statusText: string;
     headers: any;
@@ -563,12 +937,15 @@ export class StreamableMCPServer {
         const responses: MCPResponse[] = [];
         for (const req of parsed) {
           if (isNotification(req)) {
-            await this.processRequest(req as MCPRequest);
+            await this.processRequest(req as MCPRequest, context);
             ztoolkit.log(
               `[StreamableMCP] Processed notification: ${req.method}`,
             );
           } else {
-            const response = await this.processRequest(req as MCPRequest);
+            const response = await this.processRequest(
+              req as MCPRequest,
+              context,
+            );
             responses.push(response);
           }
         }
@@ -595,7 +972,7 @@ export class StreamableMCPServer {
       ztoolkit.log(`[StreamableMCP] Received: ${request.method}`);
 
       if (isNotification(request)) {
-        await this.processRequest(request);
+        await this.processRequest(request, context);
         ztoolkit.log(
           `[StreamableMCP] Processed notification: ${request.method}`,
         );
@@ -607,7 +984,7 @@ export class StreamableMCPServer {
         };
       }
 
-      const response = await this.processRequest(request);
+      const response = await this.processRequest(request, context);
 
       return {
         status: 200,
@@ -641,12 +1018,15 @@ export class StreamableMCPServer {
   /**
    * Process individual MCP requests
    */
-  private async processRequest(request: MCPRequest): Promise<MCPResponse> {
+  private async processRequest(
+    request: MCPRequest,
+    context: RequestContext = {},
+  ): Promise<MCPResponse> {
     const responseId = request.id ?? null;
     try {
       switch (request.method) {
         case "initialize":
-          return this.handleInitialize(request);
+          return this.handleInitialize(request, context);
 
         // MCP spec uses "notifications/initialized"; the bare "initialized"
         // form is a legacy alias kept for non-spec clients. Both flip the
@@ -658,21 +1038,34 @@ export class StreamableMCPServer {
           ztoolkit.log("[StreamableMCP] Client initialized");
           return this.createResponse(responseId, {});
 
-        // Other notifications/* methods are silent no-ops.
         case "notifications/cancelled":
+          this.handleCancelled(request, context);
           return this.createResponse(responseId, {});
 
         case "tools/list":
-          return this.handleToolsList(request);
+          return this.handleToolsList(request, context);
 
         case "tools/call":
-          return await this.handleToolCall(request);
+          return await this.handleToolCall(request, context);
 
         case "resources/list":
-          return this.handleResourcesList(request);
+          return await this.handleResourcesList(request, context);
+
+        case "resources/read":
+          return await this.handleResourcesRead(request, context);
+
+        case "resources/templates/list":
+          return this.handleResourceTemplatesList(request);
+
+        case "resources/subscribe":
+        case "resources/unsubscribe":
+          return this.handleResourceSubscription(request, context);
 
         case "prompts/list":
-          return this.handlePromptsList(request);
+          return this.handlePromptsList(request, context);
+
+        case "prompts/get":
+          return await this.handlePromptsGet(request, context);
 
         case "ping":
           return this.handlePing(request);
@@ -695,8 +1088,20 @@ export class StreamableMCPServer {
     }
   }
 
-  private handleInitialize(request: MCPRequest): MCPResponse {
+  private handleInitialize(
+    request: MCPRequest,
+    context: RequestContext = {},
+  ): MCPResponse {
     const clientInfo = request.params?.clientInfo || {};
+    if (context.sessionId && typeof clientInfo.name === "string") {
+      // Sessions expire in httpServer without telling us; cap the map
+      // rather than track them.
+      if (this.sessionClients.size >= MAX_SESSION_CLIENTS) {
+        const oldest = this.sessionClients.keys().next().value;
+        if (oldest !== undefined) this.sessionClients.delete(oldest);
+      }
+      this.sessionClients.set(context.sessionId, clientInfo.name.slice(0, 100));
+    }
     const requestedVersion = request.params?.protocolVersion;
 
     // Support multiple protocol versions for compatibility.
@@ -709,29 +1114,148 @@ export class StreamableMCPServer {
       `[StreamableMCP] Client initialized: ${clientInfo.name || "unknown"} (protocol ${protocolVersion})`,
     );
 
-    // Only advertise capabilities we actually implement. We don't emit
-    // notifications/tools/list_changed (the tool list does change at runtime
-    // when write scopes toggle, but we have no server-push channel on this
-    // transport), and we don't implement logging/setLevel, prompts, or
-    // resources, so leaving those out avoids -32601 surprises for clients
-    // that test by feature-detecting capabilities.
+    // Only advertise capabilities we actually implement: we don't implement
+    // logging/setLevel, so leaving it out avoids -32601 surprises for clients
+    // that feature-detect. The list_changed / resources/updated notifications
+    // are pushed on the GET /mcp event stream (see notificationHub).
     return this.createResponse(request.id ?? null, {
       protocolVersion,
       capabilities: {
-        tools: {},
+        tools: { listChanged: true },
+        resources: { subscribe: true, listChanged: true },
+        prompts: { listChanged: true },
       },
       serverInfo: this.serverInfo,
     });
   }
 
-  private handleResourcesList(request: MCPRequest): MCPResponse {
-    // Return empty resources list - we don't currently support resources
-    return this.createResponse(request.id, { resources: [] });
+  private async handleResourcesList(
+    request: MCPRequest,
+    context: RequestContext = {},
+  ): Promise<MCPResponse> {
+    const { client } = context;
+    if (
+      !clientAllowsResource(client, "item") &&
+      !clientAllowsResource(client, "collection")
+    ) {
+      return this.createResponse(request.id ?? null, { resources: [] });
+    }
+    const result = await listResources(request.params?.cursor);
+    result.resources = result.resources.filter((resource) => {
+      const ref = parseResourceURI(resource.uri);
+      return ref !== null && clientAllowsResource(client, ref.kind);
+    });
+    return this.createResponse(request.id ?? null, result);
+  }
+
+  /**
+   * Refuse a resource a named client token may not read: one served by a
+   * tool not on its list.
+   */
+  private assertClientMayRead(client: ClientIdentity | undefined, uri: any) {
+    const ref = parseResourceURI(uri);
+    if (client && ref && !clientAllowsResource(client, ref.kind)) {
+      throw new InvalidParamsError(
+        `Client "${client.name}" may not read ${ref.kind} resources`,
+      );
+    }
+  }
+
+  private async handleResourcesRead(
+    request: MCPRequest,
+    context: RequestContext = {},
+  ): Promise<MCPResponse> {
+    const uri = request.params?.uri;
+    if (typeof uri !== "string" || !uri) {
+      throw new InvalidParamsError("uri is required");
+    }
+    this.assertClientMayRead(context.client, uri);
+    try {
+      const contents = await readResource(uri);
+      return this.createResponse(request.id ?? null, { contents });
+    } catch (error) {
+      if (error instanceof InvalidResourceURIError) {
+        throw new InvalidParamsError(error.message);
+      }
+      // MCP reserves -32002 for "resource not found".
+      if (error instanceof ResourceNotFoundError) {
+        return this.createError(request.id ?? null, -32002, error.message, {
+          uri,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private handleResourceSubscription(
+    request: MCPRequest,
+    context: RequestContext,
+  ): MCPResponse {
+    const uri = request.params?.uri;
+    if (!parseResourceURI(uri)) {
+      throw new InvalidParamsError(
+        new InvalidResourceURIError(String(uri)).message,
+      );
+    }
+    // Subscriptions belong to a session; updates are delivered on that
+    // session's GET /mcp stream.
+    if (!context.sessionId) {
+      throw new InvalidParamsError(
+        "Resource subscriptions require an Mcp-Session-Id",
+      );
+    }
+    if (request.method === "resources/subscribe") {
+      this.assertClientMayRead(context.client, uri);
+      notificationHub.subscribe(context.sessionId, uri);
+    } else {
+      notificationHub.unsubscribe(context.sessionId, uri);
+    }
+    return this.createResponse(request.id ?? null, {});
+  }
+
+  private handleResourceTemplatesList(request: MCPRequest): MCPResponse {
+    return this.createResponse(request.id ?? null, {
+      resourceTemplates: RESOURCE_TEMPLATES,
+    });
+  }
+
+  private handlePromptsList(
+    request: MCPRequest,
+    context: RequestContext = {},
+  ): MCPResponse {
+    return this.createResponse(request.id ?? null, {
+      prompts: clientAllowsPrompts(context.client) ? listPrompts() : [],
+    });
   }
 
-  private handlePromptsList(request: MCPRequest): MCPResponse {
-    // Return empty prompts list - we don't currently support prompts
-    return this.createResponse(request.id, { prompts: [] });
+  private async handlePromptsGet(
+    request: MCPRequest,
+    context: RequestContext = {},
+  ): Promise<MCPResponse> {
+    const name = request.params?.name;
+    if (typeof name !== "string" || !name) {
+      throw new InvalidParamsError("name is required");
+    }
+    if (context.client && !clientAllowsPrompts(context.client)) {
+      throw new InvalidParamsError(
+        `Client "${context.client.name}" may not use prompts`,
+      );
+    }
+    try {
+      const result = await getPrompt(name, request.params?.arguments);
+      return this.createResponse(request.id ?? null, result);
+    } catch (error) {
+      // MCP maps both an unknown prompt and bad arguments to -32602.
+      if (
+        error instanceof PromptNotFoundError ||
+        error instanceof PromptArgumentError ||
+        error instanceof LibraryNotFoundError ||
+        error instanceof LibraryMismatchError
+      ) {
+        throw new InvalidParamsError(error.message);
+      }
+      throw error;
+    }
   }
 
   private handlePing(request: MCPRequest): MCPResponse {
@@ -739,12 +1263,25 @@ export class StreamableMCPServer {
     return this.createResponse(request.id, {});
   }
 
-  private handleToolsList(request: MCPRequest): MCPResponse {
+  private handleToolsList(
+    request: MCPRequest,
+    context: RequestContext = {},
+  ): MCPResponse {
+    const { client } = context;
     const tools: Array<{
       name: string;
       description: string;
       inputSchema: Record<string, any>;
     }> = [
+      {
+        name: "list_libraries",
+        description:
+          "List the Zotero libraries this server can read: the personal library and every group library. Pass a libraryID (or library name) to any other tool to work in a group library; results carry library-qualified keys ('<libraryID>/<KEY>') that can be passed back as-is.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
       {
         name: "search_library",
         description:
@@ -832,7 +1369,7 @@ export class StreamableMCPServer {
               type: "number",
               description: "Maximum results to return (overrides mode default)",
             },
-            offset: { type: "number", description: "Pagination offset" },
+            cursor: CURSOR_ARG_PROPERTY,
           },
         },
       },
@@ -902,11 +1439,7 @@ export class StreamableMCPServer {
               default: 15,
               description: "Maximum results",
             },
-            offset: {
-              type: "number",
-              default: 0,
-              description: "Pagination offset",
-            },
+            cursor: CURSOR_ARG_PROPERTY,
           },
           description: "Requires at least one of: q (query), colors, or tags",
         },
@@ -1124,6 +1657,22 @@ export class StreamableMCPServer {
               description:
                 "Output format: json (structured with metadata) or text (plain text)",
             },
+            pages: {
+              type: "string",
+              description:
+                'PDF pages to return, e.g. "7", "3-5", "10-", "1,4,9-12" or "all". PDF attachments then return those pages verbatim with per-page offsets (`pages`: [{page, start, end}]); use mode "complete" to avoid the length limit',
+            },
+            sections: {
+              type: "array",
+              items: { type: "string", enum: [...SECTION_SELECTORS] },
+              description:
+                'PDF sections to return, e.g. ["methods", "results"]; "captions" adds figure and table captions. Sections are found by their headings; PDF attachments then return those sections verbatim with offsets (`sections`: [{type, heading, page, start, end}]) and the document outline. Combines with pages',
+            },
+            outline: {
+              type: "boolean",
+              description:
+                "Include the PDF's outline: detected sections (abstract, introduction, methods, results, discussion, references, ...) with their pages and lengths, and figure/table captions",
+            },
           },
           description: "Requires either itemKey or attachmentKey parameter",
         },
@@ -1179,7 +1728,7 @@ export class StreamableMCPServer {
           properties: {
             collectionKey: { type: "string", description: "Collection key" },
             limit: { type: "number", description: "Maximum results to return" },
-            offset: { type: "number", description: "Pagination offset" },
+            cursor: CURSOR_ARG_PROPERTY,
           },
           required: ["collectionKey"],
         },
@@ -1268,7 +1817,7 @@ export class StreamableMCPServer {
       {
         name: "semantic_search",
         description:
-          "AI-powered semantic search using embeddings. Finds conceptually related content even without exact keyword matches. Supports hybrid search combining semantic and keyword matching.",
+          "AI-powered semantic search using embeddings. Finds conceptually related content even without exact keyword matches. For exact terms (gene names, acronyms, author names) use hybrid_search.",
         inputSchema: {
           type: "object",
           properties: {
@@ -1287,9 +1836,63 @@ export class StreamableMCPServer {
             },
             language: {
               type: "string",
-              enum: ["zh", "en", "all"],
-              description: "Filter by language (default: all)",
+              enum: [...SUPPORTED_LANGUAGES, "all"],
+              description:
+                "Only chunks in this language (ISO 639-1 code). Default all: chunks in the query's detected language, or every language with crossLingual",
+            },
+            crossLingual: {
+              type: "boolean",
+              description:
+                "Search chunks in every language, not just the query's (default: false). Use with a multilingual embedding model to find papers written in other languages.",
+            },
+            ...SEMANTIC_FILTER_PROPERTIES,
+          },
+          required: ["query"],
+        },
+      },
+      {
+        name: "hybrid_search",
+        description:
+          "Hybrid search over indexed full text: BM25 keyword matching plus embedding similarity, fused per item. Best when the query mixes concepts with exact terms such as gene names, acronyms or author names. Each result explains which signal matched (semantic rank/score, keyword rank/score and matched terms). Falls back to keyword-only when no embedding API is configured.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description: "Search query; exact terms are matched as keywords",
+            },
+            topK: {
+              type: "number",
+              description: "Number of results to return (default: 10)",
+            },
+            minScore: {
+              type: "number",
+              description:
+                "Minimum vector similarity 0-1 for the semantic signal (default: 0.1)",
+            },
+            language: {
+              type: "string",
+              enum: [...SUPPORTED_LANGUAGES, "all"],
+              description:
+                "Only chunks in this language (ISO 639-1 code). Default all: keywords match every language, vectors the query's language unless crossLingual",
+            },
+            crossLingual: {
+              type: "boolean",
+              description:
+                "Let the semantic signal match chunks in every language, not just the query's (default: false)",
+            },
+            fusion: {
+              type: "string",
+              enum: ["rrf", "weighted"],
+              description:
+                "rrf (default): reciprocal rank fusion, scale-free. weighted: min-max normalized scores combined with semanticWeight.",
             },
+            semanticWeight: {
+              type: "number",
+              description:
+                "Weight of the semantic signal under weighted fusion, 0-1 (default: 0.5); keyword gets the rest",
+            },
+            ...SEMANTIC_FILTER_PROPERTIES,
           },
           required: ["query"],
         },
@@ -1313,6 +1916,7 @@ export class StreamableMCPServer {
               type: "number",
               description: "Minimum similarity score 0-1 (default: 0.5)",
             },
+            ...SEMANTIC_FILTER_PROPERTIES,
           },
           required: ["itemKey"],
         },
@@ -1326,6 +1930,15 @@ export class StreamableMCPServer {
           properties: {},
         },
       },
+      {
+        name: "semantic_index_progress",
+        description:
+          "Poll the semantic index build: status (indexing, paused, completed, error, aborted), processed/total counts, and items that failed to embed.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
       // Full-text Database Tool (read-only operations)
       {
         name: "fulltext_database",
@@ -1379,10 +1992,50 @@ export class StreamableMCPServer {
               type: "number",
               description: "Maximum tags to return (default: 100)",
             },
-            offset: {
+            cursor: CURSOR_ARG_PROPERTY,
+          },
+        },
+      },
+      {
+        name: "list_saved_searches",
+        description:
+          "List the library's Zotero saved searches with their keys, names and conditions.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "run_saved_search",
+        description:
+          "Run a Zotero saved search by key or name and return the matching items, formatted and paged like search_library.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            searchKey: {
+              type: "string",
+              description: "Saved search key (from list_saved_searches)",
+            },
+            name: {
+              type: "string",
+              description:
+                "Saved search name, used when searchKey is not given (exact, then case-insensitive)",
+            },
+            sort: {
+              type: "string",
+              enum: ["dateAdded", "dateModified", "date", "title", "creator"],
+              description: "Sort order (default: dateAdded)",
+            },
+            direction: {
+              type: "string",
+              enum: ["asc", "desc"],
+              description: "Sort direction (default: desc)",
+            },
+            limit: {
               type: "number",
-              description: "Pagination offset (default: 0)",
+              description: "Maximum results per page (default: 100)",
             },
+            cursor: CURSOR_ARG_PROPERTY,
           },
         },
       },
@@ -1428,6 +2081,82 @@ export class StreamableMCPServer {
           required: ["itemKeys"],
         },
       },
+      {
+        name: "format_citation",
+        description:
+          'Format in-text citations for a document, e.g. "(Smith et al., 2020, p. 14; Lee, 2021)", with a CSL style. Pass every citation cluster of the document in order: all clusters are rendered together so disambiguation, "ibid." and the returned bibliography stay consistent across the whole document.',
+        inputSchema: {
+          type: "object",
+          properties: {
+            citations: {
+              type: "array",
+              maxItems: MAX_CITATION_CLUSTERS,
+              description:
+                "Citation clusters in document order; each cluster is the items cited together at one place",
+              items: {
+                type: "object",
+                properties: {
+                  items: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        itemKey: { type: "string" },
+                        locator: {
+                          type: "string",
+                          description: 'Pinpoint, e.g. "14" or "12-15"',
+                        },
+                        label: {
+                          type: "string",
+                          enum: [...LOCATOR_LABELS],
+                          description: "Locator kind (default: page)",
+                        },
+                        prefix: {
+                          type: "string",
+                          description: 'Text before the item, e.g. "see "',
+                        },
+                        suffix: {
+                          type: "string",
+                          description:
+                            'Text after the item, e.g. ", emphasis added"',
+                        },
+                        suppressAuthor: {
+                          type: "boolean",
+                          description:
+                            'Omit the author, for "Smith (2020) argues …"',
+                        },
+                      },
+                      required: ["itemKey"],
+                    },
+                  },
+                },
+                required: ["items"],
+              },
+            },
+            style: {
+              type: "string",
+              description:
+                'Citation style ID or URL (default: "apa"), e.g. chicago-author-date, chicago-note-bibliography, ieee, vancouver',
+            },
+            format: {
+              type: "string",
+              enum: ["html", "text"],
+              description: "Output format (default: text)",
+            },
+            locale: {
+              type: "string",
+              description:
+                "Locale for terms and dates, e.g. en-GB or de-DE (default: the Quick Copy locale)",
+            },
+            includeBibliography: {
+              type: "boolean",
+              description:
+                "Also return the bibliography of the cited items (default: true)",
+            },
+          },
+          required: ["citations"],
+        },
+      },
       {
         name: "search_by_identifier",
         description:
@@ -1443,33 +2172,165 @@ export class StreamableMCPServer {
             "At least one identifier (doi, isbn, or pmid) is required",
         },
       },
-      // Tier 3: Library introspection and utility read tools
       {
-        name: "get_library_stats",
+        name: "get_references",
         description:
-          "Get summary statistics about the Zotero library: item counts by type, tag count, collection count, and trash count.",
+          "Get an item's bibliography as structured data: parses the References section of its full text into authors, title, year, venue and DOI records, and reports which cited works are already in the library (matched by DOI, PMID, ISBN, arXiv ID or fuzzy title) and which are missing.",
         inputSchema: {
           type: "object",
           properties: {
-            includeTrash: {
+            itemKey: {
+              type: "string",
+              description: "Key of the citing item (its PDF is parsed)",
+            },
+            match: {
               type: "boolean",
-              description: "Include trash count (default: true)",
+              description:
+                "Match each reference against the library (default: true)",
             },
           },
+          required: ["itemKey"],
         },
       },
       {
-        name: "get_item_types",
+        name: "citation_graph",
         description:
-          "List all valid Zotero item types (e.g. journalArticle, book, conferencePaper) with localized names. Useful for discovering what types are available when creating items.",
+          "Build the citation graph of an item or a collection within the library: nodes are library items, edges are 'cites' links found by parsing reference lists (matched by DOI, PMID, ISBN, arXiv ID or title) plus Zotero's 'related' links. Reports in/out-degree per item and the most-cited works, e.g. to find the foundational papers of a project folder. Exports as JSON, GraphML or DOT.",
         inputSchema: {
           type: "object",
-          properties: {},
-        },
-      },
-      {
-        name: "get_creator_types",
-        description:
+          properties: {
+            itemKey: {
+              type: "string",
+              description:
+                "Item to graph: what it cites, and which indexed library items cite it",
+            },
+            collectionKey: {
+              type: "string",
+              description:
+                "Collection to graph: citations among its items and to the rest of the library",
+            },
+            format: {
+              type: "string",
+              enum: ["json", "graphml", "dot"],
+              description:
+                "json: nodes and edges as objects (default); graphml or dot: the graph as a string in that format",
+            },
+            includeRelated: {
+              type: "boolean",
+              description:
+                "Include Zotero's manual 'related' links as undirected edges (default: true)",
+            },
+            maxItems: {
+              type: "number",
+              minimum: 1,
+              maximum: MAX_GRAPH_ITEMS,
+              description: `Collection items whose references are parsed (default: ${DEFAULT_GRAPH_ITEMS})`,
+            },
+          },
+          description: "Requires either itemKey or collectionKey",
+        },
+      },
+      {
+        name: "export_items",
+        description:
+          "Export items as BibTeX, BibLaTeX, RIS or CSL-JSON using Zotero's export translators, or as a Markdown reference list. Citation keys follow a 'Citation Key:' line in the item's Extra field when present (as set by Better BibTeX), so LaTeX documents keep stable keys. Select items by key, by collection or by a quick search.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            itemKeys: {
+              type: "array",
+              items: { type: "string" },
+              description: "Items to export, in output order",
+            },
+            collectionKey: {
+              type: "string",
+              description: "Export the items of this collection",
+            },
+            query: {
+              type: "string",
+              description:
+                "Export the items matching this quick search (all fields and tags)",
+            },
+            format: {
+              type: "string",
+              enum: [...EXPORT_FORMATS],
+              description:
+                "bibtex, biblatex, ris, csljson (CSL-JSON, ids set to citation keys) or markdown",
+            },
+            limit: {
+              type: "number",
+              minimum: 1,
+              maximum: MAX_EXPORT_ITEMS,
+              description: `Maximum items exported from a collection or search (default: ${MAX_EXPORT_ITEMS})`,
+            },
+          },
+          required: ["format"],
+          description:
+            "Requires exactly one of itemKeys, collectionKey or query",
+        },
+      },
+      {
+        name: "find_duplicates",
+        description:
+          "Find likely duplicate items in the library (or a collection, or of one item). Pairs are scored by shared DOI/ISBN/PMID (certain), else by normalized title similarity, creator overlap and year, optionally blended with content-embedding similarity from the semantic index. Returns groups of duplicates, best first; pass a group's keys to merge_items.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            itemKey: {
+              type: "string",
+              description: "Only find duplicates of this item",
+            },
+            collectionKey: {
+              type: "string",
+              description: "Only look for duplicates within this collection",
+            },
+            threshold: {
+              type: "number",
+              minimum: 0,
+              maximum: 1,
+              description: `Minimum pair score to report (default: ${DEFAULT_DUPLICATE_THRESHOLD})`,
+            },
+            useEmbeddings: {
+              type: "boolean",
+              description:
+                "Blend in similarity of indexed content embeddings (default: false)",
+            },
+            limit: {
+              type: "number",
+              minimum: 1,
+              maximum: 500,
+              description: "Maximum groups returned (default: 50)",
+            },
+          },
+        },
+      },
+      // Tier 3: Library introspection and utility read tools
+      {
+        name: "get_library_stats",
+        description:
+          "Get summary statistics about the Zotero library: item counts by type, tag count, collection count, and trash count.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            includeTrash: {
+              type: "boolean",
+              description: "Include trash count (default: true)",
+            },
+          },
+        },
+      },
+      {
+        name: "get_item_types",
+        description:
+          "List all valid Zotero item types (e.g. journalArticle, book, conferencePaper) with localized names. Useful for discovering what types are available when creating items.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "get_creator_types",
+        description:
           "List valid creator types (e.g. author, editor, translator). Optionally filter by item type to see only valid creator types for that type.",
         inputSchema: {
           type: "object",
@@ -1538,13 +2399,62 @@ export class StreamableMCPServer {
           },
         },
       },
+      {
+        name: "get_audit_log",
+        description:
+          "Read the audit log of MCP tool calls made against this Zotero, newest first: time, session, client, tool, arguments (note and annotation text redacted), outcome, duration and the item keys each call touched. Filter to answer questions such as which client trashed an item or what ran last night.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tool: {
+              type: "string",
+              description: "Only calls to this tool",
+            },
+            client: {
+              type: "string",
+              description:
+                "Only calls from this client (the name it sent at initialize, or its client token name)",
+            },
+            sessionId: {
+              type: "string",
+              description: "Only calls in this MCP session",
+            },
+            outcome: {
+              type: "string",
+              enum: ["success", "error", "cancelled"],
+              description: "Only calls with this outcome",
+            },
+            itemKey: {
+              type: "string",
+              description: "Only calls that touched this item",
+            },
+            since: {
+              type: "string",
+              description: "Only calls at or after this ISO date/time",
+            },
+            until: {
+              type: "string",
+              description: "Only calls at or before this ISO date/time",
+            },
+            limit: {
+              type: "number",
+              description: `Maximum entries to return (default: 50, max: ${MAX_AUDIT_LIMIT})`,
+            },
+          },
+        },
+      },
     ];
 
     // Conditionally add write tools, but only those whose scope the user has
     // enabled. Hiding unauthorized tools from tools/list (rather than only
     // rejecting at call time) reduces the chance an LLM tries to use a tool
     // it can't actually invoke, and shrinks the prompt-injection surface.
-    const scopeOn = (s: WriteScope) => serverPreferences.isScopeEnabled(s);
+    // A named client sees only the scopes it was granted as well.
+    const scopeOn = (s: WriteScope) =>
+      serverPreferences.isScopeEnabled(s) && clientAllowsScope(client, s);
+    // The undo tools need no scope of their own; a read-only client has
+    // nothing to undo.
+    const clientWrites = !client || client.scopes.some(scopeOn);
 
     const writeTools: Array<{
       name: string;
@@ -1665,6 +2575,96 @@ export class StreamableMCPServer {
             required: ["name"],
           },
         },
+        {
+          name: "create_saved_search",
+          description:
+            "Save search_library parameters as a Zotero saved search that appears in Zotero and can be run with run_saved_search. Conditions are joined with AND; parameters without a Zotero search condition are refused.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Saved search name (unique in the library)",
+              },
+              q: {
+                type: "string",
+                description: "Match in all fields, notes and full text",
+              },
+              title: { type: "string", description: "Title search" },
+              titleOperator: {
+                type: "string",
+                enum: ["contains", "exact"],
+                description: "Title search operator (default: contains)",
+              },
+              creator: {
+                type: "string",
+                description: "Creator/author name",
+              },
+              creatorOperator: {
+                type: "string",
+                enum: ["contains", "exact"],
+                description: "Creator search operator (default: contains)",
+              },
+              year: { type: "string", description: "Publication year" },
+              yearRange: {
+                type: "string",
+                description:
+                  'Year range (e.g., "2020-2023", "2020-"); undated items do not match',
+              },
+              tags: {
+                type: "string",
+                description: "Tags (comma-separated for multiple)",
+              },
+              tagMode: {
+                type: "string",
+                enum: ["any", "all", "none"],
+                description:
+                  "any (default, one tag only), all, or none of the tags",
+              },
+              tagMatch: {
+                type: "string",
+                enum: ["exact", "contains"],
+                description: "Tag matching: exact (default) or contains",
+              },
+              itemType: {
+                type: "string",
+                description: 'Item type (e.g., "journalArticle", "book")',
+              },
+              collection: {
+                type: "string",
+                description: "Collection key",
+              },
+              publicationTitle: {
+                type: "string",
+                description: "Publication title contains",
+              },
+              abstractText: {
+                type: "string",
+                description: "Abstract contains",
+              },
+              doi: { type: "string", description: "DOI contains" },
+              isbn: { type: "string", description: "ISBN contains" },
+              fulltext: {
+                type: "string",
+                description: "Full-text content; requires fulltextMode",
+              },
+              fulltextMode: {
+                type: "string",
+                enum: ["attachment", "note"],
+                description: "Search attachment full text or note text",
+              },
+              includeAttachments: {
+                type: "boolean",
+                description: "Match attachment items too (default: false)",
+              },
+              includeNotes: {
+                type: "boolean",
+                description: "Match note items too (default: false)",
+              },
+            },
+            required: ["name"],
+          },
+        },
         {
           name: "create_item",
           description:
@@ -1992,6 +2992,57 @@ export class StreamableMCPServer {
             required: ["url"],
           },
         },
+        {
+          name: "import_by_identifier",
+          description:
+            "Add an item to the library from a DOI, ISBN, PMID or arXiv ID, with full metadata " +
+            "fetched by Zotero's identifier translators (as 'Add Item by Identifier' does). " +
+            "Existing items with the same identifier are detected first: by default the " +
+            "existing item is returned (and filed into collectionKey) instead of creating a " +
+            "duplicate. attachPDF fetches an open-access PDF (PubMed Central via EuropePMC, " +
+            "arXiv, or Zotero's open-access lookup) through the import_attachment_url path.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              identifier: {
+                type: "string",
+                description:
+                  "DOI, ISBN, PMID or arXiv ID, bare or as a doi.org/arxiv.org URL " +
+                  "(e.g. '10.1038/nature14539', 'PMID: 26017442', 'arXiv:1706.03762')",
+              },
+              type: {
+                type: "string",
+                enum: [...IDENTIFIER_TYPES],
+                description:
+                  "Identifier kind, when it is ambiguous (default: detected from the value)",
+              },
+              collectionKey: {
+                type: "string",
+                description: "Collection to file the item into",
+              },
+              ifExists: {
+                type: "string",
+                enum: ["add", "skip", "replace"],
+                description:
+                  "What to do when an item with this identifier exists. 'skip' (default) " +
+                  "returns the existing item. 'add' imports a duplicate. 'replace' trashes " +
+                  "the existing items and imports anew (requires delete scope).",
+              },
+              attachPDF: {
+                type: "boolean",
+                description:
+                  "Also attach an open-access PDF when one is found (default: false)",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "If true, no lookup or write happens — return the decision and any " +
+                  "existing items with the identifier.",
+              },
+            },
+            required: ["identifier"],
+          },
+        },
         // Tier 3: Trash, collection, and batch write tools
         {
           name: "restore_from_trash",
@@ -2087,93 +3138,475 @@ export class StreamableMCPServer {
             required: ["itemKey", "fromCollectionKey", "toCollectionKey"],
           },
         },
-      );
-    }
-
-    // Map each write tool to the scope(s) it requires. Only tools whose
-    // scopes are all enabled get advertised. Source of truth lives here in
-    // tools/list; the handlers themselves enforce the same scopes.
-    const WRITE_TOOL_SCOPES: Record<string, WriteScope[]> = {
-      add_note: ["notes"],
-      update_note: ["notes"],
-      add_tags: ["tags"],
-      remove_tags: ["tags"],
-      add_to_collection: ["collections"],
-      remove_from_collection: ["collections"],
-      create_collection: ["collections"],
-      rename_collection: ["collections"],
-      move_collection: ["collections"],
-      move_item_to_collection: ["collections"],
-      create_item: ["metadata"],
-      update_item: ["metadata"],
-      add_related_item: ["metadata"],
-      remove_related_item: ["metadata"],
-      trash_item: ["delete"],
-      restore_from_trash: ["delete"],
-      delete_collection: ["delete"],
-      delete_tag: ["delete", "bulk"],
-      rename_tag: ["tags", "bulk"],
-      batch_tag: ["bulk", "tags"],
-      batch_add_to_collection: ["bulk", "collections"],
-      batch_remove_from_collection: ["bulk", "collections"],
-      batch_trash: ["bulk", "delete"],
-      import_attachment_url: ["import"],
-    };
-
-    for (const wt of writeTools) {
-      const required = WRITE_TOOL_SCOPES[wt.name] || [];
-      if (required.every(scopeOn)) {
-        tools.push(wt);
-      }
-    }
-
-    return this.createResponse(request.id ?? null, { tools });
-  }
-
-  private async handleToolCall(request: MCPRequest): Promise<MCPResponse> {
-    const { name, arguments: args } = request.params;
-
-    try {
-      let result;
-
-      switch (name) {
-        case "search_library":
-          result = await this.callSearchLibrary(args);
-          break;
-
-        case "search_annotations":
-          // q is optional when colors or tags filters are provided
-          if (!args?.q && !args?.colors && !args?.tags) {
-            throw new InvalidParamsError(
-              "Either q (query), colors, or tags filter is required",
-            );
-          }
-          result = await this.callSearchAnnotations(args);
-          break;
-
-        case "get_item_details":
-          if (!args?.itemKey) {
-            throw new InvalidParamsError("itemKey is required");
-          }
-          result = await this.callGetItemDetails(args);
-          break;
-
-        case "get_annotations":
-          if (!args?.itemKey && !args?.annotationId && !args?.annotationIds) {
-            throw new InvalidParamsError(
-              "Either itemKey, annotationId, or annotationIds is required",
-            );
-          }
-          result = await this.callGetAnnotations(args);
-          break;
-
-        case "get_content":
-          if (!args?.itemKey && !args?.attachmentKey) {
-            throw new InvalidParamsError(
-              "Either itemKey or attachmentKey is required",
-            );
+        // Semantic index management
+        {
+          name: "semantic_index_build",
+          description:
+            "Start building the semantic search index in the background and return immediately. Scope it to itemKeys or a collection (including subcollections); omit both to index the whole library. Items already indexed are skipped unless rebuild is true. Poll semantic_index_progress until status is completed before relying on semantic_search for those items.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              itemKeys: {
+                type: "array",
+                items: { type: "string" },
+                description: "Regular items to index",
+              },
+              collectionKey: {
+                type: "string",
+                description:
+                  "Index every regular item in this collection and its subcollections",
+              },
+              rebuild: {
+                type: "boolean",
+                description:
+                  "Delete and re-embed the scoped items' vectors (default: false)",
+              },
+            },
+          },
+        },
+        {
+          name: "semantic_index_control",
+          description:
+            "Pause, resume or abort the running semantic index build.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              action: {
+                type: "string",
+                enum: ["pause", "resume", "abort"],
+                description: "What to do with the running build",
+              },
+            },
+            required: ["action"],
+          },
+        },
+        {
+          name: "semantic_index_retry_failed",
+          description:
+            "Re-run indexing in the background for every item listed as failed by semantic_index_progress.",
+          inputSchema: {
+            type: "object",
+            properties: {},
+          },
+        },
+        {
+          name: "semantic_index_delete",
+          description:
+            "Delete an item's vectors from the semantic index. The item is re-embedded by the next build.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              itemKey: {
+                type: "string",
+                description: "Key of the item whose vectors to delete",
+              },
+            },
+            required: ["itemKey"],
+          },
+        },
+        // Annotation write tools
+        {
+          name: "create_annotation",
+          description:
+            "Create a highlight, underline or note annotation on a PDF, shown in Zotero's reader. The position is found by locating `text` in the PDF's text layer (case, whitespace and line-break hyphenation are ignored). Quote the passage exactly as in the document, e.g. from get_content.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              itemKey: {
+                type: "string",
+                description:
+                  "Key of a PDF attachment, or of a regular item (its first PDF is used)",
+              },
+              type: {
+                type: "string",
+                enum: ["highlight", "underline", "note"],
+                description: "Annotation type (default: highlight)",
+              },
+              text: {
+                type: "string",
+                description:
+                  "Passage to anchor to. Required for highlight and underline; a note is placed next to it",
+              },
+              page: {
+                type: "number",
+                description:
+                  "1-based page to search (default: the first page containing text). Places a note without text at the top of this page",
+              },
+              color: {
+                type: "string",
+                description:
+                  "#rrggbb or yellow, red, green, blue, purple, magenta, orange, gray (default: yellow)",
+              },
+              comment: {
+                type: "string",
+                description:
+                  "Comment shown with the annotation. Required for notes",
+              },
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description: "Tags to add to the annotation",
+              },
+            },
+            required: ["itemKey"],
+          },
+        },
+        {
+          name: "update_annotation",
+          description:
+            "Change the comment, color or tags of an annotation. Annotations stored inside the PDF file cannot be edited.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              annotationKey: {
+                type: "string",
+                description: "Key of the annotation item",
+              },
+              comment: {
+                type: "string",
+                description: "New comment (empty string clears it)",
+              },
+              color: {
+                type: "string",
+                description: "#rrggbb or a color name, as in create_annotation",
+              },
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  "Replace all tags on the annotation (omit to keep existing tags)",
+              },
+            },
+            required: ["annotationKey"],
+          },
+        },
+        {
+          name: "delete_annotation",
+          description:
+            "Permanently delete an annotation. Annotations do not go to the trash.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              annotationKey: {
+                type: "string",
+                description: "Key of the annotation item",
+              },
+            },
+            required: ["annotationKey"],
+          },
+        },
+        {
+          name: "undo_last",
+          description:
+            "Undo the most recent write operation in the library that has not been undone, " +
+            "restoring every item and collection it changed in one transaction. Objects created " +
+            "by the operation go to the trash; erased ones are recreated. Refuses when those " +
+            "objects were changed afterwards, unless force is set. Requires the scopes the " +
+            "original operation required. Repeated calls walk further back.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              force: {
+                type: "boolean",
+                description:
+                  "Overwrite changes made to the affected objects after the operation",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "If true, return what would be restored and removed, without writing",
+              },
+            },
+          },
+        },
+        {
+          name: "undo_operation",
+          description:
+            "Undo one write operation by the operationId returned in its result, as undo_last " +
+            "does. Undoing an undo re-applies the original operation.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              operationId: {
+                type: "string",
+                description: "operationId from a write tool result",
+              },
+              force: {
+                type: "boolean",
+                description:
+                  "Overwrite changes made to the affected objects after the operation",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "If true, return what would be restored and removed, without writing",
+              },
+            },
+            required: ["operationId"],
+          },
+        },
+      );
+    }
+
+    if (scopeOn("merge")) {
+      writeTools.push({
+        name: "merge_items",
+        description:
+          "Merge duplicate items (e.g. a group from find_duplicates) into one master item, " +
+          "as Zotero's Duplicate Items pane does: empty master fields are filled from the " +
+          "others, and their notes, attachments, tags, collections and relations move to " +
+          "the master; the others go to the trash. Items must share an item type. Use " +
+          "dryRun to preview.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            itemKeys: {
+              type: "array",
+              items: { type: "string" },
+              minItems: 2,
+              description: "Items to merge, including the master",
+            },
+            masterKey: {
+              type: "string",
+              description: "Item to keep (default: the oldest, by date added)",
+            },
+            dryRun: {
+              type: "boolean",
+              description:
+                "If true, return the master, the fields that would be filled and what would move, without writing",
+            },
+          },
+          required: ["itemKeys"],
+        },
+      });
+    }
+
+    for (const wt of writeTools) {
+      const required = WRITE_TOOL_SCOPES[wt.name] || [];
+      if (required.every(scopeOn) && (required.length > 0 || clientWrites)) {
+        tools.push(wt);
+      }
+    }
+
+    if (client) {
+      const allowed = tools.filter((tool) =>
+        clientAllowsTool(client, tool.name),
+      );
+      tools.splice(0, tools.length, ...allowed);
+    }
+
+    for (const tool of tools) {
+      const budget = WRITE_TOOL_SCOPES[tool.name] ? {} : BUDGET_ARG_PROPERTIES;
+      const library = LIBRARY_AGNOSTIC_TOOLS.has(tool.name)
+        ? {}
+        : LIBRARY_ARG_PROPERTIES;
+      tool.inputSchema = {
+        ...tool.inputSchema,
+        properties: {
+          ...budget,
+          ...tool.inputSchema.properties,
+          ...library,
+        },
+      };
+    }
+
+    return this.createResponse(request.id ?? null, { tools });
+  }
+
+  /**
+   * Session to keep pagination snapshots and budget continuations under;
+   * none for a minted one.
+   */
+  private snapshotSession(context: RequestContext): string | undefined {
+    return context.sessionMinted ? undefined : context.sessionId;
+  }
+
+  private inFlightKey(sessionId: string | undefined, id: unknown): string {
+    return `${sessionId ?? "-"}:${String(id)}`;
+  }
+
+  /**
+   * Abort the matching in-flight request. Per spec an unknown or already
+   * finished requestId is ignored, as are attempts to cancel requests that
+   * belong to another session.
+   */
+  private handleCancelled(request: MCPRequest, context: RequestContext): void {
+    const requestId = request.params?.requestId;
+    if (requestId === undefined || requestId === null) return;
+    const controller = this.inFlight.get(
+      this.inFlightKey(context.sessionId, requestId),
+    );
+    if (!controller) return;
+    ztoolkit.log(`[StreamableMCP] Cancelling request ${requestId}`);
+    controller.abort(request.params?.reason);
+  }
+
+  /**
+   * Refuse a call outside what a named client token allows: a tool not on
+   * its list, a write needing a scope it lacks, or a write reaching
+   * outside its collections. Undo calls are tagged with the client, so
+   * the handlers only let it undo its own operations. Returns the args to
+   * run the call with.
+   */
+  private async assertClientMayCall(
+    client: ClientIdentity,
+    name: string,
+    args: any,
+  ): Promise<any> {
+    if (!clientAllowsTool(client, name)) {
+      throw new Error(`Client "${client.name}" may not call ${name}`);
+    }
+    const base = WRITE_TOOL_SCOPES[name];
+    if (!base) return args;
+
+    let scopes = requiredScopes(name, args, base);
+    let libraryID = args?.libraryID;
+    if (name === "undo_last" || name === "undo_operation") {
+      args = { ...args, clientID: client.id };
+      const entry =
+        name === "undo_operation"
+          ? await getJournalEntry(args.operationId)
+          : await getLastUndoable(args.libraryID, client.id);
+      // Missing or foreign operations are reported by the handlers.
+      if (!entry) return args;
+      scopes = entry.scopes;
+      libraryID = entry.libraryID;
+    }
+    const missing = scopes.filter((s) => !clientAllowsScope(client, s));
+    if (missing.length > 0) {
+      throw new Error(
+        `Client "${client.name}" lacks the ${missing.join(", ")} write scope${missing.length > 1 ? "s" : ""} needed for ${name}`,
+      );
+    }
+    if (name !== "undo_last" && name !== "undo_operation") {
+      assertWithinCollections(client, name, args, libraryID);
+    }
+    return args;
+  }
+
+  private async handleToolCall(
+    request: MCPRequest,
+    context: RequestContext = {},
+  ): Promise<MCPResponse> {
+    const { name, arguments: rawArgs } = request.params;
+    const reportProgress = createProgressReporter(
+      request.params?._meta?.progressToken,
+      context.notify,
+    );
+    const abortController = new AbortController();
+    const inFlightKey =
+      request.id === undefined || request.id === null
+        ? null
+        : this.inFlightKey(context.sessionId, request.id);
+    if (inFlightKey) this.inFlight.set(inFlightKey, abortController);
+    const control: TaskControl = {
+      signal: abortController.signal,
+      onProgress: reportProgress,
+    };
+    let mutation: PendingMutation | null = null;
+    const startedAt = Date.now();
+
+    try {
+      reportProgress(0, undefined, `Running ${name}`);
+      let result;
+
+      // Resolve libraryID/library and strip '<libraryID>/<KEY>' qualifiers
+      // once, up front, so every handler below sees plain keys plus a
+      // numeric args.libraryID.
+      let args: any = rawArgs;
+      if (!LIBRARY_AGNOSTIC_TOOLS.has(name)) {
+        try {
+          args = normalizeLibraryArgs(rawArgs);
+        } catch (error) {
+          if (
+            error instanceof LibraryNotFoundError ||
+            error instanceof LibraryMismatchError
+          ) {
+            throw new InvalidParamsError(error.message);
+          }
+          throw error;
+        }
+      }
+
+      if (context.client) {
+        args = await this.assertClientMayCall(context.client, name, args);
+      } else if (args?.clientID !== undefined) {
+        // Only the server tags a call with its client.
+        args = { ...args, clientID: undefined };
+      }
+
+      const budgeted =
+        !WRITE_TOOL_SCOPES[name] &&
+        (args?.maxTokens !== undefined || args?.continuation !== undefined);
+      if (budgeted) assertBudgetArgs(args);
+
+      // A continuation pages the result held from the earlier call.
+      if (budgeted && args.continuation !== undefined) {
+        result = await this.continueBudget(name, args, context);
+        this.auditToolCall(name, rawArgs, context, startedAt, "success", {
+          result,
+        });
+        return this.createToolResult(request.id ?? null, result, true);
+      }
+
+      // Record prior state of what a write may touch, so it can be undone.
+      if (WRITE_TOOL_SCOPES[name]) {
+        mutation = await beginMutation(
+          name,
+          args,
+          WRITE_TOOL_SCOPES[name],
+          context.client?.id,
+        );
+      }
+
+      switch (name) {
+        case "list_libraries":
+          result = this.callListLibraries();
+          break;
+
+        case "search_library":
+          result = await this.callSearchLibrary(
+            args,
+            this.snapshotSession(context),
+          );
+          break;
+
+        case "search_annotations":
+          // q is optional when colors or tags filters are provided
+          if (!args?.q && !args?.colors && !args?.tags) {
+            throw new InvalidParamsError(
+              "Either q (query), colors, or tags filter is required",
+            );
+          }
+          result = await this.callSearchAnnotations(
+            args,
+            this.snapshotSession(context),
+          );
+          break;
+
+        case "get_item_details":
+          if (!args?.itemKey) {
+            throw new InvalidParamsError("itemKey is required");
+          }
+          result = await this.callGetItemDetails(args);
+          break;
+
+        case "get_annotations":
+          if (!args?.itemKey && !args?.annotationId && !args?.annotationIds) {
+            throw new InvalidParamsError(
+              "Either itemKey, annotationId, or annotationIds is required",
+            );
+          }
+          result = await this.callGetAnnotations(args);
+          break;
+
+        case "get_content":
+          if (!args?.itemKey && !args?.attachmentKey) {
+            throw new InvalidParamsError(
+              "Either itemKey or attachmentKey is required",
+            );
           }
-          result = await this.callGetContent(args);
+          result = await this.callGetContent(args, control);
           break;
 
         case "get_collections":
@@ -2188,14 +3621,20 @@ export class StreamableMCPServer {
           if (!args?.collectionKey) {
             throw new InvalidParamsError("collectionKey is required");
           }
-          result = await this.callGetCollectionDetails(args.collectionKey);
+          result = await this.callGetCollectionDetails(
+            args.collectionKey,
+            args.libraryID,
+          );
           break;
 
         case "get_collection_items":
           if (!args?.collectionKey) {
             throw new InvalidParamsError("collectionKey is required");
           }
-          result = await this.callGetCollectionItems(args);
+          result = await this.callGetCollectionItems(
+            args,
+            this.snapshotSession(context),
+          );
           break;
 
         case "get_subcollections":
@@ -2224,7 +3663,24 @@ export class StreamableMCPServer {
           if (!args?.query) {
             throw new InvalidParamsError("query is required");
           }
-          result = await this.callSemanticSearch(args);
+          assertSearchLanguage(args.language);
+          result = await this.callSemanticSearch(args, control);
+          break;
+
+        case "hybrid_search":
+          if (!args?.query) {
+            throw new InvalidParamsError("query is required");
+          }
+          assertSearchLanguage(args.language);
+          if (
+            args.semanticWeight !== undefined &&
+            !(args.semanticWeight >= 0 && args.semanticWeight <= 1)
+          ) {
+            throw new InvalidParamsError(
+              "semanticWeight must be between 0 and 1",
+            );
+          }
+          result = await this.callHybridSearch(args, control);
           break;
 
         case "find_similar":
@@ -2247,7 +3703,24 @@ export class StreamableMCPServer {
 
         // Tier 1: Tag browsing
         case "get_tags":
-          result = await this.callGetTags(args || {});
+          result = await this.callGetTags(
+            args || {},
+            this.snapshotSession(context),
+          );
+          break;
+
+        case "list_saved_searches":
+          result = await this.callListSavedSearches(args || {});
+          break;
+
+        case "run_saved_search":
+          if (!args?.searchKey && !args?.name && !args?.cursor) {
+            throw new InvalidParamsError("searchKey or name is required");
+          }
+          result = await this.callRunSavedSearch(
+            args,
+            this.snapshotSession(context),
+          );
           break;
 
         // Tier 2: Read tools
@@ -2267,6 +3740,23 @@ export class StreamableMCPServer {
           result = await this.callGenerateBibliography(args);
           break;
 
+        case "format_citation":
+          try {
+            args.citations = parseCitationClusters(args?.citations);
+          } catch (error) {
+            throw new InvalidParamsError(
+              error instanceof Error ? error.message : String(error),
+            );
+          }
+          if (
+            args.format !== undefined &&
+            !["html", "text"].includes(args.format)
+          ) {
+            throw new InvalidParamsError("format must be one of: html, text");
+          }
+          result = await this.callFormatCitation(args);
+          break;
+
         case "search_by_identifier":
           if (!args?.doi && !args?.isbn && !args?.pmid) {
             throw new InvalidParamsError(
@@ -2276,6 +3766,122 @@ export class StreamableMCPServer {
           result = await this.callSearchByIdentifier(args);
           break;
 
+        case "get_references":
+          if (!args?.itemKey) {
+            throw new InvalidParamsError("itemKey is required");
+          }
+          if (args.match !== undefined && typeof args.match !== "boolean") {
+            throw new InvalidParamsError("match must be a boolean");
+          }
+          result = await this.callGetReferences(args, control);
+          break;
+
+        case "citation_graph":
+          if (!args?.itemKey === !args?.collectionKey) {
+            throw new InvalidParamsError(
+              "Exactly one of itemKey or collectionKey is required",
+            );
+          }
+          if (
+            args.format !== undefined &&
+            !["json", "graphml", "dot"].includes(args.format)
+          ) {
+            throw new InvalidParamsError(
+              "format must be one of: json, graphml, dot",
+            );
+          }
+          if (
+            args.maxItems !== undefined &&
+            !(
+              Number.isInteger(args.maxItems) &&
+              args.maxItems >= 1 &&
+              args.maxItems <= MAX_GRAPH_ITEMS
+            )
+          ) {
+            throw new InvalidParamsError(
+              `maxItems must be an integer between 1 and ${MAX_GRAPH_ITEMS}`,
+            );
+          }
+          result = await this.callCitationGraph(args, control);
+          break;
+
+        case "export_items":
+          if (
+            [args?.itemKeys, args?.collectionKey, args?.query].filter(
+              (source) => source !== undefined,
+            ).length !== 1
+          ) {
+            throw new InvalidParamsError(
+              "Exactly one of itemKeys, collectionKey or query is required",
+            );
+          }
+          if (
+            args.itemKeys !== undefined &&
+            (!Array.isArray(args.itemKeys) || args.itemKeys.length === 0)
+          ) {
+            throw new InvalidParamsError(
+              "itemKeys must be a non-empty array of item keys",
+            );
+          }
+          if (
+            args.query !== undefined &&
+            (typeof args.query !== "string" || !args.query.trim())
+          ) {
+            throw new InvalidParamsError("query must be a non-empty string");
+          }
+          if (!(EXPORT_FORMATS as readonly string[]).includes(args.format)) {
+            throw new InvalidParamsError(
+              `format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+            );
+          }
+          if (
+            args.limit !== undefined &&
+            !(
+              Number.isInteger(args.limit) &&
+              args.limit >= 1 &&
+              args.limit <= MAX_EXPORT_ITEMS
+            )
+          ) {
+            throw new InvalidParamsError(
+              `limit must be an integer between 1 and ${MAX_EXPORT_ITEMS}`,
+            );
+          }
+          result = await this.callExportItems(args);
+          break;
+
+        case "find_duplicates":
+          if (args?.itemKey && args?.collectionKey) {
+            throw new InvalidParamsError(
+              "Pass either itemKey or collectionKey, not both",
+            );
+          }
+          if (
+            args?.threshold !== undefined &&
+            !(
+              typeof args.threshold === "number" &&
+              args.threshold >= 0 &&
+              args.threshold <= 1
+            )
+          ) {
+            throw new InvalidParamsError(
+              "threshold must be a number between 0 and 1",
+            );
+          }
+          if (
+            args?.limit !== undefined &&
+            !(
+              Number.isInteger(args.limit) &&
+              args.limit >= 1 &&
+              args.limit <= 500
+            )
+          ) {
+            throw new InvalidParamsError(
+              "limit must be an integer between 1 and 500",
+            );
+          }
+          result = await this.callFindDuplicates(args || {}, control);
+          break;
+
         // Write Tools
         case "add_note":
           result = await handleAddNote(args);
@@ -2301,6 +3907,13 @@ export class StreamableMCPServer {
           result = await handleCreateCollection(args);
           break;
 
+        case "create_saved_search":
+          if (!args?.name) {
+            throw new InvalidParamsError("name is required");
+          }
+          result = await handleCreateSavedSearch(args);
+          break;
+
         case "create_item":
           result = await handleCreateItem(args);
           break;
@@ -2321,11 +3934,11 @@ export class StreamableMCPServer {
           break;
 
         case "batch_tag":
-          result = await handleBatchTag(args);
+          result = await handleBatchTag(args, control);
           break;
 
         case "batch_add_to_collection":
-          result = await handleBatchAddToCollection(args);
+          result = await handleBatchAddToCollection(args, control);
           break;
 
         // Tier 1: Additional write tools
@@ -2366,6 +3979,13 @@ export class StreamableMCPServer {
           result = await handleImportAttachmentURL(args);
           break;
 
+        case "import_by_identifier":
+          if (!args?.identifier) {
+            throw new InvalidParamsError("identifier is required");
+          }
+          result = await handleImportByIdentifier(args, control);
+          break;
+
         // Tier 3: Read tools
         case "get_library_stats":
           result = await this.callGetLibraryStats(args || {});
@@ -2394,6 +4014,10 @@ export class StreamableMCPServer {
           result = await this.callGetRecentlyModified(args || {});
           break;
 
+        case "get_audit_log":
+          result = await this.callGetAuditLog(args || {}, context);
+          break;
+
         // Tier 3: Write tools
         case "restore_from_trash":
           result = await handleRestoreFromTrash(args);
@@ -2404,38 +4028,149 @@ export class StreamableMCPServer {
           break;
 
         case "batch_remove_from_collection":
-          result = await handleBatchRemoveFromCollection(args);
+          result = await handleBatchRemoveFromCollection(args, control);
           break;
 
         case "batch_trash":
-          result = await handleBatchTrash(args);
+          result = await handleBatchTrash(args, control);
           break;
 
         case "move_item_to_collection":
           result = await handleMoveItemToCollection(args);
           break;
 
+        // Semantic index management
+        case "semantic_index_build":
+          result = await handleSemanticIndexBuild(args);
+          break;
+
+        case "semantic_index_control":
+          if (!args?.action) {
+            throw new InvalidParamsError("action is required");
+          }
+          result = await handleSemanticIndexControl(args);
+          break;
+
+        case "semantic_index_progress":
+          result = await handleSemanticIndexProgress();
+          break;
+
+        case "semantic_index_retry_failed":
+          result = await handleSemanticIndexRetryFailed();
+          break;
+
+        case "semantic_index_delete":
+          if (!args?.itemKey) {
+            throw new InvalidParamsError("itemKey is required");
+          }
+          result = await handleSemanticIndexDelete(args);
+          break;
+
+        // Annotation write tools
+        case "create_annotation":
+          if (!args?.itemKey) {
+            throw new InvalidParamsError("itemKey is required");
+          }
+          if (args.page !== undefined && !Number.isInteger(args.page)) {
+            throw new InvalidParamsError("page must be an integer");
+          }
+          result = await handleCreateAnnotation(args);
+          break;
+
+        case "update_annotation":
+          if (!args?.annotationKey) {
+            throw new InvalidParamsError("annotationKey is required");
+          }
+          result = await handleUpdateAnnotation(args);
+          break;
+
+        case "delete_annotation":
+          if (!args?.annotationKey) {
+            throw new InvalidParamsError("annotationKey is required");
+          }
+          result = await handleDeleteAnnotation(args);
+          break;
+
+        case "merge_items":
+          if (!Array.isArray(args?.itemKeys) || args.itemKeys.length < 2) {
+            throw new InvalidParamsError(
+              "itemKeys must be an array of at least two item keys",
+            );
+          }
+          result = await handleMergeItems(args);
+          break;
+
+        case "undo_last":
+          result = await handleUndoLast(args || {});
+          break;
+
+        case "undo_operation":
+          if (!args?.operationId) {
+            throw new InvalidParamsError("operationId is required");
+          }
+          result = await handleUndoOperation(args);
+          break;
+
         default:
           throw new InvalidParamsError(`Unknown tool: ${name}`);
       }
 
-      // String results (e.g. get_content with format:"text") are returned as
-      // plain text. Objects/arrays are JSON-stringified. Either way, the
-      // MCP `content` array carries the value.
-      const text =
-        typeof result === "string" ? result : JSON.stringify(result, null, 2);
-      return this.createResponse(request.id ?? null, {
-        content: [{ type: "text", text }],
-        isError: false,
+      const entry = await mutation?.finish({ result });
+      if (entry && result && typeof result === "object") {
+        result.operationId = entry.id;
+      }
+      this.auditToolCall(name, rawArgs, context, startedAt, "success", {
+        result,
+        journal: entry,
       });
+      if (budgeted) {
+        result = await applyTokenBudget(result, args.maxTokens, {
+          tool: name,
+          clientID: context.client?.id,
+          sessionId: this.snapshotSession(context),
+        });
+      }
+      return this.createToolResult(request.id ?? null, result, budgeted);
     } catch (error) {
       ztoolkit.log(`[StreamableMCP] Tool call error for ${name}: ${error}`);
+      // A write that failed partway is journaled with what it did change.
+      const entry = await mutation?.finish({ error });
+      this.auditToolCall(
+        name,
+        rawArgs,
+        context,
+        startedAt,
+        error instanceof RequestCancelledError || abortController.signal.aborted
+          ? "cancelled"
+          : "error",
+        { journal: entry, error },
+      );
 
       // Argument validation → JSON-RPC -32602.
-      if (error instanceof InvalidParamsError) {
+      if (
+        error instanceof InvalidParamsError ||
+        error instanceof CursorError ||
+        error instanceof SavedSearchError
+      ) {
         return this.createError(request.id ?? null, -32602, error.message);
       }
 
+      // Cancelled by the client → -32800. Handlers that swallow errors per
+      // item can still surface a generic failure after the abort, so the
+      // signal is the authority here, not the error type.
+      if (
+        error instanceof RequestCancelledError ||
+        abortController.signal.aborted
+      ) {
+        return this.createError(
+          request.id ?? null,
+          -32800,
+          error instanceof RequestCancelledError
+            ? error.message
+            : "Request cancelled",
+        );
+      }
+
       // Per MCP spec, tool execution failures should be reported inside the
       // result with isError:true so the LLM can read the error text and
       // self-correct. Argument validation is the protocol-error path; tool
@@ -2451,10 +4186,12 @@ export class StreamableMCPServer {
         ],
         isError: true,
       });
+    } finally {
+      if (inFlightKey) this.inFlight.delete(inFlightKey);
     }
   }
 
-  private async callSearchLibrary(args: any): Promise<any> {
+  private async callSearchLibrary(args: any, sessionId?: string): Promise<any> {
     // Apply mode-based defaults before creating search params
     const effectiveMode = args.mode || MCPSettingsService.get("content.mode");
     const modeConfig = this.getSearchModeConfiguration(effectiveMode);
@@ -2475,7 +4212,7 @@ export class StreamableMCPServer {
       }
     }
 
-    const response = await handleSearch(searchParams);
+    const response = await handleSearch(searchParams, sessionId);
     const result = response.body ? JSON.parse(response.body) : response;
 
     // Add mode information to metadata
@@ -2495,15 +4232,21 @@ export class StreamableMCPServer {
     return applyGlobalAIInstructions(result, "search_library");
   }
 
-  private async callSearchAnnotations(args: any): Promise<any> {
-    const extractor = new SmartAnnotationExtractor();
-    const { q, ...options } = args;
-    const result = await extractor.searchAnnotations(q, options);
+  private async callSearchAnnotations(
+    args: any,
+    sessionId?: string,
+  ): Promise<any> {
+    const { q, libraryID, ...options } = args;
+    const extractor = new SmartAnnotationExtractor(libraryID);
+    const result = await extractor.searchAnnotations(q, {
+      ...options,
+      sessionId,
+    });
     return applyGlobalAIInstructions(result, "search_annotations");
   }
 
   private async callGetItemDetails(args: any): Promise<any> {
-    const { itemKey, mode } = args;
+    const { itemKey, mode, libraryID } = args;
 
     const { handleGetItem } = await import("./apiHandlers");
     const { ALL_FIELDS_SENTINEL } = await import("./itemFormatter");
@@ -2511,6 +4254,7 @@ export class StreamableMCPServer {
     const effectiveMode = mode || MCPSettingsService.get("content.mode");
 
     const queryParams = new URLSearchParams();
+    queryParams.append("libraryID", String(libraryID));
     if (effectiveMode === "complete") {
       // Sentinel tells formatItem to enumerate every applicable field via
       // Zotero.ItemFields.getItemTypeFields, so "complete" really means
@@ -2539,14 +4283,42 @@ export class StreamableMCPServer {
   }
 
   private async callGetAnnotations(args: any): Promise<any> {
-    const extractor = new SmartAnnotationExtractor();
-    const result = await extractor.getAnnotations(args);
+    const { libraryID, ...params } = args;
+    const extractor = new SmartAnnotationExtractor(libraryID);
+    const result = await extractor.getAnnotations(params);
     return applyGlobalAIInstructions(result, "get_annotations");
   }
 
-  private async callGetContent(args: any): Promise<any> {
-    const { itemKey, attachmentKey, include, format, mode, contentControl } =
-      args;
+  private async callGetContent(
+    args: any,
+    control: TaskControl = {},
+  ): Promise<any> {
+    const {
+      itemKey,
+      attachmentKey,
+      include,
+      format,
+      mode,
+      contentControl,
+      libraryID,
+    } = args;
+    const selection: PDFSelection = {};
+    try {
+      if (args.pages !== undefined) {
+        selection.pages = parsePageRanges(args.pages);
+      }
+      if (args.sections !== undefined) {
+        selection.sections = parseSectionSelectors(args.sections);
+      }
+    } catch (error) {
+      throw new InvalidParamsError(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    if (args.outline !== undefined && typeof args.outline !== "boolean") {
+      throw new InvalidParamsError("outline must be a boolean");
+    }
+    selection.outline = args.outline;
     const extractor = new UnifiedContentExtractor();
 
     try {
@@ -2559,6 +4331,9 @@ export class StreamableMCPServer {
           include || {},
           mode,
           contentControl,
+          libraryID,
+          control,
+          selection,
         );
       } else if (attachmentKey) {
         // Get content from specific attachment with unified mode control and content control parameters
@@ -2566,6 +4341,9 @@ export class StreamableMCPServer {
           attachmentKey,
           mode,
           contentControl,
+          libraryID,
+          control,
+          selection,
         );
       } else {
         throw new InvalidParamsError(
@@ -2577,7 +4355,7 @@ export class StreamableMCPServer {
       if (format === "text" && itemKey) {
         return extractor.convertToText(result);
       } else if (format === "text" && attachmentKey) {
-        return result.content || "";
+        return extractor.attachmentToText(result);
       }
 
       return applyGlobalAIInstructions(result, "get_content");
@@ -2638,16 +4416,22 @@ export class StreamableMCPServer {
     return applyGlobalAIInstructions(result, "search_collections");
   }
 
-  private async callGetCollectionDetails(collectionKey: string): Promise<any> {
+  private async callGetCollectionDetails(
+    collectionKey: string,
+    libraryID: number,
+  ): Promise<any> {
     const response = await handleGetCollectionDetails(
       { 1: collectionKey },
-      new URLSearchParams(),
+      new URLSearchParams({ libraryID: String(libraryID) }),
     );
     const result = response.body ? JSON.parse(response.body) : response;
     return applyGlobalAIInstructions(result, "get_collection_details");
   }
 
-  private async callGetCollectionItems(args: any): Promise<any> {
+  private async callGetCollectionItems(
+    args: any,
+    sessionId?: string,
+  ): Promise<any> {
     const { collectionKey, ...otherArgs } = args;
     const itemParams = new URLSearchParams();
     for (const [key, value] of Object.entries(otherArgs)) {
@@ -2658,9 +4442,19 @@ export class StreamableMCPServer {
     const response = await handleGetCollectionItems(
       { 1: collectionKey },
       itemParams,
+      sessionId,
     );
     const result = response.body ? JSON.parse(response.body) : response;
-    return applyGlobalAIInstructions(result, "get_collection_items");
+    const wrapped = applyGlobalAIInstructions(result, "get_collection_items");
+    if (response.status === 200) {
+      const nextCursor = response.headers?.["X-Next-Cursor"];
+      wrapped.metadata.pagination = {
+        total: Number(response.headers?.["X-Total-Count"]),
+        hasMore: nextCursor !== undefined,
+        nextCursor,
+      };
+    }
+    return wrapped;
   }
 
   private async callGetSubcollections(args: any): Promise<any> {
@@ -2734,37 +4528,90 @@ export class StreamableMCPServer {
     return applyGlobalAIInstructions(result, "get_item_abstract");
   }
 
-  // ============ Semantic Search Methods ============
-
-  private async callSemanticSearch(args: any): Promise<any> {
+  // ============ Semantic Search Methods ============
+
+  private async callSemanticSearch(
+    args: any,
+    control: TaskControl = {},
+  ): Promise<any> {
+    try {
+      const semanticService = getSemanticSearchService();
+
+      const filters = parseSemanticFilters(args);
+      const results = await semanticService.search(args.query, {
+        topK: args.topK,
+        minScore: args.minScore,
+        language: args.language,
+        crossLingual: args.crossLingual === true,
+        filters,
+        libraryID: args.libraryID,
+        signal: control.signal,
+        onProgress: control.onProgress,
+      });
+
+      const response = {
+        mode: "semantic",
+        query: args.query,
+        data: results,
+        metadata: {
+          extractedAt: new Date().toISOString(),
+          searchMode: "semantic",
+          resultCount: results.length,
+          ...(Object.keys(filters).length > 0 && { filters }),
+          fallbackMode:
+            semanticService.getIndexProgress().status === "idle"
+              ? (await semanticService.getStats()).serviceStatus.fallbackMode
+              : false,
+        },
+      };
+
+      return applyGlobalAIInstructions(response, "semantic_search");
+    } catch (error) {
+      ztoolkit.log(`[StreamableMCP] Semantic search error: ${error}`, "error");
+      throw error;
+    }
+  }
+
+  private async callHybridSearch(
+    args: any,
+    control: TaskControl = {},
+  ): Promise<any> {
     try {
       const semanticService = getSemanticSearchService();
-      await semanticService.initialize();
+      const fusion = args.fusion === "weighted" ? "weighted" : "rrf";
 
-      const results = await semanticService.search(args.query, {
+      const filters = parseSemanticFilters(args);
+      const results = await semanticService.hybridSearch(args.query, {
         topK: args.topK,
         minScore: args.minScore,
         language: args.language,
+        crossLingual: args.crossLingual === true,
+        filters,
+        libraryID: args.libraryID,
+        fusion,
+        semanticWeight: args.semanticWeight,
+        signal: control.signal,
+        onProgress: control.onProgress,
       });
 
       const response = {
-        mode: "semantic",
+        mode: "hybrid",
         query: args.query,
         data: results,
         metadata: {
           extractedAt: new Date().toISOString(),
-          searchMode: "semantic",
+          searchMode: "hybrid",
+          fusion,
           resultCount: results.length,
-          fallbackMode:
-            semanticService.getIndexProgress().status === "idle"
-              ? (await semanticService.getStats()).serviceStatus.fallbackMode
-              : false,
+          ...(Object.keys(filters).length > 0 && { filters }),
+          keywordOnly: (await semanticService.getStats()).serviceStatus
+            .fallbackMode,
         },
       };
 
-      return applyGlobalAIInstructions(response, "semantic_search");
+      return applyGlobalAIInstructions(response, "hybrid_search");
     } catch (error) {
-      ztoolkit.log(`[StreamableMCP] Semantic search error: ${error}`, "error");
+      ztoolkit.log(`[StreamableMCP] Hybrid search error: ${error}`, "error");
       throw error;
     }
   }
@@ -2774,9 +4621,12 @@ export class StreamableMCPServer {
       const semanticService = getSemanticSearchService();
       await semanticService.initialize();
 
+      const filters = parseSemanticFilters(args);
       const results = await semanticService.findSimilar(args.itemKey, {
         topK: args.topK,
         minScore: args.minScore,
+        libraryID: args.libraryID,
+        filters,
       });
 
       const response = {
@@ -2786,6 +4636,7 @@ export class StreamableMCPServer {
         metadata: {
           extractedAt: new Date().toISOString(),
           resultCount: results.length,
+          ...(Object.keys(filters).length > 0 && { filters }),
         },
       };
 
@@ -2968,6 +4819,7 @@ export class StreamableMCPServer {
                 totalVectors: stats.totalVectors,
                 zhVectors: stats.zhVectors,
                 enVectors: stats.enVectors,
+                languages: stats.languages,
               },
               metadata: {
                 extractedAt: new Date().toISOString(),
@@ -3000,39 +4852,209 @@ export class StreamableMCPServer {
 
   // --- Tier 1 & 2: Inline read tool methods ---
 
-  private async callGetTags(args: any): Promise<any> {
-    const libraryID = Zotero.Libraries.userLibraryID;
-    let tags: Array<{ tag: string; type?: number }> =
-      await Zotero.Tags.getAll(libraryID);
+  /**
+   * A named client token only sees its own calls; the primary token sees
+   * every client's.
+   */
+  private async callGetAuditLog(
+    args: any,
+    context: RequestContext = {},
+  ): Promise<any> {
+    for (const field of ["since", "until"]) {
+      if (args[field] !== undefined && isNaN(Date.parse(args[field]))) {
+        throw new InvalidParamsError(`${field} must be an ISO date/time`);
+      }
+    }
+    if (
+      args.outcome !== undefined &&
+      !["success", "error", "cancelled"].includes(args.outcome)
+    ) {
+      throw new InvalidParamsError(
+        "outcome must be one of success, error, cancelled",
+      );
+    }
+    const { entries, total } = await queryAuditLog({
+      tool: args.tool,
+      client: args.client,
+      tokenClientID: context.client?.id,
+      sessionId: args.sessionId,
+      outcome: args.outcome,
+      itemKey: args.itemKey,
+      since: args.since,
+      until: args.until,
+      limit: args.limit,
+    });
+    return applyGlobalAIInstructions(
+      {
+        entries,
+        count: entries.length,
+        total,
+        enabled: serverPreferences.isAuditEnabled(),
+      },
+      "get_audit_log",
+    );
+  }
+
+  /**
+   * String results (e.g. get_content with format:"text") are returned as
+   * plain text. Objects/arrays are JSON-stringified, compactly when on a
+   * token budget. Either way, the MCP `content` array carries the value.
+   */
+  private createToolResult(
+    id: string | number | null,
+    result: any,
+    compact: boolean,
+  ): MCPResponse {
+    const text =
+      typeof result === "string"
+        ? result
+        : JSON.stringify(result, null, compact ? undefined : 2);
+    return this.createResponse(id, {
+      content: [{ type: "text", text }],
+      isError: false,
+    });
+  }
 
-    // Filter by query if provided
-    if (args.q) {
-      const query = args.q.toLowerCase();
-      tags = tags.filter((t) => t.tag.toLowerCase().includes(query));
+  private async continueBudget(
+    name: string,
+    args: any,
+    context: RequestContext,
+  ): Promise<any> {
+    try {
+      return await continueTokenBudget(args.continuation, args.maxTokens, {
+        tool: name,
+        clientID: context.client?.id,
+        sessionId: this.snapshotSession(context),
+      });
+    } catch (error) {
+      if (error instanceof ContinuationError) {
+        throw new InvalidParamsError(error.message);
+      }
+      throw error;
     }
+  }
 
-    const total = tags.length;
-    const offset = args.offset || 0;
-    const limit = args.limit || 100;
-    const paginated = tags.slice(offset, offset + limit);
+  /**
+   * Record a finished tools/call in the audit log. `rawArgs` are the
+   * arguments as the client sent them, before library normalization.
+   */
+  private auditToolCall(
+    name: string,
+    rawArgs: any,
+    context: RequestContext,
+    startedAt: number,
+    outcome: AuditOutcome,
+    details: { result?: any; journal?: JournalEntry | null; error?: unknown },
+  ): void {
+    const args = rawArgs && typeof rawArgs === "object" ? rawArgs : {};
+    recordToolCall({
+      timestamp: new Date(startedAt).toISOString(),
+      sessionId: context.sessionId,
+      client: context.sessionId
+        ? this.sessionClients.get(context.sessionId)
+        : undefined,
+      tokenClient: context.client?.name,
+      tokenClientID: context.client?.id,
+      tool: String(name),
+      arguments: redactArguments(args),
+      outcome,
+      error:
+        details.error === undefined
+          ? undefined
+          : details.error instanceof Error
+            ? details.error.message
+            : String(details.error),
+      durationMs: Date.now() - startedAt,
+      itemKeys: auditItemKeys(name, args, details.result, details.journal),
+      operationId: details.journal?.id,
+    });
+  }
+
+  private callListLibraries(): any {
+    const userLibraryID = Zotero.Libraries.userLibraryID;
+    const libraries = listLibraries().map((lib) => {
+      // Read-only group memberships can never be written, whatever the prefs say.
+      const writeScopes = lib.editable
+        ? serverPreferences.getEnabledScopesForLibrary(lib.libraryID)
+        : [];
+      return {
+        ...lib,
+        isDefault: lib.libraryID === userLibraryID,
+        writeScopes,
+      };
+    });
+
+    return applyGlobalAIInstructions(
+      { libraries, count: libraries.length },
+      "list_libraries",
+    );
+  }
+
+  private async callGetTags(args: any, sessionId?: string): Promise<any> {
+    const libraryID = args.libraryID;
+    let tags: Array<{ tag: string; type?: number }> =
+      await Zotero.Tags.getAll(libraryID);
+    // Tag names are the snapshot's IDs, and only mean something in one
+    // library.
+    const tool = `get_tags:${libraryID}`;
+
+    let page: Page<string>;
+    if (args.cursor) {
+      page = continuePagination<string>(
+        sessionId,
+        tool,
+        args.cursor,
+        args.limit,
+      );
+    } else {
+      // Filter by query if provided
+      if (args.q) {
+        const query = args.q.toLowerCase();
+        tags = tags.filter((t) => t.tag.toLowerCase().includes(query));
+      }
+      page = startPagination(
+        sessionId,
+        tool,
+        tags.map((t) => t.tag),
+        { limit: args.limit || 100, offset: args.offset },
+      );
+    }
+    // Tags removed since the snapshot are left out.
+    const types = new Map(tags.map((t) => [t.tag, t.type ?? 0]));
 
     return applyGlobalAIInstructions(
       {
-        tags: paginated.map((t) => ({
-          name: t.tag,
-          type: t.type ?? 0,
-        })),
-        total,
-        offset,
-        limit,
-        hasMore: offset + limit < total,
+        tags: page.ids
+          .filter((name) => types.has(name))
+          .map((name) => ({ name, type: types.get(name) })),
+        total: page.total,
+        offset: page.offset,
+        limit: page.limit,
+        hasMore: page.nextCursor !== undefined,
+        nextCursor: page.nextCursor,
       },
       "get_tags",
     );
   }
 
+  private async callListSavedSearches(args: any): Promise<any> {
+    const searches = await listSavedSearches(args.libraryID);
+    return applyGlobalAIInstructions(
+      { searches, total: searches.length },
+      "list_saved_searches",
+    );
+  }
+
+  private async callRunSavedSearch(
+    args: any,
+    sessionId?: string,
+  ): Promise<any> {
+    const result = await handleRunSavedSearch(args, sessionId);
+    return applyGlobalAIInstructions(result, "run_saved_search");
+  }
+
   private async callGetRelatedItems(args: any): Promise<any> {
-    const libraryID = Zotero.Libraries.userLibraryID;
+    const libraryID = args.libraryID;
     const item = Zotero.Items.getByLibraryAndKey(libraryID, args.itemKey);
     if (!item) {
       throw new Error(`Item with key "${args.itemKey}" not found`);
@@ -3046,6 +5068,7 @@ export class StreamableMCPServer {
       if (related) {
         relatedItems.push({
           key: related.key,
+          libraryKey: formatLibraryKey(libraryID, related.key),
           itemType: related.itemType,
           title: related.getField("title") || "",
           creators:
@@ -3072,7 +5095,7 @@ export class StreamableMCPServer {
   }
 
   private async callGenerateBibliography(args: any): Promise<any> {
-    const libraryID = Zotero.Libraries.userLibraryID;
+    const libraryID = args.libraryID;
     const items: any[] = [];
 
     for (const key of args.itemKeys) {
@@ -3083,25 +5106,229 @@ export class StreamableMCPServer {
       items.push(item);
     }
 
-    // Build citation style URL
-    let style = args.style || "http://www.zotero.org/styles/apa";
-    if (!style.startsWith("http")) {
-      style = `http://www.zotero.org/styles/${style}`;
-    }
+    const outputFormat = args.format || "text";
+    const { bibliography, style } = renderBibliography(
+      items,
+      args.style,
+      outputFormat,
+    );
+
+    return applyGlobalAIInstructions(
+      {
+        bibliography,
+        format: outputFormat,
+        style,
+        itemCount: items.length,
+      },
+      "generate_bibliography",
+    );
+  }
 
-    const format = `bibliography=${style}`;
-    const result = Zotero.QuickCopy.getContentFromItems(items, format);
+  private async callFormatCitation(args: any): Promise<any> {
+    const libraryID = args.libraryID;
+    const items = new Map<string, any>();
+    for (const cluster of args.citations) {
+      for (const { itemKey } of cluster.items) {
+        if (items.has(itemKey)) continue;
+        const item = Zotero.Items.getByLibraryAndKey(libraryID, itemKey);
+        if (!item || !item.isRegularItem()) {
+          throw new Error(`Item with key "${itemKey}" not found`);
+        }
+        items.set(itemKey, item);
+      }
+    }
 
     const outputFormat = args.format || "text";
+    const { citations, bibliography, style } = renderCitations(
+      args.citations,
+      items,
+      { style: args.style, format: outputFormat, locale: args.locale },
+    );
 
     return applyGlobalAIInstructions(
       {
-        bibliography: outputFormat === "html" ? result.html : result.text,
+        citations: citations.map((text, index) => ({ index, text })),
+        ...(args.includeBibliography !== false ? { bibliography } : {}),
         format: outputFormat,
         style,
+        itemCount: items.size,
+      },
+      "format_citation",
+    );
+  }
+
+  private async callFindDuplicates(
+    args: any,
+    control: TaskControl = {},
+  ): Promise<any> {
+    const libraryID = args.libraryID;
+    let items: any[];
+    if (args.collectionKey) {
+      const collection = Zotero.Collections.getByLibraryAndKey(
+        libraryID,
+        args.collectionKey,
+      );
+      if (!collection) {
+        throw new Error(
+          `Collection with key "${args.collectionKey}" not found`,
+        );
+      }
+      items = collection.getChildItems(false);
+    } else {
+      items = await Zotero.Items.getAll(libraryID, true, false);
+    }
+    items = items.filter((item) => item.isRegularItem() && !item.deleted);
+    if (args.itemKey && !items.some((item: any) => item.key === args.itemKey)) {
+      throw new Error(`Item with key "${args.itemKey}" not found`);
+    }
+    const byKey = new Map(items.map((item) => [item.key, item]));
+
+    let pairs = candidatePairs(
+      items.map((item) => this.duplicateCandidate(item)),
+    );
+    if (args.itemKey) {
+      pairs = pairs.filter(
+        ([a, b]) => a.key === args.itemKey || b.key === args.itemKey,
+      );
+    }
+
+    // First-chunk vectors, as find_similar uses; unindexed items get none.
+    const vectors = new Map<string, Float32Array | null>();
+    if (args.useEmbeddings) {
+      const { getVectorStore } = await import("./semantic/vectorStore");
+      const store = getVectorStore();
+      for (const key of new Set(pairs.flat().map((c) => c.key))) {
+        throwIfCancelled(control.signal);
+        vectors.set(key, (await store.getItemVectors(key))[0]?.vector ?? null);
+      }
+    }
+
+    const scored: DuplicatePair[] = [];
+    for (const [index, [a, b]] of pairs.entries()) {
+      if (index % 500 === 0) {
+        throwIfCancelled(control.signal);
+        control.onProgress?.(index, pairs.length, "Scoring candidate pairs");
+      }
+      const left = vectors.get(a.key);
+      const right = vectors.get(b.key);
+      const embedding =
+        left && right && left.length === right.length
+          ? cosineSimilarity(left, right)
+          : undefined;
+      const pair = scoreDuplicatePair(a, b, embedding);
+      if (pair) scored.push(pair);
+    }
+
+    const groups = groupDuplicates(
+      scored,
+      args.threshold ?? DEFAULT_DUPLICATE_THRESHOLD,
+    );
+    const limit = args.limit ?? 50;
+    return applyGlobalAIInstructions(
+      {
+        groups: groups.slice(0, limit).map((group) => ({
+          score: group.score,
+          items: group.keys.map((key) => {
+            const item = byKey.get(key);
+            return {
+              itemKey: key,
+              libraryKey: formatLibraryKey(libraryID, key),
+              itemType: item.itemType,
+              title: item.getField("title") || "",
+              date: item.getField("date") || "",
+              dateAdded: item.dateAdded,
+            };
+          }),
+          pairs: group.pairs,
+        })),
+        totalGroups: groups.length,
+        itemsScanned: items.length,
+        pairsCompared: pairs.length,
+        ...(args.useEmbeddings
+          ? {
+              itemsWithEmbeddings: [...vectors.values()].filter(Boolean).length,
+            }
+          : {}),
+      },
+      "find_duplicates",
+    );
+  }
+
+  private duplicateCandidate(item: any): DuplicateCandidate {
+    const candidate: DuplicateCandidate = {
+      key: item.key,
+      itemType: item.itemType,
+      title: item.getField("title") || "",
+      creators: item
+        .getCreators()
+        .map((creator: any) => creator.lastName || creator.name || "")
+        .filter(Boolean),
+    };
+    const year = parseInt(
+      Zotero.Date.strToDate(item.getField("date") || "").year ?? "",
+      10,
+    );
+    if (year) candidate.year = year;
+    const doi = item.getField("DOI");
+    if (doi) candidate.doi = doi;
+    // An ISBN field may list several (print and e-book); compare the first.
+    const isbn = (item.getField("ISBN") || "").split(/[\s,;]+/)[0];
+    if (isbn) candidate.isbn = isbn;
+    const { PMID } = parseExtraIdentifiers(item.getField("extra"));
+    if (PMID) candidate.pmid = PMID;
+    return candidate;
+  }
+
+  private async callExportItems(args: any): Promise<any> {
+    const libraryID = args.libraryID;
+    const format = args.format as ExportFormat;
+    let items: any[];
+    let truncated = false;
+    if (args.itemKeys) {
+      items = [];
+      for (const key of args.itemKeys) {
+        const item = Zotero.Items.getByLibraryAndKey(libraryID, key);
+        if (!item || !item.isRegularItem()) {
+          throw new Error(`Item with key "${key}" not found`);
+        }
+        items.push(item);
+      }
+    } else {
+      let candidates: any[];
+      if (args.collectionKey) {
+        const collection = Zotero.Collections.getByLibraryAndKey(
+          libraryID,
+          args.collectionKey,
+        );
+        if (!collection) {
+          throw new Error(
+            `Collection with key "${args.collectionKey}" not found`,
+          );
+        }
+        candidates = collection.getChildItems(false);
+      } else {
+        const search = new Zotero.Search();
+        (search as any).libraryID = libraryID;
+        search.addCondition("quicksearch-everything", "contains", args.query);
+        candidates = await Zotero.Items.getAsync(await search.search());
+      }
+      const regular = candidates.filter(
+        (item) => item.isRegularItem() && !item.deleted,
+      );
+      const limit = args.limit ?? MAX_EXPORT_ITEMS;
+      truncated = regular.length > limit;
+      items = regular.slice(0, limit);
+    }
+
+    const output = items.length > 0 ? await exportItems(items, format) : "";
+    return applyGlobalAIInstructions(
+      {
+        format,
         itemCount: items.length,
+        ...(truncated ? { truncated: true } : {}),
+        output,
       },
-      "generate_bibliography",
+      "export_items",
     );
   }
 
@@ -3115,67 +5342,8 @@ export class StreamableMCPServer {
       );
     }
 
-    const libraryID = Zotero.Libraries.userLibraryID;
-    let identifierType = "";
-    let identifierValue = "";
-    let ids: number[] = [];
-
-    if (args.doi) {
-      const search = new Zotero.Search();
-      (search as any).libraryID = libraryID;
-      search.addCondition("DOI", "is", args.doi);
-      identifierType = "DOI";
-      identifierValue = args.doi;
-      ids = await search.search();
-    } else if (args.isbn) {
-      const search = new Zotero.Search();
-      (search as any).libraryID = libraryID;
-      search.addCondition("ISBN", "is", args.isbn);
-      identifierType = "ISBN";
-      identifierValue = args.isbn;
-      ids = await search.search();
-    } else if (args.pmid) {
-      // PMID can appear in `extra` in many forms ("PMID: 1234", "PMID:1234",
-      // "pmid: 1234", "PubMed ID: 1234", "PMID 1234"). Run several `contains`
-      // searches and union the results, then post-filter with a tolerant
-      // regex to weed out near-misses (e.g. PMID 12345 matching 123456).
-      identifierType = "PMID";
-      identifierValue = String(args.pmid);
-      const variants = [
-        `PMID: ${args.pmid}`,
-        `PMID:${args.pmid}`,
-        `PMID ${args.pmid}`,
-        `PubMed ID: ${args.pmid}`,
-        `PubMed ID:${args.pmid}`,
-      ];
-      const seen = new Set<number>();
-      for (const v of variants) {
-        try {
-          const search = new Zotero.Search();
-          (search as any).libraryID = libraryID;
-          search.addCondition("extra", "contains", v);
-          const partial = await search.search();
-          if (partial) for (const id of partial) seen.add(id);
-        } catch (e) {
-          ztoolkit.log(
-            `[StreamableMCP] PMID variant search failed for "${v}": ${e}`,
-            "warn",
-          );
-        }
-      }
-      const pmidPattern = new RegExp(`\\bpmid[:\\s]*${args.pmid}\\b`, "i");
-      const candidates = await Zotero.Items.getAsync(Array.from(seen));
-      ids = candidates
-        .filter((it: any) => {
-          try {
-            const extra = it.getField("extra") || "";
-            return pmidPattern.test(extra);
-          } catch {
-            return false;
-          }
-        })
-        .map((it: any) => it.id);
-    }
+    const { identifierType, identifierValue, ids } =
+      await findItemIDsByIdentifier(args.libraryID, args);
 
     const items: any[] = [];
     if (ids && ids.length > 0) {
@@ -3183,6 +5351,7 @@ export class StreamableMCPServer {
       for (const item of zoteroItems) {
         items.push({
           key: item.key,
+          libraryKey: formatLibraryKey(item.libraryID, item.key),
           itemType: item.itemType,
           title: item.getField("title") || "",
           creators:
@@ -3211,10 +5380,369 @@ export class StreamableMCPServer {
     );
   }
 
+  private async callGetReferences(
+    args: any,
+    control: TaskControl = {},
+  ): Promise<any> {
+    const libraryID = args.libraryID;
+    const item = Zotero.Items.getByLibraryAndKey(libraryID, args.itemKey);
+    if (!item) {
+      throw new Error(`Item with key "${args.itemKey}" not found`);
+    }
+
+    const { text, source } = await this.getReferencesText(item, control);
+    const references = text ? parseReferences(text) : [];
+    const match = args.match !== false;
+    let owned = 0;
+    const results: any[] = [];
+    for (const [index, reference] of references.entries()) {
+      if (!match) {
+        results.push(reference);
+        continue;
+      }
+      throwIfCancelled(control.signal);
+      control.onProgress?.(
+        index,
+        references.length,
+        `Matching reference ${index + 1} of ${references.length}`,
+      );
+      const found = await this.matchReference(reference, libraryID, item.id);
+      if (found) owned++;
+      results.push({
+        ...reference,
+        inLibrary: Boolean(found),
+        ...(found && { match: found }),
+      });
+    }
+
+    return applyGlobalAIInstructions(
+      {
+        itemKey: args.itemKey,
+        libraryKey: formatLibraryKey(libraryID, args.itemKey),
+        source,
+        count: results.length,
+        ...(match && { owned, missing: results.length - owned }),
+        references: results,
+        ...(!text && {
+          message: "No References section was found in this item's full text",
+        }),
+      },
+      "get_references",
+    );
+  }
+
+  private async callCitationGraph(
+    args: any,
+    control: TaskControl = {},
+  ): Promise<any> {
+    const libraryID = args.libraryID;
+    let seeds: any[];
+    let scope: Record<string, string>;
+    let truncated = false;
+    if (args.itemKey) {
+      const item = Zotero.Items.getByLibraryAndKey(libraryID, args.itemKey);
+      if (!item || !item.isRegularItem()) {
+        throw new Error(`Item with key "${args.itemKey}" not found`);
+      }
+      seeds = [item];
+      scope = { itemKey: item.key, title: item.getField("title") || "" };
+    } else {
+      const collection = Zotero.Collections.getByLibraryAndKey(
+        libraryID,
+        args.collectionKey,
+      );
+      if (!collection) {
+        throw new Error(
+          `Collection with key "${args.collectionKey}" not found`,
+        );
+      }
+      const items = (collection.getChildItems(false) as any[]).filter(
+        (item) => item.isRegularItem() && !item.deleted,
+      );
+      const maxItems = args.maxItems ?? DEFAULT_GRAPH_ITEMS;
+      truncated = items.length > maxItems;
+      seeds = items.slice(0, maxItems);
+      scope = { collectionKey: collection.key, name: collection.name };
+    }
+
+    const graph: CitationGraph = { nodes: [], edges: [] };
+    for (const seed of seeds) addNode(graph, this.citationNode(seed, true));
+
+    let withReferences = 0;
+    for (const [index, seed] of seeds.entries()) {
+      throwIfCancelled(control.signal);
+      control.onProgress?.(
+        index,
+        seeds.length,
+        `Reading the references of ${seed.key}`,
+      );
+      const { text } = await this.getReferencesText(seed, {
+        signal: control.signal,
+      });
+      if (text) {
+        withReferences++;
+        for (const reference of parseReferences(text)) {
+          const match = await this.matchReference(
+            reference,
+            libraryID,
+            seed.id,
+          );
+          const cited =
+            match && Zotero.Items.getByLibraryAndKey(libraryID, match.itemKey);
+          if (!cited) continue;
+          addNode(graph, this.citationNode(cited, false));
+          addEdge(graph, {
+            source: seed.key,
+            target: cited.key,
+            type: "cites",
+            matchedBy: match.matchedBy,
+          });
+        }
+      }
+
+      if (args.includeRelated !== false) {
+        for (const key of seed.relatedItems || []) {
+          const related = Zotero.Items.getByLibraryAndKey(libraryID, key);
+          if (!related || !related.isRegularItem() || related.deleted) {
+            continue;
+          }
+          addNode(graph, this.citationNode(related, false));
+          addEdge(graph, { source: seed.key, target: key, type: "related" });
+        }
+      }
+    }
+
+    const citingItemsScanned = args.itemKey
+      ? await this.addCitingItems(graph, seeds[0], control)
+      : undefined;
+
+    computeDegrees(graph);
+    const metrics = {
+      nodeCount: graph.nodes.length,
+      edgeCount: graph.edges.length,
+      citations: graph.edges.filter((e) => e.type === "cites").length,
+      relations: graph.edges.filter((e) => e.type === "related").length,
+      itemsWithReferences: withReferences,
+      itemsWithoutReferences: seeds.length - withReferences,
+      ...(citingItemsScanned !== undefined && { citingItemsScanned }),
+      mostCited: mostCited(graph),
+    };
+
+    const format = args.format || "json";
+    return applyGlobalAIInstructions(
+      {
+        scope,
+        format,
+        metrics,
+        ...(truncated && {
+          truncated: true,
+          message: `Only the first ${seeds.length} items of the collection were graphed; raise maxItems for more`,
+        }),
+        ...(format === "json"
+          ? graph
+          : { graph: format === "graphml" ? toGraphML(graph) : toDOT(graph) }),
+      },
+      "citation_graph",
+    );
+  }
+
+  private citationNode(item: any, inScope: boolean): CitationNode {
+    const node: CitationNode = {
+      key: item.key,
+      libraryKey: formatLibraryKey(item.libraryID, item.key),
+      title: item.getField("title") || "",
+      inScope,
+      inDegree: 0,
+      outDegree: 0,
+    };
+    const year = parseInt(
+      Zotero.Date.strToDate(item.getField("date") || "").year ?? "",
+      10,
+    );
+    if (year) node.year = year;
+    const creator = item.getCreators?.()?.[0];
+    if (creator) node.firstAuthor = creator.lastName || creator.name;
+    const doi = item.getField("DOI");
+    if (doi) node.doi = doi;
+    return node;
+  }
+
+  /**
+   * Add "cites" edges from library items whose reference lists cite `item`.
+   * Only items in the semantic index's content cache are scanned, since
+   * extracting every PDF in the library would take far too long. Returns
+   * how many items were scanned.
+   */
+  private async addCitingItems(
+    graph: CitationGraph,
+    item: any,
+    control: TaskControl,
+  ): Promise<number> {
+    let keys: string[];
+    let vectorStore: any;
+    try {
+      const { getVectorStore } = await import("./semantic/vectorStore");
+      vectorStore = getVectorStore();
+      keys = (await vectorStore.listCachedContent())
+        .map((entry: any) => entry.itemKey)
+        .filter((key: string) => key !== item.key);
+    } catch (error) {
+      ztoolkit.log(
+        `[StreamableMCP] Content cache unavailable for cited-by: ${error}`,
+        "warn",
+      );
+      return 0;
+    }
+
+    const work = this.citationNode(item, true);
+    let scanned = 0;
+    for (let i = 0; i < keys.length; i += CITED_BY_BATCH_SIZE) {
+      throwIfCancelled(control.signal);
+      control.onProgress?.(
+        i,
+        keys.length,
+        "Scanning indexed items for citations",
+      );
+      const contents: Map<string, string> =
+        await vectorStore.getFullContentBatch(
+          keys.slice(i, i + CITED_BY_BATCH_SIZE),
+        );
+      for (const [key, content] of contents) {
+        const citing = Zotero.Items.getByLibraryAndKey(item.libraryID, key);
+        if (!citing || !citing.isRegularItem() || citing.deleted) continue;
+        scanned++;
+        const references = referencesSection(content);
+        if (!references) continue;
+        const matchedBy = parseReferences(references)
+          .map((reference) => citesWork(reference, work))
+          .find(Boolean);
+        if (!matchedBy) continue;
+        addNode(graph, this.citationNode(citing, false));
+        addEdge(graph, {
+          source: key,
+          target: item.key,
+          type: "cites",
+          matchedBy,
+        });
+      }
+    }
+    return scanned;
+  }
+
+  /**
+   * The References section of an item's full text: from the semantic
+   * index's content cache when the item is indexed (raw text, so entries
+   * keep their line breaks), otherwise extracted from its PDFs.
+   */
+  private async getReferencesText(
+    item: any,
+    control: TaskControl,
+  ): Promise<{ text: string | null; source: string | null }> {
+    try {
+      const { getVectorStore } = await import("./semantic/vectorStore");
+      const cached = await getVectorStore().getFullContent(item.key);
+      const text = cached && referencesSection(cached);
+      if (text) return { text, source: "index_cache" };
+    } catch (error) {
+      ztoolkit.log(
+        `[StreamableMCP] Content cache unavailable for references: ${error}`,
+        "warn",
+      );
+    }
+
+    const content = await new UnifiedContentExtractor().getItemContent(
+      item.key,
+      { pdf: true, attachments: false, notes: false, abstract: false },
+      "complete",
+      undefined,
+      item.libraryID,
+      control,
+      { sections: ["references"] },
+    );
+    const text = (content.content.attachments || [])
+      .filter((att: any) => att.extractionMethod === "pdf_sections")
+      .map((att: any) => att.content)
+      .join("\n\n");
+    return text ? { text, source: "pdf" } : { text: null, source: null };
+  }
+
+  /**
+   * The library item a reference cites: by identifier first (as
+   * search_by_identifier does), then by a fuzzy title match whose year, when
+   * both sides have one, is at most a year off. The citing item never
+   * matches itself.
+   */
+  private async matchReference(
+    reference: ParsedReference,
+    libraryID: number,
+    citingItemID: number,
+  ): Promise<any | null> {
+    const describe = (matched: any, matchedBy: string, score?: number) => ({
+      itemKey: matched.key,
+      libraryKey: formatLibraryKey(libraryID, matched.key),
+      title: matched.getField("title") || "",
+      matchedBy,
+      ...(score !== undefined && { score: Math.round(score * 100) / 100 }),
+    });
+
+    for (const field of ["doi", "pmid", "isbn", "arxiv"] as const) {
+      if (!reference[field]) continue;
+      const { ids } = await findItemIDsByIdentifier(libraryID, {
+        [field]: reference[field],
+      });
+      const matched = (await Zotero.Items.getAsync(ids)).find(
+        (candidate: any) =>
+          candidate.isRegularItem() &&
+          !candidate.deleted &&
+          candidate.id !== citingItemID,
+      );
+      if (matched) return describe(matched, field);
+    }
+
+    const terms = reference.title ? titleSearchTerms(reference.title) : [];
+    if (terms.length === 0) return null;
+    const search = new Zotero.Search();
+    (search as any).libraryID = libraryID;
+    for (const term of terms) {
+      search.addCondition("title", "contains", term);
+    }
+    let best: any = null;
+    let bestScore = 0;
+    for (const candidate of await Zotero.Items.getAsync(
+      await search.search(),
+    )) {
+      if (
+        !candidate.isRegularItem() ||
+        candidate.deleted ||
+        candidate.id === citingItemID
+      ) {
+        continue;
+      }
+      const year = parseInt(
+        Zotero.Date.strToDate(candidate.getField("date") || "").year ?? "",
+        10,
+      );
+      if (reference.year && year && Math.abs(year - reference.year) > 1) {
+        continue;
+      }
+      const score = titleSimilarity(
+        reference.title!,
+        candidate.getField("title") || "",
+      );
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    return best && bestScore >= TITLE_MATCH_THRESHOLD
+      ? describe(best, "title", bestScore)
+      : null;
+  }
+
   // --- Tier 3: Inline read tool methods ---
 
   private async callGetLibraryStats(args: any): Promise<any> {
-    const libraryID = Zotero.Libraries.userLibraryID;
+    const libraryID = args.libraryID;
     const includeTrash = args.includeTrash !== false;
 
     // Pass asIDs=true so getAll returns number[] (item IDs); without it, getAll
@@ -3358,7 +5886,7 @@ export class StreamableMCPServer {
   }
 
   private async callGetTrashItems(args: any): Promise<any> {
-    const libraryID = Zotero.Libraries.userLibraryID;
+    const libraryID = args.libraryID;
     const limit = args.limit || 50;
     const offset = args.offset || 0;
 
@@ -3414,7 +5942,7 @@ export class StreamableMCPServer {
   }
 
   private async callGetRecentlyModified(args: any): Promise<any> {
-    const libraryID = Zotero.Libraries.userLibraryID;
+    const libraryID = args.libraryID;
     const days = args.days || 7;
     const limit = args.limit || 50;
     const offset = args.offset || 0;
@@ -3527,10 +6055,16 @@ export class StreamableMCPServer {
         "tools/list",
         "tools/call",
         "resources/list",
+        "resources/read",
+        "resources/templates/list",
+        "resources/subscribe",
+        "resources/unsubscribe",
         "prompts/list",
+        "prompts/get",
         "ping",
       ],
       availableTools: [
+        "list_libraries",
         "search_library",
         "search_annotations",
         "get_item_details",
@@ -3545,6 +6079,7 @@ export class StreamableMCPServer {
         "get_item_abstract",
         // Semantic Search Tools (read-only)
         "semantic_search",
+        "hybrid_search",
         "find_similar",
         "semantic_status",
         // Full-text Database Tool (read-only)
@@ -3552,13 +6087,20 @@ export class StreamableMCPServer {
         "get_tags",
         "get_related_items",
         "generate_bibliography",
+        "format_citation",
         "search_by_identifier",
+        "get_references",
+        "citation_graph",
+        "export_items",
+        "find_duplicates",
         "get_library_stats",
         "get_item_types",
         "get_creator_types",
         "get_item_type_fields",
         "get_trash_items",
         "get_recently_modified",
+        "list_saved_searches",
+        "run_saved_search",
       ],
       writeTools:
         "Scope-dependent. Use tools/list for the current enabled write surface.",
@@ -0,0 +1,39 @@
+/**
+ * Progress and cancellation handles threaded from a tools/call into the
+ * long-running work behind it (content extraction, index builds, batch
+ * writes). Both halves are optional so every callee can be invoked without
+ * one, exactly as before.
+ */
+
+import type { ProgressReporter } from "./notificationHub";
+
+export interface TaskControl {
+  /** Aborted when the client sends notifications/cancelled for the request. */
+  signal?: AbortSignal;
+  /** Forwards to notifications/progress when the request had a token. */
+  onProgress?: ProgressReporter;
+}
+
+/**
+ * Thrown at a cancellation checkpoint; maps to JSON-RPC -32800. Only a
+ * string reason (the client's notifications/cancelled reason) is shown; an
+ * abort() without one leaves a DOMException that isn't worth echoing.
+ */
+export class RequestCancelledError extends Error {
+  constructor(reason?: unknown) {
+    super(
+      typeof reason === "string" && reason
+        ? `Request cancelled: ${reason}`
+        : "Request cancelled",
+    );
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * Cancellation checkpoint. Call between units of work; inside a
+ * Zotero.DB.executeTransaction the throw rolls the whole batch back.
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new RequestCancelledError(signal.reason);
+}
@@ -0,0 +1,535 @@
+/**
+ * Token budgets for tool results.
+ *
+ * A read tool called with `maxTokens` has its result shaped to fit: a
+ * list keeps as many leading entries as fit, identifying fields (keys,
+ * titles, creators, dates) are kept ahead of the rest, long text is
+ * summarized with IntelligentContentProcessor and whatever still does not
+ * fit is left out. Tokens are estimated from character counts, not by a
+ * model's tokenizer, so shaping aims ESTIMATE_MARGIN below the budget to
+ * absorb text (code, URLs, identifiers) that tokenizes denser than the
+ * estimate assumes. A `_budget` report lists what was cut and carries a
+ * continuation cursor. The full result stays in memory for a while, so
+ * passing the cursor back pages through what was cut without running the
+ * tool again. Like pagination snapshots, continuations are kept per
+ * Mcp-Session-Id, a few per session, so one client's reads never evict
+ * another's; calls without a session share one small store.
+ */
+
+import { intelligentContentProcessor } from "./intelligentContentProcessor";
+
+export const MIN_MAX_TOKENS = 200;
+
+// Share of maxTokens held back for estimation error.
+const ESTIMATE_MARGIN = 0.15;
+// Room kept for the _budget report on the first shaping pass.
+const REPORT_TOKENS = 80;
+// A field with less room than this is left out rather than shrunk.
+const MIN_FIELD_TOKENS = 24;
+const MAX_REPORTED_PATHS = 20;
+const SHAPING_PASSES = 3;
+const CONTINUATION_TTL_MS = 10 * 60 * 1000;
+// Each continuation holds a whole result, full texts included.
+const MAX_CONTINUATIONS_PER_SESSION = 5;
+const MAX_SHARED_CONTINUATIONS = 20;
+const MAX_SESSIONS = 200;
+// Bucket for calls made outside an MCP session.
+const NO_SESSION = "-";
+
+// Fields that identify a record; kept whole whenever the record is kept.
+const PRIORITY_FIELDS = new Set([
+  "key",
+  "itemKey",
+  "collectionKey",
+  "parentItemKey",
+  "libraryID",
+  "title",
+  "name",
+  "itemType",
+  "creators",
+  "date",
+  "year",
+  "DOI",
+  "url",
+  "score",
+]);
+// Envelope markers, including the untrusted-content note; never cut.
+const PRESERVED_FIELDS = new Set([
+  "_safetyNote",
+  "_dataIntegrity",
+  "_instructions",
+]);
+// Guidance a result can do without; spent last.
+const LOW_PRIORITY_FIELDS = new Set(["metadata", "aiGuidelines"]);
+
+const CJK_RE = /[\u4e00-\u9fff\u3400-\u4dbf\u3040-\u30ff\uac00-\ud7af]/g;
+
+/**
+ * Estimate the token count of text; an approximation, not a tokenizer.
+ * CJK (Han, kana, Hangul): ~1.5 chars per token
+ * Other scripts: ~4 chars per token
+ */
+export function estimateTokens(text: string): number {
+  const cjkChars = (text.match(CJK_RE) || []).length;
+  const otherChars = text.length - cjkChars;
+  return Math.ceil(cjkChars / 1.5 + otherChars / 4);
+}
+
+/** Tokens a value takes in a budgeted (compact JSON) response. */
+export function valueTokens(value: any): number {
+  if (typeof value === "string") return estimateTokens(value);
+  return estimateTokens(JSON.stringify(value) ?? "");
+}
+
+type BudgetPath = (string | number)[];
+
+/**
+ * Part of a result still to be read: the list entries or text from
+ * `offset` on, or (offset 0) the whole value at `path`.
+ */
+export interface ContinuationSegment {
+  path: BudgetPath;
+  offset: number;
+}
+
+export interface BudgetReport {
+  maxTokens: number;
+  estimatedTokens: number;
+  /** Fields shortened to fit. */
+  truncated: string[];
+  /** Fields and list entries left out. */
+  omitted: string[];
+  /** Pass back as `continuation` to read what was cut. */
+  continuation?: string;
+}
+
+export interface ShapedPage {
+  value: any;
+  truncated: string[];
+  omitted: string[];
+  remaining: ContinuationSegment[];
+}
+
+export class ContinuationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContinuationError";
+  }
+}
+
+export function formatPath(path: BudgetPath): string {
+  return path.reduce<string>(
+    (out, part) =>
+      typeof part === "number"
+        ? `${out}[${part}]`
+        : out
+          ? `${out}.${part}`
+          : part,
+    "",
+  );
+}
+
+function valueAt(root: any, path: BudgetPath): any {
+  let value = root;
+  for (const part of path) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = value[part as any];
+  }
+  return value;
+}
+
+/**
+ * Where to cut `text` after `offset` so the piece fits `budget` tokens:
+ * at the last sentence end or whitespace in the piece's second half.
+ */
+export function textPageEnd(
+  text: string,
+  offset: number,
+  budget: number,
+): number {
+  const rest = text.slice(offset);
+  const restTokens = estimateTokens(rest);
+  if (restTokens <= budget) return text.length;
+  let length = Math.max(
+    1,
+    Math.floor((rest.length * Math.max(budget, 1)) / restTokens),
+  );
+  while (length > 1 && estimateTokens(rest.slice(0, length)) > budget) {
+    length = Math.floor(length * 0.9);
+  }
+  const piece = rest.slice(0, length);
+  const sentenceEnd = Math.max(
+    ...[". ", "! ", "? ", "\n", "。", "！", "？"].map(
+      (mark) => piece.lastIndexOf(mark) + mark.length,
+    ),
+  );
+  const cut =
+    sentenceEnd > length / 2
+      ? sentenceEnd
+      : piece.lastIndexOf(" ") > length / 2
+        ? piece.lastIndexOf(" ") + 1
+        : length;
+  return offset + cut;
+}
+
+async function summarize(text: string, budget: number): Promise<string> {
+  // The processor counts sentence lengths only, not the spaces it joins
+  // them with; leave it some slack.
+  const chars = Math.floor((0.9 * text.length * budget) / estimateTokens(text));
+  let summary = "";
+  try {
+    const processed = await intelligentContentProcessor.processContent(
+      text,
+      "smart",
+      { maxContentLength: chars, expandIfImportant: false },
+    );
+    summary = processed.processedText;
+  } catch {
+    // Fall back to the leading text below.
+  }
+  if (!summary || estimateTokens(summary) > budget) {
+    summary = `${text.slice(0, textPageEnd(text, 0, budget - 1))}…`;
+  }
+  return summary;
+}
+
+class Shaper {
+  truncated: string[] = [];
+  omitted: string[] = [];
+  remaining: ContinuationSegment[] = [];
+
+  /** `value` shrunk to `budget`, or undefined if it must be left out. */
+  async shrink(
+    value: any,
+    budget: number,
+    path: BudgetPath,
+  ): Promise<any | undefined> {
+    if (valueTokens(value) <= budget) return value;
+    if (budget < MIN_FIELD_TOKENS) return undefined;
+    if (typeof value === "string") {
+      this.truncated.push(formatPath(path));
+      this.remaining.push({ path, offset: 0 });
+      return summarize(value, budget);
+    }
+    if (Array.isArray(value)) return this.shrinkList(value, budget, path, 0);
+    if (value && typeof value === "object") {
+      return this.shrinkObject(value, budget, path);
+    }
+    return undefined;
+  }
+
+  /**
+   * Leading entries that fit whole; if not even the first does, the first
+   * shrunk. `start` is the index of list[0] in the full list.
+   */
+  async shrinkList(
+    list: any[],
+    budget: number,
+    path: BudgetPath,
+    start: number,
+  ): Promise<any[]> {
+    const kept: any[] = [];
+    let used = 2;
+    for (let i = 0; i < list.length; i++) {
+      const cost = valueTokens(list[i]) + 1;
+      if (used + cost <= budget) {
+        kept.push(list[i]);
+        used += cost;
+        continue;
+      }
+      if (kept.length === 0) {
+        const entry = await this.shrink(list[i], budget - used - 1, [
+          ...path,
+          start + i,
+        ]);
+        if (entry !== undefined) kept.push(entry);
+      }
+      break;
+    }
+    if (kept.length < list.length) {
+      const first = start + kept.length;
+      const last = start + list.length - 1;
+      this.omitted.push(
+        `${formatPath(path)}[${first === last ? first : `${first}-${last}`}]`,
+      );
+      this.remaining.push({ path, offset: first });
+    }
+    return kept;
+  }
+
+  /**
+   * Identifying fields whole, then the rest smallest first (guidance
+   * last), each kept, shrunk into what is left, or left out.
+   */
+  async shrinkObject(
+    value: Record<string, any>,
+    budget: number,
+    path: BudgetPath,
+  ): Promise<Record<string, any>> {
+    const kept = new Map<string, any>();
+    const rest: [string, any][] = [];
+    let used = 2;
+    for (const [key, entry] of Object.entries(value)) {
+      if (PRIORITY_FIELDS.has(key) || PRESERVED_FIELDS.has(key)) {
+        kept.set(key, entry);
+        used += fieldTokens(key, entry);
+      } else {
+        rest.push([key, entry]);
+      }
+    }
+    rest.sort(
+      ([a, x], [b, y]) =>
+        Number(LOW_PRIORITY_FIELDS.has(a)) -
+          Number(LOW_PRIORITY_FIELDS.has(b)) || valueTokens(x) - valueTokens(y),
+    );
+    for (const [key, entry] of rest) {
+      const room = budget - used - fieldTokens(key, null);
+      const shrunk = await this.shrink(entry, room, [...path, key]);
+      if (shrunk === undefined) {
+        this.omitted.push(formatPath([...path, key]));
+        this.remaining.push({ path: [...path, key], offset: 0 });
+        continue;
+      }
+      kept.set(key, shrunk);
+      used += fieldTokens(key, shrunk);
+    }
+    const out: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+      if (kept.has(key)) out[key] = kept.get(key);
+    }
+    return out;
+  }
+}
+
+function fieldTokens(key: string, value: any): number {
+  return estimateTokens(JSON.stringify(key)) + valueTokens(value) + 1;
+}
+
+/**
+ * One page of `root` within `budget` tokens: the whole result for the
+ * first page (segment at the root, offset 0), otherwise the part the
+ * segment names, wrapped with its path and offset.
+ */
+export async function shapePage(
+  root: any,
+  segment: ContinuationSegment,
+  budget: number,
+): Promise<ShapedPage> {
+  const shaper = new Shaper();
+  const target = valueAt(root, segment.path);
+  const isRoot = segment.path.length === 0 && segment.offset === 0;
+  let value: any;
+
+  if (typeof target === "string") {
+    const end = textPageEnd(target, segment.offset, budget);
+    value = target.slice(segment.offset, end);
+    if (end < target.length) {
+      shaper.truncated.push(formatPath(segment.path) || "(text)");
+      shaper.remaining.push({ path: segment.path, offset: end });
+    }
+  } else if (Array.isArray(target)) {
+    value = await shaper.shrinkList(
+      target.slice(segment.offset),
+      budget,
+      segment.path,
+      segment.offset,
+    );
+  } else {
+    value = await shaper.shrink(target, budget, segment.path);
+    if (value === undefined) value = null;
+  }
+
+  if (!isRoot) {
+    value = { path: formatPath(segment.path), offset: segment.offset, value };
+  }
+  return {
+    value,
+    truncated: shaper.truncated,
+    omitted: shaper.omitted,
+    remaining: shaper.remaining,
+  };
+}
+
+function reportedPaths(paths: string[]): string[] {
+  if (paths.length <= MAX_REPORTED_PATHS) return paths;
+  return [
+    ...paths.slice(0, MAX_REPORTED_PATHS),
+    `… ${paths.length - MAX_REPORTED_PATHS} more`,
+  ];
+}
+
+/** Attach the report: a `_budget` field, or a footer on plain text. */
+export function withBudgetReport(value: any, report: BudgetReport): any {
+  if (typeof value === "string") {
+    const next = report.continuation
+      ? ` Pass continuation "${report.continuation}" to read on.`
+      : "";
+    return `${value}\n\n[Cut to maxTokens ${report.maxTokens}.${next}]`;
+  }
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return { ...value, _budget: report };
+  }
+  return { data: value, _budget: report };
+}
+
+// --- Continuations ---
+
+/** Who a continuation is issued to; only they can read it back. */
+export interface BudgetOwner {
+  tool: string;
+  clientID?: string;
+  sessionId?: string;
+}
+
+interface Continuation {
+  tool: string;
+  clientID?: string;
+  root: any;
+  maxTokens: number;
+  segments: ContinuationSegment[];
+  expiresAt: number;
+}
+
+// Both levels insertion-ordered, so the first entry is the oldest.
+const sessions = new Map<string, Map<string, Continuation>>();
+
+function newCursor(): string {
+  try {
+    return `cont-${(globalThis as any).crypto.randomUUID()}`;
+  } catch {
+    const bytes = new Uint8Array(16);
+    (globalThis as any).crypto.getRandomValues(bytes);
+    return `cont-${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+  }
+}
+
+function pruneContinuations(
+  continuations: Map<string, Continuation>,
+  now: number,
+): void {
+  for (const [cursor, entry] of continuations) {
+    if (entry.expiresAt <= now) continuations.delete(cursor);
+  }
+}
+
+function storeContinuation(
+  owner: BudgetOwner,
+  entry: Omit<Continuation, "tool" | "clientID" | "expiresAt">,
+): string {
+  const key = owner.sessionId || NO_SESSION;
+  let continuations = sessions.get(key);
+  if (!continuations) {
+    if (sessions.size >= MAX_SESSIONS) {
+      sessions.delete(sessions.keys().next().value!);
+    }
+    continuations = new Map();
+    sessions.set(key, continuations);
+  }
+  const now = Date.now();
+  pruneContinuations(continuations, now);
+  const cap = owner.sessionId
+    ? MAX_CONTINUATIONS_PER_SESSION
+    : MAX_SHARED_CONTINUATIONS;
+  while (continuations.size >= cap) {
+    continuations.delete(continuations.keys().next().value!);
+  }
+  const cursor = newCursor();
+  continuations.set(cursor, {
+    ...entry,
+    tool: owner.tool,
+    clientID: owner.clientID,
+    expiresAt: now + CONTINUATION_TTL_MS,
+  });
+  return cursor;
+}
+
+/** Estimated tokens a result is shaped to, leaving the margin free. */
+function shapingTarget(maxTokens: number): number {
+  return Math.floor(maxTokens * (1 - ESTIMATE_MARGIN));
+}
+
+async function budgetedPage(
+  owner: BudgetOwner,
+  root: any,
+  segments: ContinuationSegment[],
+  maxTokens: number,
+): Promise<any> {
+  const [segment, ...later] = segments;
+  const target = shapingTarget(maxTokens);
+  let budget = target - REPORT_TOKENS;
+  let output: any;
+  for (let pass = 0; pass < SHAPING_PASSES; pass++) {
+    const page = await shapePage(root, segment, budget);
+    const rest = [...page.remaining, ...later];
+    const report: BudgetReport = {
+      maxTokens,
+      estimatedTokens: 0,
+      truncated: reportedPaths(page.truncated),
+      omitted: reportedPaths(page.omitted),
+    };
+    if (rest.length > 0) {
+      report.continuation = storeContinuation(owner, {
+        root,
+        maxTokens,
+        segments: rest,
+      });
+    }
+    output = withBudgetReport(page.value, report);
+    const tokens = valueTokens(output);
+    report.estimatedTokens = tokens;
+    if (tokens <= target || budget <= MIN_FIELD_TOKENS) break;
+    if (report.continuation) {
+      sessions.get(owner.sessionId || NO_SESSION)?.delete(report.continuation);
+    }
+    budget = Math.max(MIN_FIELD_TOKENS, budget - (tokens - target) - 8);
+  }
+  return output;
+}
+
+/**
+ * Shape a tool result to `maxTokens`. A result estimated to fit with the
+ * margin to spare is returned unchanged; otherwise the first page, with a `_budget` report.
+ */
+export async function applyTokenBudget(
+  result: any,
+  maxTokens: number,
+  owner: BudgetOwner,
+): Promise<any> {
+  if (valueTokens(result) <= shapingTarget(maxTokens)) return result;
+  return budgetedPage(owner, result, [{ path: [], offset: 0 }], maxTokens);
+}
+
+/**
+ * The next page of a result cut by applyTokenBudget. The cursor is only
+ * good for the tool, client and session it was issued to, and for
+ * CONTINUATION_TTL_MS; reading a page does not use it up.
+ */
+export async function continueTokenBudget(
+  cursor: string,
+  maxTokens: number | undefined,
+  owner: BudgetOwner,
+): Promise<any> {
+  const continuations = sessions.get(owner.sessionId || NO_SESSION);
+  if (continuations) pruneContinuations(continuations, Date.now());
+  const entry = continuations?.get(cursor);
+  if (
+    !entry ||
+    entry.tool !== owner.tool ||
+    entry.clientID !== owner.clientID
+  ) {
+    throw new ContinuationError(
+      `Unknown or expired continuation for ${owner.tool}; call it again without continuation`,
+    );
+  }
+  return budgetedPage(
+    owner,
+    entry.root,
+    entry.segments,
+    maxTokens ?? entry.maxTokens,
+  );
+}
+
+/** Forget a session's continuations when it ends. */
+export function dropSessionContinuations(sessionId: string): void {
+  sessions.delete(sessionId);
+}
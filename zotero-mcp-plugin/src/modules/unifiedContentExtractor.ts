@@ -15,6 +15,25 @@ import {
   ProcessingResult,
 } from "./intelligentContentProcessor";
 import { TextFormatter } from "./textFormatter";
+import { formatLibraryKey } from "./libraryResolver";
+import {
+  joinPages,
+  pageAt,
+  selectPages,
+  splitPages,
+  type PageRange,
+  type PageSpan,
+} from "./pdfPages";
+import {
+  detectCaptions,
+  detectSections,
+  type SectionSelector,
+} from "./sectionDetector";
+import {
+  RequestCancelledError,
+  throwIfCancelled,
+  type TaskControl,
+} from "./taskControl";
 
 declare let Zotero: any;
 declare let ztoolkit: ZToolkit;
@@ -30,6 +49,7 @@ export interface ContentIncludeOptions {
 export interface ContentResult {
   itemKey?: string;
   attachmentKey?: string;
+  libraryKey?: string;
   title?: string;
   content: any;
   metadata: {
@@ -53,23 +73,35 @@ export interface ContentResult {
   };
 }
 
+/**
+ * What to return from PDF attachments instead of the mode-processed text:
+ * selected pages, selected sections, and/or the document outline.
+ */
+export interface PDFSelection {
+  pages?: PageRange[];
+  sections?: SectionSelector[];
+  outline?: boolean;
+}
+
 export class UnifiedContentExtractor {
   private intelligentProcessor = new IntelligentContentProcessor();
 
   /**
-   * Extract content from an item with mode control and intelligent processing
+   * Extract content from an item with mode control and intelligent processing.
+   * With a PDF selection, PDF attachments return just the selected pages or
+   * sections (see processPDFSelection).
    */
   async getItemContent(
     itemKey: string,
     include: ContentIncludeOptions = {},
     mode?: string,
     contentControl?: ContentControl,
+    libraryID: number = Zotero.Libraries.userLibraryID,
+    control: TaskControl = {},
+    selection: PDFSelection = {},
   ): Promise<ContentResult> {
     try {
-      const item = Zotero.Items.getByLibraryAndKey(
-        Zotero.Libraries.userLibraryID,
-        itemKey,
-      );
+      const item = Zotero.Items.getByLibraryAndKey(libraryID, itemKey);
       if (!item) {
         throw new Error(`Item with key ${itemKey} not found`);
       }
@@ -98,6 +130,7 @@ export class UnifiedContentExtractor {
 
       const result: ContentResult = {
         itemKey,
+        libraryKey: formatLibraryKey(item.libraryID, itemKey),
         title: item.getDisplayTitle(),
         content: {},
         metadata: {
@@ -136,6 +169,8 @@ export class UnifiedContentExtractor {
           modeConfig,
           effectiveMode,
           contentControl,
+          control,
+          selection,
         );
         if (attachments.length > 0) {
           result.content.attachments = attachments;
@@ -149,6 +184,7 @@ export class UnifiedContentExtractor {
 
       // Extract notes with intelligent processing
       if (options.notes) {
+        throwIfCancelled(control.signal);
         const notes = await this.extractNotes(
           item,
           modeConfig,
@@ -195,10 +231,13 @@ export class UnifiedContentExtractor {
     attachmentKey: string,
     mode?: string,
     contentControl?: ContentControl,
+    libraryID: number = Zotero.Libraries.userLibraryID,
+    control: TaskControl = {},
+    selection: PDFSelection = {},
   ): Promise<any> {
     try {
       const attachment = Zotero.Items.getByLibraryAndKey(
-        Zotero.Libraries.userLibraryID,
+        libraryID,
         attachmentKey,
       );
       if (!attachment?.isAttachment()) {
@@ -218,6 +257,8 @@ export class UnifiedContentExtractor {
         modeConfig,
         effectiveMode,
         contentControl,
+        control,
+        selection,
       );
     } catch (error) {
       ztoolkit.log(
@@ -249,6 +290,8 @@ export class UnifiedContentExtractor {
     modeConfig: any,
     mode: string,
     contentControl?: ContentControl,
+    control: TaskControl = {},
+    selection: PDFSelection = {},
   ): Promise<any[]> {
     const attachments = [];
     const attachmentIDs = item.getAttachments();
@@ -259,7 +302,8 @@ export class UnifiedContentExtractor {
         ? attachmentIDs.slice(0, modeConfig.maxAttachments)
         : attachmentIDs;
 
-    for (const attachmentID of limitedAttachmentIDs) {
+    for (const [index, attachmentID] of limitedAttachmentIDs.entries()) {
+      throwIfCancelled(control.signal);
       try {
         const attachment = Zotero.Items.get(attachmentID);
         const contentType = attachment.attachmentContentType;
@@ -269,16 +313,24 @@ export class UnifiedContentExtractor {
         if (isPDF && !options.pdf) continue;
         if (!isPDF && !options.attachments) continue;
 
+        control.onProgress?.(
+          index,
+          limitedAttachmentIDs.length,
+          `Extracting ${attachment.attachmentFilename || attachment.key}`,
+        );
         const attachmentContent = await this.processAttachment(
           attachment,
           modeConfig,
           mode,
           contentControl,
+          control,
+          selection,
         );
         if (attachmentContent && attachmentContent.content) {
           attachments.push(attachmentContent);
         }
       } catch (error) {
+        if (error instanceof RequestCancelledError) throw error;
         ztoolkit.log(
           `[UnifiedContentExtractor] Error extracting attachment ${attachmentID}: ${error}`,
           "warn",
@@ -481,6 +533,8 @@ export class UnifiedContentExtractor {
     modeConfig: any,
     mode: string,
     contentControl?: ContentControl,
+    control: TaskControl = {},
+    selection: PDFSelection = {},
   ): Promise<any> {
     const filePath = attachment.getFilePath();
     const contentType = attachment.attachmentContentType;
@@ -502,9 +556,25 @@ export class UnifiedContentExtractor {
     let extractionMethod = "unknown";
 
     try {
+      if (
+        (selection.pages || selection.sections || selection.outline) &&
+        this.isPDF(attachment, contentType)
+      ) {
+        return await this.processPDFSelection(
+          attachment,
+          modeConfig,
+          selection,
+          control.signal,
+        );
+      }
+
       // Unified extraction logic based on file type
       if (this.isPDF(attachment, contentType)) {
-        content = await this.extractPDFText(filePath, attachment.id);
+        content = await this.extractPDFText(
+          filePath,
+          attachment.id,
+          control.signal,
+        );
         extractionMethod = "pdf_cached_or_extracted";
       } else if (this.isHTML(contentType)) {
         content = await this.extractHTMLText(filePath);
@@ -587,6 +657,7 @@ export class UnifiedContentExtractor {
 
       return result;
     } catch (error) {
+      if (error instanceof RequestCancelledError) throw error;
       const errorMsg = error instanceof Error ? error.message : String(error);
       ztoolkit.log(
         `[UnifiedContentExtractor] Error processing attachment ${attachment.key}: ${errorMsg}`,
@@ -611,6 +682,137 @@ export class UnifiedContentExtractor {
     }
   }
 
+  /**
+   * Extract selected pages or sections of a PDF. Text is returned verbatim
+   * rather than condensed, so the `pages` or `sections` spans (offsets into
+   * `content`) stay valid for citing; the mode's length limit still applies
+   * and drops whole spans past it, cutting only the span it falls in.
+   * Sections and the outline are detected on the raw page text, before
+   * formatting joins heading lines into paragraphs.
+   */
+  private async processPDFSelection(
+    attachment: any,
+    modeConfig: any,
+    selection: PDFSelection,
+    signal?: AbortSignal,
+  ): Promise<any> {
+    const filePath = attachment.getFilePath();
+    const allPages = await this.extractPDFPages(
+      filePath,
+      attachment.id,
+      signal,
+    );
+    const selected = selection.pages
+      ? selectPages(selection.pages, allPages.length)
+      : allPages.map((_, index) => index + 1);
+    if (selected.length === 0) {
+      throw new Error(
+        `No pages in the requested range (the PDF has ${allPages.length} pages)`,
+      );
+    }
+
+    let text = "";
+    let spans: any[] = [];
+    let outline: any;
+    if (selection.sections || selection.outline) {
+      const raw = joinPages(
+        selected.map((page) => ({ page, text: allPages[page - 1] })),
+      );
+      const pageOf = (offset: number) => pageAt(raw.spans, offset)?.page;
+      const sections = detectSections(raw.text);
+      const captions = detectCaptions(raw.text);
+      outline = {
+        structureDetected: sections.length > 0,
+        sections: sections.map((section) => ({
+          type: section.type,
+          heading: section.heading,
+          page: pageOf(section.start),
+          length: section.end - section.start,
+        })),
+        captions: captions.map((caption) => ({
+          kind: caption.kind,
+          label: caption.label,
+          page: pageOf(caption.start),
+          text: caption.text,
+        })),
+      };
+
+      if (selection.sections) {
+        const wanted = selection.sections;
+        const pieces = sections
+          .filter((section) => wanted.includes(section.type))
+          .map((section) => ({
+            type: section.type as string,
+            heading: section.heading,
+            page: pageOf(section.start),
+            text: TextFormatter.formatPDFText(
+              raw.text.slice(section.start, section.end),
+            ).trim(),
+          }));
+        if (wanted.includes("captions")) {
+          pieces.push(
+            ...captions.map((caption) => ({
+              type: "caption",
+              heading: caption.label,
+              page: pageOf(caption.start),
+              text: caption.text,
+            })),
+          );
+        }
+        if (pieces.length === 0) {
+          const found = sections.map((section) => section.type).join(", ");
+          throw new Error(
+            found
+              ? `None of the requested sections were found (this PDF has: ${found})`
+              : "No section headings were detected in this PDF; select pages instead",
+          );
+        }
+
+        for (const { text: pieceText, ...piece } of pieces) {
+          if (text) text += "\n\n";
+          const start = text.length;
+          text += pieceText;
+          spans.push({ ...piece, start, end: text.length });
+        }
+      }
+    }
+
+    if (!selection.sections) {
+      ({ text, spans } = joinPages(
+        selected.map((page) => ({
+          page,
+          text: TextFormatter.formatPDFText(allPages[page - 1]).trim(),
+        })),
+      ));
+    }
+
+    const originalLength = text.length;
+    const limit = modeConfig.maxContentLength;
+    if (limit > 0 && text.length > limit) {
+      spans = spans
+        .filter((span) => span.start < limit)
+        .map((span) => ({ ...span, end: Math.min(span.end, limit) }));
+      text = text.slice(0, limit);
+    }
+
+    return {
+      attachmentKey: attachment.key,
+      filename: attachment.attachmentFilename,
+      filePath,
+      contentType: attachment.attachmentContentType,
+      type: this.categorizeAttachmentType(attachment.attachmentContentType),
+      content: text,
+      length: text.length,
+      originalLength,
+      truncated: text.length < originalLength,
+      extractionMethod: selection.sections ? "pdf_sections" : "pdf_pages",
+      extractedAt: new Date().toISOString(),
+      pageCount: allPages.length,
+      [selection.sections ? "sections" : "pages"]: spans,
+      ...(outline && { outline }),
+    };
+  }
+
   /**
    * Try to get cached fulltext from Zotero's index (much faster than extraction)
    */
@@ -638,11 +840,13 @@ export class UnifiedContentExtractor {
   }
 
   /**
-   * Extract text from PDF - first try Zotero cache, then fallback to PDFProcessor
+   * Extract text from PDF - first try Zotero cache, then fallback to PDFProcessor.
+   * Aborting the signal terminates the worker mid-extraction.
    */
   private async extractPDFText(
     filePath: string,
     attachmentId?: number,
+    signal?: AbortSignal,
   ): Promise<string> {
     // First try Zotero's cached fulltext (much faster)
     if (attachmentId) {
@@ -653,7 +857,10 @@ export class UnifiedContentExtractor {
     }
 
     // Fallback to PDFProcessor (slower, but works for new/unindexed PDFs)
+    throwIfCancelled(signal);
     const processor = new PDFProcessor(ztoolkit);
+    const onAbort = () => processor.terminate();
+    signal?.addEventListener("abort", onAbort);
     try {
       ztoolkit.log(
         `[UnifiedContentExtractor] Fallback to PDFProcessor for: ${filePath}`,
@@ -661,6 +868,7 @@ export class UnifiedContentExtractor {
       const rawText = await processor.extractText(filePath);
       return TextFormatter.formatPDFText(rawText);
     } catch (error) {
+      throwIfCancelled(signal);
       const errorMsg = error instanceof Error ? error.message : String(error);
       ztoolkit.log(
         `[UnifiedContentExtractor] PDF extraction failed: ${errorMsg}`,
@@ -671,6 +879,36 @@ export class UnifiedContentExtractor {
       }
       throw error;
     } finally {
+      signal?.removeEventListener("abort", onAbort);
+      processor.terminate();
+    }
+  }
+
+  /**
+   * Extract raw PDF text per page. The fulltext cache is used only when it
+   * kept its page breaks; otherwise the PDF is extracted afresh.
+   */
+  private async extractPDFPages(
+    filePath: string,
+    attachmentId: number,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const cachedText = await this.getZoteroCachedFulltext(attachmentId);
+    if (cachedText?.includes("\f")) {
+      return splitPages(cachedText);
+    }
+
+    throwIfCancelled(signal);
+    const processor = new PDFProcessor(ztoolkit);
+    const onAbort = () => processor.terminate();
+    signal?.addEventListener("abort", onAbort);
+    try {
+      return await processor.extractPages(filePath);
+    } catch (error) {
+      throwIfCancelled(signal);
+      throw error;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
       processor.terminate();
     }
   }
@@ -789,7 +1027,7 @@ export class UnifiedContentExtractor {
     if (result.content.attachments) {
       for (const att of result.content.attachments) {
         textParts.push(
-          `ATTACHMENT (${att.filename || att.type}):\n${att.content}\n`,
+          `ATTACHMENT (${att.filename || att.type}):\n${this.attachmentToText(att)}\n`,
         );
       }
     }
@@ -807,6 +1045,28 @@ export class UnifiedContentExtractor {
     return textParts.join("\n---\n\n");
   }
 
+  /**
+   * Plain text of one attachment result; page and section extracts are
+   * marked per span.
+   */
+  attachmentToText(attachment: any): string {
+    if (attachment?.sections) {
+      return attachment.sections
+        .map(
+          (span: any) =>
+            `[${span.heading || span.type}${span.page ? `, page ${span.page}` : ""}]\n${attachment.content.slice(span.start, span.end)}`,
+        )
+        .join("\n\n");
+    }
+    if (!attachment?.pages) return attachment?.content || "";
+    return attachment.pages
+      .map(
+        (span: PageSpan) =>
+          `[Page ${span.page}]\n${attachment.content.slice(span.start, span.end)}`,
+      )
+      .join("\n\n");
+  }
+
   /**
    * Get mode-specific configuration
    */
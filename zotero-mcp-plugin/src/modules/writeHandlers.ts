@@ -3,9 +3,10 @@
  * Provides write operations (notes, tags, collections, items) via Zotero's internal JS API.
  *
  * Writes are gated by per-scope preferences in serverPreferences (notes,
- * tags, collections, metadata, delete, bulk, import). Each handler asserts
- * the specific scope it needs, so a user who only enables "notes" cannot be
- * tricked into a destructive call.
+ * tags, collections, metadata, delete, bulk, import, index, annotations,
+ * merge). Each handler asserts the specific scope it needs, so a user who
+ * only enables "notes" cannot be tricked into a destructive call. Undo
+ * requires the scopes of the operation it reverts (see mutationJournal).
  */
 
 declare let Zotero: any;
@@ -13,6 +14,34 @@ declare let ztoolkit: ZToolkit;
 
 import { serverPreferences, type WriteScope } from "./serverPreferences";
 import { resolvePMCPDFURL } from "./pmcURLResolver";
+import { throwIfCancelled, type TaskControl } from "./taskControl";
+import { getSemanticSearchService } from "./semantic";
+import {
+  ANNOTATION_COLORS,
+  buildSortIndex,
+  findTextAnchor,
+  noteRect,
+  resolveAnnotationColor,
+} from "./annotationAnchor";
+import { withPDFTextLayer } from "./pdfTextLayer";
+import { mergeFields } from "./duplicateDetector";
+import {
+  findItemIDsByIdentifier,
+  formatIdentifier,
+  IDENTIFIER_TYPES,
+  identifierLabel,
+  openAccessPDFURL,
+  parseIdentifier,
+  translateIdentifier,
+  type IdentifierType,
+} from "./identifiers";
+import {
+  getJournalEntry,
+  getLastUndoable,
+  undoEntry,
+  type JournalEntry,
+} from "./mutationJournal";
+import { listSavedSearches, savedSearchConditions } from "./savedSearches";
 
 const ZOTERO_KEY_RE = /^[A-Z0-9]{8}$/;
 
@@ -86,7 +115,11 @@ export interface MutationResult {
   action: string;
   itemKey: string;
   details: Record<string, any>;
+  /** Library the mutation ran in; pair with itemKey for a qualified key. */
+  libraryID: number;
   timestamp: string;
+  /** Undo journal entry for this mutation; pass to undo_operation. */
+  operationId?: string;
 }
 
 // --- Shared Utilities ---
@@ -100,21 +133,42 @@ export function isScopeEnabled(scope: WriteScope): boolean {
   return serverPreferences.isScopeEnabled(scope);
 }
 
-function assertScope(scope: WriteScope): void {
+/** Handlers default to the personal library when no libraryID is given. */
+function targetLibraryID(libraryID?: number): number {
+  return typeof libraryID === "number"
+    ? libraryID
+    : Zotero.Libraries.userLibraryID;
+}
+
+function assertScope(scope: WriteScope, libraryID?: number): void {
   if (!serverPreferences.isScopeEnabled(scope)) {
     throw new WriteDisabledError(scope);
   }
+  const target = targetLibraryID(libraryID);
+  if (!serverPreferences.isScopeEnabledForLibrary(scope, target)) {
+    throw new WriteDisabledError(
+      scope,
+      `Write scope '${scope}' is not granted for library ${target}. Group libraries need a per-library grant in Zotero → Settings → Zotero MCP Plugin.`,
+    );
+  }
+  const library = Zotero.Libraries.get(target);
+  if (library && !library.editable) {
+    throw new WriteDisabledError(
+      scope,
+      `Library ${target} is read-only for this Zotero account`,
+    );
+  }
 }
 
 /** Require every listed scope (e.g. bulk-trash needs `bulk` AND `delete`). */
-function assertScopes(scopes: WriteScope[]): void {
-  for (const s of scopes) assertScope(s);
+function assertScopes(scopes: WriteScope[], libraryID?: number): void {
+  for (const s of scopes) assertScope(s, libraryID);
 }
 
-function resolveItem(itemKey: string): any {
+function resolveItem(itemKey: string, libraryID?: number): any {
   assertValidItemKey(itemKey);
   const item = Zotero.Items.getByLibraryAndKey(
-    Zotero.Libraries.userLibraryID,
+    targetLibraryID(libraryID),
     itemKey,
   );
   if (!item) {
@@ -123,10 +177,10 @@ function resolveItem(itemKey: string): any {
   return item;
 }
 
-function resolveCollection(collectionKey: string): any {
+function resolveCollection(collectionKey: string, libraryID?: number): any {
   assertValidCollectionKey(collectionKey);
   const collection = Zotero.Collections.getByLibraryAndKey(
-    Zotero.Libraries.userLibraryID,
+    targetLibraryID(libraryID),
     collectionKey,
   );
   if (!collection) {
@@ -138,21 +192,22 @@ function resolveCollection(collectionKey: string): any {
 // --- Priority 1: Core Write Handlers ---
 
 export async function handleAddNote(args: {
+  libraryID?: number;
   itemKey?: string;
   content: string;
   tags?: string[];
 }): Promise<MutationResult> {
-  assertScope("notes");
+  assertScope("notes", args.libraryID);
 
   if (!args.content || args.content.trim().length === 0) {
     throw new Error("Note content cannot be empty");
   }
 
   const noteItem = new Zotero.Item("note");
-  noteItem.libraryID = Zotero.Libraries.userLibraryID;
+  noteItem.libraryID = targetLibraryID(args.libraryID);
 
   if (args.itemKey) {
-    const parentItem = resolveItem(args.itemKey);
+    const parentItem = resolveItem(args.itemKey, args.libraryID);
     noteItem.parentKey = parentItem.key;
   }
 
@@ -185,22 +240,24 @@ export async function handleAddNote(args: {
       isStandalone: !args.itemKey,
       tags: args.tags || [],
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleAddTags(args: {
+  libraryID?: number;
   itemKey: string;
   tags: string[];
   type?: number;
 }): Promise<MutationResult> {
-  assertScope("tags");
+  assertScope("tags", args.libraryID);
 
   if (!args.tags || args.tags.length === 0) {
     throw new Error("At least one tag is required");
   }
 
-  const item = resolveItem(args.itemKey);
+  const item = resolveItem(args.itemKey, args.libraryID);
   const tagType = args.type ?? 0;
 
   const added: string[] = [];
@@ -235,21 +292,23 @@ export async function handleAddTags(args: {
       skipped,
       totalTagsNow: item.getTags().length,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleRemoveTags(args: {
+  libraryID?: number;
   itemKey: string;
   tags: string[];
 }): Promise<MutationResult> {
-  assertScope("tags");
+  assertScope("tags", args.libraryID);
 
   if (!args.tags || args.tags.length === 0) {
     throw new Error("At least one tag is required");
   }
 
-  const item = resolveItem(args.itemKey);
+  const item = resolveItem(args.itemKey, args.libraryID);
 
   const removed: string[] = [];
   const notFound: string[] = [];
@@ -283,18 +342,20 @@ export async function handleRemoveTags(args: {
       notFound,
       totalTagsNow: item.getTags().length,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleAddToCollection(args: {
+  libraryID?: number;
   itemKey: string;
   collectionKey: string;
 }): Promise<MutationResult> {
-  assertScope("collections");
+  assertScope("collections", args.libraryID);
 
-  const item = resolveItem(args.itemKey);
-  const collection = resolveCollection(args.collectionKey);
+  const item = resolveItem(args.itemKey, args.libraryID);
+  const collection = resolveCollection(args.collectionKey, args.libraryID);
 
   // Check if already in collection
   if (collection.hasItem(item.id)) {
@@ -310,6 +371,7 @@ export async function handleAddToCollection(args: {
         collectionName: collection.name,
         alreadyInCollection: true,
       },
+      libraryID: targetLibraryID(args.libraryID),
       timestamp: new Date().toISOString(),
     };
   }
@@ -330,15 +392,17 @@ export async function handleAddToCollection(args: {
       collectionName: collection.name,
       alreadyInCollection: false,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleCreateCollection(args: {
+  libraryID?: number;
   name: string;
   parentCollectionKey?: string;
 }): Promise<MutationResult> {
-  assertScope("collections");
+  assertScope("collections", args.libraryID);
 
   if (!args.name || args.name.trim().length === 0) {
     throw new Error("Collection name cannot be empty");
@@ -346,10 +410,10 @@ export async function handleCreateCollection(args: {
 
   const collection = new Zotero.Collection();
   collection.name = args.name.trim();
-  collection.libraryID = Zotero.Libraries.userLibraryID;
+  collection.libraryID = targetLibraryID(args.libraryID);
 
   if (args.parentCollectionKey) {
-    const parent = resolveCollection(args.parentCollectionKey);
+    const parent = resolveCollection(args.parentCollectionKey, args.libraryID);
     collection.parentKey = parent.key;
   }
 
@@ -368,6 +432,64 @@ export async function handleCreateCollection(args: {
       name: collection.name,
       parentCollectionKey: args.parentCollectionKey || null,
     },
+    libraryID: targetLibraryID(args.libraryID),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Save search_library parameters as a Zotero saved search. Names must be
+ * unique within the library, so run_saved_search can find it by name.
+ * Saved searches are not in the undo journal.
+ */
+export async function handleCreateSavedSearch(args: {
+  libraryID?: number;
+  name: string;
+  [param: string]: any;
+}): Promise<MutationResult> {
+  assertScope("collections", args.libraryID);
+
+  const { libraryID, name: rawName, ...params } = args;
+  const name = (rawName || "").trim();
+  if (!name) {
+    throw new Error("Saved search name cannot be empty");
+  }
+  const conditions = savedSearchConditions(params);
+  if (params.collection) {
+    resolveCollection(params.collection, libraryID);
+  }
+
+  const existing = (await listSavedSearches(targetLibraryID(libraryID))).find(
+    (search) => search.name.toLowerCase() === name.toLowerCase(),
+  );
+  if (existing) {
+    throw new Error(
+      `A saved search named "${existing.name}" already exists (key: ${existing.key})`,
+    );
+  }
+
+  const search = new Zotero.Search();
+  search.libraryID = targetLibraryID(libraryID);
+  search.name = name;
+  for (const { condition, operator, value } of conditions) {
+    search.addCondition(condition, operator, value);
+  }
+  await search.saveTx();
+
+  ztoolkit.log(
+    `[WriteHandlers] Created saved search "${name}" (key: ${search.key}, ${conditions.length} conditions)`,
+  );
+
+  return {
+    success: true,
+    action: "create_saved_search",
+    itemKey: search.key,
+    details: {
+      searchKey: search.key,
+      name,
+      conditions,
+    },
+    libraryID: targetLibraryID(libraryID),
     timestamp: new Date().toISOString(),
   };
 }
@@ -375,6 +497,7 @@ export async function handleCreateCollection(args: {
 // --- Priority 2: Extended Write Handlers ---
 
 export async function handleUpdateItem(args: {
+  libraryID?: number;
   itemKey: string;
   fields?: Record<string, string>;
   creators?: Array<{
@@ -384,14 +507,14 @@ export async function handleUpdateItem(args: {
     creatorType: string;
   }>;
 }): Promise<MutationResult> {
-  assertScope("metadata");
+  assertScope("metadata", args.libraryID);
 
   const fields = args.fields ?? {};
   if (Object.keys(fields).length === 0 && !args.creators) {
     throw new Error("At least one of fields or creators is required");
   }
 
-  const item = resolveItem(args.itemKey);
+  const item = resolveItem(args.itemKey, args.libraryID);
 
   const restrictedFields = [
     "key",
@@ -457,11 +580,13 @@ export async function handleUpdateItem(args: {
     action: "update_item",
     itemKey: args.itemKey,
     details: { updated, errors },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleCreateItem(args: {
+  libraryID?: number;
   itemType: string;
   fields?: Record<string, string>;
   creators?: Array<{
@@ -473,10 +598,10 @@ export async function handleCreateItem(args: {
   tags?: string[];
   collections?: string[];
 }): Promise<MutationResult> {
-  assertScope("metadata");
+  assertScope("metadata", args.libraryID);
 
   const item = new Zotero.Item(args.itemType);
-  item.libraryID = Zotero.Libraries.userLibraryID;
+  item.libraryID = targetLibraryID(args.libraryID);
 
   const fieldErrors: Array<{ field: string; error: string }> = [];
 
@@ -523,7 +648,7 @@ export async function handleCreateItem(args: {
   if (args.collections) {
     for (const collectionKey of args.collections) {
       // Validate collection exists
-      resolveCollection(collectionKey);
+      resolveCollection(collectionKey, args.libraryID);
       item.addToCollection(collectionKey);
     }
   }
@@ -544,18 +669,20 @@ export async function handleCreateItem(args: {
       title: item.getField("title") || null,
       fieldErrors: fieldErrors.length > 0 ? fieldErrors : undefined,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleRemoveFromCollection(args: {
+  libraryID?: number;
   itemKey: string;
   collectionKey: string;
 }): Promise<MutationResult> {
-  assertScope("collections");
+  assertScope("collections", args.libraryID);
 
-  const item = resolveItem(args.itemKey);
-  const collection = resolveCollection(args.collectionKey);
+  const item = resolveItem(args.itemKey, args.libraryID);
+  const collection = resolveCollection(args.collectionKey, args.libraryID);
 
   if (!collection.hasItem(item.id)) {
     ztoolkit.log(
@@ -570,6 +697,7 @@ export async function handleRemoveFromCollection(args: {
         collectionName: collection.name,
         wasInCollection: false,
       },
+      libraryID: targetLibraryID(args.libraryID),
       timestamp: new Date().toISOString(),
     };
   }
@@ -590,6 +718,7 @@ export async function handleRemoveFromCollection(args: {
       collectionName: collection.name,
       wasInCollection: true,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
@@ -598,12 +727,16 @@ export async function handleRemoveFromCollection(args: {
 
 const BATCH_LIMIT = 100;
 
-export async function handleBatchTag(args: {
-  itemKeys: string[];
-  tags: string[];
-  type?: number;
-}): Promise<MutationResult> {
-  assertScopes(["bulk", "tags"]);
+export async function handleBatchTag(
+  args: {
+    libraryID?: number;
+    itemKeys: string[];
+    tags: string[];
+    type?: number;
+  },
+  control: TaskControl = {},
+): Promise<MutationResult> {
+  assertScopes(["bulk", "tags"], args.libraryID);
 
   if (!args.itemKeys || args.itemKeys.length === 0) {
     throw new Error("At least one itemKey is required");
@@ -624,9 +757,13 @@ export async function handleBatchTag(args: {
   }> = [];
 
   await Zotero.DB.executeTransaction(async () => {
-    for (const itemKey of args.itemKeys) {
+    for (const [index, itemKey] of args.itemKeys.entries()) {
+      // Outside the per-item try: cancelling must abort the transaction,
+      // not be recorded as one failed item.
+      throwIfCancelled(control.signal);
+      control.onProgress?.(index, args.itemKeys.length);
       try {
-        const item = resolveItem(itemKey);
+        const item = resolveItem(itemKey, args.libraryID);
         const added: string[] = [];
         const skipped: string[] = [];
 
@@ -673,15 +810,20 @@ export async function handleBatchTag(args: {
       totalTagsAdded: totalAdded,
       results,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
-export async function handleBatchAddToCollection(args: {
-  itemKeys: string[];
-  collectionKey: string;
-}): Promise<MutationResult> {
-  assertScopes(["bulk", "collections"]);
+export async function handleBatchAddToCollection(
+  args: {
+    libraryID?: number;
+    itemKeys: string[];
+    collectionKey: string;
+  },
+  control: TaskControl = {},
+): Promise<MutationResult> {
+  assertScopes(["bulk", "collections"], args.libraryID);
 
   if (!args.itemKeys || args.itemKeys.length === 0) {
     throw new Error("At least one itemKey is required");
@@ -690,7 +832,7 @@ export async function handleBatchAddToCollection(args: {
     throw new BatchLimitError(BATCH_LIMIT);
   }
 
-  const collection = resolveCollection(args.collectionKey);
+  const collection = resolveCollection(args.collectionKey, args.libraryID);
 
   const results: Array<{
     itemKey: string;
@@ -700,9 +842,11 @@ export async function handleBatchAddToCollection(args: {
   }> = [];
 
   await Zotero.DB.executeTransaction(async () => {
-    for (const itemKey of args.itemKeys) {
+    for (const [index, itemKey] of args.itemKeys.entries()) {
+      throwIfCancelled(control.signal);
+      control.onProgress?.(index, args.itemKeys.length);
       try {
-        const item = resolveItem(itemKey);
+        const item = resolveItem(itemKey, args.libraryID);
 
         if (collection.hasItem(item.id)) {
           results.push({
@@ -747,6 +891,7 @@ export async function handleBatchAddToCollection(args: {
       totalAdded,
       results,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
@@ -754,11 +899,12 @@ export async function handleBatchAddToCollection(args: {
 // --- Tier 1: Additional Write Handlers ---
 
 export async function handleUpdateNote(args: {
+  libraryID?: number;
   noteKey: string;
   content: string;
   tags?: string[];
 }): Promise<MutationResult> {
-  assertScope("notes");
+  assertScope("notes", args.libraryID);
 
   if (!args.noteKey) {
     throw new Error("noteKey is required");
@@ -767,7 +913,7 @@ export async function handleUpdateNote(args: {
     throw new Error("Note content cannot be empty");
   }
 
-  const item = resolveItem(args.noteKey);
+  const item = resolveItem(args.noteKey, args.libraryID);
 
   if (!item.isNote()) {
     throw new Error(
@@ -805,20 +951,22 @@ export async function handleUpdateNote(args: {
       contentLength: args.content.length,
       tags: args.tags || null,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleTrashItem(args: {
+  libraryID?: number;
   itemKey: string;
 }): Promise<MutationResult> {
-  assertScope("delete");
+  assertScope("delete", args.libraryID);
 
   if (!args.itemKey) {
     throw new Error("itemKey is required");
   }
 
-  const item = resolveItem(args.itemKey);
+  const item = resolveItem(args.itemKey, args.libraryID);
   const title = item.getField("title") || item.key;
   const itemType = item.itemType;
 
@@ -835,15 +983,17 @@ export async function handleTrashItem(args: {
       itemType,
       trashedAt: new Date().toISOString(),
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleRenameCollection(args: {
+  libraryID?: number;
   collectionKey: string;
   newName: string;
 }): Promise<MutationResult> {
-  assertScope("collections");
+  assertScope("collections", args.libraryID);
 
   if (!args.collectionKey) {
     throw new Error("collectionKey is required");
@@ -852,7 +1002,7 @@ export async function handleRenameCollection(args: {
     throw new Error("newName cannot be empty");
   }
 
-  const collection = resolveCollection(args.collectionKey);
+  const collection = resolveCollection(args.collectionKey, args.libraryID);
   const oldName = collection.name;
 
   collection.name = args.newName.trim();
@@ -871,27 +1021,29 @@ export async function handleRenameCollection(args: {
       oldName,
       newName: collection.name,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleDeleteCollection(args: {
+  libraryID?: number;
   collectionKey: string;
   deleteItems?: boolean;
 }): Promise<MutationResult> {
   // Always require `delete`. If the user opted into deleteItems=true, require
   // `bulk` too — this turns one tool call into a hard delete of every item.
   if (args.deleteItems === true) {
-    assertScopes(["delete", "bulk"]);
+    assertScopes(["delete", "bulk"], args.libraryID);
   } else {
-    assertScope("delete");
+    assertScope("delete", args.libraryID);
   }
 
   if (!args.collectionKey) {
     throw new Error("collectionKey is required");
   }
 
-  const collection = resolveCollection(args.collectionKey);
+  const collection = resolveCollection(args.collectionKey, args.libraryID);
   const name = collection.name;
   const deleteItems = args.deleteItems || false;
 
@@ -910,17 +1062,19 @@ export async function handleDeleteCollection(args: {
       name,
       deleteItems,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleRenameTag(args: {
+  libraryID?: number;
   oldName: string;
   newName: string;
 }): Promise<MutationResult> {
   // Library-wide tag rewrite. Need both `tags` and `bulk` since a single call
   // mutates every item carrying that tag.
-  assertScopes(["tags", "bulk"]);
+  assertScopes(["tags", "bulk"], args.libraryID);
 
   if (!args.oldName || args.oldName.trim().length === 0) {
     throw new Error("oldName is required");
@@ -929,7 +1083,7 @@ export async function handleRenameTag(args: {
     throw new Error("newName is required");
   }
 
-  const libraryID = Zotero.Libraries.userLibraryID;
+  const libraryID = targetLibraryID(args.libraryID);
   const oldName = args.oldName.trim();
   const newName = args.newName.trim();
 
@@ -945,21 +1099,23 @@ export async function handleRenameTag(args: {
       oldName,
       newName,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleDeleteTag(args: {
+  libraryID?: number;
   tagName: string;
 }): Promise<MutationResult> {
   // Library-wide tag deletion strips the tag from every item.
-  assertScopes(["delete", "bulk"]);
+  assertScopes(["delete", "bulk"], args.libraryID);
 
   if (!args.tagName || args.tagName.trim().length === 0) {
     throw new Error("tagName is required");
   }
 
-  const libraryID = Zotero.Libraries.userLibraryID;
+  const libraryID = targetLibraryID(args.libraryID);
   const tagName = args.tagName.trim();
 
   // Look up tag ID
@@ -980,6 +1136,7 @@ export async function handleDeleteTag(args: {
       tagName,
       tagID,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
@@ -987,10 +1144,11 @@ export async function handleDeleteTag(args: {
 // --- Tier 2: Extended Write Handlers ---
 
 export async function handleAddRelatedItem(args: {
+  libraryID?: number;
   itemKey: string;
   relatedItemKey: string;
 }): Promise<MutationResult> {
-  assertScope("metadata");
+  assertScope("metadata", args.libraryID);
 
   if (!args.itemKey) {
     throw new Error("itemKey is required");
@@ -1002,8 +1160,8 @@ export async function handleAddRelatedItem(args: {
     throw new Error("Cannot relate an item to itself");
   }
 
-  const item = resolveItem(args.itemKey);
-  const relatedItem = resolveItem(args.relatedItemKey);
+  const item = resolveItem(args.itemKey, args.libraryID);
+  const relatedItem = resolveItem(args.relatedItemKey, args.libraryID);
 
   // Atomic bidirectional relation: both sides save in the same transaction.
   // Without this, a failure on the second save leaves a half-related state
@@ -1028,15 +1186,17 @@ export async function handleAddRelatedItem(args: {
       relatedItemKey: args.relatedItemKey,
       bidirectional: true,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleRemoveRelatedItem(args: {
+  libraryID?: number;
   itemKey: string;
   relatedItemKey: string;
 }): Promise<MutationResult> {
-  assertScope("metadata");
+  assertScope("metadata", args.libraryID);
 
   if (!args.itemKey) {
     throw new Error("itemKey is required");
@@ -1045,8 +1205,8 @@ export async function handleRemoveRelatedItem(args: {
     throw new Error("relatedItemKey is required");
   }
 
-  const item = resolveItem(args.itemKey);
-  const relatedItem = resolveItem(args.relatedItemKey);
+  const item = resolveItem(args.itemKey, args.libraryID);
+  const relatedItem = resolveItem(args.relatedItemKey, args.libraryID);
 
   // Atomic bidirectional removal — see handleAddRelatedItem for rationale.
   await Zotero.DB.executeTransaction(async () => {
@@ -1069,6 +1229,7 @@ export async function handleRemoveRelatedItem(args: {
       relatedItemKey: args.relatedItemKey,
       bidirectional: true,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
@@ -1246,12 +1407,13 @@ export interface ExistingAttachmentInfo {
 }
 
 /**
- * Decide what to do given existing same-type attachments and a policy.
- * Pure function — no Zotero access. Extracted so the policy logic can
- * be tested independently of the rest of the import pipeline.
+ * Decide what to do given existing matches (same-type attachments for
+ * import_attachment_url, same-identifier items for import_by_identifier)
+ * and a policy. Pure function — no Zotero access. Extracted so the policy
+ * logic can be tested independently of the rest of the import pipeline.
  */
 export function decideImportAction(
-  existing: ExistingAttachmentInfo[],
+  existing: readonly unknown[],
   policy: IfExistsPolicy,
 ): "create" | "skip" | "replace" {
   if (existing.length === 0) return "create";
@@ -1290,6 +1452,7 @@ export function findSameTypeAttachments(
 }
 
 export async function handleImportAttachmentURL(args: {
+  libraryID?: number;
   url: string;
   parentItemKey?: string;
   title?: string;
@@ -1297,7 +1460,7 @@ export async function handleImportAttachmentURL(args: {
   dryRun?: boolean;
   ifExists?: IfExistsPolicy;
 }): Promise<MutationResult> {
-  assertScope("import");
+  assertScope("import", args.libraryID);
 
   if (!args.url) {
     throw new Error("url is required");
@@ -1311,12 +1474,12 @@ export async function handleImportAttachmentURL(args: {
   const ifExists: IfExistsPolicy = args.ifExists ?? "add";
   const dryRun = !!args.dryRun;
 
-  const libraryID = Zotero.Libraries.userLibraryID;
+  const libraryID = targetLibraryID(args.libraryID);
   let parentItemID: number | undefined;
   let parentItem: any;
 
   if (args.parentItemKey) {
-    parentItem = resolveItem(args.parentItemKey);
+    parentItem = resolveItem(args.parentItemKey, args.libraryID);
     parentItemID = parentItem.id;
   }
 
@@ -1375,6 +1538,7 @@ export async function handleImportAttachmentURL(args: {
         ifExists,
         existingAttachments: existing,
       },
+      libraryID: targetLibraryID(args.libraryID),
       timestamp: new Date().toISOString(),
     };
   }
@@ -1395,6 +1559,7 @@ export async function handleImportAttachmentURL(args: {
         ifExists,
         existingAttachments: existing,
       },
+      libraryID: targetLibraryID(args.libraryID),
       timestamp: new Date().toISOString(),
     };
   }
@@ -1404,7 +1569,7 @@ export async function handleImportAttachmentURL(args: {
   // includes removing data.
   const trashedKeys: string[] = [];
   if (decision === "replace") {
-    assertScope("delete");
+    assertScope("delete", args.libraryID);
     for (const info of existing) {
       const att = Zotero.Items.getByLibraryAndKey(libraryID, info.key);
       if (!att) continue;
@@ -1474,6 +1639,201 @@ export async function handleImportAttachmentURL(args: {
       ifExists,
       trashedAttachmentKeys: trashedKeys.length > 0 ? trashedKeys : null,
     },
+    libraryID: targetLibraryID(args.libraryID),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+export interface ExistingItemInfo {
+  key: string;
+  itemType: string;
+  title: string;
+  dateAdded: string;
+}
+
+/**
+ * Regular, non-trashed items in a library that carry the identifier.
+ * Used for dedup decisions before importing by identifier.
+ */
+async function findItemsWithIdentifier(
+  libraryID: number,
+  type: IdentifierType,
+  value: string,
+): Promise<any[]> {
+  const { ids } = await findItemIDsByIdentifier(libraryID, { [type]: value });
+  if (ids.length === 0) return [];
+  const items: any[] = await Zotero.Items.getAsync(ids);
+  return items.filter((item) => item.isRegularItem() && !item.deleted);
+}
+
+function describeExistingItem(item: any): ExistingItemInfo {
+  return {
+    key: item.key,
+    itemType: item.itemType,
+    title: item.getField("title") || "",
+    dateAdded: item.dateAdded || "",
+  };
+}
+
+export async function handleImportByIdentifier(
+  args: {
+    libraryID?: number;
+    identifier: string;
+    type?: IdentifierType;
+    collectionKey?: string;
+    ifExists?: IfExistsPolicy;
+    attachPDF?: boolean;
+    dryRun?: boolean;
+  },
+  control: TaskControl = {},
+): Promise<MutationResult> {
+  assertScope("import", args.libraryID);
+
+  if (
+    args.type !== undefined &&
+    !(IDENTIFIER_TYPES as readonly string[]).includes(args.type)
+  ) {
+    throw new Error(`type must be one of: ${IDENTIFIER_TYPES.join(", ")}`);
+  }
+  const identifier = parseIdentifier(args.identifier || "", args.type);
+  if (!identifier) {
+    throw new Error(
+      `"${args.identifier}" is not a valid ${args.type ? identifierLabel(args.type) : "DOI, ISBN, PMID or arXiv ID"}`,
+    );
+  }
+
+  // Items are deduplicated by default: importing the same DOI twice is
+  // almost never what the caller wants.
+  const ifExists: IfExistsPolicy = args.ifExists ?? "skip";
+  const libraryID = targetLibraryID(args.libraryID);
+  const collection = args.collectionKey
+    ? resolveCollection(args.collectionKey, args.libraryID)
+    : null;
+
+  const existingItems = await findItemsWithIdentifier(
+    libraryID,
+    identifier.type,
+    identifier.value,
+  );
+  const existing = existingItems.map(describeExistingItem);
+  const decision = decideImportAction(existing, ifExists);
+  const summary = {
+    identifier: identifier.value,
+    identifierType: identifier.type,
+    collectionKey: args.collectionKey || null,
+    ifExists,
+    existingItems: existing,
+  };
+
+  if (args.dryRun) {
+    return {
+      success: true,
+      action: "import_by_identifier",
+      itemKey: existing[0]?.key ?? "",
+      details: { dryRun: true, decision, ...summary },
+      libraryID,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  if (decision === "skip") {
+    // The item is already in the library; still file it where asked.
+    const item = existingItems[0];
+    let addedToCollection = false;
+    if (collection && !collection.hasItem(item.id)) {
+      assertScope("collections", args.libraryID);
+      item.addToCollection(collection.key);
+      await item.saveTx({ skipDateModifiedUpdate: true });
+      addedToCollection = true;
+    }
+    return {
+      success: true,
+      action: "import_by_identifier",
+      itemKey: item.key,
+      details: { skipped: true, decision, ...summary, addedToCollection },
+      libraryID,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // Replace needs delete scope on top of import scope; check it before the
+  // lookup rather than after the new item is saved.
+  if (decision === "replace") assertScope("delete", args.libraryID);
+
+  throwIfCancelled(control.signal);
+  const items = await translateIdentifier(identifier, {
+    libraryID,
+    collections: collection ? [collection.id] : [],
+  });
+  if (items.length === 0) {
+    throw new Error(`No metadata found for ${formatIdentifier(identifier)}`);
+  }
+  const item = items[0];
+
+  // Replace path: trash the existing items carrying the identifier only now
+  // that their replacement is in the library, all in one transaction.
+  const trashedKeys: string[] = [];
+  if (decision === "replace") {
+    await Zotero.DB.executeTransaction(async () => {
+      for (const existingItem of existingItems) {
+        existingItem.deleted = true;
+        await existingItem.save();
+      }
+    });
+    trashedKeys.push(...existingItems.map((existingItem) => existingItem.key));
+  }
+
+  ztoolkit.log(
+    `[WriteHandlers] Imported ${formatIdentifier(identifier)} as "${item.getField("title") || "(untitled)"}" (key: ${item.key})`,
+  );
+
+  // The PDF is best-effort: the item is imported either way, and a
+  // missing or failed download is reported rather than thrown.
+  let attachment: Record<string, any> | null = null;
+  if (args.attachPDF) {
+    throwIfCancelled(control.signal);
+    const url = await openAccessPDFURL(item);
+    if (!url) {
+      attachment = { attached: false, reason: "No open-access PDF found" };
+    } else {
+      try {
+        const imported = await handleImportAttachmentURL({
+          libraryID,
+          url,
+          parentItemKey: item.key,
+          contentType: "application/pdf",
+          ifExists: "skip",
+        });
+        attachment = {
+          attached: true,
+          attachmentKey: imported.itemKey,
+          url: imported.details.url,
+        };
+      } catch (err: any) {
+        attachment = {
+          attached: false,
+          url,
+          error: err?.message || String(err),
+        };
+      }
+    }
+  }
+
+  return {
+    success: true,
+    action: "import_by_identifier",
+    itemKey: item.key,
+    details: {
+      decision,
+      ...summary,
+      itemType: item.itemType,
+      title: item.getField("title") || null,
+      additionalItemKeys:
+        items.length > 1 ? items.slice(1).map((extra) => extra.key) : null,
+      trashedItemKeys: trashedKeys.length > 0 ? trashedKeys : null,
+      attachment,
+    },
+    libraryID,
     timestamp: new Date().toISOString(),
   };
 }
@@ -1481,15 +1841,16 @@ export async function handleImportAttachmentURL(args: {
 // --- Tier 3: Additional Write Handlers ---
 
 export async function handleRestoreFromTrash(args: {
+  libraryID?: number;
   itemKey: string;
 }): Promise<MutationResult> {
-  assertScope("delete");
+  assertScope("delete", args.libraryID);
 
   if (!args.itemKey) {
     throw new Error("itemKey is required");
   }
 
-  const libraryID = Zotero.Libraries.userLibraryID;
+  const libraryID = targetLibraryID(args.libraryID);
 
   // Try normal resolution first (trashed items may still resolve)
   let item = Zotero.Items.getByLibraryAndKey(libraryID, args.itemKey);
@@ -1516,6 +1877,7 @@ export async function handleRestoreFromTrash(args: {
         alreadyRestored: true,
         title: item.getField("title") || item.key,
       },
+      libraryID: targetLibraryID(args.libraryID),
       timestamp: new Date().toISOString(),
     };
   }
@@ -1538,15 +1900,17 @@ export async function handleRestoreFromTrash(args: {
       itemType: item.itemType,
       restoredAt: new Date().toISOString(),
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleMoveCollection(args: {
+  libraryID?: number;
   collectionKey: string;
   newParentKey?: string;
 }): Promise<MutationResult> {
-  assertScope("collections");
+  assertScope("collections", args.libraryID);
 
   if (!args.collectionKey) {
     throw new Error("collectionKey is required");
@@ -1561,11 +1925,11 @@ export async function handleMoveCollection(args: {
     );
   }
 
-  const collection = resolveCollection(args.collectionKey);
+  const collection = resolveCollection(args.collectionKey, args.libraryID);
   const oldParentKey = collection.parentKey || null;
 
   if (args.newParentKey) {
-    const newParent = resolveCollection(args.newParentKey);
+    const newParent = resolveCollection(args.newParentKey, args.libraryID);
 
     // Validate no circular parent: walk up from newParent to ensure we don't hit collection
     let current: any = newParent;
@@ -1576,7 +1940,7 @@ export async function handleMoveCollection(args: {
         );
       }
       current = Zotero.Collections.getByLibraryAndKey(
-        Zotero.Libraries.userLibraryID,
+        targetLibraryID(args.libraryID),
         current.parentKey,
       );
     }
@@ -1603,15 +1967,20 @@ export async function handleMoveCollection(args: {
       oldParentKey,
       newParentKey: args.newParentKey || null,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
-export async function handleBatchRemoveFromCollection(args: {
-  itemKeys: string[];
-  collectionKey: string;
-}): Promise<MutationResult> {
-  assertScopes(["bulk", "collections"]);
+export async function handleBatchRemoveFromCollection(
+  args: {
+    libraryID?: number;
+    itemKeys: string[];
+    collectionKey: string;
+  },
+  control: TaskControl = {},
+): Promise<MutationResult> {
+  assertScopes(["bulk", "collections"], args.libraryID);
 
   if (!args.itemKeys || args.itemKeys.length === 0) {
     throw new Error("At least one itemKey is required");
@@ -1623,7 +1992,7 @@ export async function handleBatchRemoveFromCollection(args: {
     throw new BatchLimitError(BATCH_LIMIT);
   }
 
-  const collection = resolveCollection(args.collectionKey);
+  const collection = resolveCollection(args.collectionKey, args.libraryID);
 
   const results: Array<{
     itemKey: string;
@@ -1633,9 +2002,11 @@ export async function handleBatchRemoveFromCollection(args: {
   }> = [];
 
   await Zotero.DB.executeTransaction(async () => {
-    for (const itemKey of args.itemKeys) {
+    for (const [index, itemKey] of args.itemKeys.entries()) {
+      throwIfCancelled(control.signal);
+      control.onProgress?.(index, args.itemKeys.length);
       try {
-        const item = resolveItem(itemKey);
+        const item = resolveItem(itemKey, args.libraryID);
 
         if (!collection.hasItem(item.id)) {
           results.push({
@@ -1680,15 +2051,20 @@ export async function handleBatchRemoveFromCollection(args: {
       totalRemoved,
       results,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
-export async function handleBatchTrash(args: {
-  itemKeys: string[];
-}): Promise<MutationResult> {
+export async function handleBatchTrash(
+  args: {
+    libraryID?: number;
+    itemKeys: string[];
+  },
+  control: TaskControl = {},
+): Promise<MutationResult> {
   // Most dangerous tool: bulk + delete required.
-  assertScopes(["bulk", "delete"]);
+  assertScopes(["bulk", "delete"], args.libraryID);
 
   if (!args.itemKeys || args.itemKeys.length === 0) {
     throw new Error("At least one itemKey is required");
@@ -1697,7 +2073,7 @@ export async function handleBatchTrash(args: {
     throw new BatchLimitError(BATCH_LIMIT);
   }
 
-  const libraryID = Zotero.Libraries.userLibraryID;
+  const libraryID = targetLibraryID(args.libraryID);
   const ids: number[] = [];
   const errors: Array<{ itemKey: string; error: string }> = [];
 
@@ -1710,6 +2086,9 @@ export async function handleBatchTrash(args: {
     }
   }
 
+  // Last checkpoint: trashTx is a single transaction, so past this point
+  // the batch lands as a whole.
+  throwIfCancelled(control.signal);
   if (ids.length > 0) {
     await Zotero.Items.trashTx(ids);
   }
@@ -1727,16 +2106,18 @@ export async function handleBatchTrash(args: {
       totalTrashed: ids.length,
       errors: errors.length > 0 ? errors : undefined,
     },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
 
 export async function handleMoveItemToCollection(args: {
+  libraryID?: number;
   itemKey: string;
   fromCollectionKey: string;
   toCollectionKey: string;
 }): Promise<MutationResult> {
-  assertScope("collections");
+  assertScope("collections", args.libraryID);
 
   if (!args.itemKey) {
     throw new Error("itemKey is required");
@@ -1748,9 +2129,12 @@ export async function handleMoveItemToCollection(args: {
     throw new Error("toCollectionKey is required");
   }
 
-  const item = resolveItem(args.itemKey);
-  const fromCollection = resolveCollection(args.fromCollectionKey);
-  const toCollection = resolveCollection(args.toCollectionKey);
+  const item = resolveItem(args.itemKey, args.libraryID);
+  const fromCollection = resolveCollection(
+    args.fromCollectionKey,
+    args.libraryID,
+  );
+  const toCollection = resolveCollection(args.toCollectionKey, args.libraryID);
 
   if (!fromCollection.hasItem(item.id)) {
     throw new Error(
@@ -1776,6 +2160,718 @@ export async function handleMoveItemToCollection(args: {
       toCollectionKey: args.toCollectionKey,
       toCollectionName: toCollection.name,
     },
+    libraryID: targetLibraryID(args.libraryID),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// --- Semantic Index Handlers ---
+
+const INDEX_CONTROL_ACTIONS = ["pause", "resume", "abort"] as const;
+type IndexControlAction = (typeof INDEX_CONTROL_ACTIONS)[number];
+
+// Failed-item listings are capped; a misconfigured API key can fail the
+// whole library and the client only needs enough to act on.
+const FAILED_ITEMS_LIMIT = 100;
+
+/** A build owns the service until it finishes, whether running or paused. */
+function isIndexBuildActive(): boolean {
+  const service = getSemanticSearchService();
+  return service.getIndexProgress().status === "indexing" || service.isPaused();
+}
+
+/** Regular items of a collection and, recursively, its subcollections. */
+function collectCollectionItemKeys(collection: any): string[] {
+  const keys = new Set<string>();
+  const visit = (c: any) => {
+    for (const item of c.getChildItems(false) as any[]) {
+      if (item.isRegularItem()) keys.add(item.key);
+    }
+    for (const child of c.getChildCollections(false) as any[]) visit(child);
+  };
+  visit(collection);
+  return [...keys];
+}
+
+async function libraryRegularItemKeys(libraryID: number): Promise<string[]> {
+  const search = new Zotero.Search();
+  search.libraryID = libraryID;
+  search.addCondition("itemType", "isNot", "attachment");
+  search.addCondition("itemType", "isNot", "note");
+  search.addCondition("itemType", "isNot", "annotation");
+  search.addCondition("deleted", "false");
+  const ids: number[] = await search.search();
+  return (Zotero.Items.get(ids) as any[]).map((item) => item.key);
+}
+
+/**
+ * Start a semantic index build in the background and return immediately;
+ * clients poll semantic_index_progress. Scoped to itemKeys, a collection
+ * (with subcollections), or the whole library. `rebuild` re-embeds just the
+ * scoped items: the service's own rebuild mode clears every library's
+ * vectors, which is never what a scoped request means.
+ */
+export async function handleSemanticIndexBuild(args: {
+  libraryID?: number;
+  itemKeys?: string[];
+  collectionKey?: string;
+  rebuild?: boolean;
+}): Promise<MutationResult> {
+  assertScope("index", args.libraryID);
+
+  if (args.itemKeys && args.collectionKey) {
+    throw new Error("Pass either itemKeys or collectionKey, not both");
+  }
+  if (isIndexBuildActive()) {
+    throw new Error(
+      "An index build is already running. Poll semantic_index_progress, or stop it with semantic_index_control.",
+    );
+  }
+
+  const libraryID = targetLibraryID(args.libraryID);
+  let scope: string;
+  let itemKeys: string[] | undefined;
+  if (args.itemKeys && args.itemKeys.length > 0) {
+    for (const key of args.itemKeys) assertValidItemKey(key);
+    itemKeys = [...new Set(args.itemKeys)];
+    scope = "items";
+  } else if (args.collectionKey) {
+    const collection = resolveCollection(args.collectionKey, libraryID);
+    itemKeys = collectCollectionItemKeys(collection);
+    scope = `collection:${collection.name}`;
+  } else {
+    scope = "library";
+  }
+
+  const service = getSemanticSearchService();
+  await service.initialize();
+
+  if (args.rebuild) {
+    const keys = itemKeys ?? (await libraryRegularItemKeys(libraryID));
+    for (const key of keys) await service.deleteItemIndex(key);
+    itemKeys = keys;
+  }
+
+  if (itemKeys && itemKeys.length === 0) {
+    throw new Error("No regular items to index in the requested scope");
+  }
+
+  service
+    .buildIndex({ itemKeys, libraryID })
+    .then((result) => {
+      ztoolkit.log(
+        `[WriteHandlers] Semantic index build finished: ${result.processed}/${result.total} (${result.status})`,
+      );
+    })
+    .catch((error) => {
+      ztoolkit.log(
+        `[WriteHandlers] Semantic index build failed: ${error}`,
+        "error",
+      );
+    });
+
+  ztoolkit.log(
+    `[WriteHandlers] Started semantic index build (${scope}, rebuild=${Boolean(args.rebuild)})`,
+  );
+
+  return {
+    success: true,
+    action: "semantic_index_build",
+    itemKey: args.collectionKey || "",
+    details: {
+      scope,
+      requestedItems: itemKeys?.length,
+      rebuild: Boolean(args.rebuild),
+      note: "Running in the background; already-indexed items are skipped. Poll semantic_index_progress.",
+    },
+    libraryID,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Pause, resume or abort the running build. */
+export async function handleSemanticIndexControl(args: {
+  action: IndexControlAction;
+}): Promise<MutationResult> {
+  assertScope("index");
+
+  if (!INDEX_CONTROL_ACTIONS.includes(args.action)) {
+    throw new Error(
+      `action must be one of: ${INDEX_CONTROL_ACTIONS.join(", ")}`,
+    );
+  }
+
+  const service = getSemanticSearchService();
+  const before = service.getIndexProgress().status;
+  // A "paused" status restored from a previous Zotero session has no build
+  // behind it; only a new build can continue that work.
+  if (!isIndexBuildActive()) {
+    throw new Error(
+      `No index build is running (status: ${before}). Start one with semantic_index_build; already-indexed items are skipped.`,
+    );
+  }
+
+  if (args.action === "pause") service.pauseIndex();
+  else if (args.action === "resume") service.resumeIndex();
+  else service.abortIndex();
+
+  const progress = service.getIndexProgress();
+  ztoolkit.log(
+    `[WriteHandlers] Semantic index ${args.action}: ${before} → ${progress.status}`,
+  );
+
+  return {
+    success: true,
+    action: "semantic_index_control",
+    itemKey: "",
+    details: {
+      requested: args.action,
+      previousStatus: before,
+      changed: before !== progress.status,
+      progress,
+    },
+    libraryID: targetLibraryID(),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Current build progress plus the items that failed to embed. Read-only,
+ * so it needs no write scope: any client can watch a build.
+ */
+export async function handleSemanticIndexProgress(): Promise<{
+  progress: any;
+  active: boolean;
+  failedItems: any[];
+  failedTotal: number;
+}> {
+  const service = getSemanticSearchService();
+  const failed = service.getFailedItems();
+  return {
+    progress: service.getIndexProgress(),
+    active: isIndexBuildActive(),
+    failedItems: failed.slice(0, FAILED_ITEMS_LIMIT),
+    failedTotal: failed.length,
+  };
+}
+
+/** Re-run the build for every item in the failed list, in the background. */
+export async function handleSemanticIndexRetryFailed(): Promise<MutationResult> {
+  assertScope("index");
+
+  if (isIndexBuildActive()) {
+    throw new Error(
+      "An index build is already running. Retry failed items once it finishes.",
+    );
+  }
+
+  const service = getSemanticSearchService();
+  const retried = service.getFailedItems().map((f) => f.itemKey);
+  if (retried.length === 0) {
+    throw new Error("No failed items to retry");
+  }
+
+  service.retryFailedItems().catch((error) => {
+    ztoolkit.log(
+      `[WriteHandlers] Retry of failed items failed: ${error}`,
+      "error",
+    );
+  });
+
+  ztoolkit.log(`[WriteHandlers] Retrying ${retried.length} failed items`);
+
+  return {
+    success: true,
+    action: "semantic_index_retry_failed",
+    itemKey: "",
+    details: {
+      retried: retried.length,
+      note: "Running in the background. Poll semantic_index_progress.",
+    },
+    libraryID: targetLibraryID(),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Drop an item's vectors; it is re-embedded by the next build. */
+export async function handleSemanticIndexDelete(args: {
+  libraryID?: number;
+  itemKey: string;
+}): Promise<MutationResult> {
+  assertScope("index", args.libraryID);
+
+  const item = resolveItem(args.itemKey, args.libraryID);
+  const service = getSemanticSearchService();
+  await service.deleteItemIndex(item.key);
+
+  return {
+    success: true,
+    action: "semantic_index_delete",
+    itemKey: item.key,
+    details: { title: item.getDisplayTitle() },
+    libraryID: targetLibraryID(args.libraryID),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// --- Annotation Handlers ---
+
+const ANNOTATION_TYPES = ["highlight", "underline", "note"] as const;
+type AnnotationType = (typeof ANNOTATION_TYPES)[number];
+
+/** The item itself when it is a PDF attachment, else its first PDF. */
+function resolvePDFAttachment(itemKey: string, libraryID?: number): any {
+  const item = resolveItem(itemKey, libraryID);
+  if (item.isPDFAttachment()) return item;
+  if (!item.isRegularItem()) {
+    throw new Error(
+      `Item "${itemKey}" is neither a PDF attachment nor a regular item (type: ${item.itemType})`,
+    );
+  }
+  for (const id of item.getAttachments()) {
+    const attachment = Zotero.Items.get(id);
+    if (attachment?.isPDFAttachment()) return attachment;
+  }
+  throw new Error(`Item "${itemKey}" has no PDF attachment`);
+}
+
+/**
+ * Resolve an annotation the plugin may edit. Annotations imported from the
+ * PDF file itself are read-only in Zotero and have to be changed there.
+ */
+function resolveAnnotation(annotationKey: string, libraryID?: number): any {
+  assertValidItemKey(annotationKey, "annotationKey");
+  const item = resolveItem(annotationKey, libraryID);
+  if (!item.isAnnotation()) {
+    throw new Error(
+      `Item "${annotationKey}" is not an annotation (type: ${item.itemType})`,
+    );
+  }
+  if (item.annotationIsExternal) {
+    throw new Error(
+      `Annotation "${annotationKey}" is stored in the PDF file and cannot be edited in Zotero`,
+    );
+  }
+  return item;
+}
+
+function resolveColorArg(color: string): string {
+  const resolved = resolveAnnotationColor(color);
+  if (!resolved) {
+    throw new Error(
+      `Invalid color "${color}" (use #rrggbb or one of: ${Object.keys(ANNOTATION_COLORS).join(", ")})`,
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Create a highlight, underline or note annotation on a PDF. The position
+ * comes from finding `text` in the PDF's text layer (on `page` when given,
+ * else the first page containing it); a note without text is pinned to the
+ * top of `page`.
+ */
+export async function handleCreateAnnotation(args: {
+  libraryID?: number;
+  itemKey: string;
+  type?: AnnotationType;
+  text?: string;
+  page?: number;
+  color?: string;
+  comment?: string;
+  tags?: string[];
+}): Promise<MutationResult> {
+  assertScope("annotations", args.libraryID);
+
+  const type = args.type ?? "highlight";
+  if (!ANNOTATION_TYPES.includes(type)) {
+    throw new Error(`type must be one of: ${ANNOTATION_TYPES.join(", ")}`);
+  }
+  const text = args.text?.trim();
+  if (type !== "note" && !text) {
+    throw new Error(`text is required for ${type} annotations`);
+  }
+  if (type === "note") {
+    if (!args.comment?.trim()) {
+      throw new Error("comment is required for note annotations");
+    }
+    if (!text && args.page === undefined) {
+      throw new Error("Note annotations need text or page to be placed");
+    }
+  }
+  if (
+    args.page !== undefined &&
+    (!Number.isInteger(args.page) || args.page < 1)
+  ) {
+    throw new Error("page must be a positive integer (1-based)");
+  }
+  const color = resolveColorArg(args.color ?? "yellow");
+
+  const attachment = resolvePDFAttachment(args.itemKey, args.libraryID);
+  if (!(await attachment.fileExists())) {
+    throw new Error(`The PDF file of attachment ${attachment.key} is missing`);
+  }
+
+  const { page, anchor } = await withPDFTextLayer(attachment, async (layer) => {
+    if (args.page !== undefined && args.page > layer.pageCount) {
+      throw new Error(
+        `page ${args.page} is out of range (the PDF has ${layer.pageCount} pages)`,
+      );
+    }
+    const pageIndexes =
+      args.page !== undefined
+        ? [args.page - 1]
+        : Array.from({ length: layer.pageCount }, (_, i) => i);
+    for (const pageIndex of pageIndexes) {
+      const page = await layer.readPage(pageIndex);
+      if (!text) return { page, anchor: null };
+      const anchor = findTextAnchor(page, text);
+      if (anchor) return { page, anchor };
+    }
+    throw new Error(
+      `Text not found ${args.page !== undefined ? `on page ${args.page}` : "in the PDF"}. Quote the passage as it appears in the document; scanned PDFs need OCR first.`,
+    );
+  });
+
+  const rects =
+    type === "note" ? [noteRect(page, anchor?.rects[0])] : anchor!.rects;
+  const annotation = new Zotero.Item("annotation");
+  annotation.libraryID = attachment.libraryID;
+  annotation.parentID = attachment.id;
+  annotation.annotationType = type;
+  if (type !== "note") annotation.annotationText = anchor!.text;
+  if (args.comment) annotation.annotationComment = args.comment;
+  annotation.annotationColor = color;
+  annotation.annotationPageLabel = page.pageLabel;
+  annotation.annotationSortIndex =
+    anchor?.sortIndex ??
+    buildSortIndex(page.pageIndex, 0, page.height - rects[0][3]);
+  annotation.annotationPosition = JSON.stringify({
+    pageIndex: page.pageIndex,
+    rects,
+  });
+  for (const tag of args.tags || []) {
+    const trimmed = tag.trim();
+    if (trimmed) annotation.addTag(trimmed, 0);
+  }
+  await annotation.saveTx();
+
+  ztoolkit.log(
+    `[WriteHandlers] Created ${type} annotation ${annotation.key} on ${attachment.key} (page ${page.pageLabel})`,
+  );
+
+  return {
+    success: true,
+    action: "create_annotation",
+    itemKey: annotation.key,
+    details: {
+      annotationKey: annotation.key,
+      attachmentKey: attachment.key,
+      type,
+      pageIndex: page.pageIndex,
+      pageLabel: page.pageLabel,
+      text: anchor?.text ?? null,
+      lines: type === "note" ? null : rects.length,
+      color,
+      tags: args.tags || [],
+    },
+    libraryID: targetLibraryID(args.libraryID),
     timestamp: new Date().toISOString(),
   };
 }
+
+/** Change an annotation's comment, color or tags; its anchor stays put. */
+export async function handleUpdateAnnotation(args: {
+  libraryID?: number;
+  annotationKey: string;
+  comment?: string;
+  color?: string;
+  tags?: string[];
+}): Promise<MutationResult> {
+  assertScope("annotations", args.libraryID);
+
+  if (
+    args.comment === undefined &&
+    args.color === undefined &&
+    args.tags === undefined
+  ) {
+    throw new Error("Provide at least one of comment, color or tags");
+  }
+
+  const annotation = resolveAnnotation(args.annotationKey, args.libraryID);
+  const changed: string[] = [];
+
+  if (args.comment !== undefined) {
+    annotation.annotationComment = args.comment;
+    changed.push("comment");
+  }
+  if (args.color !== undefined) {
+    annotation.annotationColor = resolveColorArg(args.color);
+    changed.push("color");
+  }
+  if (args.tags !== undefined) {
+    // Replace all tags
+    for (const tag of annotation.getTags()) {
+      annotation.removeTag(tag.tag);
+    }
+    for (const tag of args.tags) {
+      const trimmed = tag.trim();
+      if (trimmed) annotation.addTag(trimmed, 0);
+    }
+    changed.push("tags");
+  }
+
+  await annotation.saveTx();
+
+  ztoolkit.log(
+    `[WriteHandlers] Updated annotation ${args.annotationKey} (${changed.join(", ")})`,
+  );
+
+  return {
+    success: true,
+    action: "update_annotation",
+    itemKey: args.annotationKey,
+    details: {
+      changed,
+      type: annotation.annotationType,
+      color: annotation.annotationColor,
+      tags: args.tags || null,
+    },
+    libraryID: targetLibraryID(args.libraryID),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Permanently delete an annotation; annotations have no trash. */
+export async function handleDeleteAnnotation(args: {
+  libraryID?: number;
+  annotationKey: string;
+}): Promise<MutationResult> {
+  assertScope("annotations", args.libraryID);
+
+  const annotation = resolveAnnotation(args.annotationKey, args.libraryID);
+  const details = {
+    type: annotation.annotationType,
+    attachmentKey: annotation.parentKey,
+    pageLabel: annotation.annotationPageLabel,
+    text: annotation.annotationText || null,
+  };
+
+  await annotation.eraseTx();
+
+  ztoolkit.log(`[WriteHandlers] Deleted annotation ${args.annotationKey}`);
+
+  return {
+    success: true,
+    action: "delete_annotation",
+    itemKey: args.annotationKey,
+    details,
+    libraryID: targetLibraryID(args.libraryID),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// --- Merge Handlers ---
+
+/** The item's own fields (for its item type) as name → value. */
+function itemFields(item: any): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const fieldID of Zotero.ItemFields.getItemTypeFields(item.itemTypeID)) {
+    const name = Zotero.ItemFields.getName(fieldID);
+    fields[name] = item.getField(name) || "";
+  }
+  return fields;
+}
+
+/**
+ * Merge duplicate items into one master. Empty master fields are filled
+ * from the others (see mergeFields) and the master gets the others'
+ * creators if it has none; Zotero's own merge, the one behind the
+ * Duplicate Items pane, then moves notes, attachments, tags, collections
+ * and relations to the master and trashes the others.
+ */
+export async function handleMergeItems(args: {
+  libraryID?: number;
+  itemKeys: string[];
+  masterKey?: string;
+  dryRun?: boolean;
+}): Promise<MutationResult> {
+  assertScope("merge", args.libraryID);
+
+  const keys = [...new Set(args.itemKeys || [])];
+  if (keys.length < 2) {
+    throw new Error("At least two distinct itemKeys are required");
+  }
+  if (keys.length > BATCH_LIMIT) {
+    throw new BatchLimitError(BATCH_LIMIT);
+  }
+  if (args.masterKey && !keys.includes(args.masterKey)) {
+    throw new Error("masterKey must be one of itemKeys");
+  }
+
+  const items = keys.map((key) => resolveItem(key, args.libraryID));
+  for (const item of items) {
+    if (!item.isRegularItem()) {
+      throw new Error(
+        `Item ${item.key} is not a regular item; only regular items can be merged`,
+      );
+    }
+    if (item.deleted) {
+      throw new Error(`Item ${item.key} is in the trash`);
+    }
+  }
+  const types = [...new Set(items.map((item) => item.itemType))];
+  if (types.length > 1) {
+    throw new Error(
+      `Items to merge must have the same item type (found ${types.join(", ")}). Change the type with update_item first.`,
+    );
+  }
+
+  // Like the Duplicate Items pane, keep the oldest item by default.
+  const master = args.masterKey
+    ? items.find((item) => item.key === args.masterKey)
+    : [...items].sort((a, b) =>
+        (a.dateAdded || "").localeCompare(b.dateAdded || ""),
+      )[0];
+  const others = items.filter((item) => item !== master);
+
+  const fieldUpdates = mergeFields(itemFields(master), others.map(itemFields));
+  const creatorSource =
+    master.getCreators().length === 0
+      ? others.find((item) => item.getCreators().length > 0)
+      : undefined;
+  const plan = {
+    masterKey: master.key,
+    mergedKeys: others.map((item) => item.key),
+    filledFields: Object.keys(fieldUpdates),
+    creatorsFrom: creatorSource?.key ?? null,
+    movedNotes: others.reduce((n, item) => n + item.getNotes().length, 0),
+    movedAttachments: others.reduce(
+      (n, item) => n + item.getAttachments().length,
+      0,
+    ),
+  };
+
+  if (args.dryRun) {
+    return {
+      success: true,
+      action: "merge_items",
+      itemKey: master.key,
+      details: { dryRun: true, ...plan },
+      libraryID: targetLibraryID(args.libraryID),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // Items.merge opens its own transaction and Zotero transactions don't
+  // nest, so the fill is saved first. A merge that fails must not leave the
+  // master holding the others' fields with nothing merged: put the master's
+  // own values back.
+  const originalFields = Object.fromEntries(
+    Object.keys(fieldUpdates).map((field) => [field, master.getField(field)]),
+  );
+  const originalCreators = master.getCreators();
+  for (const [field, value] of Object.entries(fieldUpdates)) {
+    master.setField(field, value);
+  }
+  if (creatorSource) {
+    master.setCreators(creatorSource.getCreators());
+  }
+  if (master.hasChanged()) await master.saveTx();
+  try {
+    await Zotero.Items.merge(master, others);
+  } catch (error) {
+    for (const [field, value] of Object.entries(originalFields)) {
+      master.setField(field, value);
+    }
+    if (creatorSource) master.setCreators(originalCreators);
+    if (master.hasChanged()) await master.saveTx();
+    throw error;
+  }
+
+  ztoolkit.log(
+    `[WriteHandlers] Merged ${plan.mergedKeys.join(", ")} into ${master.key}`,
+  );
+
+  return {
+    success: true,
+    action: "merge_items",
+    itemKey: master.key,
+    details: plan,
+    libraryID: targetLibraryID(args.libraryID),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// --- Undo Handlers ---
+
+/**
+ * Undoing needs every scope the original operation needed, in its
+ * library: undo can trash, restore and refile as broadly as the
+ * operation did. `clientID` is set by the server, never by the caller:
+ * a named client token may only undo its own operations.
+ */
+async function undoJournaled(
+  entry: JournalEntry,
+  args: { force?: boolean; dryRun?: boolean; clientID?: string },
+  action: string,
+): Promise<MutationResult> {
+  assertScopes(entry.scopes, entry.libraryID);
+  if (args.clientID && entry.clientID !== args.clientID) {
+    throw new Error(
+      `Operation ${entry.id} was not made by this client and cannot be undone with its token`,
+    );
+  }
+
+  const outcome = await undoEntry(entry, {
+    force: args.force === true,
+    dryRun: args.dryRun === true,
+    clientID: args.clientID,
+  });
+
+  return {
+    success: true,
+    action,
+    itemKey: entry.id,
+    details: { ...(args.dryRun ? { dryRun: true } : {}), ...outcome },
+    libraryID: entry.libraryID,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Undo the newest journaled operation in the library not yet undone. */
+export async function handleUndoLast(args: {
+  libraryID?: number;
+  force?: boolean;
+  dryRun?: boolean;
+  clientID?: string;
+}): Promise<MutationResult> {
+  const libraryID = targetLibraryID(args.libraryID);
+  const entry = await getLastUndoable(libraryID, args.clientID);
+  if (!entry) {
+    throw new Error(`No operation to undo in library ${libraryID}`);
+  }
+  return undoJournaled(entry, args, "undo_last");
+}
+
+/**
+ * Undo one journaled operation by the operationId its result carried.
+ * Undoing an undo_* operation re-applies what it reverted.
+ */
+export async function handleUndoOperation(args: {
+  operationId: string;
+  force?: boolean;
+  dryRun?: boolean;
+  clientID?: string;
+}): Promise<MutationResult> {
+  if (!args.operationId) {
+    throw new Error("operationId is required");
+  }
+  const entry = await getJournalEntry(args.operationId);
+  if (!entry) {
+    throw new Error(
+      `Operation "${args.operationId}" not found in the undo journal`,
+    );
+  }
+  return undoJournaled(entry, args, "undo_operation");
+}
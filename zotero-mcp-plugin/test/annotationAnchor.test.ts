@@ -0,0 +1,95 @@
+/**
+ * Regression tests for anchoring annotations to a PDF's text layer.
+ *
+ * A quoted passage must be found despite case, whitespace, typographic
+ * quotes and hyphenated line breaks, and the match must become one
+ * rectangle per line, trimmed to the matched characters. The sort index
+ * must keep Zotero's fixed-width layout so annotations order correctly.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  buildSortIndex,
+  findTextAnchor,
+  mergeLineRects,
+  noteRect,
+  resolveAnnotationColor,
+  type TextLayerPage,
+} from "../src/modules/annotationAnchor";
+
+// Two lines of 10pt text, 5pt per character, starting at x=100.
+function page(): TextLayerPage {
+  return {
+    pageIndex: 2,
+    pageLabel: "iii",
+    width: 600,
+    height: 800,
+    items: [
+      { str: "Deep learning is a", rect: [100, 700, 190, 710] },
+      { str: " subset of meth-", rect: [190, 700, 270, 710], hasEOL: true },
+      { str: "ods using “neural” networks.", rect: [100, 680, 240, 690] },
+    ],
+  };
+}
+
+describe("Annotation anchoring", function () {
+  it("finds a passage within one item and trims the rect to it", function () {
+    const anchor = findTextAnchor(page(), "learning")!;
+    expect(anchor.pageIndex).to.equal(2);
+    expect(anchor.pageLabel).to.equal("iii");
+    expect(anchor.text).to.equal("learning");
+    expect(anchor.rects).to.deep.equal([[125, 700, 165, 710]]);
+  });
+
+  it("matches across items, lines and hyphenation, one rect per line", function () {
+    const anchor = findTextAnchor(
+      page(),
+      'IS A  subset of methods using "neural"',
+    )!;
+    expect(anchor.rects).to.deep.equal([
+      [170, 700, 265, 710],
+      [100, 680, 190, 690],
+    ]);
+    expect(anchor.text).to.equal("is a subset of methods using “neural”");
+  });
+
+  it("returns null when the passage is not on the page", function () {
+    expect(findTextAnchor(page(), "transformers")).to.equal(null);
+    expect(findTextAnchor(page(), "   ")).to.equal(null);
+  });
+
+  it("builds Zotero's fixed-width sort index", function () {
+    expect(buildSortIndex(2, 15, 90.7)).to.equal("00002|000015|00090");
+    expect(findTextAnchor(page(), "learning")!.sortIndex).to.equal(
+      "00002|000005|00090",
+    );
+  });
+
+  it("merges rects on the same line and keeps separate lines apart", function () {
+    expect(
+      mergeLineRects([
+        [0, 0, 10, 10],
+        [10, 1, 20, 11],
+        [0, 20, 5, 30],
+      ]),
+    ).to.deep.equal([
+      [0, 0, 20, 11],
+      [0, 20, 5, 30],
+    ]);
+  });
+
+  it("resolves color names and hex values", function () {
+    expect(resolveAnnotationColor("Green")).to.equal("#5fb236");
+    expect(resolveAnnotationColor("#A28AE5")).to.equal("#a28ae5");
+    expect(resolveAnnotationColor("teal")).to.equal(null);
+  });
+
+  it("places note icons inside the page", function () {
+    expect(noteRect(page(), [590, 700, 600, 710])).to.deep.equal([
+      578, 710, 600, 732,
+    ]);
+    expect(noteRect(page())).to.deep.equal([22, 756, 44, 778]);
+  });
+});
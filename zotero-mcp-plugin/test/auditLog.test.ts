@@ -0,0 +1,163 @@
+/**
+ * Regression tests for the audit log's record shaping and querying.
+ *
+ * Arguments must be persisted with note and annotation text reduced to a
+ * length, at any depth, and long strings cut; affected items come from
+ * the undo journal when the call was journaled. Queries return the
+ * newest matches first, and retention drops by age and then by count.
+ *
+ * Pure-function test: only Zotero.Prefs is stubbed (serverPreferences
+ * reads it at module load).
+ */
+
+import { expect } from "chai";
+
+(globalThis as any).Zotero = {
+  ...((globalThis as any).Zotero || {}),
+  Prefs: ((globalThis as any).Zotero || {}).Prefs || {
+    get: () => undefined,
+    set: () => {},
+  },
+};
+(globalThis as any).ztoolkit = { log: () => {} };
+
+/* eslint-disable @typescript-eslint/no-require-imports */
+const { auditItemKeys, queryAudit, redactArguments, retainAudit } =
+  require("../src/modules/auditLog") as typeof import("../src/modules/auditLog");
+/* eslint-enable @typescript-eslint/no-require-imports */
+
+type AuditEntry = import("../src/modules/auditLog").AuditEntry;
+
+function call(
+  timestamp: string,
+  tool: string,
+  extra: Partial<AuditEntry> = {},
+): AuditEntry {
+  return {
+    timestamp,
+    tool,
+    arguments: {},
+    outcome: "success",
+    durationMs: 5,
+    itemKeys: [],
+    ...extra,
+  };
+}
+
+describe("auditLog", function () {
+  it("redacts content arguments and cuts long strings", function () {
+    expect(
+      redactArguments({
+        parentItemKey: "AAAA1111",
+        content: "<p>private thoughts</p>",
+        fields: { title: "Deep learning", abstractNote: "We show…" },
+        annotations: [{ text: "quoted", comment: "mine", color: "#ffd400" }],
+        q: "x".repeat(300),
+        limit: 10,
+      }),
+    ).to.deep.equal({
+      parentItemKey: "AAAA1111",
+      content: "[redacted: 23 chars]",
+      fields: { title: "Deep learning", abstractNote: "[redacted: 8 chars]" },
+      annotations: [
+        {
+          text: "[redacted: 6 chars]",
+          comment: "[redacted: 4 chars]",
+          color: "#ffd400",
+        },
+      ],
+      q: `${"x".repeat(200)}… [300 chars]`,
+      limit: 10,
+    });
+  });
+
+  it("takes affected items from the journal when there is one", function () {
+    expect(
+      auditItemKeys("add_tags", { itemKeys: ["AAAA1111", "BBBB2222"] }),
+    ).to.deep.equal(["AAAA1111", "BBBB2222"]);
+    expect(
+      auditItemKeys("create_item", {}, { itemKey: "CCCC3333" }),
+    ).to.deep.equal(["CCCC3333"]);
+    // An undo result's itemKey is an operation id, not an item.
+    expect(
+      auditItemKeys("undo_last", {}, { itemKey: "op-abc-123" }),
+    ).to.deep.equal([]);
+    expect(
+      auditItemKeys(
+        "rename_tag",
+        { oldName: "todo", newName: "done" },
+        undefined,
+        {
+          id: "op-1",
+          tool: "rename_tag",
+          libraryID: 1,
+          scopes: ["tags", "bulk"],
+          timestamp: "2026-10-19T10:00:00.000Z",
+          snapshots: [
+            { kind: "item", key: "DDDD4444", before: {}, after: {} },
+            { kind: "collection", key: "COLL0001", before: {}, after: {} },
+          ],
+        },
+      ),
+    ).to.deep.equal(["DDDD4444"]);
+  });
+
+  it("queries newest first with filters", function () {
+    const log = [
+      call("2026-10-18T10:00:00.000Z", "trash_item", {
+        client: "cursor-vscode",
+        itemKeys: ["AAAA1111"],
+      }),
+      call("2026-10-19T02:00:00.000Z", "search_library", {
+        tokenClient: "Nightly",
+        tokenClientID: "client_1",
+      }),
+      call("2026-10-19T03:00:00.000Z", "add_tags", {
+        tokenClient: "Nightly",
+        tokenClientID: "client_2",
+        outcome: "error",
+        error: "Client lacks tags",
+      }),
+    ];
+    expect(queryAudit(log).entries.map((e) => e.tool)).to.deep.equal([
+      "add_tags",
+      "search_library",
+      "trash_item",
+    ]);
+    expect(queryAudit(log, { client: "nightly", limit: 1 })).to.deep.equal({
+      entries: [log[2]],
+      total: 2,
+    });
+    expect(queryAudit(log, { tokenClientID: "client_1" }).entries).to.eql([
+      log[1],
+    ]);
+    expect(queryAudit(log, { itemKey: "AAAA1111" }).total).to.equal(1);
+    expect(queryAudit(log, { outcome: "error" }).entries).to.eql([log[2]]);
+    expect(
+      queryAudit(log, {
+        since: "2026-10-19T00:00:00.000Z",
+        until: "2026-10-19T02:30:00.000Z",
+      }).entries,
+    ).to.eql([log[1]]);
+  });
+
+  it("drops entries past the retention age and count", function () {
+    const log = [
+      call("2026-09-01T00:00:00.000Z", "a"),
+      call("2026-10-17T00:00:00.000Z", "b"),
+      call("2026-10-18T00:00:00.000Z", "c"),
+      call("2026-10-19T00:00:00.000Z", "d"),
+    ];
+    const now = new Date("2026-10-19T12:00:00.000Z");
+    expect(
+      retainAudit(log, { retentionDays: 30, maxEntries: 10 }, now).map(
+        (e) => e.tool,
+      ),
+    ).to.deep.equal(["b", "c", "d"]);
+    expect(
+      retainAudit(log, { retentionDays: 30, maxEntries: 2 }, now).map(
+        (e) => e.tool,
+      ),
+    ).to.deep.equal(["c", "d"]);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Regression tests for citation cluster handling.
+ *
+ * Clusters must be validated with messages that point at the bad entry,
+ * a locator without a label must default to "page", and the citeproc
+ * citations must keep document order, with note numbers only for note
+ * styles.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  parseCitationClusters,
+  toCiteprocCitations,
+} from "../src/modules/citationFormatter";
+
+describe("citationFormatter", function () {
+  it("parses clusters and defaults the locator label to page", function () {
+    const clusters = parseCitationClusters([
+      {
+        items: [
+          { itemKey: "AAAA1111", locator: 14, prefix: "see " },
+          { itemKey: "BBBB2222" },
+        ],
+      },
+      {
+        items: [
+          {
+            itemKey: "AAAA1111",
+            locator: "3",
+            label: "chapter",
+            suppressAuthor: true,
+          },
+        ],
+      },
+    ]);
+    expect(clusters).to.deep.equal([
+      {
+        items: [
+          {
+            itemKey: "AAAA1111",
+            locator: "14",
+            label: "page",
+            prefix: "see ",
+          },
+          { itemKey: "BBBB2222" },
+        ],
+      },
+      {
+        items: [
+          {
+            itemKey: "AAAA1111",
+            locator: "3",
+            label: "chapter",
+            suppressAuthor: true,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("rejects malformed clusters", function () {
+    expect(() => parseCitationClusters([])).to.throw(/non-empty array/);
+    expect(() => parseCitationClusters([{ items: [] }])).to.throw(
+      /citations\[0\]\.items/,
+    );
+    expect(() =>
+      parseCitationClusters([{ items: [{ itemKey: "A" }, { locator: "1" }] }]),
+    ).to.throw(/citations\[0\]\.items\[1\]\.itemKey/);
+    expect(() =>
+      parseCitationClusters([{ items: [{ itemKey: "A", label: "pg" }] }]),
+    ).to.throw(/label must be one of/);
+    expect(() =>
+      parseCitationClusters([{ items: [{ itemKey: "A", suppressAuthor: 1 }] }]),
+    ).to.throw(/suppressAuthor must be a boolean/);
+  });
+
+  it("builds citeproc citations in document order", function () {
+    const clusters = parseCitationClusters([
+      { items: [{ itemKey: "A", locator: "14", suppressAuthor: true }] },
+      { items: [{ itemKey: "B", suffix: ", emphasis added" }] },
+    ]);
+    const ids = new Map([
+      ["A", 11],
+      ["B", 22],
+    ]);
+
+    const inText = toCiteprocCitations(clusters, ids, false);
+    expect(inText).to.deep.equal([
+      {
+        citationID: "citation-1",
+        citationItems: [
+          { id: 11, locator: "14", label: "page", "suppress-author": true },
+        ],
+        properties: { noteIndex: 0 },
+      },
+      {
+        citationID: "citation-2",
+        citationItems: [{ id: 22, suffix: ", emphasis added" }],
+        properties: { noteIndex: 0 },
+      },
+    ]);
+
+    const notes = toCiteprocCitations(clusters, ids, true);
+    expect(notes.map((c) => c.properties.noteIndex)).to.deep.equal([1, 2]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Regression tests for citation graph assembly and export.
+ *
+ * Edges must be deduplicated (related links in either direction), degrees
+ * must count only "cites" edges, and most-cited must rank by citations
+ * from in-scope items. GraphML and DOT output must escape titles.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  addEdge,
+  addNode,
+  computeDegrees,
+  mostCited,
+  toDOT,
+  toGraphML,
+  type CitationGraph,
+  type CitationNode,
+} from "../src/modules/citationGraph";
+
+function node(key: string, title: string, inScope: boolean): CitationNode {
+  return { key, title, inScope, inDegree: 0, outDegree: 0 };
+}
+
+// A and B are in the collection and both cite C; A also cites B.
+function graph(): CitationGraph {
+  const g: CitationGraph = { nodes: [], edges: [] };
+  addNode(g, node("A", "Alpha", true));
+  addNode(g, node("B", "Beta", true));
+  addNode(g, node("C", 'Foundations of "graphs" & <trees>', false));
+  addEdge(g, { source: "A", target: "C", type: "cites", matchedBy: "doi" });
+  addEdge(g, { source: "B", target: "C", type: "cites", matchedBy: "title" });
+  addEdge(g, { source: "A", target: "B", type: "cites" });
+  addEdge(g, { source: "A", target: "C", type: "related" });
+  return g;
+}
+
+describe("Citation graph", function () {
+  it("deduplicates nodes, edges and reversed related links", function () {
+    const g = graph();
+    expect(addNode(g, node("A", "Alpha again", false))).to.equal(false);
+    expect(g.nodes[0].inScope).to.equal(true);
+    expect(addEdge(g, { source: "A", target: "C", type: "cites" })).to.equal(
+      false,
+    );
+    expect(addEdge(g, { source: "C", target: "A", type: "related" })).to.equal(
+      false,
+    );
+    expect(addEdge(g, { source: "C", target: "A", type: "cites" })).to.equal(
+      true,
+    );
+    expect(addEdge(g, { source: "B", target: "B", type: "cites" })).to.equal(
+      false,
+    );
+  });
+
+  it("counts degrees and ranks the most cited from cites edges only", function () {
+    const g = graph();
+    computeDegrees(g);
+    expect(g.nodes.map((n) => [n.key, n.inDegree, n.outDegree])).to.deep.equal([
+      ["A", 0, 2],
+      ["B", 1, 1],
+      ["C", 2, 0],
+    ]);
+    expect(mostCited(g)).to.deep.equal([
+      { key: "C", title: 'Foundations of "graphs" & <trees>', citations: 2 },
+      { key: "B", title: "Beta", citations: 1 },
+    ]);
+    expect(mostCited(g, 1)).to.have.length(1);
+  });
+
+  it("exports escaped GraphML and DOT", function () {
+    const g = graph();
+    computeDegrees(g);
+    const graphml = toGraphML(g);
+    expect(graphml).to.contain(
+      '<data key="title">Foundations of &quot;graphs&quot; &amp; &lt;trees&gt;</data>',
+    );
+    expect(graphml).to.contain(
+      '<edge source="A" target="C" directed="false"><data key="type">related</data></edge>',
+    );
+    expect(graphml.match(/<edge /g)).to.have.length(4);
+
+    const dot = toDOT(g);
+    expect(dot).to.contain(
+      '"C" [label="Foundations of \\"graphs\\" & <trees>"];',
+    );
+    expect(dot).to.contain(
+      '"A" [label="Alpha", style=filled, fillcolor=lightblue];',
+    );
+    expect(dot).to.contain(
+      '"A" -> "C" [dir=none, style=dashed, label=related];',
+    );
+    expect(dot.startsWith("digraph citations {")).to.equal(true);
+  });
+});
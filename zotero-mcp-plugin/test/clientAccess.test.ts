@@ -0,0 +1,230 @@
+/**
+ * Regression tests for named client tokens.
+ *
+ * parseClientTokens is the fail-closed gate for the client-token pref: a
+ * malformed entry must be dropped (and its token refused), never widened.
+ * A resolved client may call only its listed tools and use only its
+ * granted scopes, including those a handler asserts for some arguments
+ * only; an expired token must be refused rather than treated as unknown.
+ * Resources and prompts serve tool data, so they are refused to a client
+ * without the matching read tools before any of it is loaded.
+ *
+ * Only Zotero.Prefs is stubbed, with an in-memory store so tokens can be
+ * issued and resolved; the server is driven without a library behind it.
+ */
+
+import { expect } from "chai";
+
+const prefs = new Map<string, unknown>();
+const prefsStub = {
+  get: (key: string) => prefs.get(key),
+  set: (key: string, value: unknown) => prefs.set(key, value),
+};
+(globalThis as any).Zotero = {
+  ...((globalThis as any).Zotero || {}),
+  Prefs: prefsStub,
+};
+(globalThis as any).ztoolkit = { log: () => {} };
+
+/* eslint-disable @typescript-eslint/no-require-imports */
+const { parseClientTokens, serverPreferences } =
+  require("../src/modules/serverPreferences") as typeof import("../src/modules/serverPreferences");
+const {
+  clientAllowsPrompts,
+  clientAllowsResource,
+  clientAllowsScope,
+  clientAllowsTool,
+  isTokenExpired,
+  requiredScopes,
+  resolveToken,
+} =
+  require("../src/modules/clientAccess") as typeof import("../src/modules/clientAccess");
+const { StreamableMCPServer } =
+  require("../src/modules/streamableMCPServer") as typeof import("../src/modules/streamableMCPServer");
+/* eslint-enable @typescript-eslint/no-require-imports */
+
+const TOKEN = `zmcp_${"ab".repeat(24)}`;
+
+describe("clientAccess", function () {
+  // Other test files replace the Zotero global when they load.
+  let savedZotero: any;
+
+  before(function () {
+    savedZotero = (globalThis as any).Zotero;
+    (globalThis as any).Zotero = { ...savedZotero, Prefs: prefsStub };
+  });
+
+  after(function () {
+    (globalThis as any).Zotero = savedZotero;
+  });
+
+  it("parses client tokens and drops malformed entries", function () {
+    const parsed = parseClientTokens(
+      JSON.stringify([
+        {
+          id: "client_1",
+          name: " nightly ",
+          token: TOKEN,
+          tools: ["search_library"],
+          scopes: ["tags", "everything"],
+          collections: ["ABCD1234"],
+          expiresAt: "2026-12-31T00:00:00.000Z",
+        },
+        { id: "client_2", name: "short token", token: "zmcp_abc" },
+        { id: "client_3", name: "bad expiry", token: TOKEN, expiresAt: "soon" },
+        { id: "client_4", token: TOKEN },
+        // Dropping a bad key would lift the client's confinement.
+        { id: "client_5", name: "bad key", token: TOKEN, collections: ["x"] },
+        { id: "client_6", name: "one tool", token: TOKEN, tools: "add_tags" },
+      ]),
+    );
+    expect(parsed).to.deep.equal([
+      {
+        id: "client_1",
+        name: "nightly",
+        token: TOKEN,
+        tools: ["search_library"],
+        scopes: ["tags"],
+        collections: ["ABCD1234"],
+        expiresAt: "2026-12-31T00:00:00.000Z",
+        createdAt: "",
+      },
+    ]);
+    expect(parseClientTokens("{not json")).to.deep.equal([]);
+    expect(parseClientTokens('{"a": 1}')).to.deep.equal([]);
+    expect(parseClientTokens(undefined)).to.deep.equal([]);
+  });
+
+  it("resolves issued tokens and refuses expired ones", function () {
+    const reader = serverPreferences.createClientToken({ name: "Nightly" });
+    const past = serverPreferences.createClientToken({
+      name: "Old script",
+      expiresAt: "2020-01-01T00:00:00.000Z",
+    });
+    expect(reader.token).to.match(/^zmcp_[0-9a-f]{48}$/);
+    expect(() =>
+      serverPreferences.createClientToken({ name: "nightly" }),
+    ).to.throw(/already exists/);
+    expect(() =>
+      serverPreferences.createClientToken({
+        name: "Typo",
+        scopes: ["note" as any],
+      }),
+    ).to.throw(/Unknown write scope/);
+
+    expect(resolveToken(reader.token).client).to.deep.include({
+      id: reader.id,
+      name: "Nightly",
+      tools: ["*"],
+      scopes: [],
+    });
+    expect(resolveToken(reader.token).client).to.not.have.property("token");
+    expect(resolveToken(past.token).error).to.match(/expired/);
+    expect(resolveToken(TOKEN)).to.deep.equal({});
+
+    expect(serverPreferences.revokeClientToken(reader.id)).to.equal(true);
+    expect(resolveToken(reader.token)).to.deep.equal({});
+    expect(
+      isTokenExpired(
+        { expiresAt: "2026-10-20T00:00:00.000Z" },
+        new Date("2026-10-19T00:00:00.000Z"),
+      ),
+    ).to.equal(false);
+    expect(isTokenExpired({ expiresAt: null })).to.equal(false);
+  });
+
+  it("limits a client to its tools and scopes", function () {
+    const client = {
+      id: "client_1",
+      name: "Editor",
+      tools: ["search_library", "add_tags"],
+      scopes: ["tags" as const, "notes" as const],
+      collections: [],
+    };
+    expect(clientAllowsTool(client, "add_tags")).to.equal(true);
+    expect(clientAllowsTool(client, "trash_item")).to.equal(false);
+    expect(clientAllowsTool({ ...client, tools: ["*"] }, "x")).to.equal(true);
+    expect(clientAllowsTool(undefined, "trash_item")).to.equal(true);
+    expect(clientAllowsScope(client, "notes")).to.equal(true);
+    expect(clientAllowsScope(client, "delete")).to.equal(false);
+    expect(clientAllowsScope(undefined, "delete")).to.equal(true);
+
+    expect(
+      requiredScopes("delete_collection", { deleteItems: true }, ["delete"]),
+    ).to.deep.equal(["delete", "bulk"]);
+    expect(
+      requiredScopes(
+        "import_by_identifier",
+        { ifExists: "replace", collectionKey: "ABCD1234" },
+        ["import"],
+      ),
+    ).to.deep.equal(["import", "delete", "collections"]);
+    expect(requiredScopes("add_tags", {}, ["tags"])).to.deep.equal(["tags"]);
+  });
+
+  describe("resources and prompts", function () {
+    const searcher = {
+      id: "client_2",
+      name: "Searcher",
+      tools: ["search_library"],
+      scopes: [],
+      collections: [],
+    };
+
+    async function send(method: string, params: any, sessionId?: string) {
+      const server = new StreamableMCPServer();
+      const response = await server.handleMCPRequest(
+        JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+        { client: searcher, sessionId },
+      );
+      return JSON.parse(response.body);
+    }
+
+    it("maps resource kinds and prompts to their read tools", function () {
+      const reader = { ...searcher, tools: ["get_content"] };
+      expect(clientAllowsResource(reader, "attachment")).to.equal(true);
+      expect(clientAllowsResource(reader, "note")).to.equal(true);
+      expect(clientAllowsResource(reader, "item")).to.equal(false);
+      expect(clientAllowsResource(undefined, "item")).to.equal(true);
+      expect(clientAllowsPrompts(reader)).to.equal(false);
+      expect(clientAllowsPrompts({ ...reader, tools: ["*"] })).to.equal(true);
+    });
+
+    it("refuses resources/read beyond the client's tools", async function () {
+      for (const uri of [
+        "zotero://attachment/ATT00001/text",
+        "zotero://item/5/ABCD1234",
+        "zotero://note/NOTE0001",
+      ]) {
+        const response = await send("resources/read", { uri });
+        expect(response.error.code).to.equal(-32602);
+        expect(response.error.message).to.match(/Searcher.*may not read/);
+      }
+    });
+
+    it("refuses subscribing to a resource it may not read", async function () {
+      const response = await send(
+        "resources/subscribe",
+        { uri: "zotero://item/ABCD1234" },
+        "session-1",
+      );
+      expect(response.error.code).to.equal(-32602);
+      expect(response.error.message).to.match(/may not read item resources/);
+    });
+
+    it("lists no resources or prompts to a restricted client", async function () {
+      expect((await send("resources/list", {})).result).to.deep.equal({
+        resources: [],
+      });
+      expect((await send("prompts/list", {})).result).to.deep.equal({
+        prompts: [],
+      });
+      const response = await send("prompts/get", {
+        name: "summarize_item",
+        arguments: { itemKey: "ABCD1234" },
+      });
+      expect(response.error.code).to.equal(-32602);
+      expect(response.error.message).to.match(/may not use prompts/);
+    });
+  });
+});
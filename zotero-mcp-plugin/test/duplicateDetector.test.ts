@@ -0,0 +1,122 @@
+/**
+ * Regression tests for duplicate detection and merge field selection.
+ *
+ * Blocking must pair items sharing an identifier or a distinctive title
+ * word and nothing else; a shared identifier is a certain match and a
+ * conflicting one rules a pair out; groups must be transitive. Merging
+ * fills only empty master fields and never duplicates labelled `extra`
+ * lines.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  candidatePairs,
+  groupDuplicates,
+  mergeFields,
+  scoreDuplicatePair,
+  type DuplicateCandidate,
+} from "../src/modules/duplicateDetector";
+
+function candidate(
+  key: string,
+  title: string,
+  extra: Partial<DuplicateCandidate> = {},
+): DuplicateCandidate {
+  return { key, itemType: "journalArticle", title, creators: [], ...extra };
+}
+
+describe("duplicateDetector", function () {
+  it("pairs candidates by identifier and title words only", function () {
+    const items = [
+      candidate("A", "Attention is all you need"),
+      candidate("B", "Attention Is All You Need."),
+      candidate("C", "Unrelated work on graphs", { doi: "10.1/ABC" }),
+      candidate("D", "Something else entirely", {
+        doi: "https://doi.org/10.1/abc",
+      }),
+    ];
+    const pairs = candidatePairs(items).map(([a, b]) => a.key + b.key);
+    expect(pairs).to.have.members(["AB", "CD"]);
+  });
+
+  it("scores identifiers, titles, creators and years", function () {
+    const smith = { creators: ["Smith", "Lee"], year: 2020 };
+    expect(
+      scoreDuplicatePair(
+        candidate("A", "One title", { isbn: "978-0-262-03384-8" }),
+        candidate("B", "Another title", { isbn: "9780262033848" }),
+      ),
+    ).to.deep.equal({ a: "A", b: "B", score: 1, reasons: ["isbn"] });
+
+    // Near-identical titles with different DOIs are different works.
+    expect(
+      scoreDuplicatePair(
+        candidate("A", "Deep learning", { doi: "10.1038/nature14539" }),
+        candidate("B", "Deep learning", { doi: "10.1038/nature14540" }),
+      ),
+    ).to.equal(null);
+
+    const same = scoreDuplicatePair(
+      candidate("A", "Deep residual learning for image recognition", smith),
+      candidate("B", "Deep Residual Learning for Image Recognition", smith),
+    )!;
+    expect(same.score).to.equal(1);
+    expect(same.reasons).to.deep.equal(["title", "creators", "year"]);
+
+    const otherAuthors = scoreDuplicatePair(
+      candidate("A", "Deep residual learning for image recognition", smith),
+      candidate("B", "Deep residual learning for image recognition", {
+        creators: ["Nguyen"],
+        year: 2015,
+      }),
+    )!;
+    expect(otherAuthors.score).to.equal(0.6);
+
+    expect(
+      scoreDuplicatePair(
+        candidate("A", "Deep residual learning"),
+        candidate("B", "Shallow networks revisited"),
+      ),
+    ).to.equal(null);
+  });
+
+  it("groups pairs transitively above the threshold", function () {
+    const groups = groupDuplicates(
+      [
+        { a: "A", b: "B", score: 0.9, reasons: ["title"] },
+        { a: "B", b: "C", score: 1, reasons: ["doi"] },
+        { a: "D", b: "E", score: 0.86, reasons: ["title"] },
+        { a: "F", b: "G", score: 0.5, reasons: ["title"] },
+      ],
+      0.85,
+    );
+    expect(groups.map((group) => group.keys)).to.deep.equal([
+      ["A", "B", "C"],
+      ["D", "E"],
+    ]);
+    expect(groups[0].score).to.equal(1);
+  });
+
+  it("fills empty master fields and merges extra lines", function () {
+    const updates = mergeFields(
+      { title: "Deep learning", DOI: "", pages: "", extra: "PMID: 26017442" },
+      [
+        {
+          title: "Deep Learning",
+          DOI: "10.1038/nature14539",
+          pages: "",
+          extra: "PMID: 99999999\nCitation Key: LeCun2015",
+        },
+        { title: "", DOI: "10.9999/other", pages: "436-444", extra: "" },
+      ],
+    );
+    expect(updates).to.deep.equal({
+      DOI: "10.1038/nature14539",
+      pages: "436-444",
+      extra: "PMID: 26017442\nCitation Key: LeCun2015",
+    });
+    expect(mergeFields({ title: "X", extra: "" }, [{ title: "Y" }])).to.eql({});
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Regression tests for export post-processing.
+ *
+ * BibTeX entries must take the citation keys from `extra` in order, stay
+ * unique and keep the translator's key where none is set; @comment blocks
+ * are not entries. CSL-JSON ids must follow the same keys, and the
+ * Markdown list must be rendered from CSL-JSON.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  applyCitationKeys,
+  applyCSLIds,
+  cslToMarkdown,
+} from "../src/modules/itemExporter";
+
+const BIBTEX = `
+@article{smith_deep_2020,
+\ttitle = {Deep learning},
+}
+
+@book{smith_deep_2020a,
+\ttitle = {Deep books},
+}
+
+@comment{jabref-meta: databaseType:bibtex;}
+
+@misc{doe_notes_2021,
+\ttitle = {Notes},
+}
+`;
+
+describe("itemExporter", function () {
+  it("applies citation keys in order and keeps them unique", function () {
+    const out = applyCitationKeys(BIBTEX, [
+      "Smith2020",
+      undefined,
+      "Smith2020",
+    ]);
+    expect(out).to.include("@article{Smith2020,");
+    expect(out).to.include("@book{smith_deep_2020a,");
+    expect(out).to.include("@misc{Smith2020a,");
+    expect(out).to.include("@comment{jabref-meta: databaseType:bibtex;}");
+    expect(out).to.include("\ttitle = {Notes},");
+
+    // A generated key yields to an explicit one.
+    const clash = applyCitationKeys(BIBTEX, [
+      undefined,
+      "smith_deep_2020",
+      undefined,
+    ]);
+    expect(clash).to.include("@article{smith_deep_2020a,");
+    expect(clash).to.include("@book{smith_deep_2020,");
+
+    // Unchanged when entries and keys do not line up.
+    expect(applyCitationKeys(BIBTEX, ["A"])).to.equal(BIBTEX);
+  });
+
+  it("sets CSL-JSON ids to citation keys", function () {
+    const json = JSON.stringify([
+      { id: "http://zotero.org/users/local/x/items/AAAA", title: "A" },
+      { id: "http://zotero.org/users/local/x/items/BBBB", title: "B" },
+    ]);
+    const entries = JSON.parse(applyCSLIds(json, ["Smith2020", undefined]));
+    expect(entries.map((entry: any) => entry.id)).to.deep.equal([
+      "Smith2020",
+      "http://zotero.org/users/local/x/items/BBBB",
+    ]);
+    expect(applyCSLIds(json, [])).to.equal(json);
+  });
+
+  it("renders a Markdown reference list from CSL-JSON", function () {
+    const markdown = cslToMarkdown(
+      [
+        {
+          author: [
+            { family: "Smith", given: "Jane" },
+            { family: "Doe", given: "John" },
+            { family: "Roe", given: "Ann" },
+            { literal: "The Consortium" },
+          ],
+          issued: { "date-parts": [[2020, 5]] },
+          title: "Deep learning",
+          "container-title": "Nature",
+          volume: "521",
+          issue: "7553",
+          page: "436-444",
+          DOI: "10.1038/nature14539",
+        },
+        { title: "Untitled notes", URL: "https://example.org/notes" },
+      ],
+      ["Smith2020", "ABCD1234"],
+    );
+    expect(markdown.split("\n")).to.deep.equal([
+      "- [@Smith2020] Smith, Jane; Doe, John; Roe, Ann et al. (2020). *Deep learning*. Nature, 521(7553), 436-444. <https://doi.org/10.1038/nature14539>",
+      "- [@ABCD1234] *Untitled notes*. <https://example.org/notes>",
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Regression tests for the IVF approximate nearest-neighbour index.
+ *
+ * List and probe counts must stay within their bounds, the index must be
+ * reported stale once the data drifts from what it was trained on (so search
+ * falls back to brute force), and k-means must separate obvious clusters.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  ANN_MIN_VECTORS,
+  CentroidAccumulator,
+  chooseClusterCount,
+  chooseProbeCount,
+  initialCentroids,
+  isANNIndexStale,
+  nearestCentroid,
+  normalize,
+  rankCentroids,
+  type ANNIndexState,
+} from "../src/modules/semantic/ivfIndex";
+
+function vec(...values: number[]): Float32Array {
+  return normalize(Float32Array.from(values));
+}
+
+describe("IVF index", function () {
+  it("sizes lists around sqrt(N) within bounds", function () {
+    expect(chooseClusterCount(ANN_MIN_VECTORS)).to.equal(141);
+    expect(chooseClusterCount(100)).to.equal(16);
+    expect(chooseClusterCount(10_000_000)).to.equal(1024);
+  });
+
+  it("probes a tenth of the lists but at least eight", function () {
+    expect(chooseProbeCount(1000)).to.equal(100);
+    expect(chooseProbeCount(40)).to.equal(8);
+    expect(chooseProbeCount(5)).to.equal(5);
+  });
+
+  it("reports staleness when the data drifts from training", function () {
+    const fresh: ANNIndexState = {
+      clusters: 141,
+      dimensions: 3,
+      trainedCount: 20000,
+      totalVectors: 21000,
+      unassigned: 500,
+    };
+    expect(isANNIndexStale(fresh)).to.equal(false);
+    expect(isANNIndexStale({ ...fresh, unassigned: 2000 })).to.equal(true);
+    expect(isANNIndexStale({ ...fresh, totalVectors: 45000 })).to.equal(true);
+    expect(isANNIndexStale({ ...fresh, totalVectors: 9000 })).to.equal(true);
+    expect(isANNIndexStale({ ...fresh, clusters: 0 })).to.equal(true);
+  });
+
+  it("finds and ranks the closest centroids", function () {
+    const centroids = [vec(1, 0, 0), vec(0, 1, 0), vec(0, 0, 1)];
+    expect(nearestCentroid(vec(0.1, 0.9, 0.2), centroids)).to.equal(1);
+    expect(rankCentroids(vec(0.1, 0.9, 0.4), centroids, 2)).to.deep.equal([
+      1, 2,
+    ]);
+  });
+
+  it("separates two obvious clusters with k-means", function () {
+    const samples = [
+      vec(1, 0.1, 0),
+      vec(1, 0.2, 0),
+      vec(0.9, 0, 0.1),
+      vec(0, 1, 0.1),
+      vec(0.1, 1, 0),
+      vec(0, 0.9, 0.2),
+    ];
+    let centroids = initialCentroids(samples, 2);
+    for (let round = 0; round < 3; round++) {
+      const accumulator = new CentroidAccumulator(2, 3);
+      for (const s of samples)
+        accumulator.add(s, nearestCentroid(s, centroids));
+      centroids = accumulator.finish(centroids);
+    }
+
+    const assignments = samples.map((s) => nearestCentroid(s, centroids));
+    expect(new Set(assignments.slice(0, 3)).size).to.equal(1);
+    expect(new Set(assignments.slice(3)).size).to.equal(1);
+    expect(assignments[0]).to.not.equal(assignments[3]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Regression tests for hybrid search's keyword side and rank fusion.
+ *
+ * Exact identifiers (gene names, acronyms) must survive tokenization, BM25
+ * must prefer rarer terms, and both fusion modes must reward items found by
+ * both signals.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  queryTerms,
+  reciprocalRankFusion,
+  RRF_K,
+  scoreBM25,
+  tokenize,
+  weightedFusion,
+} from "../src/modules/semantic/keywordSearch";
+
+describe("keyword search", function () {
+  it("keeps identifiers whole and lowercases them", function () {
+    expect(tokenize("BRCA1 and p53 in IL-6 signalling")).to.deep.equal([
+      "brca1",
+      "and",
+      "p53",
+      "in",
+      "il",
+      "6",
+      "signalling",
+    ]);
+  });
+
+  it("splits CJK runs into character bigrams", function () {
+    expect(tokenize("深度学习model")).to.deep.equal([
+      "深度",
+      "度学",
+      "学习",
+      "model",
+    ]);
+  });
+
+  it("drops stopwords and duplicates from queries", function () {
+    expect(queryTerms("The role of BRCA1 in the BRCA1 pathway")).to.deep.equal([
+      "role",
+      "brca1",
+      "pathway",
+    ]);
+  });
+
+  it("ranks the rarer matched term higher and reports matched terms", function () {
+    const hits = scoreBM25(
+      ["tp53", "cancer"],
+      [
+        { id: "a", text: "cancer outcomes noted" },
+        { id: "b", text: "tp53 mutation outcomes" },
+        { id: "c", text: "cancers of the lung" }, // substring, not a term
+        { id: "d", text: "cancer risk factors" },
+      ],
+      { totalDocs: 100, avgLength: 22 },
+    );
+    expect(hits[0].id).to.equal("b");
+    expect(hits[0].matchedTerms).to.deep.equal(["tp53"]);
+    expect(hits.map((h) => h.id)).to.have.members(["a", "b", "d"]);
+  });
+
+  it("fuses rankings with RRF, favouring items in both lists", function () {
+    const fused = reciprocalRankFusion([
+      ["x", "y"],
+      ["y", "z"],
+    ]);
+    expect(fused.get("y")).to.be.closeTo(
+      1 / (RRF_K + 2) + 1 / (RRF_K + 1),
+      1e-12,
+    );
+    const order = [...fused].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+    expect(order[0]).to.equal("y");
+  });
+
+  it("normalizes each signal before weighted fusion", function () {
+    const fused = weightedFusion([
+      {
+        scores: new Map([
+          ["x", 0.9],
+          ["y", 0.5],
+        ]),
+        weight: 0.5,
+      },
+      {
+        scores: new Map([
+          ["y", 40],
+          ["z", 10],
+        ]),
+        weight: 0.5,
+      },
+    ]);
+    expect(fused.get("x")).to.equal(0.5);
+    expect(fused.get("y")).to.equal(0.5);
+    expect(fused.get("z")).to.equal(0);
+  });
+});
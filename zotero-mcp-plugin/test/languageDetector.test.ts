@@ -0,0 +1,67 @@
+/**
+ * Regression tests for multi-language detection in the embedding pipeline.
+ *
+ * Non-Latin scripts must map to their language even amid Latin terms,
+ * Japanese must not be taken for Chinese, and Latin-script European papers
+ * must no longer all be classified as English.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  detectLanguage,
+  isLanguageCode,
+} from "../src/modules/semantic/languageDetector";
+
+describe("languageDetector", function () {
+  it("tells Japanese from Chinese by kana", function () {
+    expect(
+      detectLanguage("深層学習を用いた画像認識の研究について述べる。"),
+    ).to.equal("ja");
+    expect(detectLanguage("基于深度学习的图像识别研究")).to.equal("zh");
+  });
+
+  it("identifies other scripts", function () {
+    expect(detectLanguage("딥러닝을 이용한 영상 인식 연구")).to.equal("ko");
+    expect(detectLanguage("Исследование распознавания изображений")).to.equal(
+      "ru",
+    );
+    expect(detectLanguage("Μελέτη της αναγνώρισης εικόνων")).to.equal("el");
+  });
+
+  it("tells Latin-script languages apart by their stopwords", function () {
+    expect(
+      detectLanguage(
+        "Die Ergebnisse der Studie zeigen, dass die Methode nicht mit den Daten übereinstimmt.",
+      ),
+    ).to.equal("de");
+    expect(
+      detectLanguage(
+        "Les résultats de cette étude montrent que la méthode est efficace pour les patients.",
+      ),
+    ).to.equal("fr");
+    expect(
+      detectLanguage(
+        "Los resultados del estudio muestran que el método es eficaz para los pacientes.",
+      ),
+    ).to.equal("es");
+    expect(
+      detectLanguage(
+        "The results of this study show that the method is effective for patients.",
+      ),
+    ).to.equal("en");
+  });
+
+  it("falls back to English when there is no signal", function () {
+    expect(detectLanguage("")).to.equal("en");
+    expect(detectLanguage("Deep Learning")).to.equal("en");
+    expect(detectLanguage("2021 42")).to.equal("en");
+  });
+
+  it("validates language codes", function () {
+    expect(isLanguageCode("de")).to.equal(true);
+    expect(isLanguageCode("all")).to.equal(false);
+    expect(isLanguageCode(undefined)).to.equal(false);
+  });
+});
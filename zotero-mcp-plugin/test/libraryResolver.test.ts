@@ -0,0 +1,78 @@
+/**
+ * Regression tests for library-qualified key handling.
+ *
+ * Every tool accepts keys in Zotero's "<libraryID>/<KEY>" form and results
+ * echo that form back, so the parse/strip round-trip has to be exact.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  extractQualifiedKeys,
+  formatLibraryKey,
+  parseLibraryKey,
+} from "../src/modules/libraryResolver";
+
+describe("library-qualified keys", function () {
+  it("round-trips formatLibraryKey through parseLibraryKey", function () {
+    const qualified = formatLibraryKey(7, "ABCD1234");
+    expect(qualified).to.equal("7/ABCD1234");
+    expect(parseLibraryKey(qualified)).to.deep.equal({
+      libraryID: 7,
+      key: "ABCD1234",
+    });
+  });
+
+  it("omits the qualified key when libraryID is unknown", function () {
+    expect(formatLibraryKey(undefined, "ABCD1234")).to.equal(undefined);
+  });
+
+  it("rejects plain keys and malformed qualifiers", function () {
+    expect(parseLibraryKey("ABCD1234")).to.equal(null);
+    expect(parseLibraryKey("x/ABCD1234")).to.equal(null);
+    expect(parseLibraryKey("1/abcd1234")).to.equal(null);
+    expect(parseLibraryKey(42)).to.equal(null);
+  });
+
+  it("strips qualifiers from *Key, *Keys and collections args", function () {
+    const out = extractQualifiedKeys({
+      itemKey: "3/AAAA1111",
+      itemKeys: ["3/BBBB2222", "CCCC3333"],
+      collections: ["3/DDDD4444"],
+      title: "3/EEEE5555",
+    });
+    expect(out.libraryID).to.equal(3);
+    expect(out.args).to.deep.equal({
+      itemKey: "AAAA1111",
+      itemKeys: ["BBBB2222", "CCCC3333"],
+      collections: ["DDDD4444"],
+      // Non-key arguments are never rewritten, even if they look qualified.
+      title: "3/EEEE5555",
+    });
+  });
+
+  it("strips the qualifier from a collection filter", function () {
+    const out = extractQualifiedKeys({
+      q: "attention",
+      collection: "5/FFFF6666",
+    });
+    expect(out.libraryID).to.equal(5);
+    expect(out.args).to.deep.equal({ q: "attention", collection: "FFFF6666" });
+  });
+
+  it("leaves unqualified arguments alone", function () {
+    const out = extractQualifiedKeys({ itemKey: "AAAA1111", limit: 5 });
+    expect(out.libraryID).to.equal(undefined);
+    expect(out.args).to.deep.equal({ itemKey: "AAAA1111", limit: 5 });
+  });
+
+  it("refuses keys from two different libraries in one call", function () {
+    expect(() =>
+      extractQualifiedKeys({
+        itemKey: "1/AAAA1111",
+        relatedItemKey: "2/BBBB2222",
+      }),
+    ).to.throw(/two different libraries/);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Regression tests for the undo journal's planning logic.
+ *
+ * Snapshot comparison must ignore what Zotero bumps on every save and the
+ * order of set-valued fields, or every undo would report false conflicts.
+ * An undo plan must recreate parents before children and remove created
+ * objects children first; undo_last must skip undo entries and
+ * operations already undone, and other clients' operations when asked
+ * for one client's. Objects that merely appeared while a call ran are
+ * only recorded as created when its result or targets lead to them.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  attributeCreated,
+  findConflicts,
+  journalTargets,
+  lastUndoable,
+  resultKeys,
+  sameState,
+  summarizeEntry,
+  undoPlan,
+  type JournalEntry,
+  type Snapshot,
+} from "../src/modules/mutationJournal";
+
+function entry(
+  id: string,
+  snapshots: Snapshot[],
+  extra: Partial<JournalEntry> = {},
+): JournalEntry {
+  return {
+    id,
+    tool: "batch_trash",
+    libraryID: 1,
+    scopes: ["bulk", "delete"],
+    timestamp: "2026-10-19T10:00:00.000Z",
+    snapshots,
+    ...extra,
+  };
+}
+
+function item(
+  key: string,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+): Snapshot {
+  return { kind: "item", key, before, after };
+}
+
+describe("mutationJournal", function () {
+  it("compares states without versions or set order", function () {
+    expect(
+      sameState(
+        {
+          key: "AAAA1111",
+          version: 4,
+          dateModified: "2026-10-19 10:00:00",
+          title: "Deep learning",
+          tags: [{ tag: "b" }, { tag: "a" }],
+          relations: { "dc:relation": ["uri:2", "uri:1"] },
+        },
+        {
+          key: "AAAA1111",
+          version: 5,
+          dateModified: "2026-10-19 11:00:00",
+          title: "Deep learning",
+          tags: [{ tag: "a" }, { tag: "b" }],
+          relations: { "dc:relation": ["uri:1", "uri:2"] },
+        },
+      ),
+    ).to.equal(true);
+    expect(sameState({ title: "A" }, { title: "B" })).to.equal(false);
+    expect(sameState({ title: "A" }, { title: "A", deleted: true })).to.equal(
+      false,
+    );
+    expect(sameState(null, null)).to.equal(true);
+    expect(sameState(null, { title: "A" })).to.equal(false);
+  });
+
+  it("collects the objects a call's arguments name", function () {
+    expect(
+      journalTargets("merge_items", {
+        itemKeys: ["AAAA1111", "BBBB2222"],
+        masterKey: "AAAA1111",
+        libraryID: 1,
+      }),
+    ).to.deep.equal({
+      itemKeys: ["AAAA1111", "BBBB2222"],
+      collectionKeys: [],
+      tags: [],
+      withContents: false,
+    });
+    expect(
+      journalTargets("move_item_to_collection", {
+        itemKey: "AAAA1111",
+        fromCollectionKey: "COLL0001",
+        toCollectionKey: "COLL0002",
+      }).collectionKeys,
+    ).to.deep.equal(["COLL0001", "COLL0002"]);
+    expect(journalTargets("rename_tag", { oldName: " todo " }).tags).to.eql([
+      "todo",
+    ]);
+    // Tags being added name no existing objects.
+    expect(journalTargets("add_tags", { tags: ["todo"] }).tags).to.eql([]);
+    expect(
+      journalTargets("delete_collection", { collectionKey: "COLL0001" })
+        .withContents,
+    ).to.equal(true);
+  });
+
+  it("restores parents first and removes children first", function () {
+    const plan = undoPlan(
+      entry("op-1", [
+        item("ANNOT001", { parentItem: "ATTACH01" }, null),
+        item("ATTACH01", { parentItem: "PARENT01" }, { deleted: true }),
+        item("PARENT01", { title: "P" }, { title: "P", deleted: true }),
+        item("UNCHANGE", { title: "U" }, { title: "U" }),
+        item("NEWNOTE1", null, { parentItem: "PARENT01" }),
+        {
+          kind: "collection",
+          key: "CHILD001",
+          before: null,
+          after: { parentCollection: "PARENTC1" },
+        },
+        {
+          kind: "collection",
+          key: "PARENTC1",
+          before: null,
+          after: { parentCollection: false },
+        },
+      ]),
+    );
+    expect(plan.restore.map((s) => s.key)).to.deep.equal([
+      "PARENT01",
+      "ATTACH01",
+      "ANNOT001",
+    ]);
+    expect(plan.remove.map((s) => s.key)).to.deep.equal([
+      "NEWNOTE1",
+      "CHILD001",
+      "PARENTC1",
+    ]);
+  });
+
+  it("attributes only referenced objects and their children", function () {
+    const result = {
+      success: true,
+      itemKey: "IMPORT01",
+      details: { attachments: [{ attachmentKey: "PDF00001" }], title: "X" },
+    };
+    expect(resultKeys(result).sort()).to.deep.equal(["IMPORT01", "PDF00001"]);
+
+    const created = attributeCreated(
+      [
+        item("ANNOT001", null, { parentItem: "PDF00001" }),
+        item("PDF00001", null, { parentItem: "IMPORT01" }),
+        item("IMPORT01", null, { title: "Imported" }),
+        item("SNAPSHOT", null, { parentItem: "IMPORT01" }),
+        item("NEWNOTE1", null, { parentItem: "TARGET01" }),
+        // Synced or added in the UI while the call ran.
+        item("SYNCED01", null, { title: "Other" }),
+        item("SYNCNOTE", null, { parentItem: "SYNCED01" }),
+        {
+          kind: "collection",
+          key: "SYNCCOLL",
+          before: null,
+          after: { parentCollection: false },
+        },
+      ],
+      [...resultKeys(result), "TARGET01"],
+    );
+    expect(created.map((s) => s.key).sort()).to.deep.equal([
+      "ANNOT001",
+      "IMPORT01",
+      "NEWNOTE1",
+      "PDF00001",
+      "SNAPSHOT",
+    ]);
+    expect(attributeCreated([item("SYNCED01", null, {})], [])).to.eql([]);
+  });
+
+  it("reports objects changed since the operation", function () {
+    const op = entry("op-1", [
+      item("AAAA1111", { title: "A" }, { title: "A", deleted: true }),
+      item("BBBB2222", { title: "B" }, { title: "B", deleted: true }),
+      item("CCCC3333", null, { title: "C" }),
+    ]);
+    const conflicts = findConflicts(
+      op,
+      new Map([
+        ["item:AAAA1111", { title: "A", deleted: true, version: 9 }],
+        ["item:BBBB2222", { title: "B" }],
+        ["item:CCCC3333", null],
+      ]),
+    );
+    expect(conflicts.map((s) => s.key)).to.deep.equal(["BBBB2222", "CCCC3333"]);
+  });
+
+  it("picks the newest undoable operation for undo_last", function () {
+    const entries = [
+      entry("op-1", []),
+      entry("op-2", [], { libraryID: 2 }),
+      entry("op-3", [], { undoneAt: "x", undoneBy: "op-4" }),
+      entry("op-4", [], { tool: "undo_operation", undoOf: "op-3" }),
+    ];
+    expect(lastUndoable(entries)?.id).to.equal("op-2");
+    expect(lastUndoable(entries, 1)?.id).to.equal("op-1");
+    expect(lastUndoable(entries, 3)).to.equal(undefined);
+    // A client token only ever reaches back to its own operations.
+    entries.push(entry("op-5", [], { clientID: "client_a" }));
+    expect(lastUndoable(entries)?.id).to.equal("op-5");
+    expect(lastUndoable(entries, undefined, "client_a")?.id).to.equal("op-5");
+    expect(lastUndoable(entries, undefined, "client_b")).to.equal(undefined);
+    expect(
+      summarizeEntry(
+        entry("op-6", [
+          item("AAAA1111", { title: "A" }, { title: "B" }),
+          item("BBBB2222", { title: "B" }, { title: "B" }),
+          {
+            kind: "collection",
+            key: "COLL0001",
+            before: { name: "X" },
+            after: null,
+          },
+        ]),
+      ),
+    ).to.include({ operationId: "op-6", items: 1, collections: 1 });
+  });
+});
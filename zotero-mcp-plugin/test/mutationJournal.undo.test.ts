@@ -0,0 +1,106 @@
+/**
+ * Regression tests for undoing a journaled operation.
+ *
+ * Two undo_operation calls on the same entry can both arrive before
+ * either finishes; only the first may restore and journal it, the second
+ * has to see the entry as undone once it holds the lock.
+ *
+ * The journal file lives in a stubbed IOUtils and the library in a mock
+ * Zotero holding one item.
+ */
+
+import { expect } from "chai";
+
+(globalThis as any).Zotero = { ...((globalThis as any).Zotero || {}) };
+(globalThis as any).ztoolkit = { log: () => {} };
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const mutationJournal = require("../src/modules/mutationJournal");
+const { getJournalEntry, listJournal, undoEntry } = mutationJournal;
+
+describe("undo_operation", function () {
+  const saved: Record<string, any> = {};
+  let title: string;
+  let transactions: number;
+
+  beforeEach(function () {
+    title = "B";
+    transactions = 0;
+    const item = {
+      toJSON: () => ({ key: "AAAA1111", itemType: "book", title }),
+      fromJSON: (json: any) => {
+        title = json.title;
+      },
+      save: async () => {},
+    };
+    const Zotero = (globalThis as any).Zotero;
+    for (const name of ["DataDirectory", "Items", "DB"]) {
+      saved[name] = Zotero[name];
+    }
+    Zotero.DataDirectory = { dir: "/zotero" };
+    Zotero.Items = { getByLibraryAndKey: () => item };
+    Zotero.DB = {
+      executeTransaction: async (fn: () => Promise<void>) => {
+        transactions++;
+        // Yield, so a second undo gets to queue up behind this one.
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        await fn();
+      },
+    };
+    (globalThis as any).PathUtils = {
+      join: (...parts: string[]) => parts.join("/"),
+    };
+    (globalThis as any).IOUtils = {
+      exists: async () => true,
+      readJSON: async () => ({
+        version: 1,
+        entries: [
+          {
+            id: "op-1",
+            tool: "update_item",
+            libraryID: 1,
+            scopes: ["items"],
+            timestamp: "2026-10-19T10:00:00.000Z",
+            snapshots: [
+              {
+                kind: "item",
+                key: "AAAA1111",
+                before: { key: "AAAA1111", itemType: "book", title: "A" },
+                after: { key: "AAAA1111", itemType: "book", title: "B" },
+              },
+            ],
+          },
+        ],
+      }),
+      writeJSON: async () => {},
+    };
+  });
+
+  afterEach(function () {
+    Object.assign((globalThis as any).Zotero, saved);
+    delete (globalThis as any).IOUtils;
+    delete (globalThis as any).PathUtils;
+  });
+
+  it("undoes an operation once when two undos race", async function () {
+    const entry = await getJournalEntry("op-1");
+    const results = await Promise.allSettled([
+      undoEntry(entry),
+      undoEntry(entry),
+    ]);
+
+    expect(results.map((r) => r.status)).to.deep.equal([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect((results[1] as PromiseRejectedResult).reason.message).to.match(
+      /^Operation op-1 was already undone by op-/,
+    );
+    expect(title).to.equal("A");
+    expect(transactions).to.equal(1);
+    const undos = (await listJournal()).filter(
+      (e: any) => e.tool === "undo_operation",
+    );
+    expect(undos).to.have.lengthOf(1);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Regression tests for the SSE notification plumbing.
+ *
+ * Covers the wire format, dead-peer detection, and the progress reporter's
+ * spec rules (no token → silent, progress must strictly increase).
+ *
+ * Pure-function test: ztoolkit is stubbed for the hub's logging.
+ */
+
+import { expect } from "chai";
+
+(globalThis as any).ztoolkit = { log: () => {} };
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const hub = require("../src/modules/notificationHub");
+const { formatSSEEvent, SSEStream, createProgressReporter, notificationHub } =
+  hub;
+
+describe("notification hub", function () {
+  afterEach(function () {
+    notificationHub.closeAll();
+  });
+
+  it("formats one JSON-RPC message per SSE event", function () {
+    expect(formatSSEEvent({ jsonrpc: "2.0", method: "x" }, 3)).to.equal(
+      'id: 3\nevent: message\ndata: {"jsonrpc":"2.0","method":"x"}\n\n',
+    );
+    // Embedded newlines are escaped by JSON, never split across lines.
+    expect(formatSSEEvent({ text: "a\nb" })).to.equal(
+      'event: message\ndata: {"text":"a\\nb"}\n\n',
+    );
+  });
+
+  it("numbers events and closes the stream when a write fails", async function () {
+    const chunks: string[] = [];
+    let fail = false;
+    const stream = new SSEStream((chunk: string) => {
+      if (fail) throw new Error("socket closed");
+      chunks.push(chunk);
+    });
+    expect(stream.send({ a: 1 })).to.equal(true);
+    expect(stream.send({ a: 2 })).to.equal(true);
+    expect(chunks[1]).to.match(/^id: 2\n/);
+
+    fail = true;
+    expect(stream.heartbeat()).to.equal(false);
+    expect(stream.open).to.equal(false);
+    await stream.closed;
+  });
+
+  it("replaces a session's previous stream instead of duplicating pushes", function () {
+    const first: string[] = [];
+    const second: string[] = [];
+    const a = new SSEStream((c: string) => first.push(c));
+    const b = new SSEStream((c: string) => second.push(c));
+    notificationHub.openStream("mcp-session-1", a);
+    notificationHub.openStream("mcp-session-1", b);
+    expect(a.open).to.equal(false);
+
+    notificationHub.broadcast("notifications/tools/list_changed");
+    expect(first).to.have.length(0);
+    expect(second).to.have.length(1);
+  });
+
+  it("emits strictly increasing progress only when a token was given", function () {
+    const sent: any[] = [];
+    const send = (m: any) => sent.push(m);
+
+    createProgressReporter(undefined, send)(1);
+    expect(sent).to.have.length(0);
+
+    const report = createProgressReporter("tok", send);
+    report(1, 10, "one");
+    report(1, 10);
+    report(0.5, 10);
+    report(2, 10);
+    expect(sent.map((m) => m.params.progress)).to.deep.equal([1, 2]);
+    expect(sent[0]).to.deep.equal({
+      jsonrpc: "2.0",
+      method: "notifications/progress",
+      params: { progressToken: "tok", progress: 1, total: 10, message: "one" },
+    });
+  });
+});
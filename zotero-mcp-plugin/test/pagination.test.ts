@@ -0,0 +1,93 @@
+/**
+ * Regression tests for cursor pagination.
+ *
+ * A cursor must page through the snapshot taken by the first call, so
+ * later changes to the live result cannot shift pages, and must only be
+ * honoured for the session and tool it was issued to. Clients that keep
+ * no session still page, through the shared store.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  continuePagination,
+  CursorError,
+  dropSessionSnapshots,
+  startPagination,
+} from "../src/modules/pagination";
+
+describe("pagination", function () {
+  it("pages through the snapshot taken by the first call", function () {
+    const ids = [1, 2, 3, 4, 5];
+    const first = startPagination("mcp-a", "search_library", ids, {
+      limit: 2,
+      state: { query: "x" },
+    });
+    expect(first).to.deep.include({ ids: [1, 2], offset: 0, total: 5 });
+
+    // The live result changes; the snapshot does not.
+    ids.splice(0, 1);
+    const second = continuePagination<number>(
+      "mcp-a",
+      "search_library",
+      first.nextCursor!,
+    );
+    expect(second).to.deep.include({ ids: [3, 4], offset: 2, limit: 2 });
+    expect(second.state).to.deep.equal({ query: "x" });
+
+    const last = continuePagination<number>(
+      "mcp-a",
+      "search_library",
+      second.nextCursor!,
+      10,
+    );
+    expect(last.ids).to.deep.equal([5]);
+    expect(last.nextCursor).to.equal(undefined);
+  });
+
+  it("needs no cursor when everything fits", function () {
+    const page = startPagination("mcp-a", "get_tags:1", ["a", "b"], {
+      limit: 100,
+    });
+    expect(page.ids).to.deep.equal(["a", "b"]);
+    expect(page.nextCursor).to.equal(undefined);
+  });
+
+  it("refuses cursors from another session or tool", function () {
+    const { nextCursor } = startPagination("mcp-a", "get_tags:1", [1, 2], {
+      limit: 1,
+    });
+    expect(() =>
+      continuePagination("mcp-b", "get_tags:1", nextCursor!),
+    ).to.throw(CursorError);
+    expect(() =>
+      continuePagination("mcp-a", "get_tags:2", nextCursor!),
+    ).to.throw(CursorError);
+    expect(() =>
+      continuePagination("mcp-a", "get_tags:1", "not a cursor"),
+    ).to.throw(CursorError);
+
+    dropSessionSnapshots("mcp-a");
+    expect(() =>
+      continuePagination("mcp-a", "get_tags:1", nextCursor!),
+    ).to.throw(/Unknown or expired cursor/);
+  });
+
+  it("pages without a session through the shared store", function () {
+    const first = startPagination(undefined, "search_library", [1, 2, 3], {
+      limit: 1,
+    });
+    const second = continuePagination<number>(
+      undefined,
+      "search_library",
+      first.nextCursor!,
+    );
+    expect(second.ids).to.deep.equal([2]);
+    expect(second.nextCursor).to.not.equal(first.nextCursor);
+    // Shared and session snapshots stay apart.
+    expect(() =>
+      continuePagination("mcp-a", "search_library", second.nextCursor!),
+    ).to.throw(CursorError);
+  });
+});
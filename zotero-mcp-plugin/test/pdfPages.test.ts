@@ -0,0 +1,75 @@
+/**
+ * Regression tests for PDF page segmentation.
+ *
+ * Worker text must split into pages on form feeds, assembled text must map
+ * offsets back to the right page, and `pages` arguments must parse strictly
+ * so get_content never silently returns the wrong pages.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  joinPages,
+  pageAt,
+  parsePageRanges,
+  selectPages,
+  splitPages,
+} from "../src/modules/pdfPages";
+
+describe("PDF pages", function () {
+  it("splits worker text on form feeds, ignoring the trailing one", function () {
+    expect(splitPages("one\ftwo\fthree\f")).to.deep.equal([
+      "one",
+      "two",
+      "three",
+    ]);
+    expect(splitPages("no breaks")).to.deep.equal(["no breaks"]);
+    expect(splitPages("one\f\ftwo")).to.deep.equal(["one", "", "two"]);
+  });
+
+  it("joins pages and maps offsets back to them", function () {
+    const { text, spans } = joinPages(
+      [
+        { page: 3, text: "alpha" },
+        { page: 4, text: "beta" },
+      ],
+      "\n\n",
+      10,
+    );
+    expect(text).to.equal("alpha\n\nbeta");
+    expect(spans).to.deep.equal([
+      { page: 3, start: 10, end: 15 },
+      { page: 4, start: 17, end: 21 },
+    ]);
+    expect(pageAt(spans, 9)).to.equal(undefined);
+    expect(pageAt(spans, 12)?.page).to.equal(3);
+    expect(pageAt(spans, 16)?.page).to.equal(3);
+    expect(pageAt(spans, 17)?.page).to.equal(4);
+  });
+
+  it("parses page ranges", function () {
+    expect(parsePageRanges("7")).to.deep.equal([{ from: 7, to: 7 }]);
+    expect(parsePageRanges(7)).to.deep.equal([{ from: 7, to: 7 }]);
+    expect(parsePageRanges(" 1, 4, 9-12 ")).to.deep.equal([
+      { from: 1, to: 1 },
+      { from: 4, to: 4 },
+      { from: 9, to: 12 },
+    ]);
+    expect(parsePageRanges("10-")).to.deep.equal([{ from: 10, to: Infinity }]);
+    expect(parsePageRanges("ALL")).to.deep.equal([{ from: 1, to: Infinity }]);
+  });
+
+  it("rejects malformed page ranges", function () {
+    for (const bad of ["", "0", "5-3", "a", "1-2-3", "-4", "1,,2"]) {
+      expect(() => parsePageRanges(bad), bad).to.throw();
+    }
+  });
+
+  it("selects pages within the document, in order and once", function () {
+    expect(selectPages(parsePageRanges("9-12,2,3-4,10-"), 10)).to.deep.equal([
+      2, 3, 4, 9, 10,
+    ]);
+    expect(selectPages(parsePageRanges("20-"), 10)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Regression tests for prompt template handling.
+ *
+ * Custom prompts come from a free-text pref, so parsing has to shrug off
+ * bad entries without hiding good ones, and rendering has to leave unknown
+ * placeholders visible instead of blanking them.
+ *
+ * Pure-function test: Zotero.Prefs is stubbed for transitive module loads.
+ */
+
+import { expect } from "chai";
+
+(globalThis as any).Zotero = {
+  ...((globalThis as any).Zotero || {}),
+  Prefs: ((globalThis as any).Zotero || {}).Prefs || {
+    get: () => undefined,
+    set: () => {},
+  },
+};
+(globalThis as any).ztoolkit = { log: () => {} };
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const promptProvider = require("../src/modules/promptProvider");
+const {
+  parseCustomPrompts,
+  renderTemplate,
+  templatePlaceholders,
+  validatePromptArguments,
+  parseKeyList,
+  BUILTIN_PROMPTS,
+} = promptProvider;
+
+describe("prompt templates", function () {
+  it("parses valid custom prompts and drops malformed entries", function () {
+    const prompts = parseCustomPrompts(
+      JSON.stringify([
+        {
+          name: "critique",
+          description: "Critique methods",
+          arguments: [{ name: "itemKey", required: true }, { nope: 1 }],
+          template: "Critique {{item}}",
+        },
+        { name: "no template" },
+        { name: "bad name!", template: "x" },
+        { name: "critique", template: "duplicate" },
+        "not an object",
+      ]),
+    );
+    expect(prompts).to.have.length(1);
+    expect(prompts[0]).to.deep.equal({
+      name: "critique",
+      description: "Critique methods",
+      arguments: [{ name: "itemKey", required: true }],
+      template: "Critique {{item}}",
+    });
+  });
+
+  it("treats unparsable or non-array prefs as no custom prompts", function () {
+    expect(parseCustomPrompts("{not json")).to.deep.equal([]);
+    expect(parseCustomPrompts('{"name":"x"}')).to.deep.equal([]);
+    expect(parseCustomPrompts(undefined)).to.deep.equal([]);
+  });
+
+  it("substitutes known placeholders and leaves unknown ones visible", function () {
+    expect(
+      renderTemplate("Topic: {{ topic }}; {{item}}; {{typo}}", {
+        topic: "graphs",
+        item: "ITEM",
+      }),
+    ).to.equal("Topic: graphs; ITEM; {{typo}}");
+  });
+
+  it("lists the placeholders a template references", function () {
+    expect([
+      ...templatePlaceholders("{{item}} {{annotations}} {{item}}"),
+    ]).to.deep.equal(["item", "annotations"]);
+  });
+
+  it("rejects missing or blank required arguments", function () {
+    const summarize = BUILTIN_PROMPTS.find(
+      (p: any) => p.name === "summarize_item",
+    );
+    expect(() => validatePromptArguments(summarize, {})).to.throw(
+      /requires argument "itemKey"/,
+    );
+    expect(() => validatePromptArguments(summarize, { itemKey: " " })).to.throw(
+      /itemKey/,
+    );
+    expect(() =>
+      validatePromptArguments(summarize, { itemKey: "ABCD1234" }),
+    ).not.to.throw();
+  });
+
+  it("splits comma and whitespace separated key lists", function () {
+    expect(parseKeyList("AAAA1111, BBBB2222  5/CCCC3333")).to.deep.equal([
+      "AAAA1111",
+      "BBBB2222",
+      "5/CCCC3333",
+    ]);
+    expect(parseKeyList(undefined)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Regression tests for parsing reference lists into cited-work records.
+ *
+ * Numbered lists must split only at markers that count up, author–year
+ * lists at author-led lines; APA, IEEE and Vancouver entries must yield
+ * authors, title, year, venue and identifiers. Title matching must
+ * tolerate punctuation and small extraction errors.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  citesWork,
+  parseReference,
+  parseReferences,
+  referencesSection,
+  splitReferences,
+  titleSearchTerms,
+  titleSimilarity,
+} from "../src/modules/referenceParser";
+
+describe("Reference parsing", function () {
+  it("splits numbered lists at markers that count up", function () {
+    const text = [
+      "References",
+      "[1] K. He, X. Zhang, “Deep residual learning,” in Proc. CVPR, 2016,",
+      "pp. 770–778.",
+      "[2] A. Smith, “Graphs,” Nature, vol. 3. 2019.",
+    ].join("\n");
+    expect(splitReferences(text)).to.deep.equal([
+      "K. He, X. Zhang, “Deep residual learning,” in Proc. CVPR, 2016, pp. 770–778.",
+      "A. Smith, “Graphs,” Nature, vol. 3. 2019.",
+    ]);
+    // Formatted into one paragraph, "12. Smith" style
+    expect(
+      splitReferences(
+        "1. Smith J. A study. Nature. 2020. 2. Doe A. More. Cell. 2021.",
+      ),
+    ).to.have.length(2);
+  });
+
+  it("splits author–year lists at author-led lines", function () {
+    const text = [
+      "Doe, A., & Smith, J. (2020). Soil yields under drought. Agronomy",
+      "Journal, 12(3), 45–67. https://doi.org/10.1000/xyz.123",
+      "Lee, K. (2019). Irrigation in practice. Springer.",
+    ].join("\n");
+    const refs = parseReferences(text);
+    expect(refs).to.have.length(2);
+    expect(refs[0]).to.deep.include({
+      index: 1,
+      authors: ["Doe, A.", "Smith, J."],
+      title: "Soil yields under drought",
+      year: 2020,
+      venue: "Agronomy Journal",
+      doi: "10.1000/xyz.123",
+    });
+    expect(refs[1]).to.deep.include({
+      authors: ["Lee, K."],
+      title: "Irrigation in practice",
+      venue: "Springer",
+    });
+  });
+
+  it("parses IEEE and Vancouver entries", function () {
+    expect(
+      parseReference(
+        "K. He, X. Zhang and S. Ren, “Deep residual learning for image recognition,” in Proc. CVPR, 2016, pp. 770–778.",
+        1,
+      ),
+    ).to.deep.include({
+      authors: ["K. He", "X. Zhang", "S. Ren"],
+      title: "Deep residual learning for image recognition",
+      venue: "Proc. CVPR",
+      year: 2016,
+    });
+    expect(
+      parseReference(
+        "Smith J, Doe AB. Statins and stroke risk. N Engl J Med. 2008;359(21):2195-207. PMID: 18997196",
+        2,
+      ),
+    ).to.deep.include({
+      authors: ["Smith J", "Doe AB"],
+      title: "Statins and stroke risk",
+      venue: "N Engl J Med",
+      year: 2008,
+      pmid: "18997196",
+    });
+  });
+
+  it("takes the last References section of a full text", function () {
+    const text =
+      "Contents\nReferences\nIntroduction\nText.\nReferences\n[1] A.";
+    expect(referencesSection(text)).to.equal("References\n[1] A.");
+    expect(referencesSection("Introduction\nText.")).to.equal(null);
+  });
+
+  it("recognizes a reference to a known work", function () {
+    const work = {
+      title: "Deep residual learning",
+      year: 2016,
+      doi: "10.1109/CVPR.2016.90",
+    };
+    const reference = parseReference(
+      "He K. Deep residual learning. CVPR. 2016. doi:10.1109/cvpr.2016.90",
+      1,
+    );
+    expect(citesWork(reference, work)).to.equal("doi");
+    expect(citesWork({ ...reference, doi: undefined }, work)).to.equal("title");
+    expect(
+      citesWork({ ...reference, doi: "10.1109/cvpr.2016.91" }, work),
+    ).to.equal(null);
+    expect(
+      citesWork({ ...reference, doi: undefined, year: 2010 }, work),
+    ).to.equal(null);
+  });
+
+  it("scores titles by similarity despite punctuation and typos", function () {
+    const title = "Deep Residual Learning for Image Recognition";
+    expect(
+      titleSimilarity(title, "deep residual learning for image recognition."),
+    ).to.equal(1);
+    expect(
+      titleSimilarity(title, "Deep residual leaming for image recognition"),
+    ).to.be.above(0.9);
+    expect(titleSimilarity(title, "Attention is all you need")).to.be.below(
+      0.4,
+    );
+    expect(titleSearchTerms(title)).to.deep.equal(["recognition", "residual"]);
+  });
+});
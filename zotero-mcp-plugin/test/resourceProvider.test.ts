@@ -0,0 +1,211 @@
+/**
+ * Regression tests for MCP resource URI handling.
+ *
+ * Clients persist resource URIs (they are how a paper gets attached to a
+ * conversation), so the URI shape is a public contract: the personal
+ * library uses the bare form, group libraries carry a libraryID segment,
+ * and only attachments take the /text suffix. resources/list pages resume
+ * after their cursor with a bounded query rather than re-listing a whole
+ * library per page.
+ *
+ * Zotero.Prefs is stubbed for transitive module loads; the paging test
+ * installs a two-library mock Zotero of its own.
+ */
+
+import { expect } from "chai";
+
+(globalThis as any).Zotero = {
+  ...((globalThis as any).Zotero || {}),
+  Prefs: ((globalThis as any).Zotero || {}).Prefs || {
+    get: () => undefined,
+    set: () => {},
+  },
+};
+(globalThis as any).ztoolkit = { log: () => {} };
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const resourceProvider = require("../src/modules/resourceProvider");
+const {
+  parseResourceURI,
+  buildResourceURI,
+  decodeResourceCursor,
+  listResources,
+  RESOURCE_PAGE_SIZE,
+} = resourceProvider as {
+  parseResourceURI: (
+    uri: unknown,
+  ) => { kind: string; key: string; libraryID?: number } | null;
+  buildResourceURI: (
+    ref: { kind: string; key: string; libraryID?: number },
+    userLibraryID?: number,
+  ) => string;
+  decodeResourceCursor: (cursor: unknown) => unknown;
+  listResources: (
+    cursor?: unknown,
+  ) => Promise<{ resources: Array<{ uri: string }>; nextCursor?: string }>;
+  RESOURCE_PAGE_SIZE: number;
+};
+
+const USER_ITEMS = RESOURCE_PAGE_SIZE + 20;
+
+// Library 1: two collections and USER_ITEMS items; library 5: three items.
+const items = new Map<number, { key: string; libraryID: number }>();
+for (let id = 1; id <= USER_ITEMS; id++) {
+  items.set(id, { key: `U${String(id).padStart(7, "0")}`, libraryID: 1 });
+}
+for (let id = 1001; id <= 1003; id++) {
+  items.set(id, { key: `G${String(id).padStart(7, "0")}`, libraryID: 5 });
+}
+const collections = [
+  { id: 2, key: "COLL0002", libraryID: 1, name: "B" },
+  { id: 1, key: "COLL0001", libraryID: 1, name: "A" },
+];
+
+describe("resourceProvider", function () {
+  describe("resource URIs", function () {
+    it("parses each personal-library form", function () {
+      expect(parseResourceURI("zotero://item/ABCD1234")).to.deep.equal({
+        kind: "item",
+        key: "ABCD1234",
+      });
+      expect(parseResourceURI("zotero://collection/COLL0001")).to.deep.equal({
+        kind: "collection",
+        key: "COLL0001",
+      });
+      expect(
+        parseResourceURI("zotero://attachment/ATT00001/text"),
+      ).to.deep.equal({ kind: "attachment", key: "ATT00001" });
+      expect(parseResourceURI("zotero://note/NOTE0001")).to.deep.equal({
+        kind: "note",
+        key: "NOTE0001",
+      });
+    });
+
+    it("parses the group-library form", function () {
+      expect(parseResourceURI("zotero://item/5/ABCD1234")).to.deep.equal({
+        kind: "item",
+        key: "ABCD1234",
+        libraryID: 5,
+      });
+    });
+
+    it("requires /text on attachments and rejects it elsewhere", function () {
+      expect(parseResourceURI("zotero://attachment/ATT00001")).to.equal(null);
+      expect(parseResourceURI("zotero://item/ABCD1234/text")).to.equal(null);
+    });
+
+    it("rejects foreign schemes and malformed keys", function () {
+      expect(
+        parseResourceURI("zotero://select/library/items/ABCD1234"),
+      ).to.equal(null);
+      expect(parseResourceURI("file:///etc/passwd")).to.equal(null);
+      expect(parseResourceURI("zotero://item/abcd1234")).to.equal(null);
+      expect(parseResourceURI(undefined)).to.equal(null);
+    });
+
+    it("builds bare URIs for the personal library and round-trips groups", function () {
+      expect(
+        buildResourceURI({ kind: "item", key: "ABCD1234", libraryID: 1 }, 1),
+      ).to.equal("zotero://item/ABCD1234");
+      const group = buildResourceURI(
+        { kind: "attachment", key: "ATT00001", libraryID: 7 },
+        1,
+      );
+      expect(group).to.equal("zotero://attachment/7/ATT00001/text");
+      expect(parseResourceURI(group)).to.deep.equal({
+        kind: "attachment",
+        key: "ATT00001",
+        libraryID: 7,
+      });
+    });
+
+    it("treats unparsable cursors as the first page", function () {
+      expect(decodeResourceCursor("5.i.200")).to.deep.equal({
+        libraryID: 5,
+        kind: "item",
+        afterID: 200,
+      });
+      expect(decodeResourceCursor("200")).to.equal(null);
+      expect(decodeResourceCursor("nope")).to.equal(null);
+      expect(decodeResourceCursor(undefined)).to.equal(null);
+    });
+  });
+
+  describe("resources/list paging", function () {
+    let originalZotero: any;
+    let queries: any[][];
+
+    beforeEach(function () {
+      originalZotero = (globalThis as any).Zotero;
+      queries = [];
+      (globalThis as any).Zotero = {
+        ...originalZotero,
+        Libraries: {
+          userLibraryID: 1,
+          getAll: () => [
+            { libraryID: 5, libraryType: "group", name: "Lab" },
+            { libraryID: 1, libraryType: "user", name: "My Library" },
+          ],
+        },
+        Groups: { getByLibraryID: () => null },
+        ItemTypes: {
+          getID: (type: string) => ({ note: 1, attachment: 14 })[type],
+        },
+        Collections: {
+          getByLibrary: (libraryID: number) =>
+            collections.filter((c) => c.libraryID === libraryID),
+          get: (id: number) => collections.find((c) => c.id === id),
+        },
+        DB: {
+          columnQueryAsync: async (_sql: string, params: any[]) => {
+            queries.push(params);
+            const [libraryID, afterID] = params;
+            const limit = params[params.length - 1];
+            return [...items]
+              .filter(([id, i]) => i.libraryID === libraryID && id > afterID)
+              .map(([id]) => id)
+              .slice(0, limit);
+          },
+        },
+        Items: {
+          getAsync: async (id: number) => ({
+            ...items.get(id),
+            itemType: "book",
+            getField: () => "",
+            getCreators: () => [],
+            getDisplayTitle: () => "",
+          }),
+        },
+      };
+    });
+
+    afterEach(function () {
+      (globalThis as any).Zotero = originalZotero;
+    });
+
+    it("resumes after the cursor with bounded queries", async function () {
+      const first = await listResources();
+      expect(first.resources).to.have.length(RESOURCE_PAGE_SIZE);
+      expect(first.resources.slice(0, 3).map((r) => r.uri)).to.deep.equal([
+        "zotero://collection/COLL0001",
+        "zotero://collection/COLL0002",
+        "zotero://item/U0000001",
+      ]);
+      expect(first.nextCursor).to.equal(`1.i.${RESOURCE_PAGE_SIZE - 2}`);
+
+      const second = await listResources(first.nextCursor);
+      expect(second.resources.map((r) => r.uri)).to.have.length(25);
+      expect(second.resources[0].uri).to.equal(
+        `zotero://item/U${String(RESOURCE_PAGE_SIZE - 1).padStart(7, "0")}`,
+      );
+      expect(second.resources[24].uri).to.equal("zotero://item/5/G0001003");
+      expect(second.nextCursor).to.equal(undefined);
+
+      // Each query asks for at most one page (plus one), after the cursor.
+      for (const params of queries) {
+        expect(params[params.length - 1]).to.be.at.most(RESOURCE_PAGE_SIZE + 1);
+      }
+      expect(queries[1][1]).to.equal(RESOURCE_PAGE_SIZE - 2);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Regression tests for saving search_library parameters as a Zotero
+ * saved search.
+ *
+ * Each savable parameter must become the native condition that matches
+ * what search_library matches, attachments and notes must stay excluded
+ * unless asked for, and parameters with no AND-joined equivalent must be
+ * refused by name rather than dropped.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  SavedSearchError,
+  savedSearchConditions,
+} from "../src/modules/savedSearches";
+
+describe("savedSearches", function () {
+  it("translates search parameters into conditions", function () {
+    expect(
+      savedSearchConditions({
+        q: "transformer",
+        title: "Attention",
+        titleOperator: "exact",
+        itemType: "journalArticle",
+        yearRange: "2020-2023",
+        collection: "COLL0001",
+        doi: "10.1000",
+        limit: "20",
+        sort: "title",
+      }),
+    ).to.deep.equal([
+      {
+        condition: "quicksearch-everything",
+        operator: "contains",
+        value: "transformer",
+      },
+      { condition: "title", operator: "is", value: "Attention" },
+      { condition: "itemType", operator: "is", value: "journalArticle" },
+      { condition: "date", operator: "isAfter", value: "2020" },
+      { condition: "date", operator: "isBefore", value: "2024" },
+      { condition: "collection", operator: "is", value: "COLL0001" },
+      { condition: "DOI", operator: "contains", value: "10.1000" },
+      { condition: "itemType", operator: "isNot", value: "attachment" },
+      { condition: "itemType", operator: "isNot", value: "note" },
+    ]);
+  });
+
+  it("maps tag modes and matches", function () {
+    expect(
+      savedSearchConditions({
+        tags: "to-read, 2024",
+        tagMode: "all",
+        includeAttachments: true,
+        includeNotes: "true",
+      } as any),
+    ).to.deep.equal([
+      { condition: "tag", operator: "is", value: "to-read" },
+      { condition: "tag", operator: "is", value: "2024" },
+    ]);
+    expect(
+      savedSearchConditions({
+        tags: ["draft"],
+        tagMode: "none",
+        tagMatch: "contains",
+        includeAttachments: "true",
+        includeNotes: "true",
+      }),
+    ).to.deep.equal([
+      { condition: "tag", operator: "doesNotContain", value: "draft" },
+    ]);
+  });
+
+  it("refuses parameters it cannot save", function () {
+    expect(() =>
+      savedSearchConditions({
+        tags: ["a", "b"],
+        titleOperator: "regex",
+        title: "^Deep",
+        numPagesRange: "100-200",
+        fulltext: "dropout",
+      }),
+    )
+      .to.throw(SavedSearchError)
+      .with.property("message")
+      .that.equals(
+        'Cannot save as a Zotero search: tagMode "any" with several tags, titleOperator "regex", numPagesRange, fulltext without fulltextMode "attachment" or "note"',
+      );
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Regression tests for structural section detection in PDF text.
+ *
+ * Headings must be recognized numbered, capitalized or letter-spaced, but
+ * not inside running prose; repeated running headers must not split a
+ * section; captions need their label punctuation. Indexing must keep
+ * everything outside the reference list.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  classifyHeading,
+  detectCaptions,
+  detectSections,
+  indexableSegments,
+  parseSectionSelectors,
+} from "../src/modules/sectionDetector";
+
+const PAPER = [
+  "Soil Yields Under Drought",
+  "A. Author, B. Author",
+  "Abstract—We study soil.",
+  "1. Introduction",
+  "Drought matters.",
+  "II. MATERIALS AND METHODS",
+  "We sampled soil.",
+  "Figure 1. Sampling sites across the region",
+  "in three provinces.",
+  "",
+  "Table 2 shows the yields.",
+  "Table 2: Yields by plot",
+  "3 Results",
+  "Yields rose.",
+  "Results",
+  "More results on this page.",
+  "Discussion",
+  "The results of the discussion are clear.",
+  "R E F E R E N C E S",
+  "[1] Smith, J. Soil. 2020.",
+].join("\n");
+
+describe("Section detection", function () {
+  it("classifies numbered, capitalized and letter-spaced headings", function () {
+    expect(classifyHeading("2.1 Methods")).to.equal("methods");
+    expect(classifyHeading("IV. RELATED WORK")).to.equal("background");
+    expect(classifyHeading("Results and Discussion")).to.equal("results");
+    expect(classifyHeading("A C K N O W L E D G M E N T S")).to.equal(
+      "acknowledgments",
+    );
+    expect(classifyHeading("Abstract: We propose a method.")).to.equal(
+      "abstract",
+    );
+    expect(classifyHeading("Results show that yields rose.")).to.equal(null);
+    expect(classifyHeading("")).to.equal(null);
+  });
+
+  it("splits a paper into contiguous sections after its front matter", function () {
+    const sections = detectSections(PAPER);
+    expect(sections.map((s) => s.type)).to.deep.equal([
+      "front",
+      "abstract",
+      "introduction",
+      "methods",
+      "results",
+      "discussion",
+      "references",
+    ]);
+    expect(sections[0].start).to.equal(0);
+    for (let i = 1; i < sections.length; i++) {
+      expect(sections[i].start).to.equal(sections[i - 1].end);
+    }
+    expect(sections[sections.length - 1].end).to.equal(PAPER.length);
+    expect(sections[3].heading).to.equal("II. MATERIALS AND METHODS");
+    // The repeated "Results" header stays inside the results section
+    expect(PAPER.slice(sections[4].start, sections[4].end)).to.contain(
+      "More results on this page.",
+    );
+    expect(detectSections("No headings here.\nJust text.")).to.deep.equal([]);
+  });
+
+  it("collects captions with their continuation lines", function () {
+    const captions = detectCaptions(PAPER);
+    expect(captions.map((c) => [c.label, c.text])).to.deep.equal([
+      [
+        "Figure 1",
+        "Figure 1. Sampling sites across the region in three provinces.",
+      ],
+      ["Table 2", "Table 2: Yields by plot"],
+    ]);
+    expect(captions[1].kind).to.equal("table");
+  });
+
+  it("leaves reference lists out of the indexable segments", function () {
+    const text = `Title\n\n${PAPER}\n\nA note`;
+    const base = "Title\n\n".length;
+    const sections = detectSections(PAPER).map((s) => ({
+      ...s,
+      start: s.start + base,
+      end: s.end + base,
+    }));
+    const segments = indexableSegments(text.length, sections);
+    const kept = segments.map((s) => text.slice(s.start, s.end)).join("|");
+    expect(kept).to.contain("Title");
+    expect(kept).to.contain("Yields rose.");
+    expect(kept).to.contain("A note");
+    expect(kept).not.to.contain("Smith");
+    expect(segments).to.have.length(sections.length + 1);
+  });
+
+  it("validates section selectors", function () {
+    expect(parseSectionSelectors(["Methods", "captions"])).to.deep.equal([
+      "methods",
+      "captions",
+    ]);
+    expect(() => parseSectionSelectors(["methodz"])).to.throw(
+      /Unknown section/,
+    );
+    expect(() => parseSectionSelectors([])).to.throw(/non-empty/);
+    expect(() => parseSectionSelectors("methods")).to.throw(/non-empty/);
+  });
+});
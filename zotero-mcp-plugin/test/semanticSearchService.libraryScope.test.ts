@@ -0,0 +1,186 @@
+/**
+ * Regression tests for library-scoped semantic search.
+ *
+ * The vector store is keyed by item key alone, so a libraryID has to
+ * narrow the scan itself. Filtering after the top-K cut returned nothing
+ * for a group library whenever the personal library ranked higher.
+ *
+ * No embeddings: the service is built around a fake vector store that
+ * scores by a fixed table, over a mock two-library Zotero.
+ */
+
+import { expect } from "chai";
+
+(globalThis as any).Zotero = {
+  ...((globalThis as any).Zotero || {}),
+  Prefs: ((globalThis as any).Zotero || {}).Prefs || {
+    get: () => undefined,
+    set: () => {},
+  },
+};
+(globalThis as any).ztoolkit = { log: () => {} };
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const semantic = require("../src/modules/semantic/semanticSearchService");
+const { SemanticSearchService } = semantic;
+
+const USER_LIBRARY = 1;
+const GROUP_LIBRARY = 5;
+
+interface MockItem {
+  id: number;
+  key: string;
+  libraryID: number;
+  itemType: string;
+  getDisplayTitle(): string;
+  getCreators(): any[];
+  getField(field: string): string;
+}
+
+function mockItem(id: number, key: string, libraryID: number): MockItem {
+  return {
+    id,
+    key,
+    libraryID,
+    itemType: "journalArticle",
+    getDisplayTitle: () => `Title ${key}`,
+    getCreators: () => [],
+    getField: () => "",
+  };
+}
+
+// The personal library's items all outrank the group's.
+const ITEMS = [
+  mockItem(1, "USER0001", USER_LIBRARY),
+  mockItem(2, "USER0002", USER_LIBRARY),
+  mockItem(3, "USER0003", USER_LIBRARY),
+  mockItem(4, "GRUP0001", GROUP_LIBRARY),
+  mockItem(5, "GRUP0002", GROUP_LIBRARY),
+];
+const SCORES: Record<string, number> = {
+  USER0001: 0.95,
+  USER0002: 0.9,
+  USER0003: 0.85,
+  GRUP0001: 0.6,
+  GRUP0002: 0.5,
+};
+
+function fakeVectorStore() {
+  const hits = (itemKeys?: string[]) =>
+    Object.keys(SCORES)
+      .filter((key) => !itemKeys || itemKeys.includes(key))
+      .map((itemKey) => ({
+        itemKey,
+        chunkId: 0,
+        chunkText: `text of ${itemKey}`,
+        score: SCORES[itemKey],
+      }))
+      .sort((a, b) => b.score - a.score);
+  return {
+    search: async (_vector: number[], options: any) =>
+      hits(options.itemKeys).slice(0, options.topK),
+    keywordSearch: async (_terms: string[], options: any) =>
+      hits(options.itemKeys).slice(0, options.topK),
+    getItemVectors: async (itemKey: string) =>
+      itemKey in SCORES ? [{ vector: [1, 0] }] : [],
+    getChunkMetadata: async () => new Map(),
+  };
+}
+
+function makeService(): any {
+  const service = Object.create(SemanticSearchService.prototype);
+  service.initialized = true;
+  service.vectorStore = fakeVectorStore();
+  service.embeddingService = {
+    embed: async () => ({ embedding: [1, 0], language: "en", dimensions: 2 }),
+    isFallbackMode: () => false,
+  };
+  return service;
+}
+
+describe("semantic search library scope", function () {
+  let originalZotero: any;
+
+  beforeEach(function () {
+    originalZotero = (globalThis as any).Zotero;
+    (globalThis as any).Zotero = {
+      ...originalZotero,
+      Libraries: { userLibraryID: USER_LIBRARY },
+      Search: class {
+        libraryID = USER_LIBRARY;
+        addCondition() {}
+        async search() {
+          return ITEMS.filter((i) => i.libraryID === this.libraryID).map(
+            (i) => i.id,
+          );
+        }
+      },
+      Collections: {
+        getByLibraryAndKeyAsync: async () => false,
+      },
+      Items: {
+        getAsync: async (ids: number[]) =>
+          ITEMS.filter((i) => ids.includes(i.id)),
+        getByLibraryAndKeyAsync: async (libraryID: number, key: string) =>
+          ITEMS.find((i) => i.libraryID === libraryID && i.key === key) ||
+          false,
+      },
+    };
+  });
+
+  afterEach(function () {
+    (globalThis as any).Zotero = originalZotero;
+  });
+
+  it("returns group hits from semantic_search when the user library outranks them", async function () {
+    const results = await makeService().search("query", {
+      topK: 2,
+      libraryID: GROUP_LIBRARY,
+    });
+    expect(results.map((r: any) => r.itemKey)).to.deep.equal([
+      "GRUP0001",
+      "GRUP0002",
+    ]);
+    expect(results[0].libraryKey).to.equal("5/GRUP0001");
+  });
+
+  it("returns group hits from hybrid_search", async function () {
+    const results = await makeService().hybridSearch("query", {
+      topK: 1,
+      libraryID: GROUP_LIBRARY,
+    });
+    expect(results.map((r: any) => r.itemKey)).to.deep.equal(["GRUP0001"]);
+  });
+
+  it("returns group hits from find_similar", async function () {
+    const results = await makeService().findSimilar("GRUP0002", {
+      topK: 1,
+      libraryID: GROUP_LIBRARY,
+    });
+    expect(results.map((r: any) => r.itemKey)).to.deep.equal(["GRUP0001"]);
+  });
+
+  it("rejects an unknown collection instead of returning nothing", async function () {
+    let thrown: any;
+    try {
+      await makeService().search("query", {
+        topK: 2,
+        libraryID: GROUP_LIBRARY,
+        filters: { collection: "NOPE0001" },
+      });
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown?.message).to.equal(
+      'Collection with key "NOPE0001" not found',
+    );
+  });
+
+  it("still searches the whole index without a libraryID", async function () {
+    const results = await makeService().search("query", { topK: 2 });
+    expect(results.map((r: any) => r.itemKey)).to.deep.equal([
+      "USER0001",
+      "USER0002",
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Regression tests for the per-library write grant parser.
+ *
+ * parseLibraryScopes is the fail-closed gate for group-library writes:
+ * anything malformed in the prefs pane must come out as "no grant".
+ *
+ * Pure-function test: only Zotero.Prefs is stubbed (serverPreferences
+ * reads it at module load).
+ */
+
+import { expect } from "chai";
+
+(globalThis as any).Zotero = {
+  ...((globalThis as any).Zotero || {}),
+  Prefs: ((globalThis as any).Zotero || {}).Prefs || {
+    get: () => undefined,
+    set: () => {},
+  },
+};
+(globalThis as any).ztoolkit = { log: () => {} };
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { parseLibraryScopes } = require("../src/modules/serverPreferences") as {
+  parseLibraryScopes: (raw: unknown) => Record<string, string[]>;
+};
+
+describe("parseLibraryScopes", function () {
+  it("parses per-library scope lists", function () {
+    expect(parseLibraryScopes('{"2": ["notes", "tags"]}')).to.deep.equal({
+      "2": ["notes", "tags"],
+    });
+  });
+
+  it("expands the * wildcard to every scope", function () {
+    const out = parseLibraryScopes('{"5": ["*"]}');
+    expect(out["5"]).to.include.members([
+      "notes",
+      "tags",
+      "collections",
+      "metadata",
+      "delete",
+      "bulk",
+      "import",
+      "index",
+      "annotations",
+      "merge",
+    ]);
+  });
+
+  it("drops unknown scopes and non-numeric library ids", function () {
+    expect(
+      parseLibraryScopes('{"2": ["notes", "everything"], "abc": ["tags"]}'),
+    ).to.deep.equal({ "2": ["notes"] });
+  });
+
+  it("fails closed on malformed input", function () {
+    expect(parseLibraryScopes("{not json")).to.deep.equal({});
+    expect(parseLibraryScopes('["notes"]')).to.deep.equal({});
+    expect(parseLibraryScopes(undefined)).to.deep.equal({});
+    expect(parseLibraryScopes("")).to.deep.equal({});
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Regression tests for request cancellation checkpoints.
+ *
+ * A checkpoint must be a no-op without a signal (every handler is also
+ * called from code paths that never cancel) and must carry the client's
+ * reason into the -32800 error message.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import { expect } from "chai";
+import {
+  RequestCancelledError,
+  throwIfCancelled,
+} from "../src/modules/taskControl";
+
+describe("task control", function () {
+  it("passes when there is no signal or it is not aborted", function () {
+    expect(() => throwIfCancelled()).not.to.throw();
+    expect(() => throwIfCancelled(new AbortController().signal)).not.to.throw();
+  });
+
+  it("throws RequestCancelledError carrying the abort reason", function () {
+    const controller = new AbortController();
+    controller.abort("user pressed stop");
+    expect(() => throwIfCancelled(controller.signal))
+      .to.throw(RequestCancelledError)
+      .with.property("message", "Request cancelled: user pressed stop");
+  });
+
+  it("omits the reason when none was given", function () {
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => throwIfCancelled(controller.signal)).to.throw(
+      /^Request cancelled$/,
+    );
+  });
+});
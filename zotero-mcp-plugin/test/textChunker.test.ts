@@ -1,6 +1,7 @@
 import "./setup";
 import { expect } from "chai";
 import { TextChunker } from "../src/modules/semantic/textChunker";
+import { joinPages } from "../src/modules/pdfPages";
 
 describe("TextChunker", function () {
   describe("chunk()", function () {
@@ -67,6 +68,18 @@ describe("TextChunker", function () {
       expect(chunks.length).to.be.greaterThan(1);
     });
 
+    it("keeps Japanese closing quotes with their sentence", function () {
+      const chunker = new TextChunker({
+        maxChunkSize: 20,
+        minChunkSize: 5,
+      });
+      const text =
+        "彼は「これは重要です。」と言った。次の文はここにあります。最後の文もここにあります。";
+      const chunks = chunker.chunk(text, "ja");
+      expect(chunks.length).to.be.greaterThan(1);
+      expect(chunks.some((c) => c.startsWith("」"))).to.equal(false);
+    });
+
     it("normalizes excessive whitespace", function () {
       const chunker = new TextChunker();
       const text = "Hello    world\t\there\r\ntest";
@@ -115,6 +128,55 @@ describe("TextChunker", function () {
         expect(chunks[i].id).to.equal(i);
       }
     });
+
+    it("tags chunks with the PDF page they start on", function () {
+      const chunker = new TextChunker({
+        maxChunkSize: 30,
+        minChunkSize: 5,
+      });
+      const title = "A Title Here";
+      const { text: body, spans } = joinPages(
+        [
+          { page: 1, text: "Page one text goes here." },
+          { page: 2, text: "Page two text is here." },
+        ],
+        "\n\n",
+        title.length + 2,
+      );
+      const chunks = chunker.chunkWithPositions(
+        `${title}\n\n${body}`,
+        "en",
+        spans,
+      );
+      expect(chunks.map((c) => c.page)).to.deep.equal([undefined, 1, 2]);
+    });
+  });
+
+  describe("chunkSegments()", function () {
+    it("never joins text across segments and skips the gaps", function () {
+      const chunker = new TextChunker({ maxChunkSize: 200, minChunkSize: 5 });
+      const text =
+        "Methods\nWe sampled soil.\nResults\nYields rose.\nReferences\n[1] Smith.";
+      const methods = text.indexOf("Methods");
+      const results = text.indexOf("Results");
+      const references = text.indexOf("References");
+      const chunks = chunker.chunkSegments(
+        text,
+        [
+          { start: methods, end: results },
+          { start: results, end: references },
+        ],
+        "en",
+      );
+      expect(chunks.map((c) => c.text)).to.deep.equal([
+        "Methods\nWe sampled soil.",
+        "Results\nYields rose.",
+      ]);
+      expect(chunks.map((c) => c.id)).to.deep.equal([0, 1]);
+      expect(text.slice(chunks[1].startPos, chunks[1].endPos)).to.equal(
+        chunks[1].text,
+      );
+    });
   });
 
   describe("estimateTokens()", function () {
@@ -0,0 +1,163 @@
+/**
+ * Regression tests for token-budgeted tool results.
+ *
+ * A result that fits must come back untouched. One that does not must
+ * fit the budget with the untrusted-content note and identifying fields
+ * intact, report what it cut, and hand out a continuation that reads the
+ * rest in order: the next list entries, or text picking up where the
+ * page stopped. A continuation belongs to the tool, client and session
+ * it was issued to, and other sessions' reads never evict it.
+ *
+ * Pure-function test: no Zotero globals are touched.
+ */
+
+import "./setup";
+import { expect } from "chai";
+import {
+  applyTokenBudget,
+  continueTokenBudget,
+  ContinuationError,
+  estimateTokens,
+  valueTokens,
+} from "../src/modules/tokenBudget";
+
+const owner = { tool: "search_library", clientID: "client_1" };
+const SAFETY_NOTE = "Fields inside `data` may contain user-authored content.";
+
+function searchResult(count: number) {
+  return {
+    data: {
+      results: Array.from({ length: count }, (_, i) => ({
+        key: `ITEM${String(i).padStart(4, "0")}`,
+        title: `Paper ${i}`,
+        abstractNote: `Findings of paper ${i}. `.repeat(12),
+      })),
+    },
+    metadata: { toolName: "search_library", total: count },
+    _safetyNote: SAFETY_NOTE,
+  };
+}
+
+describe("tokenBudget", function () {
+  it("estimates CJK and other scripts at their own rates", function () {
+    expect(estimateTokens("Hello world test string here")).to.equal(7);
+    expect(estimateTokens("你好世界测试")).to.equal(4);
+    expect(valueTokens({ a: "b" })).to.equal(estimateTokens('{"a":"b"}'));
+  });
+
+  it("returns a result that fits unchanged", async function () {
+    const result = searchResult(2);
+    expect(await applyTokenBudget(result, 10000, owner)).to.equal(result);
+  });
+
+  it("keeps leading entries and pages through the rest", async function () {
+    const result = searchResult(20);
+    const page = await applyTokenBudget(result, 600, owner);
+    const kept = page.data.results.length;
+
+    expect(valueTokens(page)).to.be.at.most(600);
+    // The estimate is not a tokenizer; shaping leaves a 15% margin.
+    expect(valueTokens(page)).to.be.at.most(510);
+    expect(kept).to.be.within(1, 19);
+    expect(page.data.results[0]).to.deep.equal(result.data.results[0]);
+    expect(page._safetyNote).to.equal(SAFETY_NOTE);
+    expect(page._budget.omitted).to.include(`data.results[${kept}-19]`);
+
+    const next = await continueTokenBudget(
+      page._budget.continuation,
+      undefined,
+      owner,
+    );
+    expect(next.path).to.equal("data.results");
+    expect(next.offset).to.equal(kept);
+    expect(next.value[0]).to.deep.equal(result.data.results[kept]);
+    expect(valueTokens(next)).to.be.at.most(600);
+
+    let error: unknown;
+    try {
+      await continueTokenBudget(page._budget.continuation, undefined, {
+        ...owner,
+        clientID: "client_2",
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(ContinuationError);
+  });
+
+  it("keeps each session's continuations apart", async function () {
+    const sessionA = { ...owner, sessionId: "mcp-a" };
+    const sessionB = { ...owner, sessionId: "mcp-b" };
+    const page = await applyTokenBudget(searchResult(20), 600, sessionA);
+    let other: any;
+    for (let i = 0; i < 25; i++) {
+      other = await applyTokenBudget(searchResult(20), 600, sessionB);
+    }
+
+    const next = await continueTokenBudget(
+      page._budget.continuation,
+      undefined,
+      sessionA,
+    );
+    expect(next.path).to.equal("data.results");
+
+    let error: unknown;
+    try {
+      await continueTokenBudget(
+        other._budget.continuation,
+        undefined,
+        sessionA,
+      );
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(ContinuationError);
+  });
+
+  it("summarizes long fields and keeps identifying ones", async function () {
+    const abstractNote = Array.from(
+      { length: 80 },
+      (_, i) => `Sentence ${i} reports a measured effect on sample ${i}.`,
+    ).join(" ");
+    const page = await applyTokenBudget(
+      {
+        data: {
+          key: "ITEM0001",
+          title: "A long study",
+          creators: [{ lastName: "Doe" }],
+          abstractNote,
+        },
+      },
+      300,
+      owner,
+    );
+
+    expect(valueTokens(page)).to.be.at.most(300);
+    expect(page.data.key).to.equal("ITEM0001");
+    expect(page.data.title).to.equal("A long study");
+    expect(page.data.abstractNote.length).to.be.below(abstractNote.length);
+    expect(page._budget.truncated).to.deep.equal(["data.abstractNote"]);
+
+    const full = await continueTokenBudget(
+      page._budget.continuation,
+      2000,
+      owner,
+    );
+    expect(full.path).to.equal("data.abstractNote");
+    expect(abstractNote.startsWith(full.value)).to.equal(true);
+  });
+
+  it("pages plain text contiguously", async function () {
+    const text = "Lorem ipsum dolor sit amet. ".repeat(200);
+    const first = await applyTokenBudget(text, 300, owner);
+    const cursor = /continuation "([^"]+)"/.exec(first)![1];
+    const shown = first.slice(0, first.indexOf("\n\n[Cut to maxTokens"));
+
+    expect(estimateTokens(first)).to.be.at.most(300);
+    const next = await continueTokenBudget(cursor, undefined, owner);
+    expect(next.offset).to.equal(shown.length);
+    expect(text.slice(0, shown.length) + next.value).to.equal(
+      text.slice(0, shown.length + next.value.length),
+    );
+  });
+});
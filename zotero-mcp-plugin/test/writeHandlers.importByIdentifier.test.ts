@@ -0,0 +1,347 @@
+/**
+ * Regression tests for import_by_identifier.
+ *
+ * Pins identifier recognition (DOI/arXiv URLs, ISBN checksums, prefixed
+ * PMIDs) and the handler's dedup contract: an item that already carries
+ * the identifier is returned and filed instead of re-imported, unless
+ * ifExists says otherwise, and dryRun never reaches the translator.
+ * ifExists "replace" trashes the old items only once the translator has
+ * saved their replacement.
+ *
+ * No network: Zotero.Translate.Search is stubbed per-test with a fake
+ * translator that "saves" canned metadata into a mock library.
+ */
+
+import { expect } from "chai";
+
+// Module-load-time stub, as in writeHandlers.dedup.test.ts: just enough
+// for the require below. Per-test globals are installed in beforeEach.
+(globalThis as any).Zotero = {
+  ...((globalThis as any).Zotero || {}),
+  Prefs: ((globalThis as any).Zotero || {}).Prefs || {
+    get: () => undefined,
+    set: () => {},
+  },
+};
+(globalThis as any).ztoolkit = { log: () => {} };
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const writeHandlers = require("../src/modules/writeHandlers");
+const { handleImportByIdentifier } = writeHandlers as {
+  handleImportByIdentifier: (args: Record<string, any>) => Promise<any>;
+};
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const identifiers = require("../src/modules/identifiers");
+const { parseIdentifier } = identifiers as {
+  parseIdentifier: (
+    value: string,
+    type?: string,
+  ) => { type: string; value: string } | null;
+};
+
+interface MockItem {
+  id: number;
+  key: string;
+  itemType: string;
+  deleted: boolean;
+  dateAdded: string;
+  fields: Record<string, string>;
+  collections: string[];
+  isRegularItem: () => boolean;
+  getField: (name: string) => string;
+  addToCollection: (key: string) => void;
+  save: () => Promise<void>;
+  saveTx: () => Promise<void>;
+}
+
+let library: MockItem[] = [];
+let translatorCalls: Array<{ identifier: any; options: any }> = [];
+let translatorResult: Record<string, string> | null = null;
+let transactions = 0;
+
+function mockItem(id: number, key: string, fields: Record<string, string>) {
+  const item: MockItem = {
+    id,
+    key,
+    itemType: "journalArticle",
+    deleted: false,
+    dateAdded: "2026-05-01 10:00:00",
+    fields,
+    collections: [],
+    isRegularItem: () => true,
+    getField: (name) => item.fields[name] ?? "",
+    addToCollection: (collectionKey) => item.collections.push(collectionKey),
+    save: async () => {},
+    saveTx: async () => {},
+  };
+  library.push(item);
+  return item;
+}
+
+class MockSearch {
+  libraryID = 0;
+  private conditions: Array<[string, string, string]> = [];
+  addCondition(field: string, operator: string, value: string) {
+    this.conditions.push([field, operator, value]);
+  }
+  async search() {
+    return library
+      .filter((item) =>
+        this.conditions.every(([field, operator, value]) =>
+          operator === "is"
+            ? item.getField(field) === value
+            : item.getField(field).includes(value),
+        ),
+      )
+      .map((item) => item.id);
+  }
+}
+
+class MockTranslateSearch {
+  private identifier: any;
+  setIdentifier(identifier: any) {
+    this.identifier = identifier;
+  }
+  async getTranslators() {
+    return [{ label: "Stub translator" }];
+  }
+  setTranslator() {}
+  async translate(options: any) {
+    translatorCalls.push({ identifier: this.identifier, options });
+    if (!translatorResult) return [];
+    const item = mockItem(100 + library.length, "NEWITEM1", {
+      ...translatorResult,
+    });
+    item.collections.push(...options.collections.map(String));
+    return [item];
+  }
+}
+
+const collection = {
+  id: 7,
+  key: "COLLAAAA",
+  name: "Reading list",
+  hasItem: (id: number) =>
+    library.some((item) => item.id === id && item.collections.length > 0),
+};
+
+describe("import_by_identifier", function () {
+  describe("parseIdentifier", function () {
+    it("recognizes DOIs and arXiv IDs in URL and prefixed forms", function () {
+      expect(parseIdentifier("https://doi.org/10.1038/nature14539")).to.eql({
+        type: "doi",
+        value: "10.1038/nature14539",
+      });
+      expect(parseIdentifier("doi: 10.1145/3292500.3330701")).to.eql({
+        type: "doi",
+        value: "10.1145/3292500.3330701",
+      });
+      expect(parseIdentifier("arXiv:1706.03762v5")).to.eql({
+        type: "arxiv",
+        value: "1706.03762",
+      });
+      expect(parseIdentifier("https://arxiv.org/abs/hep-th/9901001")).to.eql({
+        type: "arxiv",
+        value: "hep-th/9901001",
+      });
+    });
+
+    it("accepts ISBNs only with a valid checksum", function () {
+      expect(parseIdentifier("978-0-262-03384-8")).to.eql({
+        type: "isbn",
+        value: "9780262033848",
+      });
+      expect(parseIdentifier("ISBN 0-306-40615-2")).to.eql({
+        type: "isbn",
+        value: "0306406152",
+      });
+      expect(parseIdentifier("978-0-262-03384-9")).to.equal(null);
+    });
+
+    it("recognizes PMIDs and honours an explicit type", function () {
+      expect(parseIdentifier("PMID: 26017442")).to.eql({
+        type: "pmid",
+        value: "26017442",
+      });
+      expect(parseIdentifier("26017442", "isbn")).to.equal(null);
+      expect(parseIdentifier("not an identifier")).to.equal(null);
+    });
+  });
+
+  describe("handleImportByIdentifier", function () {
+    const saved: Record<string, any> = {};
+
+    beforeEach(function () {
+      library = [];
+      translatorCalls = [];
+      transactions = 0;
+      translatorResult = {
+        title: "Deep learning",
+        DOI: "10.1038/nature14539",
+      };
+      const Zotero = (globalThis as any).Zotero;
+      for (const name of [
+        "Prefs",
+        "Libraries",
+        "Search",
+        "Items",
+        "Collections",
+        "Translate",
+        "DB",
+      ]) {
+        saved[name] = Zotero[name];
+      }
+      Zotero.Prefs = {
+        get: (name: string) =>
+          /\.mcp\.write\.(import|collections|delete)$/.test(name)
+            ? true
+            : undefined,
+        set: () => {},
+      };
+      Zotero.Libraries = { userLibraryID: 1, get: () => ({ editable: true }) };
+      Zotero.Search = MockSearch;
+      Zotero.Items = {
+        getAsync: async (ids: number[]) =>
+          library.filter((item) => ids.includes(item.id)),
+      };
+      Zotero.Collections = {
+        getByLibraryAndKey: (_libraryID: number, key: string) =>
+          key === collection.key ? collection : false,
+      };
+      Zotero.Translate = { Search: MockTranslateSearch };
+      Zotero.DB = {
+        executeTransaction: async (fn: () => Promise<void>) => {
+          transactions++;
+          await fn();
+        },
+      };
+    });
+
+    afterEach(function () {
+      Object.assign((globalThis as any).Zotero, saved);
+    });
+
+    it("imports through the translator into the collection", async function () {
+      const result = await handleImportByIdentifier({
+        identifier: "https://doi.org/10.1038/nature14539",
+        collectionKey: "COLLAAAA",
+      });
+      expect(translatorCalls).to.have.lengthOf(1);
+      expect(translatorCalls[0].identifier).to.eql({
+        DOI: "10.1038/nature14539",
+      });
+      expect(translatorCalls[0].options).to.include({
+        libraryID: 1,
+        saveAttachments: false,
+      });
+      expect(translatorCalls[0].options.collections).to.eql([7]);
+      expect(result.itemKey).to.equal("NEWITEM1");
+      expect(result.details).to.include({
+        decision: "create",
+        identifierType: "doi",
+        title: "Deep learning",
+      });
+      expect(result.details.attachment).to.equal(null);
+    });
+
+    it("returns and files an existing item instead of duplicating it", async function () {
+      const existing = mockItem(1, "EXIST111", {
+        title: "Deep learning",
+        DOI: "10.1038/nature14539",
+      });
+      const result = await handleImportByIdentifier({
+        identifier: "10.1038/nature14539",
+        collectionKey: "COLLAAAA",
+      });
+      expect(translatorCalls).to.have.lengthOf(0);
+      expect(result.itemKey).to.equal("EXIST111");
+      expect(result.details).to.include({
+        skipped: true,
+        decision: "skip",
+        addedToCollection: true,
+      });
+      expect(existing.collections).to.eql(["COLLAAAA"]);
+
+      const added = await handleImportByIdentifier({
+        identifier: "10.1038/nature14539",
+        ifExists: "add",
+      });
+      expect(added.details.decision).to.equal("create");
+      expect(translatorCalls).to.have.lengthOf(1);
+    });
+
+    it("trashes the replaced items only after the import succeeds", async function () {
+      const existing = [
+        mockItem(1, "EXIST111", { DOI: "10.1038/nature14539" }),
+        mockItem(2, "EXIST222", { DOI: "10.1038/nature14539" }),
+      ];
+
+      translatorResult = null;
+      let error: any;
+      try {
+        await handleImportByIdentifier({
+          identifier: "10.1038/nature14539",
+          ifExists: "replace",
+        });
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.match(/^No metadata found/);
+      expect(existing.map((item) => item.deleted)).to.eql([false, false]);
+
+      translatorResult = { title: "Deep learning", DOI: "10.1038/nature14539" };
+      const result = await handleImportByIdentifier({
+        identifier: "10.1038/nature14539",
+        ifExists: "replace",
+      });
+      expect(result.itemKey).to.equal("NEWITEM1");
+      expect(result.details.trashedItemKeys).to.eql(["EXIST111", "EXIST222"]);
+      expect(existing.map((item) => item.deleted)).to.eql([true, true]);
+      expect(transactions).to.equal(1);
+    });
+
+    it("previews without a lookup on dryRun", async function () {
+      const result = await handleImportByIdentifier({
+        identifier: "PMID: 26017442",
+        dryRun: true,
+      });
+      expect(translatorCalls).to.have.lengthOf(0);
+      expect(result.details).to.include({
+        dryRun: true,
+        decision: "create",
+        identifierType: "pmid",
+      });
+    });
+
+    it("reports a missing open-access PDF without failing", async function () {
+      const result = await handleImportByIdentifier({
+        identifier: "10.1038/nature14539",
+        attachPDF: true,
+      });
+      expect(result.itemKey).to.equal("NEWITEM1");
+      expect(result.details.attachment).to.eql({
+        attached: false,
+        reason: "No open-access PDF found",
+      });
+    });
+
+    it("rejects unrecognized identifiers and empty lookups", async function () {
+      let error: any;
+      try {
+        await handleImportByIdentifier({ identifier: "hello" });
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.match(/not a valid DOI, ISBN, PMID or arXiv/);
+
+      translatorResult = null;
+      error = undefined;
+      try {
+        await handleImportByIdentifier({ identifier: "arXiv:1706.03762" });
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.equal("No metadata found for arXiv 1706.03762");
+    });
+  });
+});
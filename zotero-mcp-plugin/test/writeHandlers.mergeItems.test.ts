@@ -0,0 +1,147 @@
+/**
+ * Regression tests for merge_items failure handling.
+ *
+ * Zotero.Items.merge runs its own transaction, so the master's field and
+ * creator fill is saved before it; when the merge fails, the master may
+ * not be left holding the others' fields with nothing merged.
+ *
+ * Zotero.DB.executeTransaction is stubbed to roll saved fields back when
+ * its callback throws, the way SQLite does, and to reject a transaction
+ * opened inside another, which in Zotero waits on itself until it times out.
+ */
+
+import { expect } from "chai";
+
+(globalThis as any).Zotero = {
+  ...((globalThis as any).Zotero || {}),
+  Prefs: ((globalThis as any).Zotero || {}).Prefs || {
+    get: () => undefined,
+    set: () => {},
+  },
+};
+(globalThis as any).ztoolkit = { log: () => {} };
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const writeHandlers = require("../src/modules/writeHandlers");
+const { handleMergeItems } = writeHandlers as {
+  handleMergeItems: (args: Record<string, any>) => Promise<any>;
+};
+
+const FIELDS = ["title", "DOI", "date"];
+
+// Committed rows by item key; items read and write through `pending`.
+let stored: Record<string, Record<string, string>> = {};
+let pending: Record<string, Record<string, string>> | null = null;
+let mergeError: Error | null = null;
+let merged: string[] = [];
+
+function mockItem(key: string, dateAdded: string) {
+  const fields: Record<string, string> = { ...stored[key] };
+  let changed = false;
+  const item = {
+    key,
+    itemType: "journalArticle",
+    itemTypeID: 1,
+    deleted: false,
+    dateAdded,
+    isRegularItem: () => true,
+    getField: (name: string) => fields[name] || "",
+    setField: (name: string, value: string) => {
+      fields[name] = value;
+      changed = true;
+    },
+    getCreators: () => [{ lastName: "Smith" }],
+    setCreators: () => {},
+    getNotes: () => [],
+    getAttachments: () => [],
+    hasChanged: () => changed,
+    save: async () => {
+      if (!pending) throw new Error("save() outside a transaction");
+      pending[key] = { ...fields };
+      changed = false;
+    },
+    saveTx: () =>
+      (globalThis as any).Zotero.DB.executeTransaction(() => item.save()),
+  };
+  return item;
+}
+
+describe("merge_items", function () {
+  const saved: Record<string, any> = {};
+  let items: Record<string, ReturnType<typeof mockItem>>;
+
+  beforeEach(function () {
+    stored = {
+      MASTER01: { title: "Attention", DOI: "", date: "2017" },
+      DUPLIC01: { title: "Attention", DOI: "10.1000/x", date: "2017" },
+    };
+    mergeError = null;
+    merged = [];
+    items = {
+      MASTER01: mockItem("MASTER01", "2020-01-01 00:00:00"),
+      DUPLIC01: mockItem("DUPLIC01", "2021-01-01 00:00:00"),
+    };
+    const Zotero = (globalThis as any).Zotero;
+    for (const name of ["Prefs", "Libraries", "Items", "ItemFields", "DB"]) {
+      saved[name] = Zotero[name];
+    }
+    Zotero.Prefs = {
+      get: (name: string) =>
+        /\.mcp\.write\.merge$/.test(name) ? true : undefined,
+      set: () => {},
+    };
+    Zotero.Libraries = { userLibraryID: 1, get: () => ({ editable: true }) };
+    Zotero.ItemFields = {
+      getItemTypeFields: () => FIELDS.map((_, i) => i),
+      getName: (id: number) => FIELDS[id],
+    };
+    Zotero.Items = {
+      getByLibraryAndKey: (_libraryID: number, key: string) =>
+        items[key] || false,
+      merge: (master: any, others: any[]) =>
+        Zotero.DB.executeTransaction(async () => {
+          if (mergeError) throw mergeError;
+          merged.push(master.key, ...others.map((item) => item.key));
+        }),
+    };
+    Zotero.DB = {
+      executeTransaction: async (fn: () => Promise<void>) => {
+        if (pending) throw new Error("Nested transaction");
+        pending = JSON.parse(JSON.stringify(stored));
+        try {
+          await fn();
+          stored = pending!;
+        } finally {
+          pending = null;
+        }
+      },
+    };
+  });
+
+  afterEach(function () {
+    Object.assign((globalThis as any).Zotero, saved);
+  });
+
+  it("fills the master and merges without nesting transactions", async function () {
+    const result = await handleMergeItems({
+      itemKeys: ["MASTER01", "DUPLIC01"],
+    });
+    expect(result.details.filledFields).to.deep.equal(["DOI"]);
+    expect(merged).to.deep.equal(["MASTER01", "DUPLIC01"]);
+    expect(stored.MASTER01.DOI).to.equal("10.1000/x");
+  });
+
+  it("leaves the master untouched when the merge fails", async function () {
+    mergeError = new Error("merge failed");
+    let thrown: unknown;
+    try {
+      await handleMergeItems({ itemKeys: ["MASTER01", "DUPLIC01"] });
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).to.equal(mergeError);
+    expect(stored.MASTER01.DOI).to.equal("");
+    expect(items.MASTER01.getField("DOI")).to.equal("");
+    expect(items.MASTER01.hasChanged()).to.equal(false);
+  });
+});